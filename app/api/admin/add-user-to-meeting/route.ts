@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { z } from 'zod';
+import { PaymentStatus, SubscriptionStatus } from '@/lib/subscriptionStatus';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent, subscriptionSnapshot } from '@/lib/subscriptionEvents';
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES } from '@/lib/sessionSlots';
+import { getDefaultMeetingPlatform } from '@/lib/meetingPlatforms';
 
 // Schema for adding user to subscription
 const createSubscriptionSchema = z.object({
@@ -8,12 +12,14 @@ const createSubscriptionSchema = z.object({
   startDate: z.string(),
   endDate: z.string(),
   planType: z.enum(['daily', 'monthly', 'unlimited']),
-  price: z.number().min(0).optional().default(0)
+  price: z.number().min(0).optional().default(0),
+  slot: z.enum(SESSION_SLOT_VALUES).default(DEFAULT_SESSION_SLOT)
 });
 
 // Schema for checking meeting availability
 const checkMeetingSchema = z.object({
   date: z.string(), // YYYY-MM-DD format
+  slot: z.enum(SESSION_SLOT_VALUES).default(DEFAULT_SESSION_SLOT)
 });
 
 export async function POST(request: NextRequest) {
@@ -42,18 +48,20 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
-      const { date } = parsed.data;
+      const { date, slot } = parsed.data;
       
       const meeting = await prisma.meeting.findFirst({
         where: {
           meetingDate: {
             gte: new Date(`${date}T00:00:00.000Z`),
             lt: new Date(`${date}T23:59:59.999Z`)
-          }
+          },
+          slot
         },
         select: {
           id: true,
           meetingDate: true,
+          slot: true,
           platform: true,
           meetingTitle: true,
           startTime: true,
@@ -77,7 +85,7 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
-      const { userId, startDate, endDate, planType, price } = parsed.data;
+      const { userId, startDate, endDate, planType, price, slot } = parsed.data;
 
       // Verify user exists
       const user = await prisma.user.findUnique({
@@ -104,25 +112,35 @@ export async function POST(request: NextRequest) {
           planType: planType,
           startDate: new Date(startDate),
           endDate: new Date(endDate),
-          status: 'active',
-          paymentStatus: 'admin-added',
+          status: SubscriptionStatus.active,
+          paymentStatus: PaymentStatus.admin_added,
           duration: planType === 'daily' ? 1 : 
                    planType === 'monthly' ? 30 :
                    365, // unlimited gets 365 days
           price: price,
-          orderId: `admin-${Date.now()}-${userId.slice(-6)}`
+          orderId: `admin-${Date.now()}-${userId.slice(-6)}`,
+          slot
         }
       });
+      await recordSubscriptionEvent({
+        userId,
+        subscriptionId: subscription.id,
+        type: SUBSCRIPTION_EVENT_TYPES.CREATED,
+        actor: EVENT_ACTORS.ADMIN,
+        after: subscriptionSnapshot(subscription),
+        note: 'Added by admin'
+      });
 
       // Send invitation email for admin-added subscriptions
       try {
-        // Find meeting for the start date if it exists
+        // Find the slot's meeting for the start date if it exists
         const meeting = await prisma.meeting.findFirst({
           where: {
             meetingDate: {
               gte: new Date(`${startDate}T00:00:00.000Z`),
               lt: new Date(`${startDate}T23:59:59.999Z`)
-            }
+            },
+            slot
           },
           select: {
             id: true,
@@ -132,12 +150,14 @@ export async function POST(request: NextRequest) {
             meetingDesc: true,
             startTime: true,
             endTime: true,
-            meetingLink: true
+            meetingLink: true,
+            sequence: true,
+            cancelledAt: true
           }
         });
 
         // If meeting exists, send invite using .env as fallback for missing fields
-        if (meeting) {
+        if (meeting && !meeting.cancelledAt) {
           const { sendMeetingInvite } = await import('@/lib/email');
           await sendMeetingInvite({
             recipient: {
@@ -149,7 +169,10 @@ export async function POST(request: NextRequest) {
             meetingLink: meeting.meetingLink || '',
             startTime: meeting.startTime || process.env.DEFAULT_MEETING_TIME || '',
             endTime: meeting.endTime || '',
-            platform: meeting.platform || process.env.DEFAULT_MEETING_PLATFORM || 'google-meet'
+            platform: meeting.platform || getDefaultMeetingPlatform(),
+            meetingId: meeting.id,
+            userId: user.id,
+            sequence: meeting.sequence
           });
         }
       } catch (emailError) {
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAttendanceSummary, setManualAttendance } from "@/lib/attendance";
+
+// Schema for checking a member in to a session by hand
+const checkInSchema = z.object({
+  meetingId: z.string().min(1),
+  userId: z.string().min(1),
+  present: z.boolean(),
+});
+
+// A member's attendance over their sessions
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ message: "userId is required" }, { status: 400 });
+    }
+
+    const attendance = await getAttendanceSummary(userId);
+    return NextResponse.json({ attendance });
+  } catch (error) {
+    console.error("Error fetching attendance:", error);
+    return NextResponse.json({ message: "Failed to fetch attendance", error: String(error) }, { status: 500 });
+  }
+}
+
+// Check a member in to a session, or mark them absent
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = checkInSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await setManualAttendance(parsed.data);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 404 });
+    }
+    return NextResponse.json({ message: result.message, attendance: result.attendance });
+  } catch (error) {
+    console.error("Error checking in member:", error);
+    return NextResponse.json({ message: "Failed to update attendance", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { syncMeetingAttendance } from "@/lib/attendance";
+
+const syncAttendanceSchema = z.object({
+  meetingId: z.string().min(1),
+});
+
+// Take attendance for a session from its platform's participant records
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = syncAttendanceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await syncMeetingAttendance(parsed.data.meetingId);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 });
+    }
+    return NextResponse.json({ message: result.message, recorded: result.recorded, unmatched: result.unmatched });
+  } catch (error) {
+    console.error("Error syncing attendance:", error);
+    return NextResponse.json({ message: "Failed to sync attendance", error: String(error) }, { status: 500 });
+  }
+}
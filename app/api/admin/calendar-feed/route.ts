@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { getCalendarFeedUrl, resetCalendarFeedUrl } from "@/lib/calendarFeed";
+
+// Schema for replacing a member's calendar feed URL
+const resetFeedSchema = z.object({
+  userId: z.string().min(1),
+});
+
+// A member's calendar feed URL, created on first use
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ message: "userId is required" }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const url = await getCalendarFeedUrl(userId);
+    return NextResponse.json({ url });
+  } catch (error) {
+    console.error("Error fetching calendar feed URL:", error);
+    return NextResponse.json({ message: "Failed to fetch calendar feed URL", error: String(error) }, { status: 500 });
+  }
+}
+
+// Replace a member's calendar feed URL; the old one stops working
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = resetFeedSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: parsed.data.userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const url = await resetCalendarFeedUrl(parsed.data.userId);
+    return NextResponse.json({ message: "Calendar feed URL reset", url });
+  } catch (error) {
+    console.error("Error resetting calendar feed URL:", error);
+    return NextResponse.json({ message: "Failed to reset calendar feed URL", error: String(error) }, { status: 500 });
+  }
+}
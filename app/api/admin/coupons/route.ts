@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { normalizeCouponCode, COUPON_DISCOUNT_TYPES } from "@/lib/coupons";
+
+// Schema for creating coupons
+const createCouponSchema = z.object({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, - and _"),
+  description: z.string().optional(),
+  discountType: z.enum([COUPON_DISCOUNT_TYPES.PERCENTAGE, COUPON_DISCOUNT_TYPES.FLAT]),
+  discountValue: z.number().int().positive(),
+  applicablePlans: z.array(z.string().min(1)).optional().default([]),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional().default(1),
+}).refine(data => data.discountType !== COUPON_DISCOUNT_TYPES.PERCENTAGE || data.discountValue <= 100, {
+  message: "Percentage discount cannot exceed 100",
+  path: ["discountValue"]
+}).refine(data => !data.validFrom || !data.validUntil || new Date(data.validFrom) < new Date(data.validUntil), {
+  message: "validFrom must be before validUntil",
+  path: ["validUntil"]
+});
+
+// Schema for enabling / disabling coupons
+const updateCouponSchema = z.object({
+  couponId: z.string().min(1),
+  isActive: z.boolean(),
+});
+
+// List coupons with redemption counts
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const coupons = await prisma.coupon.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        redemptions: {
+          select: { status: true, discountAmount: true }
+        }
+      }
+    });
+
+    const result = coupons.map(({ redemptions, ...coupon }) => {
+      const redeemed = redemptions.filter(r => r.status === 'redeemed');
+      return {
+        ...coupon,
+        redemptionCount: redeemed.length,
+        pendingCount: redemptions.filter(r => r.status === 'pending').length,
+        totalDiscountGiven: redeemed.reduce((sum, r) => sum + r.discountAmount, 0),
+      };
+    });
+
+    return NextResponse.json({ coupons: result });
+  } catch (error) {
+    console.error("Error fetching coupons:", error);
+    return NextResponse.json({ message: "Failed to fetch coupons", error: String(error) }, { status: 500 });
+  }
+}
+
+// Create a coupon
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createCouponSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const data = parsed.data;
+    const code = normalizeCouponCode(data.code);
+
+    // Coupons can only be restricted to plans in the catalogue
+    const knownPlans = await prisma.plan.findMany({
+      where: { key: { in: data.applicablePlans } },
+      select: { key: true }
+    });
+    const unknownPlans = data.applicablePlans.filter(key => !knownPlans.some(plan => plan.key === key));
+    if (unknownPlans.length > 0) {
+      return NextResponse.json({ message: `Unknown plan(s): ${unknownPlans.join(', ')}` }, { status: 400 });
+    }
+
+    const existing = await prisma.coupon.findUnique({ where: { code } });
+    if (existing) {
+      return NextResponse.json({ message: `Coupon ${code} already exists` }, { status: 409 });
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        code,
+        description: data.description || null,
+        discountType: data.discountType,
+        discountValue: data.discountValue,
+        applicablePlans: data.applicablePlans,
+        validFrom: data.validFrom ? new Date(data.validFrom) : null,
+        validUntil: data.validUntil ? new Date(data.validUntil) : null,
+        maxRedemptions: data.maxRedemptions ?? null,
+        perUserLimit: data.perUserLimit ?? null,
+      }
+    });
+
+    return NextResponse.json({ message: "Coupon created", coupon }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating coupon:", error);
+    return NextResponse.json({ message: "Failed to create coupon", error: String(error) }, { status: 500 });
+  }
+}
+
+// Enable or disable a coupon
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = updateCouponSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id: parsed.data.couponId },
+      data: { isActive: parsed.data.isActive }
+    });
+
+    return NextResponse.json({ message: `Coupon ${coupon.isActive ? 'enabled' : 'disabled'}`, coupon });
+  } catch (error) {
+    console.error("Error updating coupon:", error);
+    return NextResponse.json({ message: "Failed to update coupon", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getPlanNames } from "@/lib/plans";
+import { createSeatClaimToken, sendGroupSeatInvites, GROUP_ORDER_STATUSES, SEAT_STATUSES } from "@/lib/groupOrders";
+
+// Schema for re-sending a seat invite, optionally to a different email
+const updateSeatSchema = z.object({
+  seatId: z.string().min(1),
+  email: z.string().trim().email().optional(),
+});
+
+// List group purchases with their seats, grouped under the purchaser
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+
+    const [groupOrders, planNames] = await Promise.all([
+      prisma.groupOrder.findMany({
+        where: status && status !== 'all' ? { status } : {},
+        orderBy: { createdAt: 'desc' },
+        include: {
+          purchaser: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+          seatList: {
+            orderBy: { seatNumber: 'asc' },
+            include: {
+              subscription: {
+                select: {
+                  id: true,
+                  status: true,
+                  paymentStatus: true,
+                  price: true,
+                  user: { select: { id: true, firstName: true, lastName: true, email: true } }
+                }
+              }
+            }
+          }
+        }
+      }),
+      getPlanNames()
+    ]);
+
+    const result = groupOrders.map(({ seatList, purchaser, ...groupOrder }) => ({
+      ...groupOrder,
+      planName: planNames[groupOrder.planType] || groupOrder.planType,
+      purchaser: {
+        ...purchaser,
+        name: `${purchaser.firstName} ${purchaser.lastName}`
+      },
+      amount: seatList.reduce((sum, seat) => sum + (seat.subscription?.price || 0), 0),
+      claimedSeats: seatList.filter(seat => seat.status === SEAT_STATUSES.CLAIMED).length,
+      seatList: seatList.map(({ claimToken, subscription, ...seat }) => ({
+        ...seat,
+        member: subscription ? {
+          userId: subscription.user.id,
+          name: `${subscription.user.firstName} ${subscription.user.lastName}`,
+          email: subscription.user.email,
+          subscriptionId: subscription.id,
+          subscriptionStatus: subscription.status,
+          paymentStatus: subscription.paymentStatus
+        } : null
+      }))
+    }));
+
+    return NextResponse.json({ groupOrders: result });
+  } catch (error) {
+    console.error("Error fetching group orders:", error);
+    return NextResponse.json({ message: "Failed to fetch group orders", error: String(error) }, { status: 500 });
+  }
+}
+
+// Re-send a seat invite; a new email reassigns the seat and voids the old link
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = updateSeatSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { seatId } = parsed.data;
+    const seat = await prisma.groupSeat.findUnique({
+      where: { id: seatId },
+      include: { groupOrder: { include: { seatList: true } } }
+    });
+    if (!seat) {
+      return NextResponse.json({ message: "Seat not found" }, { status: 404 });
+    }
+    if (seat.status !== SEAT_STATUSES.INVITED) {
+      return NextResponse.json({ message: `Seat is ${seat.status} and can no longer be reassigned` }, { status: 409 });
+    }
+    if (seat.groupOrder.status !== GROUP_ORDER_STATUSES.PAID) {
+      return NextResponse.json({ message: "Invites are only sent once the order is paid" }, { status: 409 });
+    }
+
+    const email = parsed.data.email?.toLowerCase();
+    if (email && email !== seat.email) {
+      const taken = seat.groupOrder.seatList.some(other => other.id !== seat.id && other.email === email);
+      if (taken) {
+        return NextResponse.json({ message: `${email} already holds a seat in this group` }, { status: 409 });
+      }
+      await prisma.groupSeat.update({
+        where: { id: seat.id },
+        data: { email, claimToken: createSeatClaimToken(), invitedAt: null }
+      });
+    }
+
+    const sent = await sendGroupSeatInvites(seat.groupOrderId, [seat.id]);
+    if (sent === 0) {
+      return NextResponse.json({ message: "Failed to send the invite email" }, { status: 502 });
+    }
+
+    return NextResponse.json({ message: `Invite sent to ${email || seat.email}` });
+  } catch (error) {
+    console.error("Error updating seat:", error);
+    return NextResponse.json({ message: "Failed to update seat", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createHoliday, deleteHoliday, getHolidays } from "@/lib/holidays";
+
+const dayString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected yyyy-MM-dd");
+
+// Schema for marking days without a session
+const createHolidaysSchema = z.object({
+  dates: z.array(dayString).min(1).max(366),
+  reason: z.string().trim().min(1).max(200),
+  extendSubscriptions: z.boolean().default(true),
+});
+
+// Holidays between startDate and endDate (yyyy-MM-dd, inclusive)
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const startDate = dayString.safeParse(request.nextUrl.searchParams.get("startDate"));
+    const endDate = dayString.safeParse(request.nextUrl.searchParams.get("endDate"));
+    if (!startDate.success || !endDate.success) {
+      return NextResponse.json({ message: "startDate and endDate are required (yyyy-MM-dd)" }, { status: 400 });
+    }
+
+    const holidays = await getHolidays(startDate.data, endDate.data);
+    return NextResponse.json({ holidays });
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return NextResponse.json({ message: "Failed to fetch holidays", error: String(error) }, { status: 500 });
+  }
+}
+
+// Mark one or more days as having no session
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createHolidaysSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { dates, reason, extendSubscriptions } = parsed.data;
+    const results = [];
+    for (const date of [...new Set(dates)].sort()) {
+      results.push(await createHoliday({ date, reason, extendSubscriptions }));
+    }
+
+    const created = results.filter(result => result.success);
+    const status = created.length > 0 ? 201 : 400;
+    return NextResponse.json({
+      message: results.map(result => result.message).join('; '),
+      holidays: created.map(result => result.holiday)
+    }, { status });
+  } catch (error) {
+    console.error("Error creating holidays:", error);
+    return NextResponse.json({ message: "Failed to create holidays", error: String(error) }, { status: 500 });
+  }
+}
+
+// Turn a holiday back into a session day (?id=)
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ message: "id is required" }, { status: 400 });
+    }
+
+    const result = await deleteHoliday(id);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: result.holiday ? 409 : 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return NextResponse.json({ message: "Failed to delete holiday", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { ensureOrderInvoice, getInvoiceFileName } from "@/lib/invoices";
+
+// Schema for generating an invoice for an existing paid order
+const generateInvoiceSchema = z.object({
+  orderId: z.string().min(1),
+});
+
+// Download an invoice PDF (?invoiceId=) or list a user's invoices (?userId=)
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const invoiceId = request.nextUrl.searchParams.get("invoiceId");
+    const userId = request.nextUrl.searchParams.get("userId");
+
+    if (invoiceId) {
+      const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+      if (!invoice) {
+        return NextResponse.json({ message: "Invoice not found" }, { status: 404 });
+      }
+
+      return new NextResponse(Buffer.from(invoice.pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getInvoiceFileName(invoice.invoiceNumber)}"`
+        }
+      });
+    }
+
+    if (!userId) {
+      return NextResponse.json({ message: "invoiceId or userId is required" }, { status: 400 });
+    }
+
+    // Combo plan invoices are billed to one member but listed for both
+    const subscriptions = await prisma.subscription.findMany({
+      where: { userId },
+      select: { orderId: true }
+    });
+    const orderIds = [...new Set(subscriptions.map(sub => sub.orderId))];
+
+    const invoices = await prisma.invoice.findMany({
+      where: { orderId: { in: orderIds } },
+      orderBy: { issuedAt: 'desc' },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        orderId: true,
+        customerName: true,
+        placeOfSupply: true,
+        taxableValue: true,
+        cgst: true,
+        sgst: true,
+        igst: true,
+        total: true,
+        issuedAt: true,
+      }
+    });
+
+    return NextResponse.json({ invoices });
+  } catch (error) {
+    console.error("Error fetching invoices:", error);
+    return NextResponse.json({ message: "Failed to fetch invoices", error: String(error) }, { status: 500 });
+  }
+}
+
+// Generate the invoice for a paid order that does not have one yet
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = generateInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const invoice = await ensureOrderInvoice(parsed.data.orderId);
+    if (!invoice) {
+      return NextResponse.json({ message: "Order has no paid subscriptions to invoice" }, { status: 404 });
+    }
+
+    const { pdf, ...invoiceDetails } = invoice;
+    return NextResponse.json({ message: `Invoice ${invoice.invoiceNumber} ready`, invoice: invoiceDetails });
+  } catch (error) {
+    console.error("Error generating invoice:", error);
+    return NextResponse.json({ message: "Failed to generate invoice", error: String(error) }, { status: 500 });
+  }
+}
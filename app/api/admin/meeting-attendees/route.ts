@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "../../../../lib/prisma";
+import { removeUsersFromMeeting } from "../../../../lib/meetingLink";
+import { EVENT_ACTORS } from "../../../../lib/subscriptionEvents";
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,6 +37,9 @@ export async function GET(request: NextRequest) {
             phone: true,
             createdAt: true
           }
+        },
+        attendances: {
+          select: { userId: true, source: true }
         }
       }
     });
@@ -43,7 +48,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ message: "Meeting not found" }, { status: 404 });
     }
 
-    // Format attendee data
+    // Format attendee data with whether each member was checked in
+    const attendanceByUser = new Map(meeting.attendances.map(attendance => [attendance.userId, attendance.source]));
     const attendees = meeting.users.map((user: any) => ({
       id: user.id,
       name: user.firstName && user.lastName 
@@ -51,7 +57,9 @@ export async function GET(request: NextRequest) {
         : user.firstName || user.email.split('@')[0],
       email: user.email,
       phone: user.phone,
-      registeredDate: user.createdAt.toISOString().split('T')[0]
+      registeredDate: user.createdAt.toISOString().split('T')[0],
+      present: attendanceByUser.has(user.id),
+      attendanceSource: attendanceByUser.get(user.id) || null
     }));
 
     return NextResponse.json({
@@ -59,6 +67,7 @@ export async function GET(request: NextRequest) {
       meetingTitle: meeting.meetingTitle,
       meetingDate: meeting.meetingDate.toISOString().split('T')[0],
       attendeeCount: attendees.length,
+      attendanceTakenAt: meeting.attendanceTakenAt,
       attendees: attendees
     });
 
@@ -70,3 +79,43 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * DELETE removes a member from a meeting (?meetingId=&userId=), both in the
+ * database and on the Google Calendar event or Zoom meeting
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const meetingId = request.nextUrl.searchParams.get("meetingId");
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!meetingId || !userId) {
+      return NextResponse.json({ message: "meetingId and userId are required" }, { status: 400 });
+    }
+
+    const result = await removeUsersFromMeeting({
+      meetingId,
+      userIds: [userId],
+      actor: EVENT_ACTORS.ADMIN,
+      note: 'Removed by admin'
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error removing meeting attendee:", error);
+    return NextResponse.json({ message: "Failed to remove attendee", error: String(error) }, { status: 500 });
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "../../../../lib/prisma";
 import { z } from "zod";
-import { manageMeeting } from '../../../../lib/meetingLink';
+import { cancelMeeting, manageMeeting, rescheduleMeeting } from '../../../../lib/meetingLink';
+import { notPausedOn } from '../../../../lib/pauses';
+import { LIVE_SUBSCRIPTION_STATUSES } from '../../../../lib/subscriptionStatus';
+import { EVENT_ACTORS } from '../../../../lib/subscriptionEvents';
+import { getHolidays } from '../../../../lib/holidays';
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES } from '../../../../lib/sessionSlots';
+import { MEETING_PLATFORM_VALUES } from '../../../../lib/meetingPlatforms';
 import { addDays, format, parseISO } from 'date-fns';
 
 // Schema for creating meetings
@@ -11,9 +17,11 @@ const createMeetingSchema = z.object({
     startDate: z.string(),
     endDate: z.string()
   }).optional(),
-  platform: z.enum(["google-meet", "zoom"]),
+  platform: z.enum(MEETING_PLATFORM_VALUES),
+  slot: z.enum(SESSION_SLOT_VALUES).optional().default(DEFAULT_SESSION_SLOT), // Session of the day
   startTime: z.string(), // Format: "HH:MM" in 24-hour format
   duration: z.number().min(15).max(240), // Duration in minutes
+  capacity: z.number().int().positive().optional(), // Maximum attendees; defaults to the slot's capacity
   meetingTitle: z.string().optional(),
   meetingDesc: z.string().optional(),
   addActiveUsers: z.boolean().optional().default(true), // Whether to automatically add active users
@@ -25,7 +33,15 @@ const createMeetingSchema = z.object({
 const getMeetingsSchema = z.object({
   startDate: z.string().optional(), // ISO date string
   endDate: z.string().optional(), // ISO date string
-  platform: z.enum(["google-meet", "zoom", "all"]).optional().default("all"),
+  platform: z.enum([...MEETING_PLATFORM_VALUES, "all"]).optional().default("all"),
+});
+
+// Schema for rescheduling a meeting
+const rescheduleMeetingSchema = z.object({
+  meetingId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(), // Defaults to the meeting's day
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Use HH:MM"), // 24-hour format, IST
+  duration: z.number().min(15).max(240).optional(), // Defaults to the current length
 });
 
 export async function POST(request: NextRequest) {
@@ -53,7 +69,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const { platform, startTime, duration, meetingTitle, meetingDesc, addActiveUsers } = parsed.data;
+    const { platform, slot, startTime, duration, capacity, meetingTitle, meetingDesc, addActiveUsers } = parsed.data;
     let dates: string[] = [];
 
     // Handle either individual dates or date range
@@ -64,10 +80,14 @@ export async function POST(request: NextRequest) {
       const start = parseISO(startDate);
       const end = parseISO(endDate);
       
-      // Generate dates array for the range
+      // Generate dates array for the range, skipping days without a session
+      const holidayDates = new Set((await getHolidays(startDate, endDate)).map(holiday => holiday.date));
       let currentDate = start;
       while (currentDate <= end) {
-        dates.push(format(currentDate, 'yyyy-MM-dd'));
+        const dateStr = format(currentDate, 'yyyy-MM-dd');
+        if (!holidayDates.has(dateStr)) {
+          dates.push(dateStr);
+        }
         currentDate = addDays(currentDate, 1);
       }
     }
@@ -84,13 +104,16 @@ export async function POST(request: NextRequest) {
       let meeting;
       
       if (addActiveUsers) {
-        // Get active users for this specific date
+        // Get active users of the slot for this specific date; a plan paused
+        // today still counts on a later date its pause does not cover
         const dateObj = parseISO(dateStr);
         const activeSubscriptions = await prisma.subscription.findMany({
           where: {
-            status: 'active',
+            status: { in: LIVE_SUBSCRIPTION_STATUSES },
+            slot,
             startDate: { lte: dateObj },
-            endDate: { gte: dateObj }
+            endDate: { gte: dateObj },
+            ...notPausedOn(dateObj)
           },
           select: { userId: true }
         });
@@ -102,23 +125,28 @@ export async function POST(request: NextRequest) {
           console.log(`Creating meeting for ${dateStr} and adding ${userIds.length} active users`);
           meeting = await manageMeeting({
             date: dateStr,
+            slot,
             platform,
             startTime,
             duration,
+            capacity,
             meetingTitle,
             meetingDesc,
             userIds,
             operation: 'create',
-            syncFromCalendar: false
+            syncFromCalendar: false,
+            actor: EVENT_ACTORS.ADMIN
           });
         } else {
           // No active users for this date, create meeting without users
           console.log(`Creating meeting for ${dateStr} without users (no active subscriptions)`);
           meeting = await manageMeeting({
             date: dateStr,
+            slot,
             platform,
             startTime,
             duration,
+            capacity,
             meetingTitle,
             meetingDesc,
             operation: 'create',
@@ -130,9 +158,11 @@ export async function POST(request: NextRequest) {
         console.log(`Creating admin-only meeting for ${dateStr}`);
         meeting = await manageMeeting({
           date: dateStr,
+          slot,
           platform,
           startTime,
           duration,
+          capacity,
           meetingTitle,
           meetingDesc,
           operation: 'create',
@@ -197,9 +227,10 @@ export async function GET(request: NextRequest) {
     // Get the meetings
     const meetings = await prisma.meeting.findMany({
       where,
-      orderBy: {
-        meetingDate: 'asc'
-      }
+      orderBy: [
+        { meetingDate: 'asc' },
+        { startTime: 'asc' }
+      ]
     });
     
     // Return meetings with UTC timestamps - frontend will convert to IST for display
@@ -216,3 +247,73 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ message: "Internal server error" }, { status: 500 });
   }
 }
+
+/**
+ * PATCH moves a meeting to a new time (and optionally day) and emails its
+ * attendees the change
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = rescheduleMeetingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await rescheduleMeeting(parsed.data);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: result.meeting ? 409 : 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error rescheduling meeting:", error);
+    return NextResponse.json({ message: "Failed to reschedule meeting", error: String(error) }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE cancels a meeting (?id=&reason=) and emails its attendees. The
+ * meeting row is kept, marked cancelled.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ message: "id is required" }, { status: 400 });
+    }
+    const reason = request.nextUrl.searchParams.get("reason")?.trim() || undefined;
+
+    const result = await cancelMeeting({ meetingId: id, reason });
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: result.meeting ? 409 : 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error cancelling meeting:", error);
+    return NextResponse.json({ message: "Failed to cancel meeting", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getPauseAllowance, pauseSubscription, resumeSubscription } from "@/lib/pauses";
+
+// Schema for pausing a subscription
+const pauseSchema = z.object({
+  subscriptionId: z.string().min(1),
+  startDate: z.string().refine(value => !isNaN(Date.parse(value)), "Invalid start date"),
+  days: z.number().int().positive().max(366),
+  reason: z.string().trim().min(1).max(500),
+});
+
+// Schema for resuming a paused subscription
+const resumeSchema = z.object({
+  pauseId: z.string().min(1),
+});
+
+// Pause allowance and pause history of a subscription
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const subscriptionId = request.nextUrl.searchParams.get("subscriptionId");
+    if (!subscriptionId) {
+      return NextResponse.json({ message: "subscriptionId is required" }, { status: 400 });
+    }
+
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription) {
+      return NextResponse.json({ message: "Subscription not found" }, { status: 404 });
+    }
+
+    const allowance = await getPauseAllowance(subscription);
+    return NextResponse.json({ subscriptionId, ...allowance });
+  } catch (error) {
+    console.error("Error fetching subscription pauses:", error);
+    return NextResponse.json({ message: "Failed to fetch subscription pauses", error: String(error) }, { status: 500 });
+  }
+}
+
+// Pause a subscription and extend its end date
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = pauseSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { subscriptionId, startDate, days, reason } = parsed.data;
+    const result = await pauseSubscription({ subscriptionId, startDate: new Date(startDate), days, reason });
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 });
+    }
+
+    console.log(`Paused subscription ${subscriptionId} for ${days} day(s), removed from ${result.meetingsUpdated} meeting(s)`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error pausing subscription:", error);
+    return NextResponse.json({ message: "Failed to pause subscription", error: String(error) }, { status: 500 });
+  }
+}
+
+// End a pause early, or cancel one that has not started
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = resumeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await resumeSubscription(parsed.data.pauseId);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error resuming subscription:", error);
+    return NextResponse.json({ message: "Failed to resume subscription", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getPlanCatalog } from "@/lib/plans";
+import { MAX_PLAN_SEATS } from "@/lib/pricing";
+
+// Fields shared by plan creation and updates
+const planFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().min(1),
+  duration: z.number().int().positive().max(366),
+  seats: z.number().int().min(1).max(MAX_PLAN_SEATS),
+  maxPauseDays: z.number().int().min(0).max(366),
+  isActive: z.boolean(),
+  displayOrder: z.number().int(),
+  availableFrom: z.string().nullable(),
+  availableUntil: z.string().nullable(),
+});
+
+// Schema for creating plans
+const createPlanSchema = planFieldsSchema.partial({
+  seats: true,
+  maxPauseDays: true,
+  isActive: true,
+  displayOrder: true,
+  availableFrom: true,
+  availableUntil: true,
+}).extend({
+  key: z.string().trim().min(2).max(32).regex(/^[A-Za-z][A-Za-z0-9_-]*$/, "Key must start with a letter and may only contain letters, numbers, - and _"),
+  amount: z.number().int().positive(),
+}).refine(data => !data.availableFrom || !data.availableUntil || new Date(data.availableFrom) < new Date(data.availableUntil), {
+  message: "availableFrom must be before availableUntil",
+  path: ["availableUntil"]
+});
+
+// Schema for updating plans; a new amount is added as a new price version
+const updatePlanSchema = planFieldsSchema.partial().extend({
+  planId: z.string().min(1),
+  amount: z.number().int().positive().optional(),
+  priceEffectiveFrom: z.string().optional(),
+}).refine(data => !data.availableFrom || !data.availableUntil || new Date(data.availableFrom) < new Date(data.availableUntil), {
+  message: "availableFrom must be before availableUntil",
+  path: ["availableUntil"]
+});
+
+const toDate = (value: string | null | undefined) =>
+  value === undefined ? undefined : value === null ? null : new Date(value);
+
+// List all plans with their current price and price history
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const [catalog, plans] = await Promise.all([
+      getPlanCatalog({ includeUnavailable: true }),
+      prisma.plan.findMany({
+        orderBy: [{ displayOrder: 'asc' }, { createdAt: 'asc' }],
+        include: {
+          prices: {
+            orderBy: { effectiveFrom: 'desc' },
+            include: { _count: { select: { subscriptions: true } } }
+          }
+        }
+      })
+    ]);
+    const currentById = new Map(catalog.map(plan => [plan.id, plan]));
+
+    const result = plans.map(({ prices, ...plan }) => {
+      const current = currentById.get(plan.id);
+      return {
+        ...plan,
+        amount: current?.amount ?? null,
+        currentPriceId: current?.priceId ?? null,
+        nextPrice: current?.nextPrice ?? null,
+        subscriptionCount: prices.reduce((sum, price) => sum + price._count.subscriptions, 0),
+        prices: prices.map(({ _count, ...price }) => ({ ...price, subscriptionCount: _count.subscriptions })),
+      };
+    });
+
+    return NextResponse.json({ plans: result });
+  } catch (error) {
+    console.error("Error fetching plans:", error);
+    return NextResponse.json({ message: "Failed to fetch plans", error: String(error) }, { status: 500 });
+  }
+}
+
+// Create a plan with its initial price
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createPlanSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const data = parsed.data;
+    const existing = await prisma.plan.findUnique({ where: { key: data.key } });
+    if (existing) {
+      return NextResponse.json({ message: `Plan ${data.key} already exists` }, { status: 409 });
+    }
+
+    const plan = await prisma.plan.create({
+      data: {
+        key: data.key,
+        name: data.name,
+        description: data.description,
+        duration: data.duration,
+        seats: data.seats ?? 1,
+        maxPauseDays: data.maxPauseDays ?? 0,
+        isActive: data.isActive ?? true,
+        displayOrder: data.displayOrder ?? 0,
+        availableFrom: toDate(data.availableFrom) ?? null,
+        availableUntil: toDate(data.availableUntil) ?? null,
+        prices: { create: { amount: data.amount } }
+      },
+      include: { prices: true }
+    });
+
+    return NextResponse.json({ message: "Plan created", plan }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating plan:", error);
+    return NextResponse.json({ message: "Failed to create plan", error: String(error) }, { status: 500 });
+  }
+}
+
+// Update a plan; price changes are recorded as a new price version
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = updatePlanSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { planId, amount, priceEffectiveFrom, availableFrom, availableUntil, ...fields } = parsed.data;
+    const existing = await prisma.plan.findUnique({ where: { id: planId } });
+    if (!existing) {
+      return NextResponse.json({ message: "Plan not found" }, { status: 404 });
+    }
+
+    const plan = await prisma.plan.update({
+      where: { id: planId },
+      data: {
+        ...fields,
+        availableFrom: toDate(availableFrom),
+        availableUntil: toDate(availableUntil),
+        ...(amount !== undefined ? {
+          prices: {
+            create: {
+              amount,
+              effectiveFrom: priceEffectiveFrom ? new Date(priceEffectiveFrom) : new Date()
+            }
+          }
+        } : {})
+      },
+      include: { prices: { orderBy: { effectiveFrom: 'desc' } } }
+    });
+
+    return NextResponse.json({ message: `Plan ${plan.name} updated`, plan });
+  } catch (error) {
+    console.error("Error updating plan:", error);
+    return NextResponse.json({ message: "Failed to update plan", error: String(error) }, { status: 500 });
+  }
+}
+
+// Delete a plan that has never been sold
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const planId = request.nextUrl.searchParams.get("planId");
+    if (!planId) {
+      return NextResponse.json({ message: "planId is required" }, { status: 400 });
+    }
+
+    const plan = await prisma.plan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      return NextResponse.json({ message: "Plan not found" }, { status: 404 });
+    }
+
+    // Subscriptions keep a reference to the price they were sold at
+    const soldCount = await prisma.subscription.count({
+      where: { OR: [{ planType: plan.key }, { planPrice: { planId } }] }
+    });
+    if (soldCount > 0) {
+      return NextResponse.json({
+        message: "Plan has subscriptions",
+        details: `${plan.name} has ${soldCount} subscription(s); deactivate it instead`
+      }, { status: 409 });
+    }
+
+    await prisma.$transaction([
+      prisma.planPrice.deleteMany({ where: { planId } }),
+      prisma.plan.delete({ where: { id: planId } })
+    ]);
+
+    return NextResponse.json({ message: `Plan ${plan.name} deleted` });
+  } catch (error) {
+    console.error("Error deleting plan:", error);
+    return NextResponse.json({ message: "Failed to delete plan", error: String(error) }, { status: 500 });
+  }
+}
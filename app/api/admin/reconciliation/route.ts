@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { reconcileStaleOrders, getStaleAfterMinutes } from "@/lib/reconciliation";
+import { SubscriptionStatus, UNPAID_PAYMENT_STATUSES } from "@/lib/subscriptionStatus";
+
+// List recent reconciliation runs and the orders still waiting for payment
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const staleAfterMinutes = getStaleAfterMinutes();
+    const cutoff = new Date(Date.now() - staleAfterMinutes * 60 * 1000);
+
+    const [runs, pendingOrders, staleOrders] = await Promise.all([
+      prisma.reconciliationRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        take: 20
+      }),
+      prisma.subscription.groupBy({
+        by: ['orderId'],
+        where: { paymentStatus: { in: UNPAID_PAYMENT_STATUSES }, status: SubscriptionStatus.pending }
+      }),
+      prisma.subscription.groupBy({
+        by: ['orderId'],
+        where: { paymentStatus: { in: UNPAID_PAYMENT_STATUSES }, status: SubscriptionStatus.pending, createdAt: { lt: cutoff } }
+      })
+    ]);
+
+    return NextResponse.json({
+      runs,
+      staleAfterMinutes,
+      pendingOrders: pendingOrders.length,
+      staleOrders: staleOrders.length
+    });
+  } catch (error) {
+    console.error("Error fetching reconciliation runs:", error);
+    return NextResponse.json({ message: "Failed to fetch reconciliation runs", error: String(error) }, { status: 500 });
+  }
+}
+
+// Run reconciliation now
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const run = await reconcileStaleOrders({ trigger: 'manual' });
+
+    if (run.status !== 'completed') {
+      return NextResponse.json({ message: "Reconciliation failed", run }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      message: `Checked ${run.ordersChecked} order(s): ${run.ordersActivated} activated, ${run.ordersExpired} expired`,
+      run
+    });
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    return NextResponse.json({ message: "Failed to run reconciliation", error: String(error) }, { status: 500 });
+  }
+}
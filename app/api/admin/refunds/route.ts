@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  REFUND_MODES,
+  RefundInProgressError,
+  getRefundIneligibilityReason,
+  getRefundQuote,
+  refundSubscription
+} from "@/lib/refunds";
+import { InvalidStatusTransitionError } from "@/lib/subscriptionStatus";
+
+// Schema for issuing a refund
+const refundSchema = z.object({
+  subscriptionId: z.string().min(1),
+  mode: z.enum([REFUND_MODES.FULL, REFUND_MODES.PRORATED]),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Preview full and pro-rated refund amounts for a subscription
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const subscriptionId = request.nextUrl.searchParams.get("subscriptionId");
+    if (!subscriptionId) {
+      return NextResponse.json({ message: "subscriptionId is required" }, { status: 400 });
+    }
+
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription) {
+      return NextResponse.json({ message: "Subscription not found" }, { status: 404 });
+    }
+
+    const ineligibilityReason = getRefundIneligibilityReason(subscription);
+    return NextResponse.json({
+      subscriptionId,
+      eligible: ineligibilityReason === null,
+      reason: ineligibilityReason,
+      full: getRefundQuote(subscription, REFUND_MODES.FULL),
+      prorated: getRefundQuote(subscription, REFUND_MODES.PRORATED),
+    });
+  } catch (error) {
+    console.error("Error calculating refund:", error);
+    return NextResponse.json({ message: "Failed to calculate refund", error: String(error) }, { status: 500 });
+  }
+}
+
+// Cancel a subscription and refund it through Razorpay
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = refundSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { subscriptionId, mode, reason } = parsed.data;
+
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription) {
+      return NextResponse.json({ message: "Subscription not found" }, { status: 404 });
+    }
+
+    const ineligibilityReason = getRefundIneligibilityReason(subscription);
+    if (ineligibilityReason) {
+      return NextResponse.json({ message: ineligibilityReason }, { status: 400 });
+    }
+
+    const outcome = await refundSubscription({ subscriptionId, mode, reason });
+
+    console.log(`Refunded ₹${outcome.refundAmount} for subscription ${subscriptionId} (${mode}), removed from ${outcome.meetingsUpdated} meeting(s)`);
+
+    const seatsText = outcome.seatsCancelled > 0 ? ` and ${outcome.seatsCancelled} group member seat(s)` : '';
+    return NextResponse.json({
+      message: outcome.refundAmount > 0
+        ? `Refunded ₹${outcome.refundAmount} and cancelled the subscription${seatsText}`
+        : `Cancelled the subscription${seatsText} (nothing left to refund)`,
+      ...outcome
+    });
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError || error instanceof RefundInProgressError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    console.error("Error refunding subscription:", error);
+    return NextResponse.json({ message: "Failed to refund subscription", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getPlanNames } from "@/lib/plans";
+import { AUTO_RENEWAL_STATUSES, processDueRenewals, stopAutoRenewal } from "@/lib/renewals";
+
+// Schema for stopping an auto-renewal
+const stopRenewalSchema = z.object({
+  renewalId: z.string().min(1),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// List auto-renewals with their member and renewed periods
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+
+    const [renewals, planNames] = await Promise.all([
+      prisma.autoRenewal.findMany({
+        where: status && status !== 'all' ? { status } : {},
+        orderBy: { createdAt: 'desc' },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+          subscriptions: {
+            orderBy: { startDate: 'asc' },
+            select: {
+              id: true,
+              orderId: true,
+              startDate: true,
+              endDate: true,
+              status: true,
+              paymentStatus: true,
+              price: true,
+              createdAt: true
+            }
+          }
+        }
+      }),
+      getPlanNames()
+    ]);
+
+    const result = renewals.map(({ manageToken, razorpayTokenId, user, subscriptions, ...renewal }) => {
+      const paid = subscriptions.filter(sub => sub.paymentStatus === 'success');
+      return {
+        ...renewal,
+        planName: planNames[renewal.planType] || renewal.planType,
+        hasMandate: !!razorpayTokenId,
+        member: { ...user, name: `${user.firstName} ${user.lastName}` },
+        periodsPaid: paid.length,
+        totalCharged: paid.reduce((sum, sub) => sum + sub.price, 0),
+        currentPeriodEnd: paid.length > 0 ? paid[paid.length - 1].endDate : null,
+        subscriptions
+      };
+    });
+
+    return NextResponse.json({ renewals: result });
+  } catch (error) {
+    console.error("Error fetching auto-renewals:", error);
+    return NextResponse.json({ message: "Failed to fetch auto-renewals", error: String(error) }, { status: 500 });
+  }
+}
+
+// Run the renewal job now
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const results = await processDueRenewals();
+    const countOf = (action: string) => results.filter(r => r.action === action).length;
+
+    return NextResponse.json({
+      message: `Processed ${results.length} due renewal(s): ${countOf('charged')} charged, ${countOf('stopped')} stopped, ${countOf('error')} failed`,
+      results
+    });
+  } catch (error) {
+    console.error("Error running renewals:", error);
+    return NextResponse.json({ message: "Failed to run renewals", error: String(error) }, { status: 500 });
+  }
+}
+
+// Stop an auto-renewal on the member's behalf
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = stopRenewalSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const renewal = await prisma.autoRenewal.findUnique({ where: { id: parsed.data.renewalId } });
+    if (!renewal) {
+      return NextResponse.json({ message: "Auto-renewal not found" }, { status: 404 });
+    }
+    if (renewal.status === AUTO_RENEWAL_STATUSES.STOPPED || renewal.status === AUTO_RENEWAL_STATUSES.LAPSED) {
+      return NextResponse.json({ message: `Auto-renewal is already ${renewal.status}` }, { status: 409 });
+    }
+
+    const stopped = await stopAutoRenewal(renewal.id, {
+      stoppedBy: 'admin',
+      reason: parsed.data.reason || undefined
+    });
+
+    return NextResponse.json({ message: "Auto-renewal stopped", renewal: stopped });
+  } catch (error) {
+    console.error("Error stopping auto-renewal:", error);
+    return NextResponse.json({ message: "Failed to stop auto-renewal", error: String(error) }, { status: 500 });
+  }
+}
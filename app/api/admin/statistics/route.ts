@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { PLAN_TYPES } from "@/lib/pricing";
+import { getPlanCatalog, getPlanNames } from "@/lib/plans";
+import { CONVERSION_STATUSES } from "@/lib/upgrades";
+import { ENTITLED_PAYMENT_STATUSES, PaymentStatus, SubscriptionStatus, UNPAID_PAYMENT_STATUSES } from "@/lib/subscriptionStatus";
 import { formatUserForAdmin, calculateSubscriptionStats } from "@/lib/admin";
 import { format, subDays, parseISO, isSameDay } from "date-fns";
 
@@ -39,7 +42,7 @@ export async function GET(req: NextRequest) {
           AND: [
             {
               paymentStatus: {
-                notIn: ['admin-added', 'admin-created'] // Exclude admin subscriptions from date filtering
+                not: PaymentStatus.admin_added // Exclude admin subscriptions from date filtering
               }
             },
             {
@@ -79,9 +82,7 @@ export async function GET(req: NextRequest) {
         },
         // Always include admin subscriptions regardless of date
         {
-          paymentStatus: {
-            in: ['admin-added', 'admin-created']
-          }
+          paymentStatus: PaymentStatus.admin_added
         }
       ]
     };
@@ -95,7 +96,7 @@ export async function GET(req: NextRequest) {
           dateWhereClause,
           {
             paymentStatus: {
-              in: ['completed', 'paid', 'success', 'admin-added', 'admin-created']
+              in: ENTITLED_PAYMENT_STATUSES
             }
           }
         ]
@@ -106,7 +107,7 @@ export async function GET(req: NextRequest) {
           dateWhereClause,
           {
             paymentStatus: {
-              in: ['pending', 'initiated', 'failed']
+              in: UNPAID_PAYMENT_STATUSES
             }
           }
         ]
@@ -128,8 +129,13 @@ export async function GET(req: NextRequest) {
     // Format users for admin
     const formattedUsers = users.map(user => formatUserForAdmin(user as any));
     
-    // Calculate statistics
-    const stats = calculateSubscriptionStats(formattedUsers);
+    // Calculate statistics, grouped by catalogue plan
+    const [plans, planNames] = await Promise.all([
+      getPlanCatalog({ includeUnavailable: true }),
+      getPlanNames()
+    ]);
+    const planKeys = plans.map(plan => plan.key);
+    const stats = calculateSubscriptionStats(formattedUsers, planKeys);
     
     // Get all subscriptions for detailed analytics
     const subscriptions = await prisma.subscription.findMany({
@@ -154,18 +160,14 @@ export async function GET(req: NextRequest) {
     
     const revenue = subscriptions
       .filter(sub => {
-        // More inclusive payment status logic - exclude only explicitly failed/cancelled/pending statuses
-        // Include both admin-added and admin-created subscriptions in revenue calculation
-        const isInvalidPayment = sub.paymentStatus === 'failed' || 
-                                sub.paymentStatus === 'cancelled' || 
-                                sub.paymentStatus === 'canceled' ||
-                                sub.paymentStatus === 'pending' ||
-                                sub.paymentStatus === 'initiated';
+        // Exclude only unpaid checkouts; admin-added and refunded subscriptions are included
+        const isInvalidPayment = UNPAID_PAYMENT_STATUSES.includes(sub.paymentStatus);
         const isValidPayment = !isInvalidPayment;
         console.log(`Subscription ${sub.id}: paymentStatus='${sub.paymentStatus}', price=${(sub as any).price}, isValidPayment=${isValidPayment}`);
         return isValidPayment;
       })
-      .reduce((sum, sub) => sum + ((sub as any).price || 0), 0);
+      // Refunded amounts are no longer revenue
+      .reduce((sum, sub) => sum + ((sub as any).price || 0) - (sub.refundAmount || 0), 0);
     
     console.log('Total revenue from all subscriptions:', allRevenue);
     console.log('Total revenue from valid payments:', revenue);
@@ -177,6 +179,51 @@ export async function GET(req: NextRequest) {
     const finalRevenue = revenue;
     console.log('Final revenue used:', finalRevenue);
     
+    // Discount breakdown - price is already net of discounts, listPrice is the catalogue price
+    const validPaidSubscriptions = subscriptions.filter(sub =>
+      !UNPAID_PAYMENT_STATUSES.includes(sub.paymentStatus)
+    );
+    const totalDiscounts = validPaidSubscriptions.reduce((sum, sub) => sum + (sub.discountAmount || 0), 0);
+    const totalRefunds = validPaidSubscriptions.reduce((sum, sub) => sum + (sub.refundAmount || 0), 0);
+    const grossRevenue = finalRevenue + totalDiscounts + totalRefunds;
+    const discountsByCoupon = Object.values(
+      validPaidSubscriptions
+        .filter(sub => sub.couponCode && sub.discountAmount > 0)
+        .reduce((acc, sub) => {
+          const code = sub.couponCode as string;
+          if (!acc[code]) {
+            acc[code] = { code, orders: new Set<string>(), discount: 0, netRevenue: 0 };
+          }
+          acc[code].orders.add(sub.orderId);
+          acc[code].discount += sub.discountAmount;
+          acc[code].netRevenue += sub.price || 0;
+          return acc;
+        }, {} as Record<string, { code: string; orders: Set<string>; discount: number; netRevenue: number }>)
+    ).map(({ orders, ...entry }) => ({ ...entry, redemptions: orders.size }));
+
+    // Daily-to-monthly conversion of the customers who bought a daily session in the period
+    const dailyCustomerIds = [...new Set(
+      validPaidSubscriptions.filter(sub => sub.planType === PLAN_TYPES.DAILY).map(sub => sub.userId)
+    )];
+    const completedConversions = await prisma.planConversion.findMany({
+      where: {
+        status: CONVERSION_STATUSES.COMPLETED,
+        fromPlanType: PLAN_TYPES.DAILY,
+        toPlanType: PLAN_TYPES.MONTHLY,
+        userId: { in: dailyCustomerIds }
+      },
+      select: { userId: true, creditAmount: true }
+    });
+    const convertedCustomers = new Set(completedConversions.map(conversion => conversion.userId)).size;
+    const conversion = {
+      dailyCustomers: dailyCustomerIds.length,
+      convertedCustomers,
+      conversionRate: dailyCustomerIds.length > 0
+        ? Math.round((convertedCustomers / dailyCustomerIds.length) * 1000) / 10
+        : 0,
+      upgradeCredits: completedConversions.reduce((sum, conversion) => sum + conversion.creditAmount, 0)
+    };
+    
     // Plan type breakdown
     const planStats = await prisma.subscription.groupBy({
       by: ['planType'],
@@ -191,7 +238,7 @@ export async function GET(req: NextRequest) {
     const activeSubscriptions = subscriptions.filter(sub => {
       const startDate = new Date(sub.startDate);
       const endDate = new Date(sub.endDate);
-      return startDate <= today && endDate >= today && sub.status === 'active';
+      return startDate <= today && endDate >= today && sub.status === SubscriptionStatus.active;
     }).length;
     
     // Total subscriptions count
@@ -206,7 +253,7 @@ export async function GET(req: NextRequest) {
     // Upcoming subscriptions (start in the future)
     const upcomingSubscriptions = subscriptions.filter(sub => {
       const startDate = new Date(sub.startDate);
-      return startDate > today && sub.status === 'active';
+      return startDate > today && sub.status === SubscriptionStatus.active;
     }).length;
     
     // Recalculate stats using the correct logic
@@ -217,53 +264,28 @@ export async function GET(req: NextRequest) {
       upcoming: upcomingSubscriptions
     };
     
-    // Group subscriptions by plan type for earnings analytics
-    const subscriptionsByPlan: Record<string, number> = {
-      [PLAN_TYPES.DAILY]: 0,
-      [PLAN_TYPES.MONTHLY]: 0,
-      [PLAN_TYPES.UNLIMITED]: 0
-    };
-    const revenueByPlan: Record<string, number> = {
-      [PLAN_TYPES.DAILY]: 0,
-      [PLAN_TYPES.MONTHLY]: 0,
-      [PLAN_TYPES.UNLIMITED]: 0
-    };
+    // Group subscriptions by catalogue plan for earnings analytics
+    const subscriptionsByPlan: Record<string, number> = Object.fromEntries(planKeys.map(key => [key, 0]));
+    const revenueByPlan: Record<string, number> = Object.fromEntries(planKeys.map(key => [key, 0]));
+    subscriptionsByPlan[PLAN_TYPES.UNLIMITED] = 0;
+    revenueByPlan[PLAN_TYPES.UNLIMITED] = 0;
     
     subscriptions.forEach(sub => {
-      // Normalize plan type
-      const planType = sub.planType.toLowerCase();
+      // Legacy family-monthly rows belong to the combo plan; plans removed
+      // from the catalogue still get their own bucket
+      const planType = sub.planType === 'family-monthly' || sub.planType === 'monthlyfamily'
+        ? PLAN_TYPES.COMBO_PLAN
+        : sub.planType;
       
-      // Count by plan - split family-monthly into 2 monthly entries
-      if (planType === PLAN_TYPES.DAILY || planType === PLAN_TYPES.DAILY) {
-        subscriptionsByPlan[PLAN_TYPES.DAILY]++;
-      } else if (planType === PLAN_TYPES.MONTHLY) {
-        subscriptionsByPlan[PLAN_TYPES.MONTHLY]++;
-      } else if (planType === 'family-monthly' || planType === 'monthlyfamily' || planType === PLAN_TYPES.COMBO_PLAN) {
-        // Split family-monthly into 2 monthly entries
-        subscriptionsByPlan[PLAN_TYPES.MONTHLY] += 2;
-      } else if (planType === PLAN_TYPES.UNLIMITED) {
-        subscriptionsByPlan[PLAN_TYPES.UNLIMITED]++;
-      }
+      subscriptionsByPlan[planType] = (subscriptionsByPlan[planType] || 0) + 1;
       
-      // Revenue by plan (use inclusive payment status logic - include both admin statuses)
-      const isInvalidPayment = sub.paymentStatus === 'failed' || 
-                              sub.paymentStatus === 'cancelled' || 
-                              sub.paymentStatus === 'canceled' ||
-                              sub.paymentStatus === 'pending' ||
-                              sub.paymentStatus === 'initiated';
+      // Revenue by plan (exclude unpaid checkouts only)
+      const isInvalidPayment = UNPAID_PAYMENT_STATUSES.includes(sub.paymentStatus);
       const isValidPayment = !isInvalidPayment;
       
       if (isValidPayment) {
-        if (planType === PLAN_TYPES.DAILY || planType === PLAN_TYPES.DAILY) {
-          revenueByPlan[PLAN_TYPES.DAILY] += (sub as any).price || 0;
-        } else if (planType === PLAN_TYPES.MONTHLY) {
-          revenueByPlan[PLAN_TYPES.MONTHLY] += (sub as any).price || 0;
-        } else if (planType === 'family-monthly' || planType === 'monthlyfamily' || planType === PLAN_TYPES.COMBO_PLAN) {
-          // For family-monthly, add the revenue to monthly (since it represents 2 monthly subscriptions)
-          revenueByPlan[PLAN_TYPES.MONTHLY] += (sub as any).price || 0;
-        } else if (planType === PLAN_TYPES.UNLIMITED) {
-          revenueByPlan[PLAN_TYPES.UNLIMITED] += (sub as any).price || 0;
-        }
+        const netPrice = ((sub as any).price || 0) - (sub.refundAmount || 0);
+        revenueByPlan[planType] = (revenueByPlan[planType] || 0) + netPrice;
       }
     });
     
@@ -280,16 +302,12 @@ export async function GET(req: NextRequest) {
     const revenueByDay = allDays.map(day => {
       const dayRevenue = subscriptions
         .filter(sub => {
-          // Include both admin-added and admin-created subscriptions in daily revenue calculation
-          const isInvalidPayment = sub.paymentStatus === 'failed' || 
-                                  sub.paymentStatus === 'cancelled' || 
-                                  sub.paymentStatus === 'canceled' ||
-                                  sub.paymentStatus === 'pending' ||
-                                  sub.paymentStatus === 'initiated';
+          // Exclude unpaid checkouts from daily revenue
+          const isInvalidPayment = UNPAID_PAYMENT_STATUSES.includes(sub.paymentStatus);
           const isValidPayment = !isInvalidPayment;
           return isSameDay(sub.startDate, parseISO(day)) && isValidPayment;
         })
-        .reduce((sum, sub) => sum + ((sub as any).price || 0), 0);
+        .reduce((sum, sub) => sum + ((sub as any).price || 0) - (sub.refundAmount || 0), 0);
       
       return {
         date: day,
@@ -315,12 +333,18 @@ export async function GET(req: NextRequest) {
       revenue: finalRevenue,
       planStats,
       totalRevenue: finalRevenue,
+      grossRevenue,
+      totalDiscounts,
+      totalRefunds,
+      discountsByCoupon,
+      conversion,
       activeSubscriptions,
       totalSubscriptions,
       expiredSubscriptions,
       upcomingSubscriptions,
       subscriptionsByPlan,
       revenueByPlan,
+      planNames,
       revenueByDay,
       subscriptionsByDay
     });
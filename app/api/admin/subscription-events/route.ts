@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserTimeline } from "@/lib/subscriptionEvents";
+
+// Subscription history of a member, newest first
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    if (token !== process.env.ADMIN_PASSCODE) {
+      return NextResponse.json({ message: "Invalid admin credentials" }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ message: "userId is required" }, { status: 400 });
+    }
+
+    const events = await getUserTimeline(userId);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching subscription history:", error);
+    return NextResponse.json({ message: "Failed to fetch subscription history", error: String(error) }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { PaymentStatus, SubscriptionStatus } from "@/lib/subscriptionStatus";
 
 // GET /api/admin/subscriptions - Returns individual subscription records
 export async function GET(req: NextRequest) {
@@ -43,9 +44,12 @@ export async function GET(req: NextRequest) {
     }
 
     if (status && status !== 'all') {
-      if (status === 'active') {
+      if (!Object.values(SubscriptionStatus).includes(status as SubscriptionStatus)) {
+        return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+      }
+      if (status === SubscriptionStatus.active) {
         const today = new Date();
-        subscriptionWhereClause.status = 'active';
+        subscriptionWhereClause.status = SubscriptionStatus.active;
         subscriptionWhereClause.startDate = { lte: today };
         subscriptionWhereClause.endDate = { gte: today };
       } else {
@@ -54,6 +58,9 @@ export async function GET(req: NextRequest) {
     }
 
     if (paymentStatus && paymentStatus !== 'all') {
+      if (!Object.values(PaymentStatus).includes(paymentStatus as PaymentStatus)) {
+        return NextResponse.json({ error: `Invalid payment status: ${paymentStatus}` }, { status: 400 });
+      }
       subscriptionWhereClause.paymentStatus = paymentStatus;
     }
 
@@ -98,7 +105,7 @@ export async function GET(req: NextRequest) {
     // Handle legacy viewType parameter for backward compatibility
     if (viewType === 'active') {
       const today = new Date();
-      subscriptionWhereClause.status = 'active';
+      subscriptionWhereClause.status = SubscriptionStatus.active;
       // Only add date filters if they don't already exist
       if (!subscriptionWhereClause.startDate) {
         subscriptionWhereClause.startDate = { lte: today };
@@ -106,7 +113,7 @@ export async function GET(req: NextRequest) {
       if (!subscriptionWhereClause.endDate) {
         subscriptionWhereClause.endDate = { gte: today };
       }
-      subscriptionWhereClause.paymentStatus = 'completed';
+      subscriptionWhereClause.paymentStatus = PaymentStatus.success;
     }
 
     // User search filter
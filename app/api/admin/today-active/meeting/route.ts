@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "../../../../../lib/prisma";
-import { getOrCreateDailyMeetingLink } from "../../../../../lib/subscription";
+import { getOrCreateDailyMeetingLinks } from "../../../../../lib/subscription";
+import { notPausedOn } from "../../../../../lib/pauses";
+import { SubscriptionStatus } from "../../../../../lib/subscriptionStatus";
+import { WAITLIST_STATUSES, getMeetingCapacity } from "../../../../../lib/waitlist";
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,17 +22,41 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const date = url.searchParams.get('date');
     
-    // Use the existing function to get or create today's meeting
-    const todayMeeting = await getOrCreateDailyMeetingLink();
+    // Get or create today's meeting for every slot that runs today
+    const todayMeetings = await getOrCreateDailyMeetingLinks();
     
-    if (!todayMeeting) {
+    if (todayMeetings.length === 0) {
       return NextResponse.json({ message: "No meeting available for today" }, { status: 404 });
     }
 
+    // Count active users for today, per slot
+    const activeBySlot = await prisma.subscription.groupBy({
+      by: ['slot'],
+      where: {
+        status: SubscriptionStatus.active,
+        startDate: { lte: new Date() },
+        endDate: { gte: new Date() },
+        ...notPausedOn(new Date())
+      },
+      _count: { _all: true }
+    });
+    const activeCount = activeBySlot.reduce((sum, group) => sum + group._count._all, 0);
+
+    // Waitlist length of each session
+    const waitingBySlot = await prisma.waitlistEntry.groupBy({
+      by: ['slot'],
+      where: {
+        date: todayMeetings[0].meetingDate.toISOString().split('T')[0],
+        status: WAITLIST_STATUSES.WAITING
+      },
+      _count: { _all: true }
+    });
+
     // Format the meeting time for display
-    const formattedMeeting = {
+    const formattedMeetings = todayMeetings.map(todayMeeting => ({
       id: todayMeeting.id,
       meetingDate: todayMeeting.meetingDate.toISOString(),
+      slot: todayMeeting.slot,
       platform: todayMeeting.platform,
       meetingLink: todayMeeting.meetingLink,
       startTime: todayMeeting.startTime.toISOString(),
@@ -41,20 +68,18 @@ export async function GET(request: NextRequest) {
       googleEventId: todayMeeting.googleEventId || null,
       zoomMeetingId: todayMeeting.zoomMeetingId || null,
       zoomStartUrl: todayMeeting.zoomStartUrl || null,
-      attendeeCount: todayMeeting.users?.length || 0
-    };
-
-    // Count active users for today
-    const activeCount = await prisma.subscription.count({
-      where: {
-        status: 'active',
-        startDate: { lte: new Date() },
-        endDate: { gte: new Date() }
-      }
-    });
+      jitsiHostUrl: todayMeeting.jitsiHostUrl || null,
+      cancelledAt: todayMeeting.cancelledAt?.toISOString() || null,
+      attendeeCount: todayMeeting.users?.length || 0,
+      activeCount: activeBySlot.find(group => group.slot === todayMeeting.slot)?._count._all || 0,
+      capacity: getMeetingCapacity(todayMeeting),
+      waitlistCount: waitingBySlot.find(group => group.slot === todayMeeting.slot)?._count._all || 0
+    }));
 
     return NextResponse.json({
-      meeting: formattedMeeting,
+      meetings: formattedMeetings,
+      // First meeting of the day, for clients that show a single session
+      meeting: formattedMeetings[0],
       activeCount
     });
   } catch (error) {
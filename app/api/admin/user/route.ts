@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { PLAN_TYPES } from '@/lib/pricing';
+import { LIVE_SUBSCRIPTION_STATUSES, PaymentStatus, SubscriptionStatus, transitionSubscriptions } from '@/lib/subscriptionStatus';
+import {
+  EVENT_ACTORS,
+  SUBSCRIPTION_EVENT_TYPES,
+  recordSubscriptionEvent,
+  recordSubscriptionEvents,
+  subscriptionSnapshot
+} from '@/lib/subscriptionEvents';
 
 // GET /api/admin/user - Get a user by ID via query parameter
 export async function GET(request: NextRequest) {
@@ -74,10 +83,33 @@ export async function PATCH(request: NextRequest) {
       if (phone !== undefined) updateData.phone = phone;
       if (source !== undefined) updateData.source = source;
 
+      const previous = await prisma.user.findUnique({ where: { id: userId } });
       await prisma.user.update({
         where: { id: userId },
         data: updateData
       });
+
+      // Record only the fields that actually changed
+      if (previous) {
+        const before: Record<string, unknown> = {};
+        const after: Record<string, unknown> = {};
+        for (const field of Object.keys(updateData)) {
+          const oldValue = previous[field as keyof typeof previous];
+          if (oldValue !== updateData[field]) {
+            before[field] = oldValue;
+            after[field] = updateData[field];
+          }
+        }
+        if (Object.keys(after).length > 0) {
+          await recordSubscriptionEvent({
+            userId,
+            type: SUBSCRIPTION_EVENT_TYPES.USER_UPDATED,
+            actor: EVENT_ACTORS.ADMIN,
+            before,
+            after
+          });
+        }
+      }
     }
 
     // Update the user role if needed
@@ -86,21 +118,34 @@ export async function PATCH(request: NextRequest) {
         where: { id: userId },
         data: { role: 'ADMIN' }
       });
+      await recordSubscriptionEvent({
+        userId,
+        type: SUBSCRIPTION_EVENT_TYPES.UNLIMITED_GRANTED,
+        actor: EVENT_ACTORS.ADMIN,
+        after: { role: 'ADMIN' }
+      });
     } else if (revokeUnlimited) {
       await prisma.user.update({
         where: { id: userId },
         data: { role: 'USER' }
       });
+      await recordSubscriptionEvent({
+        userId,
+        type: SUBSCRIPTION_EVENT_TYPES.UNLIMITED_REVOKED,
+        actor: EVENT_ACTORS.ADMIN,
+        after: { role: 'USER' }
+      });
       
       // Also deactivate any unlimited subscriptions when revoking unlimited access status
-      await prisma.subscription.updateMany({
-        where: { 
+      await transitionSubscriptions(
+        {
           userId: userId,
-          planType: 'UNLIMITED',
-          status: 'active'
+          planType: PLAN_TYPES.UNLIMITED,
+          status: { in: LIVE_SUBSCRIPTION_STATUSES }
         },
-        data: { status: 'cancelled' }
-      });
+        SubscriptionStatus.cancelled,
+        { actor: EVENT_ACTORS.ADMIN, note: 'Unlimited access revoked' }
+      );
     }
 
     // Create an infinite subscription if requested
@@ -110,12 +155,12 @@ export async function PATCH(request: NextRequest) {
       const endDate = new Date();
       endDate.setFullYear(endDate.getFullYear() + 100); // 100 years in the future
 
-      await prisma.subscription.create({
+      const subscription = await prisma.subscription.create({
         data: {
           userId: userId,
-          planType: 'UNLIMITED',
-          status: 'active',
-          paymentStatus: 'admin-added',
+          planType: PLAN_TYPES.UNLIMITED,
+          status: SubscriptionStatus.active,
+          paymentStatus: PaymentStatus.admin_added,
           startDate,
           endDate,
           duration: 36500, // ~100 years in days
@@ -123,6 +168,14 @@ export async function PATCH(request: NextRequest) {
           orderId: `admin-added-${Date.now()}`
         }
       });
+      await recordSubscriptionEvent({
+        userId,
+        subscriptionId: subscription.id,
+        type: SUBSCRIPTION_EVENT_TYPES.UNLIMITED_GRANTED,
+        actor: EVENT_ACTORS.ADMIN,
+        after: subscriptionSnapshot(subscription),
+        note: 'Unlimited subscription added'
+      });
     }
 
     // Fetch the updated user data with subscriptions
@@ -185,14 +238,39 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Delete user's subscriptions first (due to foreign key constraints)
-    await prisma.subscription.deleteMany({
-      where: { userId: userId }
-    });
+    await prisma.$transaction(async (tx) => {
+      // The history outlives the user, so note whose subscriptions went
+      await recordSubscriptionEvents(user.subscriptions.map(subscription => ({
+        userId: userId,
+        subscriptionId: subscription.id,
+        type: SUBSCRIPTION_EVENT_TYPES.DELETED,
+        actor: EVENT_ACTORS.ADMIN,
+        before: subscriptionSnapshot(subscription),
+        note: `Deleted with user ${user.email}`
+      })), tx);
 
-    // Delete the user
-    await prisma.user.delete({
-      where: { id: userId }
+      // Delete the user's plan conversions, subscriptions, auto-renewals, coupon
+      // redemptions and the group orders they bought first (due to foreign key
+      // constraints). The group orders' seats go with them; members who claimed
+      // a seat keep their subscription.
+      await tx.planConversion.deleteMany({
+        where: { OR: [{ userId: userId }, { fromSubscription: { userId: userId } }] }
+      });
+      await tx.subscription.deleteMany({
+        where: { userId: userId }
+      });
+      await tx.autoRenewal.deleteMany({
+        where: { userId: userId }
+      });
+      await tx.couponRedemption.deleteMany({
+        where: { userId: userId }
+      });
+      await tx.groupOrder.deleteMany({
+        where: { purchaserId: userId }
+      });
+      await tx.user.delete({
+        where: { id: userId }
+      });
     });
 
     return NextResponse.json({ 
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { formatUserForAdmin, calculateSubscriptionStats } from '@/lib/admin';
+import { getPlanCatalog } from '@/lib/plans';
+import { getAttendanceSummaries } from '@/lib/attendance';
+import { SubscriptionStatus } from '@/lib/subscriptionStatus';
 
 // GET /api/admin/users
 export async function GET(req: NextRequest) {
@@ -51,9 +54,12 @@ export async function GET(req: NextRequest) {
     }
 
     if (status && status !== 'all') {
-      if (status === 'active') {
+      if (!Object.values(SubscriptionStatus).includes(status as SubscriptionStatus)) {
+        return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+      }
+      if (status === SubscriptionStatus.active) {
         const today = new Date();
-        subscriptionWhereClause.status = 'active';
+        subscriptionWhereClause.status = SubscriptionStatus.active;
         subscriptionWhereClause.startDate = { lte: today };
         subscriptionWhereClause.endDate = { gte: today };
       } else {
@@ -100,11 +106,16 @@ export async function GET(req: NextRequest) {
       }
     });
 
-    // Format users for admin display
-    const formattedUsers = users.map(user => formatUserForAdmin(user as any));
+    // Format users for admin display, with how many of their sessions they attended
+    const attendance = await getAttendanceSummaries(users.map(user => user.id));
+    const formattedUsers = users.map(user => ({
+      ...formatUserForAdmin(user as any),
+      attendance: attendance[user.id]
+    }));
     
-    // Calculate stats using the formatted users
-    const stats = calculateSubscriptionStats(formattedUsers);
+    // Calculate stats using the formatted users, grouped by catalogue plan
+    const plans = await getPlanCatalog({ includeUnavailable: true });
+    const stats = calculateSubscriptionStats(formattedUsers, plans.map(plan => plan.key));
 
     return NextResponse.json({
       users: formattedUsers,
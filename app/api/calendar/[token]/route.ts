@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCalendarFeed } from "@/lib/calendarFeed";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * API Route: /api/calendar/<token>.ics
+ *
+ * GET serves a member's calendar feed for calendar apps to subscribe to. The
+ * token is the member's secret; unknown tokens get a 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const feed = await buildCalendarFeed(decodeURIComponent(token).replace(/\.ics$/, ""));
+    if (!feed) {
+      return NextResponse.json({ message: "Calendar not found" }, { status: 404 });
+    }
+
+    return new NextResponse(feed, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="goalete-sessions.ics"',
+        // Calendar apps poll the feed; a short cache spares the database
+        "Cache-Control": "private, max-age=900"
+      }
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ message: "Failed to build calendar feed", error: String(error) }, { status: 500 });
+  }
+}
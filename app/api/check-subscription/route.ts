@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
 import { canUserSubscribe } from "@/lib/subscription";
+import { getUpgradeQuote } from "@/lib/upgrades";
+import { getSessionAvailability } from "@/lib/waitlist";
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES } from "@/lib/sessionSlots";
 import { z } from "zod";
 
 /**
@@ -14,6 +18,7 @@ import { z } from "zod";
  * - planType: Type of plan the user wants to subscribe to (optional)
  * - startDate: Start date of the subscription in ISO format (optional)
  * - endDate: End date of the subscription in ISO format (optional)
+ * - slot: Session slot the user(s) want to attend (optional, defaults to evening)
  * 
  * Note: Either 'email' or 'emails' must be provided
  * 
@@ -22,6 +27,9 @@ import { z } from "zod";
  * - message: Explanation of why the user(s) can or cannot subscribe
  * - results: Array of individual results for each email checked
  * - subscriptionDetails: Details of any existing subscription (if any, for single user)
+ * - upgrade: Credit offered for replacing the overlapping booking(s), if the
+ *   single user can upgrade them to the requested plan instead
+ * - seats: Capacity and remaining seats of the session on startDate, if given
  */
 
 // Define schema for request validation
@@ -37,7 +45,8 @@ const subscriptionCheckSchema = z.object({
   endDate: z.string().optional().refine(
     value => !value || !isNaN(Date.parse(value)),
     { message: "Invalid date format for endDate. Use ISO format (YYYY-MM-DD)" }
-  )
+  ),
+  slot: z.enum(SESSION_SLOT_VALUES).default(DEFAULT_SESSION_SLOT)
 }).refine(
   data => data.email || (data.emails && data.emails.length > 0),
   { message: "Either email or emails array must be provided" }
@@ -69,7 +78,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
     
-    const { email, emails, planType, startDate, endDate } = parsed.data;
+    const { email, emails, planType, startDate, endDate, slot } = parsed.data;
     
     // Normalize emails to always work with an array and convert to lowercase
     const emailsToCheck = (emails || (email ? [email] : [])).map(e => e.toLowerCase());
@@ -143,6 +152,31 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Offer an upgrade when a single user's conflict is a booking that can be replaced
+    let upgrade = null;
+    if (results.length === 1 && results[0].upgradeAvailable && planType && startDateObj && endDateObj) {
+      const user = await prisma.user.findUnique({ where: { email: emailsToCheck[0] }, select: { id: true } });
+      const quote = user
+        ? await getUpgradeQuote({ userId: user.id, planType, startDate: startDateObj, endDate: endDateObj })
+        : null;
+      if (quote?.eligible) {
+        upgrade = {
+          creditAmount: quote.creditAmount,
+          subscriptions: quote.credits.map(({ subscription, creditAmount }) => ({
+            planType: subscription.planType,
+            startDate: subscription.startDate.toISOString(),
+            endDate: subscription.endDate.toISOString(),
+            creditAmount
+          }))
+        };
+      }
+    }
+    
+    // Seats left in the session on the start date
+    const seats = startDateObj
+      ? await getSessionAvailability(startDateObj.toISOString().split('T')[0], slot)
+      : null;
+    
     // Calculate response time
     const responseTime = Date.now() - startTime;
     
@@ -159,6 +193,8 @@ export async function POST(request: NextRequest) {
           status: results[0].subscriptionDetails.status
         } 
         : null,
+      upgrade,
+      seats,
       metadata: {
         responseTime: responseTime,
         timestamp: new Date().toISOString(),
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { validateCoupon } from "@/lib/coupons";
+import { computeOrderPrice } from "@/lib/pricing";
+import { getPurchasablePlan } from "@/lib/plans";
+
+/**
+ * API Route: /api/coupons/validate
+ *
+ * Checks a coupon code against a plan and returns the discounted price.
+ * Used by the registration form before the order is created; the order
+ * route validates the coupon again when the order is placed.
+ *
+ * Request body:
+ * - code: Coupon code entered by the user
+ * - planType: Plan the user wants to purchase
+ * - email: Purchaser's email, used for the per-user limit (optional)
+ *
+ * Response:
+ * - valid: Whether the coupon can be applied
+ * - message: Explanation when the coupon cannot be applied
+ * - pricing: listPrice, discountAmount and finalPrice in INR when valid
+ */
+
+const couponValidateSchema = z.object({
+  code: z.string().trim().min(1, "Coupon code is required"),
+  planType: z.string().min(1),
+  email: z.string().email().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = couponValidateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { code, planType, email } = parsed.data;
+
+    // Existing members are checked against the per-user limit
+    const user = email
+      ? await prisma.user.findUnique({ where: { email: email.toLowerCase() }, select: { id: true } })
+      : null;
+
+    const result = await validateCoupon({ code, planType, userId: user?.id });
+    if (!result.valid || !result.coupon) {
+      return NextResponse.json({ valid: false, message: result.reason }, { status: 200 });
+    }
+
+    const plan = await getPurchasablePlan(planType);
+    const priceBreakdown = plan && computeOrderPrice(plan, result.discountAmount);
+    return NextResponse.json({
+      valid: true,
+      message: "Coupon applied",
+      code: result.coupon.code,
+      description: result.coupon.description,
+      pricing: priceBreakdown && {
+        listPrice: priceBreakdown.listPrice,
+        discountAmount: priceBreakdown.discountAmount,
+        finalPrice: priceBreakdown.finalPrice,
+      },
+    }, { status: 200 });
+  } catch (error) {
+    console.error("Error validating coupon:", error);
+    return NextResponse.json({ message: "Failed to validate coupon", error: String(error) }, { status: 500 });
+  }
+}
@@ -1,47 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
-import Razorpay from "razorpay";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { canUserSubscribeForDates } from "@/lib/subscription";
-import { manageMeeting } from "@/lib/meetingLink";
-import { toPaise, fromPaise, PLAN_TYPES } from "@/lib/pricing";
-import { sendAdminNotificationEmail, sendFamilyAdminNotificationEmail } from "@/lib/email";
-import { sendImmediateInviteViaMessaging } from "@/lib/messaging";
-
-// Get Razorpay keys from environment variables
-const key_id = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
-const key_secret = process.env.RAZORPAY_KEY_SECRET;
-
-// Validate Razorpay keys are present
-if (!key_id || !key_secret) {
-    console.error("Razorpay keys are missing! Please check your environment variables.");
-    // We'll continue and handle the error in the API handler
-}
-
-// Initialize Razorpay client if keys are available
-let razorpay: Razorpay | null = null;
-try {
-  if (key_id && key_secret) {
-    razorpay = new Razorpay({
-      key_id: key_id,
-      key_secret: key_secret,
-    });
-  }
-} catch (error) {
-  console.error("Failed to initialize Razorpay client:", error);
-  // We'll handle this in the API handler
-}
+import { computeOrderPrice, isRenewablePlan, MAX_PLAN_SEATS } from "@/lib/pricing";
+import { getPurchasablePlan } from "@/lib/plans";
+import { createGroupOrder } from "@/lib/groupOrders";
+import { getUpgradeQuote, createPlanConversions } from "@/lib/upgrades";
+import type { UpgradeQuote } from "@/lib/upgrades";
+import { prepareRenewalMandate, createAutoRenewal } from "@/lib/renewals";
+import { getRazorpayClient, verifyPaymentSignature } from "@/lib/razorpay";
+import { activateOrderSubscriptions, markOrderPaymentFailed } from "@/lib/payments";
+import { PaymentStatus, SubscriptionStatus, UNPAID_PAYMENT_STATUSES } from "@/lib/subscriptionStatus";
+import {
+  EVENT_ACTORS,
+  SUBSCRIPTION_EVENT_TYPES,
+  recordSubscriptionEvent,
+  recordSubscriptionEvents,
+  subscriptionSnapshot
+} from "@/lib/subscriptionEvents";
+import { validateCoupon, reserveCouponRedemption, releaseCouponRedemption } from "@/lib/coupons";
+import { isGstStateCode } from "@/lib/gst";
+import { getHoliday, toHolidayDate } from "@/lib/holidays";
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES } from "@/lib/sessionSlots";
+import { checkSessionSeats, markHoldBooked, type SessionAvailability } from "@/lib/waitlist";
+import type { Coupon, WaitlistEntry } from "@/generated/prisma";
 
-// Extend the schema to accept second person details for family plan
+// Extend the schema to accept the other members of group plans
+// amount and duration are computed on the server; if the client sends them
+// they must match the catalogue price
 const orderBodySchema = z.object({
-    amount: z.number().positive(),
-    currency: z.string().min(1),
+    amount: z.number().positive().optional(),
+    currency: z.literal("INR").default("INR"),
     planType: z.string().min(1),
-    duration: z.number().positive(),
+    duration: z.number().positive().optional(),
     startDate: z.string().optional(),
     userId: z.string().min(1),
-    // Optional second user ID for family plan
+    // Optional second user ID for two-member plans
     secondUserId: z.string().optional(),
+    // Emails of group plan members who will claim their own seats
+    inviteEmails: z.array(z.string().trim().email()).max(MAX_PLAN_SEATS - 1).optional(),
+    // Optional coupon code, validated again on the server
+    couponCode: z.string().trim().optional(),
+    // Customer's GST state code, used as the place of supply on the invoice
+    billingState: z.string().refine(isGstStateCode, "Invalid state").optional(),
+    // Replace the user's overlapping bookings, crediting their unused amount
+    upgrade: z.boolean().optional(),
+    // Renew the plan automatically using a recurring payment mandate
+    autoRenew: z.boolean().optional(),
+    // Session the members attend each day
+    slot: z.enum(SESSION_SLOT_VALUES).default(DEFAULT_SESSION_SLOT),
 });
 
 export type OrderBody = z.infer<typeof orderBodySchema>;
@@ -49,11 +56,41 @@ export type OrderBody = z.infer<typeof orderBodySchema>;
 // Create order and DB subscription entry
 export async function POST(request: NextRequest) {  
   try {
+    const razorpay = getRazorpayClient();
     const body = await request.json();
     const parsed = orderBodySchema.safeParse(body);
     if (!parsed.success) {
       return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
-    }    const { amount, currency, planType, duration, startDate, userId, secondUserId } = parsed.data;
+    }    const { currency, planType, startDate, userId, secondUserId, inviteEmails, couponCode, billingState, upgrade, autoRenew, slot } = parsed.data;
+
+    // Only plans currently on sale in the catalogue can be bought
+    const plan = await getPurchasablePlan(planType);
+    if (!plan) {
+      return NextResponse.json({ message: "Invalid plan type", details: `Plan "${planType}" cannot be purchased` }, { status: 400 });
+    }
+    if (autoRenew && !isRenewablePlan(plan)) {
+      return NextResponse.json({ message: "Auto-renewal not available", details: `${plan.name} cannot renew automatically` }, { status: 400 });
+    }
+
+    // Apply the coupon, if any, before pricing the order
+    let coupon: Coupon | null = null;
+    let couponDiscount = 0;
+    if (couponCode) {
+      const couponCheck = await validateCoupon({ code: couponCode, planType, userId });
+      if (!couponCheck.valid || !couponCheck.coupon) {
+        return NextResponse.json({ message: "Invalid coupon", details: couponCheck.reason }, { status: 400 });
+      }
+      coupon = couponCheck.coupon;
+      couponDiscount = couponCheck.discountAmount;
+    }
+
+    if (parsed.data.duration !== undefined && parsed.data.duration !== plan.duration) {
+      return NextResponse.json({
+        message: "Duration mismatch",
+        details: `Expected ${plan.duration} day(s) for ${planType}`
+      }, { status: 400 });
+    }
+    const duration = plan.duration;
     
     // Determine start and end dates based on duration using IST
     let subscriptionStartDate: Date;
@@ -64,6 +101,42 @@ export async function POST(request: NextRequest) {
       subscriptionStartDate = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
     }
     
+    // A single-day plan cannot be booked for a day without a session, or
+    // for a session with no seats left
+    let seatHold: WaitlistEntry | null = null;
+    const sessionDay = startDate ? startDate.slice(0, 10) : toHolidayDate(subscriptionStartDate);
+    const sessionFull = (availability: SessionAvailability) => NextResponse.json({
+      message: "Session full",
+      details: `The ${slot} session on ${sessionDay} has ${availability.remaining ?? 0} seat(s) left. You can join the waitlist or pick another date.`,
+      sessionFull: true,
+      availability
+    }, { status: 409 });
+    // The seat is only taken by the order's pending subscription, so it is
+    // checked again once the coupon use is reserved; the coupon is given
+    // back if the session filled up in the meantime
+    const recheckSeats = async (orderId: string) => {
+      const seatCheck = await checkSessionSeats({ userId, date: sessionDay, slot, seats: plan.seats });
+      if (!seatCheck.allowed) {
+        await releaseCouponRedemption(orderId);
+      }
+      return seatCheck;
+    };
+
+    if (duration === 1) {
+      const holiday = await getHoliday(sessionDay);
+      if (holiday) {
+        return NextResponse.json({
+          message: "No session on this date",
+          details: `There is no session on ${holiday.date} (${holiday.reason}). Please pick another date.`
+        }, { status: 400 });
+      }
+
+      const seatCheck = await checkSessionSeats({ userId, date: sessionDay, slot, seats: plan.seats });
+      if (!seatCheck.allowed) {
+        return sessionFull(seatCheck.availability);
+      }
+    }
+
     let subscriptionEndDate: Date = new Date(subscriptionStartDate);
     
     // Calculate end date by adding the duration in days
@@ -71,8 +144,7 @@ export async function POST(request: NextRequest) {
     
     // Get user email for subscription check
     const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { email: true }
+      where: { id: userId }
     });
     
     if (!user) {
@@ -82,68 +154,94 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
     
+    // An upgrade replaces the bookings it overlaps once this order is paid
+    let upgradeQuote: UpgradeQuote | null = null;
+    if (upgrade) {
+      upgradeQuote = await getUpgradeQuote({
+        userId,
+        planType,
+        startDate: subscriptionStartDate,
+        endDate: subscriptionEndDate
+      });
+      if (!upgradeQuote.eligible) {
+        return NextResponse.json({ message: "Upgrade not available", details: upgradeQuote.reason }, { status: 400 });
+      }
+      if (plan.seats > 1) {
+        return NextResponse.json({ message: "Upgrade not available", details: "Group plans cannot be bought as an upgrade" }, { status: 400 });
+      }
+    }
+
     // Check if user can subscribe for these dates with the specific plan type
     const subscriptionCheck = await canUserSubscribeForDates(
       user.email, 
       subscriptionStartDate, 
       subscriptionEndDate,
-      planType
+      planType,
+      upgradeQuote?.credits.map(credit => credit.subscription.id)
     );
     
     if (!subscriptionCheck.canSubscribe) {
       return NextResponse.json({ 
         message: "Cannot create subscription", 
         details: subscriptionCheck.reason,
-        subscriptionDetails: subscriptionCheck.subscriptionDetails
+        subscriptionDetails: subscriptionCheck.subscriptionDetails,
+        upgradeAvailable: subscriptionCheck.upgradeAvailable ?? false
       }, { status: 409 }); // 409 Conflict
-    }    // Handle comboPlan logic
-    if (planType === PLAN_TYPES.COMBO_PLAN) {
-      // Validate second user ID
-      if (!secondUserId) {
-        return NextResponse.json({ message: "Second user ID required for combo plan." }, { status: 400 });
+    }
+
+    // Derive the price from the plan catalogue rather than trusting the client
+    const priceBreakdown = computeOrderPrice(plan, couponDiscount, upgradeQuote?.creditAmount ?? 0);
+    if (parsed.data.amount !== undefined && parsed.data.amount !== priceBreakdown.amountInPaise) {
+      console.error(`Amount mismatch for ${planType}: client sent ${parsed.data.amount}, expected ${priceBreakdown.amountInPaise}`);
+      return NextResponse.json({
+        message: "Amount mismatch",
+        details: `Expected ${priceBreakdown.amountInPaise} paise for ${planType}`
+      }, { status: 400 });
+    }
+    const amount = priceBreakdown.amountInPaise;
+
+    // Handle group plans: the purchaser holds the first seat and pays for all of them
+    if (priceBreakdown.seats > 1) {
+      const memberEmails = Array.from(new Set((inviteEmails || []).map(email => email.toLowerCase())));
+      const memberCount = (secondUserId ? 1 : 0) + memberEmails.length;
+      if (memberCount !== priceBreakdown.seats - 1) {
+        return NextResponse.json({
+          message: "Invalid group plan registration",
+          details: `${plan.name} covers ${priceBreakdown.seats} members; provide details or emails for ${priceBreakdown.seats - 1} other member(s)`
+        }, { status: 400 });
       }
 
-      // Fetch both users by their IDs
-      const [user1, user2] = await Promise.all([
-        prisma.user.findUnique({ where: { id: userId } }),
-        prisma.user.findUnique({ where: { id: secondUserId } })
-      ]);
-      
-      // Log user info for debugging
-      console.log('FAMILY PLAN CHECK:');
-      console.log('Primary user:', { id: user1?.id, email: user1?.email });
-      console.log('Second user:', { id: user2?.id, email: user2?.email });
-      
-      if (!user1 || !user2) {
+      // Member whose details were entered at checkout (two-member plans)
+      const secondUser = secondUserId
+        ? await prisma.user.findUnique({ where: { id: secondUserId } })
+        : null;
+      if (secondUserId && !secondUser) {
         return NextResponse.json({ message: "User(s) not found." }, { status: 404 });
       }
-      
-      // Check that primary and secondary emails are different
-      if (user1.email === user2.email) {
+
+      // Check that every member has a different email address
+      const allEmails = [user.email, ...(secondUser ? [secondUser.email] : []), ...memberEmails];
+      if (new Set(allEmails.map(email => email.toLowerCase())).size !== allEmails.length) {
         return NextResponse.json({ 
-          message: "Invalid family plan registration", 
-          details: "Primary and secondary users must have different email addresses"
+          message: "Invalid group plan registration", 
+          details: "Every member must have a different email address"
         }, { status: 400 });
       }
       
-      // Check subscription eligibility for both users
-      const [canSub1, canSub2] = await Promise.all([
-        canUserSubscribeForDates(user1.email, subscriptionStartDate, subscriptionEndDate, planType),
-        canUserSubscribeForDates(user2.email, subscriptionStartDate, subscriptionEndDate, planType)
-      ]);
-      if (!canSub1.canSubscribe) {
+      // Check subscription eligibility for every other member
+      const memberChecks = await Promise.all(allEmails.slice(1).map(async email => ({
+        email,
+        check: await canUserSubscribeForDates(email, subscriptionStartDate, subscriptionEndDate, planType)
+      })));
+      const blocked = memberChecks.find(member => !member.check.canSubscribe);
+      if (blocked) {
         return NextResponse.json({ 
-          message: `Primary user (${user1.email}) cannot subscribe for the selected dates.`, 
-          details: canSub1.reason 
+          message: `Member ${blocked.email} cannot subscribe for the selected dates.`, 
+          details: blocked.check.reason 
         }, { status: 409 });
       }
-      if (!canSub2.canSubscribe) {
-        return NextResponse.json({ 
-          message: `Second user (${user2.email}) cannot subscribe for the selected dates.`, 
-          details: canSub2.reason 
-        }, { status: 409 });
-      }
-      // Create Razorpay order (single order for both subscriptions)
+
+      // Create Razorpay order (single order for every seat)
       let order;
       try {
         if (!razorpay) throw new Error("Razorpay client is not initialized. Please check your environment variables.");
@@ -152,12 +250,18 @@ export async function POST(request: NextRequest) {
           currency,
           receipt: `receipt#${Date.now()}`,
           notes: {
-            description: "Payment for family subscription",
+            description: "Payment for group subscription",
             plan_type: planType,
-            date: new Date().toISOString(),            startDate: subscriptionStartDate.toISOString(),
+            seats: priceBreakdown.seats,
+            date: new Date().toISOString(),
+            startDate: subscriptionStartDate.toISOString(),
             endDate: subscriptionEndDate.toISOString(),
             user_id: userId,
-            second_user_id: secondUserId,
+            second_user_id: secondUserId ?? "",
+            list_price: priceBreakdown.listPrice,
+            discount_amount: priceBreakdown.discountAmount,
+            coupon_code: coupon?.code ?? "",
+            slot,
           },
         });
         if (!order || !order.id) {
@@ -166,37 +270,91 @@ export async function POST(request: NextRequest) {
       } catch (razorpayError) {
         return NextResponse.json({ message: 'Razorpay order creation error', error: String(razorpayError) }, { status: 502 });
       }
-      // Create two subscriptions in DB with half price each
-      const halfPrice = Math.round(fromPaise(amount) / 2);
-      const data1 = {
-        userId: user1.id,
+
+      // Checked again now, atomically, in case other checkouts used up the coupon
+      if (coupon) {
+        const reservation = await reserveCouponRedemption({
+          couponId: coupon.id,
+          userId,
+          orderId: order.id,
+          discountAmount: priceBreakdown.discountAmount
+        });
+        if (!reservation.reserved) {
+          return NextResponse.json({ message: "Invalid coupon", details: reservation.reason }, { status: 409 });
+        }
+      }
+      if (duration === 1) {
+        const seatCheck = await recheckSeats(order.id);
+        if (!seatCheck.allowed) return sessionFull(seatCheck.availability);
+        seatHold = seatCheck.hold;
+      }
+
+      // The purchaser's subscription carries the whole payment; members' seats are covered by it
+      const baseData = {
         planType,
         startDate: subscriptionStartDate,
         endDate: subscriptionEndDate,
         orderId: order.id,
         paymentRef: "",
-        paymentStatus: "pending",
-        status: "inactive",
+        paymentStatus: PaymentStatus.pending,
+        status: SubscriptionStatus.pending,
         duration: duration,
-        price: halfPrice,
+        billingState,
+        planPriceId: priceBreakdown.planPriceId,
+        slot,
       };
-      const data2 = {
-        userId: user2.id,
-        planType,
-        startDate: subscriptionStartDate,
-        endDate: subscriptionEndDate,
+      const purchaserSub = await prisma.subscription.create({
+        data: {
+          ...baseData,
+          userId,
+          price: priceBreakdown.finalPrice,
+          listPrice: priceBreakdown.listPrice,
+          discountAmount: priceBreakdown.discountAmount,
+          couponCode: coupon?.code,
+        }
+      });
+      const secondSub = secondUser
+        ? await prisma.subscription.create({ data: { ...baseData, userId: secondUser.id } })
+        : null;
+      await recordSubscriptionEvents([purchaserSub, ...(secondSub ? [secondSub] : [])].map(sub => ({
+        userId: sub.userId,
+        subscriptionId: sub.id,
+        type: SUBSCRIPTION_EVENT_TYPES.CREATED,
+        actor: EVENT_ACTORS.MEMBER,
+        after: subscriptionSnapshot(sub),
+        note: 'Group plan checkout'
+      })));
+
+      if (seatHold) {
+        await markHoldBooked(seatHold.id);
+      }
+
+      const groupOrder = await createGroupOrder({
         orderId: order.id,
-        paymentRef: "",
-        paymentStatus: "pending",
-        status: "inactive",
-        duration: duration,
-        price: halfPrice,
-      };
-      const [sub1, sub2] = await Promise.all([
-        prisma.subscription.create({ data: data1 }),
-        prisma.subscription.create({ data: data2 })
-      ]);
-      return NextResponse.json({ orderId: order.id, subscriptionIds: [sub1.id, sub2.id] }, { status: 201 });
+        purchaserSubscriptionId: purchaserSub.id,
+        memberSubscriptionIds: secondSub ? [secondSub.id] : [],
+        inviteEmails: memberEmails
+      });
+
+      return NextResponse.json({
+        orderId: order.id,
+        subscriptionIds: secondSub ? [purchaserSub.id, secondSub.id] : [purchaserSub.id],
+        groupOrderId: groupOrder.id
+      }, { status: 201 });
+    }
+
+    // Auto-renewal turns the checkout into a recurring payment authorisation
+    let mandate: Awaited<ReturnType<typeof prepareRenewalMandate>> | null = null;
+    if (autoRenew) {
+      try {
+        mandate = await prepareRenewalMandate(user, priceBreakdown.listPrice);
+      } catch (mandateError) {
+        console.error('Error preparing renewal mandate:', mandateError);
+        return NextResponse.json({ 
+          message: 'Razorpay customer creation error', 
+          error: mandateError instanceof Error ? mandateError.message : String(mandateError) 
+        }, { status: 502 });
+      }
     }
 
     const options = {
@@ -210,7 +368,14 @@ export async function POST(request: NextRequest) {
         startDate: subscriptionStartDate.toISOString(), // Serialize as string
         endDate: subscriptionEndDate.toISOString(), // Serialize as string
         user_id: userId,
-      }
+        list_price: priceBreakdown.listPrice,
+        discount_amount: priceBreakdown.discountAmount,
+        credit_amount: priceBreakdown.creditAmount,
+        coupon_code: coupon?.code ?? "",
+        auto_renew: autoRenew ? "yes" : "no",
+        slot,
+      },
+      ...(mandate ? mandate.orderFields : {})
     };
     console.log("options package:", options)
 
@@ -236,6 +401,24 @@ export async function POST(request: NextRequest) {
       }, { status: 502 });
     }
     console.log("order:", order)
+
+    // Checked again now, atomically, in case other checkouts used up the coupon
+    if (coupon) {
+      const reservation = await reserveCouponRedemption({
+        couponId: coupon.id,
+        userId,
+        orderId: order.id,
+        discountAmount: priceBreakdown.discountAmount
+      });
+      if (!reservation.reserved) {
+        return NextResponse.json({ message: "Invalid coupon", details: reservation.reason }, { status: 409 });
+      }
+    }
+    if (duration === 1) {
+      const seatCheck = await recheckSeats(order.id);
+      if (!seatCheck.allowed) return sessionFull(seatCheck.availability);
+      seatHold = seatCheck.hold;
+    }
     
     // Create subscription entry in DB
     // Create base data object
@@ -246,196 +429,98 @@ export async function POST(request: NextRequest) {
         endDate: subscriptionEndDate,
         orderId: order.id,
         paymentRef: "",
-        paymentStatus: "pending",
-        status: "inactive",
+        paymentStatus: PaymentStatus.pending,
+        status: SubscriptionStatus.pending,
         duration: duration,
-        price: fromPaise(amount), // Convert paise to rupees using helper function
+        price: priceBreakdown.finalPrice,
+        listPrice: priceBreakdown.listPrice,
+        discountAmount: priceBreakdown.discountAmount,
+        creditAmount: priceBreakdown.creditAmount,
+        couponCode: coupon?.code,
+        billingState,
+        planPriceId: priceBreakdown.planPriceId,
+        slot,
     };
     
+    if (mandate) {
+      const autoRenewal = await createAutoRenewal({ userId, planType, mandate });
+      data.autoRenewalId = autoRenewal.id;
+    }
+    
     // create subscription `in DB
     const subscription = await prisma.subscription.create({
       data,
     });
+    await recordSubscriptionEvent({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      type: SUBSCRIPTION_EVENT_TYPES.CREATED,
+      actor: EVENT_ACTORS.MEMBER,
+      after: subscriptionSnapshot(subscription),
+      note: upgradeQuote ? 'Upgrade checkout' : 'Checkout'
+    });
+
+    if (seatHold) {
+      await markHoldBooked(seatHold.id);
+    }
+
+    if (upgradeQuote) {
+      await createPlanConversions({
+        orderId: order.id,
+        toSubscription: subscription,
+        credits: upgradeQuote.credits
+      });
+    }
     
-    return NextResponse.json({ orderId: order.id, subscriptionId: subscription.id }, { status: 201 });
+    return NextResponse.json({
+      orderId: order.id,
+      subscriptionId: subscription.id,
+      // Passed to the checkout so it collects a recurring mandate
+      ...(mandate ? { customerId: mandate.customerId, recurring: true } : {})
+    }, { status: 201 });
   } catch (error) {
     console.log("Error in createorder:", error)
     return NextResponse.json({ message: "Server Error", error: String(error) }, { status: 500 });
   }
 }
 
-// PATCH: update both subscriptions for family plan
+// PATCH: checkout callback from the browser
+// The Razorpay webhook is the source of truth; this only speeds up activation
+// when the checkout signature checks out
 export async function PATCH(request: NextRequest) {
   try {
-    const { subscriptionId, subscriptionIds, orderId, paymentId, userId, status, paymentStatus } = await request.json();
-    if (!orderId || !paymentId || !status) {
-      return NextResponse.json({ message: "orderId, paymentId, and status required" }, { status: 400 });
+    const { subscriptionIds, orderId, paymentId, razorpaySignature, paymentStatus } = await request.json();
+    if (!orderId) {
+      return NextResponse.json({ message: "orderId required" }, { status: 400 });
     }
-    // Find all subscriptions for this order (handles both single and family)
-    const subscriptions = await prisma.subscription.findMany({
-      where: { orderId },
-      include: { user: true },
-    });
-    if (!subscriptions || subscriptions.length === 0) {
-      return NextResponse.json({ message: "Subscription(s) not found" }, { status: 404 });
+
+    if (paymentStatus === "failed") {
+      const count = await markOrderPaymentFailed(orderId, paymentId || undefined);
+      return NextResponse.json({ message: `Marked ${count} subscription(s) as failed` }, { status: 200 });
     }
-    // If subscriptionIds is provided, filter to only those
-    let subsToUpdate = subscriptions;
-    if (Array.isArray(subscriptionIds) && subscriptionIds.length > 0) {
-      subsToUpdate = subscriptions.filter(sub => subscriptionIds.includes(sub.id));
+
+    if (!paymentId) {
+      return NextResponse.json({ message: "paymentId required" }, { status: 400 });
     }
-    // Update all relevant subscriptions for this order
-    const updatedSubs = await Promise.all(subsToUpdate.map(sub =>
-      prisma.subscription.update({
-        where: { id: sub.id },
-        data: {
-          paymentRef: paymentId,
-          paymentStatus: paymentStatus || "success",
-          status,
-        },
-        include: { user: true }
-      })
-    ));
-    // Send emails to all users
-    const { sendWelcomeEmail, sendMeetingInvite, sendAdminNotificationEmail } = await import("@/lib/email");
-    
-    // For family plans registering for today, handle meeting creation intelligently
-    let sharedTodayMeeting: any = null;
-    const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-    today.setHours(0, 0, 0, 0);
-    
-    // Process family plan users together for today's meetings
-    if (updatedSubs.length > 1) {
-      // Check if any subscription starts today
-      const todaySubscriptions = updatedSubs.filter(sub => {
-        const subscriptionStartDate = new Date(sub.startDate);
-        subscriptionStartDate.setHours(0, 0, 0, 0);
-        return subscriptionStartDate.getTime() === today.getTime();
-      });
-      
-      if (todaySubscriptions.length > 0) {
-        console.log(`Family plan with ${todaySubscriptions.length} users starting today, creating/finding shared meeting`);
-        
-        // Create or get today's meeting for all family members at once
-        try {
-          const allUserIds = todaySubscriptions.map(sub => sub.userId);
-          sharedTodayMeeting = await manageMeeting({
-            date: today.toISOString().split('T')[0],
-            userIds: allUserIds,
-            operation: 'getOrCreate',
-            syncFromCalendar: true
-          });
-          console.log(`Created/found shared meeting ${sharedTodayMeeting.id} for ${allUserIds.length} family members`);
-        } catch (meetingError) {
-          console.error(`Error creating shared meeting for family plan:`, meetingError);
-        }
-      }
+
+    if (!verifyPaymentSignature(orderId, paymentId, razorpaySignature)) {
+      console.error(`Invalid payment signature for order ${orderId}`);
+      return NextResponse.json({ message: "Invalid payment signature" }, { status: 400 });
     }
-    
-    await Promise.all(updatedSubs.map(async (subscription) => {
-      // Send welcome email
-      await sendWelcomeEmail({
-        recipient: {
-          name: `${subscription.user.firstName} ${subscription.user.lastName}`,
-          email: subscription.user.email
-        },
-        planType: subscription.planType,
-        startDate: subscription.startDate,
-        endDate: subscription.endDate,
-        amount: parseFloat(subscription.price.toString()),
-        paymentId: subscription.paymentRef || undefined
-      });
-      
-      // Send meeting invite if subscription starts today (using new messaging service)
-      const subscriptionStartDate = new Date(subscription.startDate);
-      subscriptionStartDate.setHours(0, 0, 0, 0);
-      
-      if (subscriptionStartDate.getTime() === today.getTime()) {
-        try {
-          console.log(`Subscription starts today for ${subscription.user.email}, sending immediate invite`);
-          
-          // Use shared meeting for family plans, or create individual meeting for single plans
-          let todayMeeting = sharedTodayMeeting;
-          if (!todayMeeting) {
-            // Add user to today's meeting (this will create if doesn't exist)
-            todayMeeting = await manageMeeting({
-              date: today.toISOString().split('T')[0],
-              userIds: [subscription.userId],
-              operation: 'getOrCreate',
-              syncFromCalendar: true
-            });
-          }
-          
-          if (todayMeeting && todayMeeting.meetingLink) {
-            const inviteSent = await sendImmediateInviteViaMessaging({
-              recipient: {
-                name: `${subscription.user.firstName} ${subscription.user.lastName}`,
-                email: subscription.user.email
-              },
-              meetingTitle: todayMeeting.meetingTitle || "GOALETE Club Session - Today",
-              meetingDescription: todayMeeting.meetingDesc || "Join us for today's GOALETE Club session to learn how to achieve any goal in life.",
-              meetingLink: todayMeeting.meetingLink,
-              startTime: todayMeeting.startTime,
-              endTime: todayMeeting.endTime,
-              platform: todayMeeting.platform === "zoom" ? "Zoom" : "Google Meet",
-              hostLink: todayMeeting.zoomStartUrl || undefined
-            });
-            
-            if (inviteSent) {
-              console.log(`Successfully sent immediate invite to ${subscription.user.email}`);
-            } else {
-              console.error(`Failed to send immediate invite to ${subscription.user.email}`);
-            }
-          } else {
-            console.log(`No meeting available for today, skipping immediate invite for ${subscription.user.email}`);
-          }
-        } catch (inviteError) {
-          console.error(`Error sending immediate invite to ${subscription.user.email}:`, inviteError);
-          // Don't fail the entire transaction for invite errors
-        }
-      }
-    }));
-    // Send admin notification
-    if (updatedSubs.length > 1) {
-      // Family plan: send both users and subscription IDs
-      await sendFamilyAdminNotificationEmail({
-        users: updatedSubs.map(sub => ({
-          id: sub.user.id,
-          firstName: sub.user.firstName,
-          lastName: sub.user.lastName,
-          email: sub.user.email,
-          phone: sub.user.phone,
-          source: sub.user.source,
-          referenceName: sub.user.referenceName || undefined,
-          subscriptionId: sub.id
-        })),
-        planType: updatedSubs[0].planType,
-        startDate: updatedSubs[0].startDate,
-        endDate: updatedSubs[0].endDate,
-        amount: updatedSubs.reduce((sum, sub) => sum + parseFloat(sub.price.toString()), 0),
-        paymentId: updatedSubs[0].paymentRef || undefined
-      });
-    } else {
-      // Single plan: send as before
-      const subscription = updatedSubs[0];
-      await sendAdminNotificationEmail({
-        user: {
-          id: subscription.user.id,
-          firstName: subscription.user.firstName,
-          lastName: subscription.user.lastName,
-          email: subscription.user.email,
-          phone: subscription.user.phone,
-          source: subscription.user.source,
-          referenceName: subscription.user.referenceName || undefined
-        },
-        planType: subscription.planType,
-        startDate: subscription.startDate,
-        endDate: subscription.endDate,
-        amount: parseFloat(subscription.price.toString()),
-        paymentId: subscription.paymentRef || undefined
-      });
+
+    const activation = await activateOrderSubscriptions({
+      orderId,
+      paymentId,
+      subscriptionIds: Array.isArray(subscriptionIds) ? subscriptionIds : undefined,
+      actor: EVENT_ACTORS.MEMBER,
+    });
+    if (!activation.found) {
+      return NextResponse.json({ message: "Subscription(s) not found" }, { status: 404 });
     }
-    return NextResponse.json({ subscriptions: updatedSubs }, { status: 200 });
+    return NextResponse.json({
+      subscriptions: activation.subscriptions,
+      alreadyProcessed: activation.alreadyProcessed
+    }, { status: 200 });
   } catch (error) {
     console.error("Error in payment processing:", error);
     return NextResponse.json({ message: "Failed to update subscription", error: String(error) }, { status: 500 });
@@ -450,8 +535,25 @@ export async function DELETE(request: NextRequest) {
     if (!orderId)
       return NextResponse.json({ error: "orderId required" }, { status: 400 });
     
+    const unpaidWhere = { orderId, status: SubscriptionStatus.pending, paymentStatus: { in: UNPAID_PAYMENT_STATUSES } };
+    const unpaid = await prisma.subscription.findMany({ where: unpaidWhere, select: { autoRenewalId: true } });
+
     // Use deleteMany to handle family plans with multiple subscriptions
-    const deleteResult = await prisma.subscription.deleteMany({ where: { orderId } });
+    // Only unpaid rows are removed; the webhook may already have activated the order
+    const deleteResult = await prisma.subscription.deleteMany({
+      where: unpaidWhere
+    });
+    // An auto-renewal set up by this checkout goes with it
+    const autoRenewalIds = unpaid.map(sub => sub.autoRenewalId).filter((id): id is string => !!id);
+    if (autoRenewalIds.length > 0) {
+      await prisma.autoRenewal.deleteMany({ where: { id: { in: autoRenewalIds }, status: "pending" } });
+    }
+    // Unpaid group purchases go with their seats
+    await prisma.groupOrder.deleteMany({
+      where: { orderId, status: { in: ["pending", "failed"] } }
+    });
+    // Free up the coupon use reserved for this checkout
+    await releaseCouponRedemption(orderId);
     return NextResponse.json({ message: `Deleted ${deleteResult.count} subscription(s)` }, { status: 200 });
   } catch (error) {
     return NextResponse.json({ error: "Failed to delete subscription", details: error }, { status: 500 });
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { LIVE_SUBSCRIPTION_STATUSES } from "@/lib/subscriptionStatus";
 
 // Create or fetch user
 export async function POST(request: NextRequest) {
@@ -48,7 +49,7 @@ export async function POST(request: NextRequest) {
     });    // Check for active subscription
     const today = new Date();
     const activeSub = user.subscriptions.find(sub =>
-      sub.status === "active" && new Date(sub.endDate) >= today
+      LIVE_SUBSCRIPTION_STATUSES.includes(sub.status) && new Date(sub.endDate) >= today
     );
     
     return NextResponse.json({ 
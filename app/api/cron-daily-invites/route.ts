@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { sendMeetingInvite } from "@/lib/email";
-import { manageMeeting } from "@/lib/meetingLink";
-import { format } from "date-fns";
+import { detachUncoveredUsers, manageMeeting } from "@/lib/meetingLink";
+import { notPausedOn } from "@/lib/pauses";
+import { applyHolidayExtensions, getHoliday } from "@/lib/holidays";
+import { processWaitlists } from "@/lib/waitlist";
+import { syncAttendanceForDate } from "@/lib/attendance";
+import { renewCalendarWatchIfNeeded, syncGoogleCalendar } from "@/lib/calendarSync";
+import { ENTITLED_PAYMENT_STATUSES, SubscriptionStatus, syncSubscriptionStatuses } from "@/lib/subscriptionStatus";
+import { DEFAULT_SESSION_SLOT, getSlotStartTime, type SessionSlot } from "@/lib/sessionSlots";
+import { getDefaultMeetingPlatform } from "@/lib/meetingPlatforms";
+import { format, subDays } from "date-fns";
+import type { Prisma } from "@/generated/prisma";
 
 export async function GET(req: NextRequest) {
   try {
@@ -35,6 +44,60 @@ export async function GET(req: NextRequest) {
     
     console.log(`📅 Processing invites for date: ${todayStr} (IST)`);
 
+    // Expire ended subscriptions and apply pauses before picking today's members
+    const statusDay = new Date(istDate);
+    statusDay.setHours(0, 0, 0, 0);
+    const statusSync = await syncSubscriptionStatuses(statusDay);
+    console.log(`🔄 Subscription statuses: ${statusSync.expired} expired, ${statusSync.paused} paused, ${statusSync.resumed} resumed`);
+
+    // Yesterday's participant reports are complete by now
+    try {
+      const yesterdayStr = format(subDays(istDate, 1), 'yyyy-MM-dd');
+      const attendance = await syncAttendanceForDate(yesterdayStr);
+      console.log(`📋 Attendance for ${yesterdayStr}: ${attendance.recorded} attendee(s) in ${attendance.meetings} meeting(s)`);
+    } catch (attendanceError) {
+      console.error('Error taking attendance:', attendanceError);
+    }
+
+    // Take members whose plans ended or were cancelled off upcoming meetings
+    try {
+      const detached = await detachUncoveredUsers();
+      console.log(`🧹 Removed ${detached} member(s) no longer covered from upcoming meetings`);
+    } catch (detachError) {
+      console.error('Error removing uncovered members from meetings:', detachError);
+    }
+
+    // Keep the calendar push channel open, and catch up on any notification it missed
+    try {
+      const channelExpiresAt = await renewCalendarWatchIfNeeded();
+      if (channelExpiresAt) {
+        console.log(`📆 Calendar push channel renewed until ${channelExpiresAt.toISOString()}`);
+      }
+      const calendarSync = await syncGoogleCalendar();
+      console.log(`📆 ${calendarSync.message}`);
+    } catch (calendarError) {
+      console.error('Error syncing the Google calendar:', calendarError);
+    }
+
+    // No meeting or invites on a day without a session; members running
+    // today get the day added to the end of their plan instead
+    const holiday = await getHoliday(todayStr);
+    if (holiday) {
+      const subscriptionsExtended = await applyHolidayExtensions(holiday, istDate);
+      console.log(`🏖️ No session today (${holiday.reason}); ${subscriptionsExtended} subscription(s) extended`);
+      return NextResponse.json({
+        message: "No session today",
+        date: todayStr,
+        reason: holiday.reason,
+        timestamp: new Date().toISOString(),
+        subscriptionsExtended
+      });
+    }
+
+    // Lapse unbooked held seats and give freed seats to the next people waiting
+    const waitlists = await processWaitlists(todayStr);
+    console.log(`🪑 Waitlists: ${waitlists.expired} entries expired, ${waitlists.promoted} promoted`);
+
     // Find all users with active subscriptions for today
     const usersWithActiveSubscriptions = await prisma.user.findMany({
       where: {
@@ -52,17 +115,11 @@ export async function GET(req: NextRequest) {
                 }
               },
               {
-                status: 'active'
+                status: SubscriptionStatus.active
               },
+              notPausedOn(istDate),
               {
-                OR: [
-                  { paymentStatus: 'completed' },
-                  { paymentStatus: 'paid' },
-                  { paymentStatus: 'success' },
-                  { paymentStatus: 'admin-added' },
-                  { paymentStatus: 'admin-created' },
-                  { paymentStatus: '' }
-                ]
+                paymentStatus: { in: ENTITLED_PAYMENT_STATUSES }
               }
             ]
           }
@@ -83,7 +140,7 @@ export async function GET(req: NextRequest) {
                 }
               },
               {
-                status: 'active'
+                status: SubscriptionStatus.active
               }
             ]
           }
@@ -93,47 +150,48 @@ export async function GET(req: NextRequest) {
 
     // Check if there's already a meeting for today - we'll use manageMeeting to handle this
     // Get active users for today first
+    const coversToday: Prisma.SubscriptionWhereInput = {
+      AND: [
+        {
+          startDate: {
+            lte: istDate
+          }
+        },
+        {
+          endDate: {
+            gte: istDate
+          }
+        },
+        {
+          status: SubscriptionStatus.active
+        },
+        notPausedOn(istDate),
+        {
+          paymentStatus: { in: ENTITLED_PAYMENT_STATUSES }
+        }
+      ]
+    };
     const activeUsers = await prisma.user.findMany({
       where: {
         subscriptions: {
-          some: {
-            AND: [
-              {
-                startDate: {
-                  lte: istDate
-                }
-              },
-              {
-                endDate: {
-                  gte: istDate
-                }
-              },
-              {
-                status: 'active'
-              },
-              {
-                OR: [
-                  { paymentStatus: 'completed' },
-                  { paymentStatus: 'paid' },
-                  { paymentStatus: 'success' },
-                  { paymentStatus: 'admin-added' },
-                  { paymentStatus: 'admin-created' },
-                  { paymentStatus: '' }
-                ]
-              }
-            ]
-          }
+          some: coversToday
         }
       },
       select: {
         id: true,
         email: true,
         firstName: true,
-        lastName: true
+        lastName: true,
+        // The newest subscription covering today decides the member's slot
+        subscriptions: {
+          where: coversToday,
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { slot: true }
+        }
       }
     });
 
-    const activeUserIds = activeUsers.map(user => user.id);
     console.log(`👥 Found ${activeUsers.length} users with active subscriptions for today`);
 
     if (activeUsers.length === 0) {
@@ -146,67 +204,92 @@ export async function GET(req: NextRequest) {
       });
     }
 
+    // Group members by the session they attend
+    const usersBySlot = new Map<SessionSlot, typeof activeUsers>();
+    for (const user of activeUsers) {
+      const slot = (user.subscriptions[0]?.slot as SessionSlot | undefined) ?? DEFAULT_SESSION_SLOT;
+      usersBySlot.set(slot, [...(usersBySlot.get(slot) || []), user]);
+    }
+
     // Use .env or fallback values
-    let platform: 'google-meet' | 'zoom' = 'google-meet';
-    if (process.env.DEFAULT_MEETING_PLATFORM === 'zoom') platform = 'zoom';
-    else if (process.env.DEFAULT_MEETING_PLATFORM === 'google-meet') platform = 'google-meet';
-    const startTimeStr = process.env.DEFAULT_MEETING_TIME || '21:00';
+    const platform = getDefaultMeetingPlatform();
     const durationMin = process.env.DEFAULT_MEETING_DURATION ? Number(process.env.DEFAULT_MEETING_DURATION) : 60;
     const meetingTitle = process.env.DEFAULT_MEETING_TITLE || `Daily Meeting - ${format(istDate, 'dd-MM-yy')}`;
     const meetingDesc = process.env.DEFAULT_MEETING_DESCRIPTION || `Daily meeting for Goalete subscribers on ${format(istDate, 'EEEE, dd-MM-yy')}`;
 
-    // Create or get meeting and add active users using the meeting management API
-    console.log('🎯 Creating/updating meeting with active users...');
-    const todayMeeting = await manageMeeting({
-      date: todayStr,
-      platform,
-      startTime: startTimeStr,
-      duration: durationMin,
-      meetingTitle,
-      meetingDesc,
-      userIds: activeUserIds,
-      operation: 'getOrCreate',
-      syncFromCalendar: false
-    });
-
-    console.log(`✅ Meeting ready for ${todayStr}: ${todayMeeting.id} with ${todayMeeting.users?.length || 0} users`);
-
-    // Send invites to all active users
     let successCount = 0;
     let errorCount = 0;
     const errors: string[] = [];
+    const meetings: { slot: SessionSlot; meetingId: string; meetingLink: string; users: number }[] = [];
 
-    for (const user of activeUsers) {
-      try {
-        console.log(`📧 Sending invite to: ${user.email}`);
-        
-        const inviteResult = await sendMeetingInvite({
-          recipient: {
-            name: `${user.firstName} ${user.lastName}`.trim(),
-            email: user.email
-          },
-          meetingTitle: `${todayMeeting.meetingTitle} - ${format(istDate, 'dd-MM-yy')}` || `${process.env.DEFAULT_MEETING_TITLE}- ${format(istDate, 'dd-MM-yy')}` || `Daily Meeting - ${format(istDate, 'dd-MM-yy')}`,
-          meetingDescription: todayMeeting.meetingDesc || process.env.DEFAULT_MEETING_DESCRIPTION || 'Daily meeting for Goalete subscribers',
-          meetingLink: todayMeeting.meetingLink,
-          startTime: todayMeeting.startTime,
-          endTime: todayMeeting.endTime,
-          platform: todayMeeting.platform || process.env.DEFAULT_MEETING_PLATFORM || 'google-meet'
-        });
-
-        if (inviteResult) {
-          successCount++;
-          console.log(`✅ Successfully sent invite to: ${user.email}`);
-        } else {
+    for (const [slot, slotUsers] of usersBySlot) {
+      // The job is scheduled before the earliest slot; a later run still
+      // creates the meeting but members get the invite after it has started
+      const slotStart = new Date(`${todayStr}T${getSlotStartTime(slot)}:00+05:30`);
+      if (slotStart.getTime() <= Date.now()) {
+        console.warn(`⚠️ The ${slot} session started at ${getSlotStartTime(slot)} IST, before this run; invites will be late`);
+      }
+
+      // Create or get the slot's meeting and add its members using the meeting management API
+      console.log(`🎯 Creating/updating ${slot} meeting with ${slotUsers.length} active users...`);
+      const todayMeeting = await manageMeeting({
+        date: todayStr,
+        slot,
+        platform,
+        startTime: getSlotStartTime(slot),
+        duration: durationMin,
+        meetingTitle,
+        meetingDesc,
+        userIds: slotUsers.map(user => user.id),
+        operation: 'getOrCreate',
+        syncFromCalendar: false
+      });
+
+      if (todayMeeting.cancelledAt) {
+        console.log(`🚫 ${slot} meeting for ${todayStr} was cancelled; skipping invites`);
+        continue;
+      }
+
+      console.log(`✅ ${slot} meeting ready for ${todayStr}: ${todayMeeting.id} with ${todayMeeting.users?.length || 0} users`);
+      meetings.push({ slot, meetingId: todayMeeting.id, meetingLink: todayMeeting.meetingLink, users: slotUsers.length });
+
+      // Send invites to the slot's members who got a seat; the rest are waitlisted
+      const seated = new Set(todayMeeting.users?.map(user => user.id) || []);
+      for (const user of slotUsers.filter(user => seated.has(user.id))) {
+        try {
+          console.log(`📧 Sending invite to: ${user.email}`);
+          
+          const inviteResult = await sendMeetingInvite({
+            recipient: {
+              name: `${user.firstName} ${user.lastName}`.trim(),
+              email: user.email
+            },
+            meetingTitle: `${todayMeeting.meetingTitle} - ${format(istDate, 'dd-MM-yy')}` || `${process.env.DEFAULT_MEETING_TITLE}- ${format(istDate, 'dd-MM-yy')}` || `Daily Meeting - ${format(istDate, 'dd-MM-yy')}`,
+            meetingDescription: todayMeeting.meetingDesc || process.env.DEFAULT_MEETING_DESCRIPTION || 'Daily meeting for Goalete subscribers',
+            meetingLink: todayMeeting.meetingLink,
+            startTime: todayMeeting.startTime,
+            endTime: todayMeeting.endTime,
+            platform: todayMeeting.platform,
+            meetingId: todayMeeting.id,
+            userId: user.id,
+            sequence: todayMeeting.sequence
+          });
+
+          if (inviteResult) {
+            successCount++;
+            console.log(`✅ Successfully sent invite to: ${user.email}`);
+          } else {
+            errorCount++;
+            const error = `Failed to send invite to ${user.email}`;
+            errors.push(error);
+            console.error(`❌ ${error}`);
+          }
+        } catch (error) {
           errorCount++;
-          const error = `Failed to send invite to ${user.email}`;
-          errors.push(error);
-          console.error(`❌ ${error}`);
+          const errorMsg = `Exception sending invite to ${user.email}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          errors.push(errorMsg);
+          console.error(`❌ ${errorMsg}`);
         }
-      } catch (error) {
-        errorCount++;
-        const errorMsg = `Exception sending invite to ${user.email}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        errors.push(errorMsg);
-        console.error(`❌ ${errorMsg}`);
       }
     }
 
@@ -214,8 +297,7 @@ export async function GET(req: NextRequest) {
       message: "Daily cron job completed",
       date: todayStr,
       timestamp: new Date().toISOString(),
-      meetingId: todayMeeting.id,
-      meetingLink: todayMeeting.meetingLink,
+      meetings,
       totalUsers: activeUsers.length,
       successfulInvites: successCount,
       failedInvites: errorCount,
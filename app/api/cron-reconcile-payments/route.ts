@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reconcileStaleOrders } from "@/lib/reconciliation";
+
+// Reconcile stale pending orders with Razorpay
+export async function GET(req: NextRequest) {
+  try {
+    console.log('🚀 Payment reconciliation cron started at:', new Date().toISOString());
+
+    // Check if cron jobs are enabled
+    if (process.env.ENABLE_CRON_JOBS === 'false') {
+      console.log('⚠️ Cron jobs are disabled via ENABLE_CRON_JOBS environment variable');
+      return NextResponse.json({
+        message: "Cron jobs are disabled",
+        status: "disabled",
+        timestamp: new Date().toISOString()
+      }, { status: 200 });
+    }
+
+    // Verify cron job authentication (Vercel provides a special header)
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // If CRON_SECRET is set, verify it; otherwise allow the request (for Vercel's built-in cron)
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.log('❌ Unauthorized cron job request');
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const run = await reconcileStaleOrders({ trigger: 'cron' });
+
+    return NextResponse.json({
+      message: run.status === 'completed' ? "Reconciliation completed" : "Reconciliation failed",
+      run,
+      timestamp: new Date().toISOString()
+    }, { status: run.status === 'completed' ? 200 : 500 });
+  } catch (error) {
+    console.error("Error in payment reconciliation cron:", error);
+    return NextResponse.json(
+      {
+        message: "Payment reconciliation failed",
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processDueRenewals } from "@/lib/renewals";
+
+// Charge auto-renewals that are due, including scheduled retries
+export async function GET(req: NextRequest) {
+  try {
+    console.log('🚀 Auto-renewal cron started at:', new Date().toISOString());
+
+    // Check if cron jobs are enabled
+    if (process.env.ENABLE_CRON_JOBS === 'false') {
+      console.log('⚠️ Cron jobs are disabled via ENABLE_CRON_JOBS environment variable');
+      return NextResponse.json({
+        message: "Cron jobs are disabled",
+        status: "disabled",
+        timestamp: new Date().toISOString()
+      }, { status: 200 });
+    }
+
+    // Verify cron job authentication (Vercel provides a special header)
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // If CRON_SECRET is set, verify it; otherwise allow the request (for Vercel's built-in cron)
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.log('❌ Unauthorized cron job request');
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = await processDueRenewals();
+
+    return NextResponse.json({
+      message: `Processed ${results.length} due renewal(s)`,
+      results,
+      timestamp: new Date().toISOString()
+    }, { status: 200 });
+  } catch (error) {
+    console.error("Error in auto-renewal cron:", error);
+    return NextResponse.json(
+      {
+        message: "Auto-renewal run failed",
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
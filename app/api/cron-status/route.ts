@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { notPausedOn } from "@/lib/pauses";
+import { ENTITLED_PAYMENT_STATUSES, SubscriptionStatus } from "@/lib/subscriptionStatus";
 import { format } from "date-fns";
 
 export async function GET(req: NextRequest) {
@@ -36,17 +38,11 @@ export async function GET(req: NextRequest) {
                 }
               },
               {
-                status: 'active'
+                status: SubscriptionStatus.active
               },
+              notPausedOn(istDate),
               {
-                OR: [
-                  { paymentStatus: 'completed' },
-                  { paymentStatus: 'paid' },
-                  { paymentStatus: 'success' },
-                  { paymentStatus: 'admin-added' },
-                  { paymentStatus: 'admin-created' },
-                  { paymentStatus: '' }
-                ]
+                paymentStatus: { in: ENTITLED_PAYMENT_STATUSES }
               }
             ]
           }
@@ -90,7 +86,7 @@ export async function GET(req: NextRequest) {
         createdBy: meeting.createdBy,
         createdAt: meeting.createdAt
       })),
-      nextCronExecution: "Daily at 8:00 AM IST (2:30 AM UTC)",
+      nextCronExecution: "Daily at 6:00 AM IST (12:30 AM UTC)",
       environment: {
         ENABLE_CRON_JOBS: process.env.ENABLE_CRON_JOBS || 'undefined',
         CRON_SECRET: process.env.CRON_SECRET ? '***SET***' : 'undefined',
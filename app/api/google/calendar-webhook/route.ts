@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCalendarChannel, syncGoogleCalendar } from "@/lib/calendarSync";
+
+export const dynamic = "force-dynamic";
+
+// Google Calendar push notifications (events.watch). They carry no event
+// data, only that something changed, so each one runs an incremental sync.
+export async function POST(request: NextRequest) {
+  const channelId = request.headers.get("x-goog-channel-id");
+  const channelToken = request.headers.get("x-goog-channel-token");
+  const resourceState = request.headers.get("x-goog-resource-state");
+
+  if (!channelId || !(await isCalendarChannel(channelId, channelToken))) {
+    console.log(`❌ Calendar notification from unknown channel ${channelId}`);
+    return NextResponse.json({ message: "Unknown channel" }, { status: 401 });
+  }
+
+  // Google sends "sync" once when a channel is opened
+  if (resourceState === "sync") {
+    return NextResponse.json({ status: "ignored", detail: "Channel opened" });
+  }
+
+  // Failures are logged rather than returned: Google would retry, and the
+  // next notification or the daily cron syncs the same changes anyway
+  const result = await syncGoogleCalendar();
+  return NextResponse.json({
+    status: result.queued ? "queued" : "processed",
+    detail: result.message
+  });
+}
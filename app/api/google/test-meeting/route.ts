@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { manageMeeting } from '@/lib/meetingLink';
 import { isAuthenticated } from '@/lib/googleAuth';
+import type { MeetingPlatform } from '@/lib/meetingPlatforms';
 
 /**
  * POST /api/google/test-meeting
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
     console.log(`Creating test meeting for ${date} at ${startTime} using service account`);
 
     const meeting = await manageMeeting({
-      platform: platform as 'google-meet' | 'zoom',
+      platform: platform as MeetingPlatform,
       date,
       startTime,
       duration,
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { addDays, format } from "date-fns";
+import { getHolidays } from "@/lib/holidays";
+
+/**
+ * API Route: /api/holidays
+ *
+ * Lists the upcoming days without a session (the next year), so the
+ * registration form can block single-day bookings for them.
+ *
+ * Response:
+ * - holidays: date (yyyy-MM-dd, IST) and reason
+ */
+export async function GET() {
+  try {
+    const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+    const holidays = await getHolidays(format(today, 'yyyy-MM-dd'), format(addDays(today, 365), 'yyyy-MM-dd'));
+    return NextResponse.json({
+      holidays: holidays.map(holiday => ({
+        date: holiday.date,
+        reason: holiday.reason,
+      }))
+    });
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return NextResponse.json({ message: "Failed to fetch holidays", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getPlanCatalog } from "@/lib/plans";
+
+/**
+ * API Route: /api/plans
+ *
+ * Lists the plans currently on sale, in display order, for the
+ * registration form.
+ *
+ * Response:
+ * - plans: key, name, description, amount (INR), display, duration (days) and seats
+ */
+export async function GET() {
+  try {
+    const plans = await getPlanCatalog();
+    return NextResponse.json({
+      plans: plans.map(plan => ({
+        key: plan.key,
+        name: plan.name,
+        description: plan.description,
+        amount: plan.amount,
+        display: plan.display,
+        duration: plan.duration,
+        seats: plan.seats,
+      }))
+    });
+  } catch (error) {
+    console.error("Error fetching plans:", error);
+    return NextResponse.json({ message: "Failed to fetch plans", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { AUTO_RENEWAL_STATUSES, getAutoRenewalByToken, stopAutoRenewal } from "@/lib/renewals";
+import { getPlanNames } from "@/lib/plans";
+
+const stopRenewalSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * API Route: /api/renewals/manage
+ *
+ * GET ?token=... describes a member's automatic renewal for the manage page.
+ * POST stops the renewal; the current period is not affected.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return NextResponse.json({ message: "token is required" }, { status: 400 });
+    }
+
+    const renewal = await getAutoRenewalByToken(token);
+    if (!renewal) {
+      return NextResponse.json({ message: "Invalid or expired link" }, { status: 404 });
+    }
+
+    const [planNames, currentPeriod] = await Promise.all([
+      getPlanNames(),
+      prisma.subscription.findFirst({
+        where: { autoRenewalId: renewal.id, paymentStatus: 'success' },
+        orderBy: { endDate: 'desc' }
+      })
+    ]);
+    return NextResponse.json({
+      email: renewal.user.email,
+      status: renewal.status,
+      canStop: renewal.status === AUTO_RENEWAL_STATUSES.ACTIVE || renewal.status === AUTO_RENEWAL_STATUSES.PAST_DUE,
+      planName: planNames[renewal.planType] || renewal.planType,
+      currentPeriodEnd: currentPeriod?.endDate ?? null,
+      nextRenewalAt: renewal.nextRenewalAt,
+      failedAttempts: renewal.failedAttempts,
+      lastFailureReason: renewal.lastFailureReason,
+      stoppedAt: renewal.stoppedAt,
+    });
+  } catch (error) {
+    console.error("Error fetching auto-renewal:", error);
+    return NextResponse.json({ message: "Failed to fetch auto-renewal", error: String(error) }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = stopRenewalSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const renewal = await getAutoRenewalByToken(parsed.data.token);
+    if (!renewal) {
+      return NextResponse.json({ message: "Invalid or expired link" }, { status: 404 });
+    }
+    if (renewal.status !== AUTO_RENEWAL_STATUSES.ACTIVE && renewal.status !== AUTO_RENEWAL_STATUSES.PAST_DUE) {
+      return NextResponse.json({ message: "Cannot stop renewal", details: `Auto-renewal is ${renewal.status}` }, { status: 409 });
+    }
+
+    const stopped = await stopAutoRenewal(renewal.id, { stoppedBy: 'member' });
+    return NextResponse.json({ message: "Auto-renewal stopped", status: stopped.status, stoppedAt: stopped.stoppedAt });
+  } catch (error) {
+    console.error("Error stopping auto-renewal:", error);
+    return NextResponse.json({ message: "Failed to stop auto-renewal", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { claimGroupSeat, getSeatByToken, getSeatClaimIneligibilityReason } from "@/lib/groupOrders";
+import { getPlanNames } from "@/lib/plans";
+import { sendSubscriptionWelcome } from "@/lib/payments";
+
+const claimSeatSchema = z.object({
+  token: z.string().min(1),
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  phone: z.string().trim().min(8),
+});
+
+/**
+ * API Route: /api/seats/claim
+ *
+ * GET ?token=... describes the invited seat for the claim page.
+ * POST claims the seat with the member's details and activates their
+ * subscription under the purchaser's order.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return NextResponse.json({ message: "token is required" }, { status: 400 });
+    }
+
+    const seat = await getSeatByToken(token);
+    if (!seat) {
+      return NextResponse.json({ message: "Invalid or expired claim link" }, { status: 404 });
+    }
+
+    const planNames = await getPlanNames();
+    const reason = getSeatClaimIneligibilityReason(seat);
+    return NextResponse.json({
+      email: seat.email,
+      status: seat.status,
+      claimable: reason === null,
+      reason,
+      planName: planNames[seat.groupOrder.planType] || seat.groupOrder.planType,
+      purchaserName: `${seat.groupOrder.purchaser.firstName} ${seat.groupOrder.purchaser.lastName}`,
+      startDate: seat.groupOrder.startDate,
+      endDate: seat.groupOrder.endDate,
+    });
+  } catch (error) {
+    console.error("Error fetching seat:", error);
+    return NextResponse.json({ message: "Failed to fetch seat", error: String(error) }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = claimSeatSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await claimGroupSeat(parsed.data);
+    if (!result.claimed || !result.subscription) {
+      return NextResponse.json({ message: "Cannot claim seat", details: result.reason }, { status: 409 });
+    }
+
+    // The seat is active either way; a failed email must not undo the claim
+    try {
+      await sendSubscriptionWelcome(result.subscription, { paidBy: result.purchaserName });
+    } catch (emailError) {
+      console.error(`Error sending welcome for claimed seat ${result.subscription.id}:`, emailError);
+    }
+
+    return NextResponse.json({
+      message: "Seat claimed",
+      subscriptionId: result.subscription.id,
+      startDate: result.subscription.startDate,
+      endDate: result.subscription.endDate,
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Error claiming seat:", error);
+    return NextResponse.json({ message: "Failed to claim seat", error: String(error) }, { status: 500 });
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { sendMeetingInvite } from "@/lib/email";
-import { manageMeeting } from '@/lib/meetingLink';
+import { NoSessionDayError, manageMeeting } from '@/lib/meetingLink';
+import type { SessionSlot } from '@/lib/sessionSlots';
+import { getDefaultMeetingPlatform, getMeetingPlatformLabel } from '@/lib/meetingPlatforms';
 
 // Define schema for request validation
 const inviteSchema = z.object({
@@ -39,6 +41,7 @@ export async function POST(request: NextRequest) {
     // Get or create today's meeting and add the user to it
     let todayMeeting = await manageMeeting({
       date: todayStr,
+      slot: subscription.slot as SessionSlot,
       userIds: [userId],
       operation: 'getOrCreate',
       syncFromCalendar: true
@@ -57,6 +60,9 @@ export async function POST(request: NextRequest) {
     if (!meetingLink) {
       return NextResponse.json({ message: "Meeting link not available" }, { status: 400 });
     }
+    if (meeting?.cancelledAt) {
+      return NextResponse.json({ message: "Today's session has been cancelled" }, { status: 409 });
+    }
 
     // Send the meeting invite with meeting details
     await sendMeetingInvite({
@@ -69,8 +75,11 @@ export async function POST(request: NextRequest) {
       meetingLink,
       startTime: meetingStartTime || new Date(),
       endTime: meetingEndTime || new Date(),
-      platform: platform === "zoom" ? "Zoom" : "Google Meet",
-      hostLink
+      platform: getMeetingPlatformLabel(platform || getDefaultMeetingPlatform()),
+      hostLink,
+      meetingId: todayMeeting.id,
+      userId,
+      sequence: meeting?.sequence
     });
 
     // Return success response
@@ -85,6 +94,9 @@ export async function POST(request: NextRequest) {
       }
     }, { status: 200 });
   } catch (error) {
+    if (error instanceof NoSessionDayError) {
+      return NextResponse.json({ message: `No session today (${error.reason})` }, { status: 409 });
+    }
     console.error("Error sending meeting invite:", error);
     return NextResponse.json({ 
       message: "Failed to send meeting invite", 
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { joinWaitlist } from "@/lib/waitlist";
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES } from "@/lib/sessionSlots";
+
+const joinWaitlistSchema = z.object({
+  userId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  slot: z.enum(SESSION_SLOT_VALUES).default(DEFAULT_SESSION_SLOT),
+});
+
+/**
+ * API Route: /api/waitlist
+ *
+ * POST puts a user who could not book a full session on its waitlist. When a
+ * seat opens up they are emailed and the seat is held for them to book.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = joinWaitlistSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Invalid input", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: parsed.data.userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const result = await joinWaitlist(parsed.data);
+    if (!result.success) {
+      return NextResponse.json({ message: result.message }, { status: 409 });
+    }
+    return NextResponse.json({ message: result.message, position: result.position }, { status: 201 });
+  } catch (error) {
+    console.error("Error joining waitlist:", error);
+    return NextResponse.json({ message: "Failed to join waitlist", error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import prisma from "@/lib/prisma";
+import { verifyWebhookSignature } from "@/lib/razorpay";
+import {
+  activateOrderSubscriptions,
+  markOrderPaymentFailed,
+  markPaymentRefunded
+} from "@/lib/payments";
+import { EVENT_ACTORS } from "@/lib/subscriptionEvents";
+
+type RazorpayWebhookBody = {
+  event: string;
+  payload: {
+    payment?: { entity: { id: string; order_id: string; status: string; amount: number; refund_status?: string | null } };
+    order?: { entity: { id: string; status: string; amount: number } };
+    refund?: { entity: { id: string; payment_id: string; amount: number; status: string } };
+  };
+};
+
+type HandlerResult = {
+  status: "processed" | "ignored";
+  entityId?: string;
+  detail: string;
+};
+
+// Razorpay webhook: source of truth for payment state
+export async function POST(request: NextRequest) {
+  // Signature is computed over the raw body, so read it before parsing
+  const rawBody = await request.text();
+  const signature = request.headers.get("x-razorpay-signature");
+
+  if (!process.env.RAZORPAY_WEBHOOK_SECRET) {
+    console.error("RAZORPAY_WEBHOOK_SECRET is not configured");
+    return NextResponse.json({ message: "Webhook secret not configured" }, { status: 500 });
+  }
+
+  if (!verifyWebhookSignature(rawBody, signature)) {
+    console.log('❌ Invalid Razorpay webhook signature');
+    return NextResponse.json({ message: "Invalid signature" }, { status: 401 });
+  }
+
+  let body: RazorpayWebhookBody;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  // Razorpay retries deliveries with the same event ID; fall back to a body hash
+  const eventId = request.headers.get("x-razorpay-event-id")
+    || crypto.createHash("sha256").update(rawBody).digest("hex");
+
+  try {
+    const existing = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+    if (existing && (existing.status === "processed" || existing.status === "ignored")) {
+      console.log(`🔁 Duplicate Razorpay event ${eventId} (${body.event}), skipping`);
+      return NextResponse.json({ message: "Event already processed", duplicate: true }, { status: 200 });
+    }
+
+    if (!existing) {
+      await prisma.webhookEvent.create({
+        data: { id: eventId, event: body.event, payload: body as any },
+      });
+    }
+
+    console.log(`📩 Processing Razorpay event ${eventId} (${body.event})`);
+    const result = await handleEvent(body);
+
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: result.status,
+        entityId: result.entityId,
+        error: null,
+        processedAt: new Date(),
+      },
+    });
+
+    console.log(`✅ Razorpay event ${eventId}: ${result.detail}`);
+    return NextResponse.json({ message: result.detail, status: result.status }, { status: 200 });
+  } catch (error) {
+    console.error(`Error processing Razorpay event ${eventId}:`, error);
+    try {
+      await prisma.webhookEvent.update({
+        where: { id: eventId },
+        data: { status: "failed", error: String(error) },
+      });
+    } catch (logError) {
+      console.error("Failed to record webhook failure:", logError);
+    }
+    // Non-2xx makes Razorpay retry the delivery later
+    return NextResponse.json({ message: "Failed to process webhook", error: String(error) }, { status: 500 });
+  }
+}
+
+async function handleEvent(body: RazorpayWebhookBody): Promise<HandlerResult> {
+  const payment = body.payload.payment?.entity;
+
+  switch (body.event) {
+    case "payment.captured":
+    case "order.paid": {
+      const orderId = payment?.order_id || body.payload.order?.entity.id;
+      if (!orderId || !payment) {
+        return { status: "ignored", detail: `${body.event} without order or payment` };
+      }
+      const activation = await activateOrderSubscriptions({ orderId, paymentId: payment.id, actor: EVENT_ACTORS.WEBHOOK });
+      if (!activation.found) {
+        return { status: "ignored", entityId: orderId, detail: `No subscriptions for order ${orderId}` };
+      }
+      return {
+        status: "processed",
+        entityId: orderId,
+        detail: activation.alreadyProcessed
+          ? `Order ${orderId} was already active`
+          : `Activated ${activation.subscriptions.length} subscription(s) for order ${orderId}`,
+      };
+    }
+
+    case "payment.failed": {
+      if (!payment?.order_id) {
+        return { status: "ignored", detail: "payment.failed without order" };
+      }
+      const count = await markOrderPaymentFailed(payment.order_id, payment.id);
+      return {
+        status: "processed",
+        entityId: payment.order_id,
+        detail: `Marked ${count} subscription(s) as failed for order ${payment.order_id}`,
+      };
+    }
+
+    case "refund.created":
+    case "refund.processed": {
+      const refund = body.payload.refund?.entity;
+      if (!refund) {
+        return { status: "ignored", detail: `${body.event} without refund entity` };
+      }
+      if (body.event === "refund.created") {
+        // Wait for refund.processed before changing the subscription
+        return { status: "processed", entityId: refund.payment_id, detail: `Refund ${refund.id} created` };
+      }
+      const fullRefund = payment ? payment.refund_status === "full" : true;
+      const count = await markPaymentRefunded(refund.payment_id, fullRefund, refund.id, refund.amount);
+      return {
+        status: "processed",
+        entityId: refund.payment_id,
+        detail: `Marked ${count} subscription(s) as ${fullRefund ? "refunded" : "partially refunded"} for payment ${refund.payment_id}`,
+      };
+    }
+
+    case "refund.failed": {
+      const refund = body.payload.refund?.entity;
+      console.error(`Refund ${refund?.id} failed for payment ${refund?.payment_id}`);
+      return { status: "processed", entityId: refund?.payment_id, detail: `Refund ${refund?.id} failed` };
+    }
+
+    default:
+      return { status: "ignored", detail: `Unhandled event ${body.event}` };
+  }
+}
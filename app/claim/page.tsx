@@ -0,0 +1,14 @@
+import SeatClaimForm from "../components/SeatClaimForm";
+
+export default async function ClaimPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <SeatClaimForm token={token || ""} />
+    </main>
+  );
+}
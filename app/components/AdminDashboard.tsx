@@ -10,6 +10,11 @@ import SubscriptionsView from './adminviews/SubscriptionsView';
 import UpcomingRegistrationsView from './adminviews/UpcomingRegistrationsView';
 import TodayMeetingCard from './adminviews/TodayMeetingCard';
 import EarningsAnalyticsView from './adminviews/EarningsAnalyticsView';
+import PlansView from './adminviews/PlansView';
+import GroupOrdersView from './adminviews/GroupOrdersView';
+import RenewalsView from './adminviews/RenewalsView';
+import CouponsView from './adminviews/CouponsView';
+import ReconciliationView from './adminviews/ReconciliationView';
 import { useRefresh, useRefreshListener } from '../hooks/useRefresh';
 
 type UserData = {
@@ -78,7 +83,7 @@ function useToast() {
 }
 
 export default function AdminDashboard({ initialUsers = [] }: AdminDashboardProps) {
-  const [activeTab, setActiveTab] = useState<'users' | 'calendar' | 'upcoming' | 'subscriptions' | 'analytics'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'calendar' | 'upcoming' | 'subscriptions' | 'analytics' | 'plans' | 'groups' | 'renewals' | 'coupons' | 'reconciliation'>('users');
   const [subscriptionView, setSubscriptionView] = useState<'all' | 'thisWeek' | 'upcoming'>('all');
   
   // Use the refresh system
@@ -841,6 +846,71 @@ export default function AdminDashboard({ initialUsers = [] }: AdminDashboardProp
               </svg>
               <span>Analytics</span>
             </button>
+            <button 
+              className={`px-4 py-3 rounded-xl font-semibold transition-all duration-300 transform hover:scale-[1.02] flex items-center space-x-2 whitespace-nowrap ${
+                activeTab === 'plans' 
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg shadow-indigo-500/25' 
+                  : 'text-gray-700 hover:bg-gray-100/70'
+              }`} 
+              onClick={() => handleTabChange('plans')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+              </svg>
+              <span>Plans</span>
+            </button>
+            <button 
+              className={`px-4 py-3 rounded-xl font-semibold transition-all duration-300 transform hover:scale-[1.02] flex items-center space-x-2 whitespace-nowrap ${
+                activeTab === 'groups' 
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg shadow-indigo-500/25' 
+                  : 'text-gray-700 hover:bg-gray-100/70'
+              }`} 
+              onClick={() => handleTabChange('groups')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              <span>Groups</span>
+            </button>
+            <button 
+              className={`px-4 py-3 rounded-xl font-semibold transition-all duration-300 transform hover:scale-[1.02] flex items-center space-x-2 whitespace-nowrap ${
+                activeTab === 'renewals' 
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg shadow-indigo-500/25' 
+                  : 'text-gray-700 hover:bg-gray-100/70'
+              }`} 
+              onClick={() => handleTabChange('renewals')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span>Renewals</span>
+            </button>
+            <button 
+              className={`px-4 py-3 rounded-xl font-semibold transition-all duration-300 transform hover:scale-[1.02] flex items-center space-x-2 whitespace-nowrap ${
+                activeTab === 'coupons' 
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg shadow-indigo-500/25' 
+                  : 'text-gray-700 hover:bg-gray-100/70'
+              }`} 
+              onClick={() => handleTabChange('coupons')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+              <span>Coupons</span>
+            </button>
+            <button 
+              className={`px-4 py-3 rounded-xl font-semibold transition-all duration-300 transform hover:scale-[1.02] flex items-center space-x-2 whitespace-nowrap ${
+                activeTab === 'reconciliation' 
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-lg shadow-indigo-500/25' 
+                  : 'text-gray-700 hover:bg-gray-100/70'
+              }`} 
+              onClick={() => handleTabChange('reconciliation')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span>Reconciliation</span>
+            </button>
             </div>
           </div>
         </div>
@@ -904,6 +974,26 @@ export default function AdminDashboard({ initialUsers = [] }: AdminDashboardProp
         {activeTab === 'analytics' && (
           <EarningsAnalyticsView />
         )}
+        
+        {activeTab === 'plans' && (
+          <PlansView />
+        )}
+        
+        {activeTab === 'groups' && (
+          <GroupOrdersView />
+        )}
+        
+        {activeTab === 'renewals' && (
+          <RenewalsView />
+        )}
+        
+        {activeTab === 'coupons' && (
+          <CouponsView />
+        )}
+        
+        {activeTab === 'reconciliation' && (
+          <ReconciliationView />
+        )}
       </div>
 
       {/* User Detail Modal */}
@@ -2,8 +2,9 @@
 import { useState, useEffect, useCallback } from "react";
 import Script from "next/script";
 import Image from "next/image";
-import { PLAN_PRICING, PLAN_TYPES, toPaise } from "@/lib/pricing";
-import type { PlanType } from "@/lib/pricing";
+import { PLAN_PRICING, PLAN_KEYS, PLAN_SEATS, PLAN_TYPES, toPaise, formatPrice, isRenewablePlan } from "@/lib/pricing";
+import { GST_STATES } from "@/lib/gst";
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_LABELS, SESSION_SLOT_VALUES, type SessionSlot } from "@/lib/sessionSlots";
 
 // Declare the Razorpay interface
 declare global {
@@ -12,6 +13,28 @@ declare global {
   }
 }
 
+// Plan as returned by /api/plans
+type PlanOption = {
+  key: string;
+  name: string;
+  description: string;
+  amount: number;
+  display: string;
+  duration: number;
+  seats: number;
+};
+
+// Built-in plans, shown until the catalogue has loaded
+const DEFAULT_PLANS: PlanOption[] = PLAN_KEYS.map(key => ({
+  key,
+  name: PLAN_PRICING[key].name,
+  description: PLAN_PRICING[key].description,
+  amount: PLAN_PRICING[key].amount,
+  display: PLAN_PRICING[key].display,
+  duration: PLAN_PRICING[key].duration,
+  seats: PLAN_SEATS[key],
+}));
+
 export default function RegistrationForm() {
   // Add custom styles for 3D card flip
   useEffect(() => {
@@ -59,8 +82,23 @@ export default function RegistrationForm() {
   }, []);
 
   // Basic form state
-  const [plan, setPlan] = useState<PlanType>(PLAN_TYPES.DAILY);
+  const [plan, setPlan] = useState<string>(PLAN_TYPES.DAILY);
+  const [plans, setPlans] = useState<PlanOption[]>(DEFAULT_PLANS);
+  const getPlanOption = (key: string) => plans.find(option => option.key === key);
+  const selectedPlan = getPlanOption(plan) ?? plans[0];
+  // Plans covering two members collect the second person's details;
+  // larger groups invite their members by email instead
+  const hasSecondMember = selectedPlan.seats === 2;
+  const isGroupPlan = selectedPlan.seats > 2;
+  const dailyPlan = getPlanOption(PLAN_TYPES.DAILY);
+  const monthlyPlan = getPlanOption(PLAN_TYPES.MONTHLY);
+  const comboPlan = getPlanOption(PLAN_TYPES.COMBO_PLAN);
+  const builtInKeys: string[] = [PLAN_TYPES.DAILY, PLAN_TYPES.MONTHLY, PLAN_TYPES.COMBO_PLAN];
+  const otherPlans = plans.filter(option => !builtInKeys.includes(option.key));
   const [startDate, setStartDate] = useState("");
+  // Upcoming days without a session, which single-day plans cannot be booked for
+  const [holidays, setHolidays] = useState<{ date: string; reason: string }[]>([]);
+  const selectedHoliday = selectedPlan.duration === 1 ? holidays.find(holiday => holiday.date === startDate) : undefined;
   const [source, setSource] = useState("Instagram");
   const [reference, setReference] = useState("");
   
@@ -68,19 +106,52 @@ export default function RegistrationForm() {
   const [isRazorpayLoaded, setIsRazorpayLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   
+  // Coupon state
+  const [couponCode, setCouponCode] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discountAmount: number; finalPrice: number } | null>(null);
+  const [couponMessage, setCouponMessage] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
+  // Upgrade of an overlapping daily booking, credited against the new plan
+  const [upgradeOffer, setUpgradeOffer] = useState<{ creditAmount: number } | null>(null);
+  const [upgradeAccepted, setUpgradeAccepted] = useState(false);
+  const upgradeCredit = upgradeAccepted && upgradeOffer ? upgradeOffer.creditAmount : 0;
+  const totalPrice = Math.max((appliedCoupon ? appliedCoupon.finalPrice : selectedPlan.amount) - upgradeCredit, 0);
+
+  // Opt-in renewal of the plan from a recurring payment mandate
+  const [autoRenew, setAutoRenew] = useState(false);
+  const canAutoRenew = isRenewablePlan(selectedPlan);
+
+  // Session of the day the member attends
+  const [slot, setSlot] = useState<SessionSlot>(DEFAULT_SESSION_SLOT);
+
+  // Seats left in the chosen session, and the waitlist offer when it is full
+  const [seatsLeft, setSeatsLeft] = useState<number | null>(null);
+  const [waitlistOffer, setWaitlistOffer] = useState<{ userId: string; date: string } | null>(null);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+  
   // Primary user information
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
+  const [billingState, setBillingState] = useState("");
   
   // Second person fields for family plan
   const [secondFirstName, setSecondFirstName] = useState("");
   const [secondLastName, setSecondLastName] = useState("");
   const [secondEmail, setSecondEmail] = useState("");
   const [secondPhone, setSecondPhone] = useState("");
+
+  // Group plan members, invited to claim their seats after payment
+  const [memberEmails, setMemberEmails] = useState<string[]>([]);
+  const [memberEmailErrors, setMemberEmailErrors] = useState<string[]>([]);
+  // One email per seat besides the purchaser's own
+  const groupMemberEmails = isGroupPlan
+    ? Array.from({ length: selectedPlan.seats - 1 }, (_, index) => memberEmails[index] || "")
+    : [];
     // Additional state
-  const [duration, setDuration] = useState(PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].duration);
+  const [duration, setDuration] = useState(selectedPlan.duration);
   
   // Card flip state
   const [flippedCard, setFlippedCard] = useState<string | null>(null);
@@ -102,6 +173,40 @@ export default function RegistrationForm() {
     secondPhone: ''
   });
 
+  // Load the plan catalogue; fall back to the first plan on offer if the
+  // selected one is no longer sold
+  useEffect(() => {
+    const loadPlans = async () => {
+      try {
+        const response = await fetch("/api/plans");
+        if (!response.ok) throw new Error(`Failed to load plans: ${response.status}`);
+        const data = await response.json();
+        const catalog: PlanOption[] = data.plans || [];
+        if (catalog.length === 0) return;
+        setPlans(catalog);
+        setPlan(current => catalog.some(option => option.key === current) ? current : catalog[0].key);
+      } catch (error) {
+        console.error("Error loading plans:", error);
+      }
+    };
+    loadPlans();
+  }, []);
+
+  // Load the upcoming days without a session
+  useEffect(() => {
+    const loadHolidays = async () => {
+      try {
+        const response = await fetch("/api/holidays");
+        if (!response.ok) throw new Error(`Failed to load holidays: ${response.status}`);
+        const data = await response.json();
+        setHolidays(data.holidays || []);
+      } catch (error) {
+        console.error("Error loading holidays:", error);
+      }
+    };
+    loadHolidays();
+  }, []);
+
   // Set today's date as the default start date when component mounts (using IST timezone)
   useEffect(() => {
     // Use IST timezone for date calculations
@@ -176,7 +281,7 @@ export default function RegistrationForm() {
     if (!email || !email.includes('@') || !startDate) return;
     
     // For family plans, also check if second email is provided
-    if (plan === PLAN_TYPES.COMBO_PLAN && (!secondEmail || !secondEmail.includes('@'))) {
+    if (hasSecondMember && (!secondEmail || !secondEmail.includes('@'))) {
       return; // Don't check until both emails are provided
     }
     
@@ -187,10 +292,10 @@ export default function RegistrationForm() {
     try {
       const start = new Date(startDate);
       const end = new Date(startDate);
-      end.setDate(end.getDate() + PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].duration);
+      end.setDate(end.getDate() + selectedPlan.duration);
       
       // Prepare emails array - for family plans, check both emails
-      const emailsToCheck = plan === PLAN_TYPES.COMBO_PLAN ? [email.toLowerCase(), secondEmail.toLowerCase()] : [email.toLowerCase()];
+      const emailsToCheck = hasSecondMember ? [email.toLowerCase(), secondEmail.toLowerCase()] : [email.toLowerCase()];
       
       const response = await fetch("/api/check-subscription", {
         method: "POST",
@@ -199,30 +304,33 @@ export default function RegistrationForm() {
           emails: emailsToCheck, // Changed from single email to array
           planType: plan,
           startDate: start.toISOString(),
-          endDate: end.toISOString()
+          endDate: end.toISOString(),
+          slot
         }),
       });
       
       const data = await response.json();
+      setWaitlistOffer(null);
+      setSeatsLeft(selectedPlan.duration === 1 && data.seats ? data.seats.remaining : null);
+      setUpgradeAccepted(false);
+      setUpgradeOffer(!data.canSubscribe && data.upgrade ? { creditAmount: data.upgrade.creditAmount } : null);
       if (!data.canSubscribe) {
         setErrorMessage(data.message);
         setSuccessMessage(null);
       } else {
         // Set success message when user(s) can subscribe
-        const planText = plan === PLAN_TYPES.DAILY ? 'daily session' : 
-                        plan === PLAN_TYPES.COMBO_PLAN ? 'combo monthly plan' : 
-                        'monthly plan';
+        const planText = selectedPlan.name;
         let dateText = '';
-        if (plan === PLAN_TYPES.DAILY) {
+        if (selectedPlan.duration === 1) {
           dateText = `on ${formatDateDDMMYYYY(startDate)}`;
         } else {
           // Monthly: show full range (inclusive)
           const endDateObj = new Date(startDate);
-          endDateObj.setDate(endDateObj.getDate() + PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].duration - 1);
+          endDateObj.setDate(endDateObj.getDate() + selectedPlan.duration - 1);
           dateText = `from ${formatDateDDMMYYYY(startDate)} to ${formatDateDDMMYYYY(endDateObj.toISOString().split('T')[0])}`;
         }
         
-        const userText = plan === PLAN_TYPES.COMBO_PLAN ? "Both users" : "You";
+        const userText = hasSecondMember ? "Both users" : "You";
         setSuccessMessage(`${userText} can subscribe to the ${planText} ${dateText} (IST)!`);
         setErrorMessage(null);
       }
@@ -232,14 +340,14 @@ export default function RegistrationForm() {
     } finally {
       setIsCheckingSubscription(false);
     }
-  }, [email, secondEmail, plan, startDate]); // Added secondEmail to dependencies
+  }, [email, secondEmail, plan, startDate, selectedPlan, hasSecondMember, slot]); // Added secondEmail to dependencies
   
   // Check for subscription conflicts when user changes plan or date
   useEffect(() => {
     // Only check if primary email is entered
     if (email && email.includes('@')) {
       // For family plans, also wait for second email
-      if (plan === PLAN_TYPES.COMBO_PLAN && (!secondEmail || !secondEmail.includes('@'))) {
+      if (hasSecondMember && (!secondEmail || !secondEmail.includes('@'))) {
         return; // Don't check until both emails are provided
       }
       
@@ -251,13 +359,63 @@ export default function RegistrationForm() {
     }
   }, [email, secondEmail, plan, startDate, checkSubscriptionConflict]); // Added secondEmail to dependencies
   
+  // Validate the entered coupon against the selected plan
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) {
+      setCouponMessage("Please enter a coupon code");
+      return;
+    }
+    setIsApplyingCoupon(true);
+    setCouponMessage(null);
+    try {
+      const response = await fetch("/api/coupons/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: couponCode.trim(),
+          planType: plan,
+          ...(email && email.includes('@') ? { email: email.toLowerCase() } : {})
+        }),
+      });
+      const data = await response.json();
+      if (response.ok && data.valid && data.pricing) {
+        setAppliedCoupon({
+          code: data.code,
+          discountAmount: data.pricing.discountAmount,
+          finalPrice: data.pricing.finalPrice
+        });
+        setCouponMessage(`Coupon ${data.code} applied: you save ${formatPrice(data.pricing.discountAmount)}`);
+      } else {
+        setAppliedCoupon(null);
+        setCouponMessage(data.message || "This coupon code is not valid");
+      }
+    } catch (error) {
+      console.error("Error applying coupon:", error);
+      setAppliedCoupon(null);
+      setCouponMessage("Could not check the coupon. Please try again.");
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+  
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode("");
+    setCouponMessage(null);
+  };
+  
   // Update duration when plan changes
-  const handlePlanChange = (newPlan: PlanType) => {
+  const handlePlanChange = (newPlan: string) => {
+    const newPlanOption = getPlanOption(newPlan);
     setPlan(newPlan);
-    setDuration(PLAN_PRICING[newPlan as Exclude<PlanType, "unlimited">].duration);
+    if (newPlanOption) setDuration(newPlanOption.duration);
     setErrorMessage(null);
     setSuccessMessage(null);
     
+    // Coupons are plan specific, so they must be applied again
+    setAppliedCoupon(null);
+    setCouponMessage(null);
+    
     // Clear field errors on plan change
     setFieldErrors({
       firstName: '',
@@ -270,13 +428,27 @@ export default function RegistrationForm() {
       secondPhone: ''
     });
     
-    // Clear second person fields if not combo plan
-    if (newPlan !== PLAN_TYPES.COMBO_PLAN) {
+    // Clear second person fields if the plan does not cover exactly two members
+    if (!newPlanOption || newPlanOption.seats !== 2) {
       setSecondFirstName("");
       setSecondLastName("");
       setSecondEmail("");
       setSecondPhone("");   
     }
+    setMemberEmailErrors([]);
+  };
+
+  // Validate the invited members' emails; each must be unique and differ from the purchaser's
+  const validateMemberEmails = (): string[] => {
+    const seen = new Set<string>([email.trim().toLowerCase()]);
+    return groupMemberEmails.map(memberEmail => {
+      const normalized = memberEmail.trim().toLowerCase();
+      const error = validationRules.email(normalized);
+      if (error) return error;
+      if (seen.has(normalized)) return 'Each member needs a different email address';
+      seen.add(normalized);
+      return '';
+    });
   };
   
   // Handle form submission
@@ -289,10 +461,10 @@ export default function RegistrationForm() {
       lastName: validationRules.lastName(lastName),
       email: validationRules.email(email),
       phone: validationRules.phone(phone),
-      secondFirstName: plan === PLAN_TYPES.COMBO_PLAN ? validationRules.firstName(secondFirstName) : '',
-      secondLastName: plan === PLAN_TYPES.COMBO_PLAN ? validationRules.lastName(secondLastName) : '',
-      secondEmail: plan === PLAN_TYPES.COMBO_PLAN ? validationRules.secondEmail(secondEmail, email) : '',
-      secondPhone: plan === PLAN_TYPES.COMBO_PLAN ? validationRules.phone(secondPhone) : ''
+      secondFirstName: hasSecondMember ? validationRules.firstName(secondFirstName) : '',
+      secondLastName: hasSecondMember ? validationRules.lastName(secondLastName) : '',
+      secondEmail: hasSecondMember ? validationRules.secondEmail(secondEmail, email) : '',
+      secondPhone: hasSecondMember ? validationRules.phone(secondPhone) : ''
     };
     
     // Check if Reference is required but empty
@@ -301,14 +473,21 @@ export default function RegistrationForm() {
       return;
     }
     
+    if (selectedHoliday) {
+      setErrorMessage(`There is no session on ${formatDateDDMMYYYY(selectedHoliday.date)} (${selectedHoliday.reason}). Please pick another date.`);
+      return;
+    }
+    
     // Check if there are any validation errors
-    if (Object.values(newFieldErrors).some(error => error !== '')) {
+    const newMemberEmailErrors = isGroupPlan ? validateMemberEmails() : [];
+    setMemberEmailErrors(newMemberEmailErrors);
+    if (Object.values(newFieldErrors).some(error => error !== '') || newMemberEmailErrors.some(error => error !== '')) {
       setFieldErrors(newFieldErrors);
       return;
     }
     
     // Additional check for family plan - emails must be different
-    if (plan === PLAN_TYPES.COMBO_PLAN && email === secondEmail) {
+    if (hasSecondMember && email === secondEmail) {
       setErrorMessage("Primary and secondary users must have different email addresses");
       setFieldErrors({
         ...newFieldErrors,
@@ -322,15 +501,15 @@ export default function RegistrationForm() {
     setSuccessMessage(null);
     
     try {
-      const price = PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].amount;
+      const price = totalPrice;
       
       // Double-check subscription availability (using IST dates)
       const start = new Date(startDate);
       const end = new Date(startDate);
-      end.setDate(end.getDate() + PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].duration);
+      end.setDate(end.getDate() + selectedPlan.duration);
       
       // Prepare emails array for checking
-      const emailsToCheck = plan === PLAN_TYPES.COMBO_PLAN ? [email.toLowerCase(), secondEmail.toLowerCase()] : [email.toLowerCase()];
+      const emailsToCheck = hasSecondMember ? [email.toLowerCase(), secondEmail.toLowerCase()] : [email.toLowerCase()];
       
       const checkResponse = await fetch("/api/check-subscription", {
         method: "POST",
@@ -345,7 +524,8 @@ export default function RegistrationForm() {
       
       const checkData = await checkResponse.json();
       
-      if (!checkData.canSubscribe) {
+      // An accepted upgrade resolves the conflict with the booking it replaces
+      if (!checkData.canSubscribe && !(upgradeAccepted && checkData.upgrade)) {
         setErrorMessage(checkData.message);
         setIsLoading(false);
         return;
@@ -371,7 +551,7 @@ export default function RegistrationForm() {
       
       // For family plan, create or fetch second user
       let secondUserId = null;
-      if (plan === PLAN_TYPES.COMBO_PLAN) {
+      if (hasSecondMember) {
         const secondUserRes = await fetch("/api/createUser", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -397,11 +577,19 @@ export default function RegistrationForm() {
           amount: toPaise(price),
           currency: "INR",
           planType: plan,
-          duration: PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].duration,
+          duration: selectedPlan.duration,
           startDate,
           userId,
-          ...(plan === PLAN_TYPES.COMBO_PLAN ? {
+          ...(appliedCoupon ? { couponCode: appliedCoupon.code } : {}),
+          ...(billingState ? { billingState } : {}),
+          ...(upgradeAccepted ? { upgrade: true } : {}),
+          ...(autoRenew && canAutoRenew ? { autoRenew: true } : {}),
+          slot,
+          ...(hasSecondMember ? {
             secondUserId
+          } : {}),
+          ...(isGroupPlan ? {
+            inviteEmails: groupMemberEmails.map(memberEmail => memberEmail.trim().toLowerCase())
           } : {})
         }),
       });
@@ -412,6 +600,10 @@ export default function RegistrationForm() {
       if (orderRes.status === 409) {
         setIsLoading(false);
         setErrorMessage(orderData.details || "You already have an active subscription.");
+        // A full session can be waited for instead
+        if (orderData.sessionFull) {
+          setWaitlistOffer({ userId, date: startDate });
+        }
         return;
       }
       
@@ -429,7 +621,7 @@ export default function RegistrationForm() {
         setIsLoading(false);
         return;
       }
-      const isFamily = plan === PLAN_TYPES.COMBO_PLAN;
+      const isFamily = hasSecondMember;
       const options = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
         amount: toPaise(price),
@@ -437,6 +629,8 @@ export default function RegistrationForm() {
         name: "GOALETE CLUB",
         description: `Payment for ${plan} plan`,
         order_id: orderId,
+        // Auto-renewal orders also authorise the recurring mandate
+        ...(orderData.recurring ? { customer_id: orderData.customerId, recurring: "1" } : {}),
         modal: {
             ondismiss: async function(response: any) {
                 await fetch(`/api/createOrder?orderId=${orderId}`, { method: "DELETE" });
@@ -452,6 +646,7 @@ export default function RegistrationForm() {
               body: JSON.stringify({
                 orderId,
                 paymentId: response.razorpay_payment_id,
+                razorpaySignature: response.razorpay_signature,
                 userId,
                 ...(isFamily
                   ? { subscriptionIds }
@@ -484,13 +679,13 @@ export default function RegistrationForm() {
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
                 orderId,
-                paymentId: response.razorpay_payment_id,
+                paymentId: response.error?.metadata?.payment_id,
                 userId,
                 ...(isFamily
                   ? { subscriptionIds }
                   : { subscriptionId: subscriptionIds[0] }),
                 paymentStatus: "failed",
-                status: "inactive",
+                status: "pending",
               }),
             });
         } catch (err) {
@@ -697,6 +892,22 @@ export default function RegistrationForm() {
                   {fieldErrors.phone && (
                     <p className="text-red-500 text-xs mt-1">{fieldErrors.phone}</p>
                   )}                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">State (for GST invoice)</label>
+                  <select
+                    name="billingState"
+                    value={billingState}
+                    onChange={(e) => setBillingState(e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-400 focus:outline-none bg-white text-gray-900 transition duration-200"
+                    autoComplete="address-level1"
+                  >
+                    <option value="">Select your state</option>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <option key={code} value={code}>{name}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
           </div>
@@ -708,7 +919,7 @@ export default function RegistrationForm() {
                 Choose Your Plan
               </p>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 max-w-full overflow-visible mb-12">              {/* Daily Plan */}              <div 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 max-w-full overflow-visible mb-12">              {/* Daily Plan */}              {dailyPlan && (<div 
                 onClick={(e) => {
                   // Don't handle click if info button was clicked
                   if (!(e.target as HTMLElement).closest('.info-btn')) {
@@ -734,7 +945,7 @@ export default function RegistrationForm() {
                     {/* Header (fixed height) */}
                     <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-4 border-b border-blue-200 rounded-t-xl flex-shrink-0" style={{ minHeight: 80 }}>
                       <div className="flex justify-between items-center mb-1">
-                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{PLAN_PRICING.daily.name}</h3>                        <button 
+                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{dailyPlan.name}</h3>                        <button 
                           type="button"
                           className="text-blue-500 hover:text-blue-700 focus:outline-none info-btn z-10 w-8 h-8 flex items-center justify-center rounded-full bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200 shadow-sm hover:shadow"
                           onClick={(e) => {
@@ -748,7 +959,7 @@ export default function RegistrationForm() {
                           </svg>
                         </button>
                       </div>
-                      <div className="text-blue-600 font-bold text-lg sm:text-xl md:text-2xl mb-1">{PLAN_PRICING.daily.display}</div>
+                      <div className="text-blue-600 font-bold text-lg sm:text-xl md:text-2xl mb-1">{dailyPlan.display}</div>
                       <div className="text-gray-500 text-xs">Start your transformation journey</div>
                     </div>
                     {/* Content (flex-grow) */}
@@ -817,8 +1028,8 @@ export default function RegistrationForm() {
                       </div>
                         {/* Description/content area */}
                       <div className="flex-grow flex flex-col justify-start px-4 py-2">
-                        <h3 className="font-bold text-xl mb-4 mt-2">{PLAN_PRICING.daily.name}</h3>
-                        <p className="text-sm mb-6">{PLAN_PRICING.daily.description}</p>
+                        <h3 className="font-bold text-xl mb-4 mt-2">{dailyPlan.name}</h3>
+                        <p className="text-sm mb-6">{dailyPlan.description}</p>
                       </div>
                       
                       {/* Button at the bottom - fixed positioning */}
@@ -837,7 +1048,7 @@ export default function RegistrationForm() {
                     </div>
                   </div>
                 </div>
-              </div>                {/* Monthly Plan */}              <div 
+              </div>)}                {/* Monthly Plan */}              {monthlyPlan && (<div 
                 onClick={(e) => {
                   // Don't handle click if info button was clicked
                   if (!(e.target as HTMLElement).closest('.info-btn')) {
@@ -871,7 +1082,7 @@ export default function RegistrationForm() {
                     {/* Header (fixed height) */}
                     <div className="bg-gradient-to-br from-indigo-50 to-indigo-100 p-4 border-b border-indigo-200 rounded-t-xl flex-shrink-0" style={{ minHeight: 80 }}>
                       <div className="flex justify-between items-center mb-1">
-                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{PLAN_PRICING.monthly.name}</h3>                        <button 
+                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{monthlyPlan.name}</h3>                        <button 
                           type="button"
                           className="text-indigo-500 hover:text-indigo-700 focus:outline-none info-btn z-10 w-8 h-8 flex items-center justify-center rounded-full bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200 shadow-sm hover:shadow"
                           onClick={(e) => {
@@ -885,7 +1096,7 @@ export default function RegistrationForm() {
                           </svg>
                         </button>
                       </div>
-                      <div className="text-indigo-600 font-bold text-lg sm:text-xl md:text-2xl mb-1">{PLAN_PRICING.monthly.display}</div>
+                      <div className="text-indigo-600 font-bold text-lg sm:text-xl md:text-2xl mb-1">{monthlyPlan.display}</div>
                       <div className="text-gray-500 text-xs">Sustained motivation for real change</div>
                     </div>
                     {/* Content (flex-grow) */}
@@ -954,8 +1165,8 @@ export default function RegistrationForm() {
                       </div>
                         {/* Description/content area */}
                       <div className="flex-grow flex flex-col justify-start px-4 py-2">
-                        <h3 className="font-bold text-xl mb-4 mt-2">{PLAN_PRICING.monthly.name}</h3>
-                        <p className="text-sm mb-6">{PLAN_PRICING.monthly.description}</p>
+                        <h3 className="font-bold text-xl mb-4 mt-2">{monthlyPlan.name}</h3>
+                        <p className="text-sm mb-6">{monthlyPlan.description}</p>
                       </div>
                       
                       {/* Button at the bottom - fixed positioning */}
@@ -974,7 +1185,7 @@ export default function RegistrationForm() {
                     </div>
                   </div>
                 </div>
-              </div>                {/* Family Plan */}              <div 
+              </div>)}                {/* Family Plan */}              {comboPlan && (<div 
                 onClick={(e) => {
                   // Don't handle click if info button was clicked
                   if (!(e.target as HTMLElement).closest('.info-btn')) {
@@ -1006,7 +1217,7 @@ export default function RegistrationForm() {
                   <div className="flex flex-col h-[420px]">
                     {/* Header (fixed height) */}
                     <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-4 border-b border-amber-200 rounded-t-xl flex-shrink-0" style={{ minHeight: 80 }}>                      <div className="flex justify-between items-center mb-1">
-                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{PLAN_PRICING.comboPlan.name}</h3>                        <button 
+                        <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate">{comboPlan.name}</h3>                        <button 
                           type="button"
                           className="text-amber-500 hover:text-amber-700 focus:outline-none info-btn z-10 w-8 h-8 flex items-center justify-center rounded-full bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200 shadow-sm hover:shadow"
                           onClick={(e) => {
@@ -1020,7 +1231,7 @@ export default function RegistrationForm() {
                           </svg>
                         </button>
                       </div>
-                      <div className="text-amber-600 font-bold text-lg sm:text-xl md:text-2xl mb-1 flex items-center">{PLAN_PRICING.comboPlan.display} <span className="text-xs font-normal text-gray-500 ml-1 mt-1">• 2 users</span></div>
+                      <div className="text-amber-600 font-bold text-lg sm:text-xl md:text-2xl mb-1 flex items-center">{comboPlan.display} <span className="text-xs font-normal text-gray-500 ml-1 mt-1">• {comboPlan.seats} users</span></div>
                       <div className="text-gray-500 text-xs">Achieve more together, save more together</div>
                     </div>
                     {/* Content (flex-grow) */}
@@ -1089,8 +1300,8 @@ export default function RegistrationForm() {
                       </div>
                         {/* Description/content area */}
                       <div className="flex-grow flex flex-col justify-start px-4 py-2">
-                        <h3 className="font-bold text-xl mb-4 mt-2">{PLAN_PRICING.comboPlan.name}</h3>
-                        <p className="text-sm mb-6">{PLAN_PRICING.comboPlan.description}</p>
+                        <h3 className="font-bold text-xl mb-4 mt-2">{comboPlan.name}</h3>
+                        <p className="text-sm mb-6">{comboPlan.description}</p>
                       </div>
                       
                       {/* Button at the bottom - fixed positioning */}
@@ -1109,11 +1320,64 @@ export default function RegistrationForm() {
                     </div>
                   </div>
                 </div>
-              </div>
+              </div>)}
+              {/* Other catalogue plans */}
+              {otherPlans.map(option => (
+                <div
+                  key={option.key}
+                  onClick={() => handlePlanChange(option.key)}
+                  className={`
+                    relative rounded-xl shadow-md transition-all duration-300 cursor-pointer h-[420px] max-w-full overflow-hidden flex flex-col
+                    ${plan === option.key 
+                      ? "ring-2 ring-offset-2 ring-blue-500 transform scale-[1.02]" 
+                      : "hover:shadow-lg hover:translate-y-[-4px] border border-gray-200"
+                    }
+                  `}>
+                  {plan === option.key && (
+                    <div className="absolute top-0 right-0 z-2">
+                      <div className="bg-teal-600 text-white py-1 px-4 text-xs font-bold shadow-md rounded-bl-md">
+                        SELECTED
+                      </div>
+                    </div>
+                  )}
+                  <div className="bg-gradient-to-br from-teal-50 to-teal-100 p-4 border-b border-teal-200 rounded-t-xl flex-shrink-0" style={{ minHeight: 80 }}>
+                    <h3 className="font-bold text-gray-800 text-sm sm:text-base md:text-lg truncate mb-1">{option.name}</h3>
+                    <div className="text-teal-600 font-bold text-lg sm:text-xl md:text-2xl mb-1 flex items-center">
+                      {option.display}
+                      {option.seats > 1 && <span className="text-xs font-normal text-gray-500 ml-1 mt-1">• {option.seats} users</span>}
+                    </div>
+                    <div className="text-gray-500 text-xs">{option.duration} day{option.duration === 1 ? '' : 's'} of access</div>
+                  </div>
+                  <div className="flex-grow px-4 py-3 bg-white overflow-y-auto">
+                    <p className="text-xs sm:text-sm text-gray-600 leading-tight">{option.description}</p>
+                  </div>
+                  <div className="px-4 pb-4 pt-2 flex-shrink-0">
+                    <label className="flex items-center justify-center">
+                      <input
+                        type="radio"
+                        name="plan"
+                        value={option.key}
+                        checked={plan === option.key}
+                        onChange={() => handlePlanChange(option.key)}
+                        className="sr-only"
+                      />
+                      <div className={`
+                        w-full py-2 px-4 rounded-md font-medium text-center transition-colors
+                        ${plan === option.key 
+                          ? "bg-teal-600 text-white" 
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }
+                      `}>
+                        {plan === option.key ? "Selected" : "Select Plan"}
+                      </div>
+                    </label>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
           {/* Second Person Information - Only shown for Family Plan */}
-          {plan === PLAN_TYPES.COMBO_PLAN && (
+          {hasSecondMember && (
             <div className="mt-4 rounded-xl shadow-md border border-amber-200 overflow-hidden animate__animated animate__fadeIn">
               <div className="bg-gradient-to-r from-amber-50 to-amber-100 py-3 px-4 border-b border-amber-200">
                 <p className="font-semibold text-gray-700 flex items-center">
@@ -1219,6 +1483,53 @@ export default function RegistrationForm() {
             </div>
           )}
 
+          {/* Group Members - invited by email to claim their seats */}
+          {isGroupPlan && (
+            <div className="mt-4 rounded-xl shadow-md border border-amber-200 overflow-hidden animate__animated animate__fadeIn">
+              <div className="bg-gradient-to-r from-amber-50 to-amber-100 py-3 px-4 border-b border-amber-200">
+                <p className="font-semibold text-gray-700 flex items-center">
+                  <svg className="h-5 w-5 mr-2 text-amber-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                  </svg>
+                  Group Members ({selectedPlan.seats} seats including yours)
+                </p>
+              </div>
+              <div className="p-5 bg-white">
+                {groupMemberEmails.map((memberEmail, index) => (
+                  <div key={index} className="mb-3">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Member {index + 2} Email</label>
+                    <input
+                      type="email"
+                      placeholder="member@example.com"
+                      value={memberEmail}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        setMemberEmails(groupMemberEmails.map((current, i) => i === index ? value : current));
+                        if (memberEmailErrors[index]) {
+                          setMemberEmailErrors(prev => prev.map((current, i) => i === index ? '' : current));
+                        }
+                      }}
+                      className={`w-full p-3 border ${memberEmailErrors[index] ? 'border-red-500 bg-red-50' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-amber-400 focus:border-amber-400 focus:outline-none bg-white text-gray-900 placeholder:text-gray-400 transition duration-200`}
+                      required
+                    />
+                    {memberEmailErrors[index] && (
+                      <p className="mt-1 text-sm text-red-600">{memberEmailErrors[index]}</p>
+                    )}
+                  </div>
+                ))}
+
+                <div className="flex items-start bg-amber-50 p-3 rounded-lg mt-3 text-sm">
+                  <svg className="h-5 w-5 mr-2 text-amber-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <div className="text-amber-700">
+                    After payment, each member receives an email with a link to claim their seat and enter their own details.
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Date Selector Section */}
           <div className="mt-16 rounded-xl shadow-md border border-gray-200 overflow-hidden">
             <div className="bg-gradient-to-r from-gray-50 to-gray-100 py-3 px-4 border-b border-gray-200">
@@ -1234,7 +1545,7 @@ export default function RegistrationForm() {
             <div className="p-5 bg-white">
               <div className="mb-3">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {plan === PLAN_TYPES.DAILY 
+                  {selectedPlan.duration === 1 
                     ? 'Session Date (IST)' 
                     : `Plan Start Date (IST)`}
                   <span className="text-xs text-gray-500 ml-2">DD/MM/YYYY</span>
@@ -1256,6 +1567,43 @@ export default function RegistrationForm() {
                     Selected: {formatDateDDMMYYYY(startDate)}
                   </p>
                 )}
+                {selectedHoliday && (
+                  <p className="text-xs text-red-600 mt-1">
+                    No session on this date ({selectedHoliday.reason}). Please pick another date.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Preferred Session</span>
+                <div className="flex gap-3">
+                  {SESSION_SLOT_VALUES.map((value) => (
+                    <label
+                      key={value}
+                      className={`flex-1 flex items-center justify-center gap-2 p-3 border rounded-lg cursor-pointer text-sm sm:text-base transition duration-200 ${
+                        slot === value ? 'border-blue-400 bg-blue-50 text-blue-800' : 'border-gray-300 bg-white text-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="slot"
+                        value={value}
+                        checked={slot === value}
+                        onChange={() => setSlot(value)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      {SESSION_SLOT_LABELS[value]}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {hasSecondMember || isGroupPlan ? 'Everyone on the plan is' : 'You will be'} invited to this batch every day.
+                </p>
+                {seatsLeft !== null && (
+                  <p className={`text-xs mt-1 ${seatsLeft > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                    {seatsLeft > 0 ? `${seatsLeft} seat(s) left in this session` : 'This session is full'}
+                  </p>
+                )}
               </div>
               
               <div className="flex items-start bg-blue-50 p-3 rounded-lg text-sm">
@@ -1263,10 +1611,10 @@ export default function RegistrationForm() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
                 <div className="text-blue-700">
-                  {plan === PLAN_TYPES.DAILY ? (
+                  {selectedPlan.duration === 1 ? (
                     <>Select the specific date for your single session. Access will be valid for this day only.</>
                   ) : (
-                    <>Your {plan === PLAN_TYPES.COMBO_PLAN ? 'family ' : ''}plan will start on the selected date and continue for 30 days. You&apos;ll have access to all sessions during this period.</>
+                    <>Your {hasSecondMember ? 'family ' : isGroupPlan ? 'group ' : ''}plan will start on the selected date and continue for {selectedPlan.duration} days. You&apos;ll have access to all sessions during this period.</>
                   )}
                 </div>
               </div>
@@ -1335,6 +1683,96 @@ export default function RegistrationForm() {
             </div>
           </div>
 
+          {/* Coupon Section */}
+          <div className="mt-6 rounded-xl shadow-md border border-gray-200 overflow-hidden">
+            <div className="bg-gradient-to-r from-gray-50 to-gray-100 py-3 px-4 border-b border-gray-200">
+              <p className="font-semibold text-gray-700 flex items-center">
+                <svg className="h-5 w-5 mr-2 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                    d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" 
+                  />
+                </svg>
+                Have a coupon code?
+              </p>
+            </div>
+            <div className="p-5 bg-white">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  name="couponCode"
+                  placeholder="Enter coupon code"
+                  value={couponCode}
+                  onChange={(e) => {
+                    setCouponCode(e.target.value.toUpperCase());
+                    if (appliedCoupon) setAppliedCoupon(null);
+                  }}
+                  disabled={isApplyingCoupon}
+                  className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-400 focus:outline-none bg-white text-gray-900 placeholder:text-gray-400 uppercase transition duration-200"
+                  autoComplete="off"
+                />
+                {appliedCoupon ? (
+                  <button
+                    type="button"
+                    onClick={handleRemoveCoupon}
+                    className="px-4 py-3 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition duration-200"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleApplyCoupon}
+                    disabled={isApplyingCoupon}
+                    className={`px-4 py-3 text-sm font-medium rounded-lg text-white transition duration-200 ${
+                      isApplyingCoupon ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                    }`}
+                  >
+                    {isApplyingCoupon ? 'Checking...' : 'Apply'}
+                  </button>
+                )}
+              </div>
+              {couponMessage && (
+                <p className={`mt-2 text-sm ${appliedCoupon ? 'text-green-600' : 'text-red-600'}`}>
+                  {couponMessage}
+                </p>
+              )}
+              {appliedCoupon && (
+                <div className="mt-3 text-sm text-gray-700 space-y-1">
+                  <div className="flex justify-between">
+                    <span>{selectedPlan.name}</span>
+                    <span>{selectedPlan.display}</span>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <span>Coupon ({appliedCoupon.code})</span>
+                    <span>- {formatPrice(appliedCoupon.discountAmount)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                    <span>Total</span>
+                    <span>{formatPrice(appliedCoupon.finalPrice)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Auto-renewal opt-in */}
+          {canAutoRenew && (
+            <label className="mt-6 flex items-start gap-3 p-4 rounded-xl bg-gray-50 border border-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoRenew}
+                onChange={(e) => setAutoRenew(e.target.checked)}
+                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">
+                <span className="font-medium text-gray-800">Renew automatically</span>
+                <span className="block text-gray-600">
+                  Your {selectedPlan.name} renews at the end of each period and is charged to the payment method you use now. You can stop it at any time from the link in your welcome email.
+                </span>
+              </span>
+            </label>
+          )}
+
           {/* Error or success message */}
           {(errorMessage || successMessage) && (
             <div className={`mt-6 p-4 rounded-xl shadow-md ${
@@ -1361,6 +1799,90 @@ export default function RegistrationForm() {
             </div>
           )}
 
+          {/* Upgrade offer for an overlapping daily booking */}
+          {upgradeOffer && (
+            <div className="mt-6 p-4 rounded-xl shadow-md bg-blue-50 border border-blue-200">
+              {upgradeAccepted ? (
+                <div className="text-sm text-blue-800 space-y-1">
+                  <p className="font-semibold">Your existing booking will be replaced by the {selectedPlan.name} once payment is complete.</p>
+                  <div className="flex justify-between">
+                    <span>{selectedPlan.name}</span>
+                    <span>{formatPrice(appliedCoupon ? appliedCoupon.finalPrice : selectedPlan.amount)}</span>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <span>Credit for your booking</span>
+                    <span>- {formatPrice(upgradeCredit)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-blue-200 pt-1">
+                    <span>Total</span>
+                    <span>{formatPrice(totalPrice)}</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => checkSubscriptionConflict()}
+                    className="mt-2 text-sm font-medium text-blue-700 underline hover:text-blue-900"
+                  >
+                    Keep my booking instead
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <p className="text-sm text-blue-800">
+                    Upgrade your booking to the {selectedPlan.name} and get {formatPrice(upgradeOffer.creditAmount)} credit for it.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUpgradeAccepted(true);
+                      setErrorMessage(null);
+                    }}
+                    className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 transition duration-200"
+                  >
+                    Upgrade
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {waitlistOffer && (
+            <div className="mt-6 p-4 rounded-xl shadow-md bg-amber-50 border border-amber-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <p className="text-sm text-amber-800">
+                This session is full. Join the waitlist and we will email you if a seat opens up.
+              </p>
+              <button
+                type="button"
+                disabled={isJoiningWaitlist}
+                onClick={async () => {
+                  setIsJoiningWaitlist(true);
+                  try {
+                    const response = await fetch("/api/waitlist", {
+                      method: "POST",
+                      headers: { "Content-Type": "application/json" },
+                      body: JSON.stringify({ ...waitlistOffer, slot }),
+                    });
+                    const data = await response.json();
+                    if (!response.ok) {
+                      setErrorMessage(data.message || "Could not join the waitlist");
+                      return;
+                    }
+                    setWaitlistOffer(null);
+                    setErrorMessage(null);
+                    setSuccessMessage(`You are number ${data.position} on the waitlist. We will email you if a seat opens up.`);
+                  } catch (error) {
+                    console.error("Error joining waitlist:", error);
+                    setErrorMessage("Could not join the waitlist");
+                  } finally {
+                    setIsJoiningWaitlist(false);
+                  }
+                }}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-amber-600 hover:bg-amber-700 transition duration-200 disabled:opacity-50"
+              >
+                Join Waitlist
+              </button>
+            </div>
+          )}
+
           {/* Submit button */}
           <div className="mt-6">
             <button
@@ -1381,7 +1903,7 @@ export default function RegistrationForm() {
                 </span>
               ) : (
                 <span className="flex items-center justify-center">
-                  Register & Pay {PLAN_PRICING[plan as Exclude<PlanType, "unlimited">].display}
+                  Register & Pay {appliedCoupon || upgradeCredit > 0 ? formatPrice(totalPrice) : selectedPlan.display}
                   <svg className="ml-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
                   </svg>
@@ -1399,7 +1921,9 @@ export default function RegistrationForm() {
                 <>Choose a single session to get started with GOALETE Club.</>
               ) : plan === PLAN_TYPES.MONTHLY ? (
                 <>The monthly plan provides 30 days of continuous access to all GOALETE Club sessions.</>
-              ) : (                <>Share your GOALETE Club journey with a family member or friend. Each person gets their own access to all sessions.</>
+              ) : plan === PLAN_TYPES.COMBO_PLAN ? (                <>Share your GOALETE Club journey with a family member or friend. Each person gets their own access to all sessions.</>
+              ) : (
+                <>{selectedPlan.description}</>
               )}
             </div>
           </div>
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+
+type RenewalInfo = {
+  email: string;
+  status: string;
+  canStop: boolean;
+  planName: string;
+  currentPeriodEnd: string | null;
+  nextRenewalAt: string | null;
+  failedAttempts: number;
+  lastFailureReason: string | null;
+  stoppedAt: string | null;
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Waiting for your first payment',
+  active: 'On',
+  past_due: 'Payment failed - we will retry',
+  stopped: 'Stopped',
+  lapsed: 'Stopped after failed payments',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+export default function RenewalManageForm({ token }: { token: string }) {
+  const [renewal, setRenewal] = useState<RenewalInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stopped, setStopped] = useState(false);
+
+  useEffect(() => {
+    const loadRenewal = async () => {
+      if (!token) {
+        setError("This link is incomplete. Please use the link from your email.");
+        setLoading(false);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/renewals/manage?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load auto-renewal');
+        }
+        setRenewal(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load auto-renewal');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRenewal();
+  }, [token]);
+
+  const handleStop = async () => {
+    if (!confirm('Stop automatic renewal? Your current plan stays active until it ends.')) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/renewals/manage', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.message || 'Failed to stop auto-renewal');
+      }
+      setStopped(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop auto-renewal');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md bg-white rounded-2xl shadow-lg p-6 sm:p-8">
+      <div className="text-center mb-6">
+        <Image
+          src="/goalete_logo.jpeg"
+          alt="GOALETE Club"
+          width={80}
+          height={80}
+          className="rounded-full mx-auto mb-3 object-cover"
+        />
+        <h1 className="text-2xl font-bold text-gray-800">Auto-Renewal</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : stopped && renewal ? (
+        <div className="text-center space-y-3">
+          <p className="text-green-700 font-semibold">Automatic renewal has been stopped.</p>
+          <p className="text-gray-600 text-sm">
+            No further payments will be taken.
+            {renewal.currentPeriodEnd && <> Your {renewal.planName} stays active until {formatDate(renewal.currentPeriodEnd)}.</>}
+          </p>
+        </div>
+      ) : renewal ? (
+        <div className="space-y-4">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+            <p><strong>Plan:</strong> {renewal.planName}</p>
+            <p><strong>Email:</strong> {renewal.email}</p>
+            <p><strong>Auto-Renewal:</strong> {STATUS_LABELS[renewal.status] || renewal.status}</p>
+            {renewal.currentPeriodEnd && <p><strong>Current Plan Ends:</strong> {formatDate(renewal.currentPeriodEnd)}</p>}
+            {renewal.canStop && renewal.nextRenewalAt && <p><strong>Next Payment:</strong> {formatDate(renewal.nextRenewalAt)}</p>}
+            {renewal.status === 'past_due' && renewal.lastFailureReason && (
+              <p className="text-red-600">Last payment failed: {renewal.lastFailureReason}</p>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {renewal.canStop && (
+            <button
+              type="button"
+              onClick={handleStop}
+              disabled={submitting}
+              className="w-full py-3 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 disabled:opacity-50 transition"
+            >
+              {submitting ? 'Stopping...' : 'Stop Auto-Renewal'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-center text-red-600">{error || 'This link cannot be used.'}</p>
+      )}
+    </div>
+  );
+}
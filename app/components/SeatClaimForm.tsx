@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+
+type SeatInfo = {
+  email: string;
+  status: string;
+  claimable: boolean;
+  reason: string | null;
+  planName: string;
+  purchaserName: string;
+  startDate: string;
+  endDate: string;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+export default function SeatClaimForm({ token }: { token: string }) {
+  const [seat, setSeat] = useState<SeatInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [claimed, setClaimed] = useState(false);
+
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [phone, setPhone] = useState("");
+
+  useEffect(() => {
+    const loadSeat = async () => {
+      if (!token) {
+        setError("This claim link is incomplete. Please use the link from your invitation email.");
+        setLoading(false);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/seats/claim?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load invitation');
+        }
+        setSeat(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSeat();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (phone.replace(/\D/g, '').length < 8) {
+      setError("Please enter a valid phone number");
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/seats/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, firstName, lastName, phone })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.message || 'Failed to claim seat');
+      }
+      setClaimed(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to claim seat');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName = "w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-400 focus:border-amber-400 focus:outline-none bg-white text-gray-900 placeholder:text-gray-400 transition duration-200";
+
+  return (
+    <div className="w-full max-w-md bg-white rounded-2xl shadow-lg p-6 sm:p-8">
+      <div className="text-center mb-6">
+        <Image
+          src="/goalete_logo.jpeg"
+          alt="GOALETE Club"
+          width={80}
+          height={80}
+          className="rounded-full mx-auto mb-3 object-cover"
+        />
+        <h1 className="text-2xl font-bold text-gray-800">Claim Your Seat</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        </div>
+      ) : claimed && seat ? (
+        <div className="text-center space-y-3">
+          <p className="text-green-700 font-semibold">You&apos;re all set!</p>
+          <p className="text-gray-600 text-sm">
+            Your {seat.planName} runs from {formatDate(seat.startDate)} to {formatDate(seat.endDate)}.
+            Session invites will be sent to {seat.email}.
+          </p>
+        </div>
+      ) : seat && seat.claimable ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-gray-700">
+            <p><strong>{seat.purchaserName}</strong> has reserved a seat for you on the <strong>{seat.planName}</strong>.</p>
+            <p className="mt-1">{formatDate(seat.startDate)} – {formatDate(seat.endDate)}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input type="email" value={seat.email} disabled className={`${inputClassName} bg-gray-100 text-gray-500`} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+              <input type="text" required value={firstName} onChange={(e) => setFirstName(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+              <input type="text" required value={lastName} onChange={(e) => setLastName(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+            <input type="tel" required value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="10-digit mobile number" className={inputClassName} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-3 rounded-lg bg-amber-500 text-white font-semibold hover:bg-amber-600 disabled:opacity-50 transition"
+          >
+            {submitting ? 'Claiming...' : 'Claim Seat'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-center text-red-600">{error || seat?.reason || 'This invitation cannot be used.'}</p>
+      )}
+    </div>
+  );
+}
@@ -338,7 +338,7 @@ const AddUserToMeetingModal: React.FC<AddUserToMeetingModalProps> = ({
               placeholder="0"
             />
             <p className="text-xs text-gray-500">
-              Default is 0 for admin-added subscriptions. Payment status will be marked as &quot;admin-added&quot;.
+              Default is 0 for admin-added subscriptions. Payment status will be marked as &quot;admin_added&quot;.
             </p>
           </div>
 
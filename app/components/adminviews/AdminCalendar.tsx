@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, startOfWeek, endOfWeek, isSameMonth, isSameDay, addDays } from 'date-fns';
 import TodayMeetingCard from './TodayMeetingCard';
 import { useRefresh } from '../../hooks/useRefresh';
+import { SESSION_SLOTS, SESSION_SLOT_LABELS, SESSION_SLOT_VALUES, getSlotStartTime, type SessionSlot } from '@/lib/sessionSlots';
+import { MEETING_PLATFORMS, MEETING_PLATFORM_VALUES, getMeetingPlatformLabel, type MeetingPlatform } from '@/lib/meetingPlatforms';
 
 // Helper function to display UTC time stored in DB as IST
 const displayUTCAsIST = (utcTimeString: string): Date => {
@@ -26,9 +28,17 @@ const formatMeetingDate = (dateString: string): string => {
   return format(new Date(dateString), 'MMM d, yyyy');
 };
 
+const PLATFORM_ICONS: Record<MeetingPlatform, string> = {
+  [MEETING_PLATFORMS.GOOGLE_MEET]: '🎥',
+  [MEETING_PLATFORMS.ZOOM]: '📹',
+  [MEETING_PLATFORMS.TEAMS]: '📺',
+  [MEETING_PLATFORMS.JITSI]: '🌐',
+};
+
 type Meeting = {
   id: string;
   meetingDate: string;
+  slot: SessionSlot;
   platform: string;
   meetingLink: string;
   startTime: string;
@@ -41,6 +51,58 @@ type Meeting = {
   isDefault: boolean;
   meetingDesc: string;
   meetingTitle: string;
+  cancelledAt: string | null;
+  cancellationReason: string | null;
+};
+
+// Change a calendar sync would make, from a dry run
+type CalendarSyncChange = {
+  id: string;
+  type: 'create' | 'update' | 'reschedule' | 'cancel' | 'delete' | 'attendees';
+  eventId: string;
+  meetingId: string | null;
+  day: string;
+  slot: string;
+  description: string;
+  fields: { field: string; from: string | null; to: string | null }[];
+  affectedAttendees: number;
+};
+
+const SYNC_CHANGE_STYLES: Record<CalendarSyncChange['type'], { label: string; className: string }> = {
+  create: { label: 'New meeting', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  reschedule: { label: 'Reschedule', className: 'bg-indigo-100 text-indigo-800' },
+  attendees: { label: 'Guests', className: 'bg-gray-100 text-gray-800' },
+  cancel: { label: 'Cancel', className: 'bg-orange-100 text-orange-800' },
+  delete: { label: 'Delete', className: 'bg-red-100 text-red-800' },
+};
+
+const SYNC_FIELD_LABELS: Record<string, string> = {
+  meetingTitle: 'Title',
+  meetingDesc: 'Description',
+  meetingLink: 'Meet link',
+  startTime: 'Start',
+  endTime: 'End',
+  googleEventId: 'Calendar event',
+  guestsAdded: 'Guests added',
+  guestsRemoved: 'Guests removed',
+};
+
+// Show a field value of a sync change; times come as ISO strings
+const formatSyncValue = (field: string, value: string | null): string => {
+  if (value === null) return '—';
+  if (field === 'startTime' || field === 'endTime') return format(new Date(value), 'MMM d, yyyy HH:mm');
+  return value;
+};
+
+// Day without a session
+type Holiday = {
+  id: string;
+  date: string; // yyyy-MM-dd
+  reason: string;
+  extendSubscriptions: boolean;
+  extendedAt: string | null;
+  subscriptionsExtended: number;
 };
 
 export default function AdminCalendar() {
@@ -50,22 +112,40 @@ export default function AdminCalendar() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [holidayReason, setHolidayReason] = useState('');
+  const [extendOnHoliday, setExtendOnHoliday] = useState(true);
+  const [holidayLoading, setHolidayLoading] = useState(false);
+  // Meeting picked in the calendar to reschedule or cancel
+  const [managedMeeting, setManagedMeeting] = useState<Meeting | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
+  const [rescheduleTime, setRescheduleTime] = useState('');
+  const [rescheduleDuration, setRescheduleDuration] = useState(60);
+  const [cancelReason, setCancelReason] = useState('');
+  const [manageLoading, setManageLoading] = useState(false);
   
   // Use refresh system
   const { triggerRefresh } = useRefresh();
   
   // Calendar sync state
-  const [syncStep, setSyncStep] = useState(0); // 0: initial, 1: confirmation, 2: progress
+  const [syncStep, setSyncStep] = useState(0); // 0: initial, 1: review, 2: progress
   const [syncLoading, setSyncLoading] = useState(false);
   const [syncStatus, setSyncStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [syncProgress, setSyncProgress] = useState(0);
   const [syncStage, setSyncStage] = useState('');
   const [syncResults, setSyncResults] = useState<{ created: number; updated: number; deleted: number } | null>(null);
+  const [syncFull, setSyncFull] = useState(false);
+  // Dry run the admin is reviewing, and the changes they approved
+  const [syncChanges, setSyncChanges] = useState<CalendarSyncChange[]>([]);
+  const [syncApproved, setSyncApproved] = useState<string[]>([]);
+  const [syncHeldChanges, setSyncHeldChanges] = useState(0);
   
   // Form state
-  const [platform, setPlatform] = useState('google-meet');
-  const [startTime, setStartTime] = useState('21:00');
+  const [platform, setPlatform] = useState<MeetingPlatform>(MEETING_PLATFORMS.GOOGLE_MEET);
+  const [slot, setSlot] = useState<SessionSlot>(SESSION_SLOTS.EVENING);
+  const [startTime, setStartTime] = useState(getSlotStartTime(SESSION_SLOTS.EVENING));
   const [duration, setDuration] = useState(60);
+  const [capacity, setCapacity] = useState('');
   const [meetingTitle, setMeetingTitle] = useState('GOALETE Club Session');
   const [meetingDesc, setMeetingDesc] = useState('Join us for a GOALETE Club session to learn how to achieve any goal in life.');
   const [isDateRange, setIsDateRange] = useState(false);
@@ -115,10 +195,232 @@ export default function AdminCalendar() {
       setLoading(false);
     }
   }, [currentMonth]);
+  const fetchHolidays = useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) return;
+
+    try {
+      const startDate = format(startOfMonth(currentMonth), 'yyyy-MM-dd');
+      const endDate = format(endOfMonth(currentMonth), 'yyyy-MM-dd');
+      const response = await fetch(`/api/admin/holidays?startDate=${startDate}&endDate=${endDate}`, {
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`
+        }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch holidays');
+      }
+
+      const data = await response.json();
+      setHolidays(data.holidays || []);
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+    }
+  }, [currentMonth]);
+
   useEffect(() => {
     fetchMeetings();
   }, [currentMonth, fetchMeetings]);
 
+  useEffect(() => {
+    fetchHolidays();
+  }, [currentMonth, fetchHolidays]);
+
+  // Cancellations and deletions from Google wait for review
+  const fetchSyncStatus = useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) return;
+
+    try {
+      const response = await fetch('/api/admin/calendar-sync', {
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`
+        }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch calendar sync status');
+      }
+
+      const data = await response.json();
+      setSyncHeldChanges(data.heldChanges || 0);
+    } catch (error) {
+      console.error('Error fetching calendar sync status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSyncStatus();
+  }, [fetchSyncStatus]);
+
+  // Mark the selected dates as days without a session
+  const createHolidays = async () => {
+    if (selectedDates.length === 0 || !holidayReason.trim()) return;
+
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) {
+      showToast('Admin authentication missing - please log in again', 'error');
+      return;
+    }
+
+    setHolidayLoading(true);
+    try {
+      const response = await fetch('/api/admin/holidays', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({
+          dates: selectedDates,
+          reason: holidayReason.trim(),
+          extendSubscriptions: extendOnHoliday
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to mark no-session days');
+      }
+
+      showToast(data.message, 'success');
+      setSelectedDates([]);
+      setHolidayReason('');
+      fetchHolidays();
+      triggerRefresh('calendar');
+    } catch (error) {
+      console.error('Error creating holidays:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to mark no-session days', 'error');
+    } finally {
+      setHolidayLoading(false);
+    }
+  };
+
+  // Turn a no-session day back into a session day
+  const deleteHoliday = async (holiday: Holiday) => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) {
+      showToast('Admin authentication missing - please log in again', 'error');
+      return;
+    }
+
+    setHolidayLoading(true);
+    try {
+      const response = await fetch(`/api/admin/holidays?id=${holiday.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to remove no-session day');
+      }
+
+      showToast(data.message, 'success');
+      fetchHolidays();
+      triggerRefresh('calendar');
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to remove no-session day', 'error');
+    } finally {
+      setHolidayLoading(false);
+    }
+  };
+
+  // Open the manage panel for a meeting, starting from its current time
+  const openManagedMeeting = (meeting: Meeting) => {
+    const start = new Date(meeting.startTimeUTC || meeting.startTime);
+    const end = new Date(meeting.endTimeUTC || meeting.endTime);
+    setManagedMeeting(meeting);
+    setRescheduleDate(meeting.meetingDate.split('T')[0]);
+    setRescheduleTime(start.toLocaleTimeString('en-GB', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false }));
+    setRescheduleDuration(Math.round((end.getTime() - start.getTime()) / 60000));
+    setCancelReason('');
+  };
+
+  // Move the managed meeting; attendees are emailed the new time
+  const rescheduleSession = async () => {
+    if (!managedMeeting || !rescheduleDate || !rescheduleTime) return;
+
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) {
+      showToast('Admin authentication missing - please log in again', 'error');
+      return;
+    }
+
+    setManageLoading(true);
+    try {
+      const response = await fetch('/api/admin/meetings', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({
+          meetingId: managedMeeting.id,
+          date: rescheduleDate,
+          startTime: rescheduleTime,
+          duration: Number(rescheduleDuration)
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to reschedule meeting');
+      }
+
+      showToast(data.message, 'success');
+      setManagedMeeting(null);
+      fetchMeetings();
+      triggerRefresh('meetings');
+      triggerRefresh('calendar');
+    } catch (error) {
+      console.error('Error rescheduling meeting:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to reschedule meeting', 'error');
+    } finally {
+      setManageLoading(false);
+    }
+  };
+
+  // Cancel the managed meeting; attendees are emailed a cancellation
+  const cancelSession = async () => {
+    if (!managedMeeting) return;
+    if (!window.confirm(`Cancel the ${SESSION_SLOT_LABELS[managedMeeting.slot] || managedMeeting.slot} session on ${formatMeetingDate(managedMeeting.meetingDate.split('T')[0])}? Every attendee will be emailed and this cannot be undone.`)) {
+      return;
+    }
+
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) {
+      showToast('Admin authentication missing - please log in again', 'error');
+      return;
+    }
+
+    setManageLoading(true);
+    try {
+      const params = new URLSearchParams({ id: managedMeeting.id });
+      if (cancelReason.trim()) params.set('reason', cancelReason.trim());
+      const response = await fetch(`/api/admin/meetings?${params.toString()}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to cancel meeting');
+      }
+
+      showToast(data.message, 'success');
+      setManagedMeeting(null);
+      fetchMeetings();
+      triggerRefresh('meetings');
+      triggerRefresh('calendar');
+    } catch (error) {
+      console.error('Error cancelling meeting:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to cancel meeting', 'error');
+    } finally {
+      setManageLoading(false);
+    }
+  };
+
   const createMeetings = async () => {
     try {
       if (!isDateRange && selectedDates.length === 0) {
@@ -145,8 +447,10 @@ export default function AdminCalendar() {
       // Prepare request payload based on selection mode
       const requestBody = {
         platform,
+        slot,
         startTime,
         duration: Number(duration),
+        ...(capacity ? { capacity: Number(capacity) } : {}),
         meetingTitle,
         meetingDesc,
         addActiveUsers: false // Always false now - users added by automated system
@@ -210,11 +514,67 @@ export default function AdminCalendar() {
   };
 
   // Calendar sync handlers
-  const handleFirstSync = () => {
-    setSyncStep(1); // Move to confirmation step
+  const resetSync = () => {
+    setSyncStep(0);
+    setSyncProgress(0);
+    setSyncStage('');
+    setSyncResults(null);
+    setSyncChanges([]);
+    setSyncApproved([]);
+  };
+
+  // Dry run: fetch every change the sync would make for the admin to review
+  const handleFirstSync = async () => {
+    setSyncLoading(true);
     setSyncStatus(null); // Clear any previous status
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/calendar-sync', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          dryRun: true,
+          full: syncFull
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Calendar sync failed');
+      }
+
+      const changes: CalendarSyncChange[] = data.changes || [];
+      setSyncChanges(changes);
+      // Everything is approved until the admin unticks it
+      setSyncApproved(changes.map(change => change.id));
+      setSyncStep(1); // Move to review step
+    } catch (error) {
+      console.error('Calendar sync dry run error:', error);
+      setSyncStatus({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Calendar sync failed'
+      });
+    } finally {
+      setSyncLoading(false);
+    }
+  };
+
+  const toggleSyncChange = (changeId: string) => {
+    setSyncApproved(prev =>
+      prev.includes(changeId) ? prev.filter(id => id !== changeId) : [...prev, changeId]
+    );
   };
 
+  // Apply the reviewed changes; unticked ones are rejected
   const handleConfirmSync = async () => {
     setSyncLoading(true);
     setSyncStatus(null);
@@ -225,9 +585,8 @@ export default function AdminCalendar() {
     // Simulate progress stages
     const progressStages = [
       { stage: 'Connecting to Google Calendar...', progress: 20 },
-      { stage: 'Searching for GOALETE events...', progress: 40 },
-      { stage: 'Processing calendar data...', progress: 60 },
-      { stage: 'Updating database...', progress: 80 },
+      { stage: 'Checking the reviewed changes are still current...', progress: 50 },
+      { stage: 'Applying approved changes...', progress: 80 },
       { stage: 'Finalizing sync...', progress: 95 }
     ];
 
@@ -241,7 +600,7 @@ export default function AdminCalendar() {
       for (let i = 0; i < progressStages.length; i++) {
         setSyncStage(progressStages[i].stage);
         setSyncProgress(progressStages[i].progress);
-        await new Promise(resolve => setTimeout(resolve, 800)); // Wait 800ms between stages
+        await new Promise(resolve => setTimeout(resolve, 400)); // Wait 400ms between stages
       }
 
       const response = await fetch('/api/admin/calendar-sync', {
@@ -251,7 +610,9 @@ export default function AdminCalendar() {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          days: 30 // Sync next 30 days
+          full: syncFull,
+          approved: syncApproved,
+          rejected: syncChanges.map(change => change.id).filter(id => !syncApproved.includes(id))
         })
       });
 
@@ -269,14 +630,24 @@ export default function AdminCalendar() {
       setSyncResults({
         created: data.created || 0,
         updated: data.updated || 0,
-        deleted: data.deleted || 0
+        // Cancelled meetings are gone from the calendar too
+        deleted: (data.deleted || 0) + (data.cancelled || 0)
       });
 
       // Show toast notification instead of status message
-      showToast(`Enhanced sync completed: ${data.created || 0} created, ${data.updated || 0} updated, ${data.deleted || 0} deleted. User attachments preserved.`, 'success');
+      const conflicts: string[] = data.conflicts || [];
+      const held: CalendarSyncChange[] = data.held || [];
+      showToast(
+        data.queued
+          ? 'A calendar sync is already running; review the changes again once it is done.'
+          : `${data.message}${conflicts.length > 0 ? `. Kept our version: ${conflicts.join('; ')}` : ''}` +
+            `${held.length > 0 ? '. Some changes differ from what you reviewed; review again to apply them.' : ''}`,
+        conflicts.length > 0 || held.length > 0 || (data.errors || []).length > 0 ? 'error' : 'success'
+      );
       
       // Refresh meetings after sync AND trigger other refreshes
       fetchMeetings();
+      fetchSyncStatus();
       
       // Trigger refresh for all affected areas since meetings might affect users, analytics, etc.
       triggerRefresh('meetings');
@@ -285,12 +656,7 @@ export default function AdminCalendar() {
       triggerRefresh('analytics'); // Analytics might be affected
       
       // Auto-reset after 5 seconds to allow time to see the cards
-      setTimeout(() => {
-        setSyncStep(0);
-        setSyncProgress(0);
-        setSyncStage('');
-        setSyncResults(null);
-      }, 5000);
+      setTimeout(resetSync, 5000);
       
     } catch (error) {
       console.error('Calendar sync error:', error);
@@ -302,12 +668,7 @@ export default function AdminCalendar() {
       setSyncStage('Sync failed');
       
       // Auto-reset on error after 3 seconds
-      setTimeout(() => {
-        setSyncStep(0);
-        setSyncProgress(0);
-        setSyncStage('');
-        setSyncResults(null);
-      }, 3000);
+      setTimeout(resetSync, 3000);
     } finally {
       setSyncLoading(false);
     }
@@ -353,6 +714,7 @@ export default function AdminCalendar() {
       acc[dateKey].push(meeting);
       return acc;
     }, {} as Record<string, Meeting[]>);
+    const holidaysByDate = Object.fromEntries(holidays.map(holiday => [holiday.date, holiday]));
     
     while (currentDate <= endDate) {
       const dateString = format(currentDate, 'yyyy-MM-dd');
@@ -361,6 +723,7 @@ export default function AdminCalendar() {
       const isSelected = selectedDates.includes(dateString);
       const dayMeetings = meetingsByDate[dateString] || [];
       const hasMeetings = dayMeetings.length > 0;
+      const holiday = holidaysByDate[dateString];
       
       // Check if date is in the past
       const today = new Date();
@@ -376,7 +739,8 @@ export default function AdminCalendar() {
               : isPastDate
                 ? 'text-gray-400 bg-gray-100/70 cursor-not-allowed opacity-60'
                 : 'text-gray-800 bg-white hover:bg-gradient-to-br hover:from-blue-50 hover:to-indigo-50 hover:scale-[1.02] hover:shadow-md cursor-pointer'
-          } ${isSelected ? 'bg-gradient-to-br from-indigo-100 to-purple-100 border-2 border-indigo-300 shadow-md scale-[1.02]' : 'border border-gray-200/50'} rounded-xl`}
+          } ${isSelected ? 'bg-gradient-to-br from-indigo-100 to-purple-100 border-2 border-indigo-300 shadow-md scale-[1.02]' : holiday && isCurrentMonth ? 'border-2 border-amber-300 bg-amber-50/70' : 'border border-gray-200/50'} rounded-xl`}
+          title={holiday ? `No session: ${holiday.reason}` : undefined}
           onClick={() => {
             if (isCurrentMonth && !isPastDate) {
               handleDateClick(dateString);
@@ -411,19 +775,36 @@ export default function AdminCalendar() {
                 )}
               </div>
               
+              {holiday && isCurrentMonth && (
+                <div className="mt-1 px-2 py-1 rounded-lg text-xs font-medium truncate bg-amber-100 text-amber-800 border border-amber-300/50 hidden sm:block">
+                  No session
+                </div>
+              )}
+              
               {hasMeetings && (
                 <div className="mt-1 space-y-1 hidden sm:block">
                   {dayMeetings.slice(0, 2).map((meeting) => (
                     <div 
                       key={meeting.id}
-                      className={`px-2 py-1 rounded-lg text-xs font-medium truncate shadow-sm transition-all duration-200 hover:shadow-md ${
-                        meeting.platform === 'google-meet' 
-                          ? 'bg-gradient-to-r from-blue-100 to-blue-200 text-blue-700 border border-blue-300/50' 
-                          : 'bg-gradient-to-r from-purple-100 to-purple-200 text-purple-700 border border-purple-300/50'
+                      className={`px-2 py-1 rounded-lg text-xs font-medium truncate shadow-sm transition-all duration-200 hover:shadow-md cursor-pointer ${
+                        meeting.cancelledAt
+                          ? 'bg-red-50 text-red-600 border border-red-300/50 line-through'
+                          : meeting.platform === MEETING_PLATFORMS.GOOGLE_MEET
+                            ? 'bg-gradient-to-r from-blue-100 to-blue-200 text-blue-700 border border-blue-300/50' 
+                            : meeting.platform === MEETING_PLATFORMS.TEAMS
+                              ? 'bg-gradient-to-r from-indigo-100 to-indigo-200 text-indigo-700 border border-indigo-300/50'
+                              : meeting.platform === MEETING_PLATFORMS.JITSI
+                                ? 'bg-gradient-to-r from-green-100 to-green-200 text-green-700 border border-green-300/50'
+                                : 'bg-gradient-to-r from-purple-100 to-purple-200 text-purple-700 border border-purple-300/50'
                       }`}
-                      title={`${meeting.meetingTitle} - ${format(displayUTCAsIST(meeting.startTimeUTC || meeting.startTime), 'h:mm a')} (${meeting.platform})`}
+                      title={`${meeting.meetingTitle} - ${SESSION_SLOT_LABELS[meeting.slot] || meeting.slot} ${format(displayUTCAsIST(meeting.startTimeUTC || meeting.startTime), 'h:mm a')} (${getMeetingPlatformLabel(meeting.platform)})${meeting.cancelledAt ? ' - cancelled' : ''}`}
+                      onClick={(e) => {
+                        // Manage the meeting instead of selecting the day
+                        e.stopPropagation();
+                        openManagedMeeting(meeting);
+                      }}
                     >
-                      {format(displayUTCAsIST(meeting.startTimeUTC || meeting.startTime), 'h:mm a')}
+                      {SESSION_SLOT_LABELS[meeting.slot] || meeting.slot} · {format(displayUTCAsIST(meeting.startTimeUTC || meeting.startTime), 'h:mm a')}
                     </div>
                   ))}
                   {dayMeetings.length > 2 && (
@@ -601,6 +982,109 @@ export default function AdminCalendar() {
             <TodayMeetingCard />
           </div>
           
+          {/* Manage Session Section */}
+          {managedMeeting && (
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-4 sm:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-lg">
+                    <svg className="w-5 h-5 sm:w-6 sm:h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                    Manage Session
+                  </h3>
+                </div>
+                <button
+                  onClick={() => setManagedMeeting(null)}
+                  className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-all duration-200"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <div className="mb-4 text-sm text-gray-700">
+                <div className="font-semibold text-gray-800">{managedMeeting.meetingTitle}</div>
+                <div>
+                  {SESSION_SLOT_LABELS[managedMeeting.slot] || managedMeeting.slot} · {formatMeetingDate(managedMeeting.meetingDate.split('T')[0])} · {format(displayUTCAsIST(managedMeeting.startTimeUTC || managedMeeting.startTime), 'h:mm a')} ({getMeetingPlatformLabel(managedMeeting.platform)})
+                </div>
+              </div>
+
+              {managedMeeting.cancelledAt ? (
+                <p className="text-sm text-red-600">
+                  Cancelled on {format(new Date(managedMeeting.cancelledAt), 'MMM d, yyyy h:mm a')}
+                  {managedMeeting.cancellationReason ? `: ${managedMeeting.cancellationReason}` : ''}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Date</label>
+                      <input
+                        type="date"
+                        className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200"
+                        value={rescheduleDate}
+                        onChange={(e) => setRescheduleDate(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Start Time (IST)</label>
+                      <input
+                        type="time"
+                        className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200"
+                        value={rescheduleTime}
+                        onChange={(e) => setRescheduleTime(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Duration (min)</label>
+                      <input
+                        type="number"
+                        min={15}
+                        max={240}
+                        className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200"
+                        value={rescheduleDuration}
+                        onChange={(e) => setRescheduleDuration(Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={rescheduleSession}
+                    disabled={manageLoading || !rescheduleDate || !rescheduleTime}
+                    className="w-full bg-gradient-to-r from-indigo-500 to-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    {manageLoading ? 'Saving...' : 'Reschedule & Notify Attendees'}
+                  </button>
+
+                  <div className="pt-4 border-t border-gray-200">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Cancellation Reason (optional)
+                    </label>
+                    <input
+                      type="text"
+                      className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-red-500 focus:ring-2 focus:ring-red-200 transition-all duration-200"
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value)}
+                      placeholder="Coach unwell"
+                      maxLength={200}
+                    />
+                    <button
+                      onClick={cancelSession}
+                      disabled={manageLoading}
+                      className="mt-3 w-full bg-red-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      Cancel Session
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Calendar Sync Section */}
           <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-4 sm:p-6">
             <div className="flex items-center space-x-3 mb-4">
@@ -616,46 +1100,151 @@ export default function AdminCalendar() {
             
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Sync next 30 days of default meetings from Google Calendar to database. This will preserve all existing user attachments.
+                Review changes made on Google Calendar since the last sync before applying them. Syncs also run automatically when the calendar changes, but cancellations and deletions always wait for review. Titles, descriptions and times follow the calendar; invited members follow the database.
               </p>
               
               {syncStep === 0 && (
-                <button
-                  onClick={handleFirstSync}
-                  disabled={syncLoading}
-                  className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                >
-                  Start Calendar Sync
-                </button>
+                <div className="space-y-3">
+                  {syncHeldChanges > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                      {syncHeldChanges} cancellation{syncHeldChanges === 1 ? '' : 's'} or deletion{syncHeldChanges === 1 ? '' : 's'} from Google Calendar {syncHeldChanges === 1 ? 'is' : 'are'} waiting for your review.
+                    </div>
+                  )}
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={syncFull}
+                      onChange={(e) => setSyncFull(e.target.checked)}
+                      className="mr-2 rounded border-gray-300"
+                    />
+                    Re-read the whole calendar instead of only recent changes
+                  </label>
+                  <button
+                    onClick={handleFirstSync}
+                    disabled={syncLoading}
+                    className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    {syncLoading ? 'Checking Google Calendar...' : 'Review Calendar Changes'}
+                  </button>
+                  {syncStatus && (
+                    <p className={`text-sm ${syncStatus.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+                      {syncStatus.message}
+                    </p>
+                  )}
+                </div>
               )}
               
               {syncStep === 1 && (
                 <div className="space-y-3">
-                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                    <div className="flex items-center">
-                      <svg className="w-5 h-5 text-amber-500 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.982 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                      </svg>
-                      <span className="text-amber-800 font-medium">Confirmation Required</span>
+                  {syncChanges.length === 0 ? (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+                      Google Calendar and the database already match.
                     </div>
-                    <p className="text-amber-700 text-sm mt-1">
-                      Are you sure you want to sync calendar data? This will update the database with default meeting schedule for the next 30 days.
-                    </p>
-                  </div>
+                  ) : (
+                    <>
+                      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                        <div className="flex items-center">
+                          <svg className="w-5 h-5 text-amber-500 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.982 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                          </svg>
+                          <span className="text-amber-800 font-medium">Review Changes</span>
+                        </div>
+                        <p className="text-amber-700 text-sm mt-1">
+                          {syncChanges.length} change{syncChanges.length === 1 ? '' : 's'} found. Untick any you don&apos;t want; unticked changes are rejected and the database keeps its version. Cancelled meetings are emailed to their attendees.
+                        </p>
+                      </div>
+
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">{syncApproved.length} of {syncChanges.length} selected</span>
+                        <div className="space-x-3">
+                          <button
+                            onClick={() => setSyncApproved(syncChanges.map(change => change.id))}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Select all
+                          </button>
+                          <button
+                            onClick={() => setSyncApproved([])}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Select none
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                        {syncChanges.map(change => (
+                          <label
+                            key={change.id}
+                            className={`block border rounded-lg p-3 cursor-pointer transition-colors ${
+                              syncApproved.includes(change.id) ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 bg-white'
+                            }`}
+                          >
+                            <div className="flex items-start">
+                              <input
+                                type="checkbox"
+                                checked={syncApproved.includes(change.id)}
+                                onChange={() => toggleSyncChange(change.id)}
+                                className="mt-1 mr-3 rounded border-gray-300"
+                              />
+                              <div className="flex-1 min-w-0">
+                                <div className="flex flex-wrap items-center gap-2 mb-1">
+                                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SYNC_CHANGE_STYLES[change.type].className}`}>
+                                    {SYNC_CHANGE_STYLES[change.type].label}
+                                  </span>
+                                  <span className="text-xs text-gray-500">
+                                    {formatMeetingDate(change.day)} · {SESSION_SLOT_LABELS[change.slot as SessionSlot] || change.slot}
+                                  </span>
+                                  {change.affectedAttendees > 0 && (
+                                    <span className="text-xs text-gray-500">
+                                      👥 {change.affectedAttendees} attendee{change.affectedAttendees === 1 ? '' : 's'} affected
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-sm text-gray-800">{change.description}</p>
+                                {change.fields.length > 0 && (
+                                  <dl className="mt-2 space-y-1 text-xs">
+                                    {change.fields.map(field => (
+                                      <div key={field.field} className="grid grid-cols-[6rem_1fr] gap-2">
+                                        <dt className="text-gray-500">{SYNC_FIELD_LABELS[field.field] || field.field}</dt>
+                                        <dd className="text-gray-700 break-words">
+                                          {field.from !== null && (
+                                            <span className="line-through text-red-600">{formatSyncValue(field.field, field.from)}</span>
+                                          )}
+                                          {field.from !== null && field.to !== null && ' → '}
+                                          {field.to !== null && (
+                                            <span className="text-green-700">{formatSyncValue(field.field, field.to)}</span>
+                                          )}
+                                        </dd>
+                                      </div>
+                                    ))}
+                                  </dl>
+                                )}
+                              </div>
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    </>
+                  )}
                   
                   <div className="flex space-x-3">
+                    {syncChanges.length > 0 && (
+                      <button
+                        onClick={handleConfirmSync}
+                        disabled={syncLoading}
+                        className="flex-1 bg-gradient-to-r from-green-500 to-green-600 text-white py-2 px-4 rounded-lg font-medium hover:from-green-600 hover:to-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                      >
+                        {syncApproved.length === syncChanges.length
+                          ? 'Apply All Changes'
+                          : `Apply ${syncApproved.length} Selected`}
+                      </button>
+                    )}
                     <button
-                      onClick={handleConfirmSync}
-                      disabled={syncLoading}
-                      className="flex-1 bg-gradient-to-r from-green-500 to-green-600 text-white py-2 px-4 rounded-lg font-medium hover:from-green-600 hover:to-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                    >
-                      Confirm Sync
-                    </button>
-                    <button
-                      onClick={() => setSyncStep(0)}
+                      onClick={resetSync}
                       className="flex-1 bg-gray-500 text-white py-2 px-4 rounded-lg font-medium hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200"
                     >
-                      Cancel
+                      {syncChanges.length > 0 ? 'Cancel' : 'Close'}
                     </button>
                   </div>
                 </div>
@@ -716,6 +1305,91 @@ export default function AdminCalendar() {
             </div>
           </div>
           
+          {/* No-Session Days Section */}
+          <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-4 sm:p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="p-2 bg-gradient-to-r from-amber-400 to-orange-500 rounded-lg">
+                <svg className="w-5 h-5 sm:w-6 sm:h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                </svg>
+              </div>
+              <h3 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                No-Session Days
+              </h3>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                No default meeting is created and no invites are sent on these days, and the Daily Plan cannot be booked for them.
+              </p>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-amber-500 focus:ring-2 focus:ring-amber-200 transition-all duration-200"
+                  value={holidayReason}
+                  onChange={(e) => setHolidayReason(e.target.value)}
+                  placeholder="Diwali"
+                  maxLength={200}
+                />
+              </div>
+
+              <label className="flex items-start space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={extendOnHoliday}
+                  onChange={(e) => setExtendOnHoliday(e.target.checked)}
+                />
+                <span className="text-sm text-gray-700">
+                  Extend subscriptions running on the day by one day and email the members
+                </span>
+              </label>
+
+              <button
+                onClick={createHolidays}
+                disabled={holidayLoading || selectedDates.length === 0 || !holidayReason.trim()}
+                className="w-full bg-gradient-to-r from-amber-400 to-orange-500 text-white py-3 px-4 rounded-lg font-medium hover:from-amber-500 hover:to-orange-600 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {selectedDates.length === 0
+                  ? 'Select dates in the calendar'
+                  : `Mark ${selectedDates.length} Date${selectedDates.length !== 1 ? 's' : ''} as No-Session`}
+              </button>
+
+              {holidays.length > 0 && (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {holidays.map(holiday => (
+                    <li key={holiday.id} className="flex items-center justify-between p-3 text-sm">
+                      <div>
+                        <div className="font-semibold text-gray-800">{formatMeetingDate(holiday.date)}</div>
+                        <div className="text-gray-600">{holiday.reason}</div>
+                        <div className="text-xs text-gray-500">
+                          {!holiday.extendSubscriptions
+                            ? 'Subscriptions not extended'
+                            : holiday.extendedAt
+                              ? `${holiday.subscriptionsExtended} subscription(s) extended`
+                              : 'Subscriptions extended on the day'}
+                        </div>
+                      </div>
+                      {!holiday.extendedAt && (
+                        <button
+                          onClick={() => deleteHoliday(holiday)}
+                          disabled={holidayLoading}
+                          className="px-3 py-1 text-xs text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-all duration-200 font-medium disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
           <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-4 sm:p-6 lg:sticky lg:top-6">
             <div className="flex items-center space-x-3 mb-4 sm:mb-6">
               <div className="p-2 bg-gradient-to-r from-emerald-500 to-teal-600 rounded-lg">
@@ -736,11 +1410,13 @@ export default function AdminCalendar() {
                 <select
                   className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200 appearance-none bg-white"
                   value={platform}
-                  onChange={(e) => setPlatform(e.target.value)}
+                  onChange={(e) => setPlatform(e.target.value as MeetingPlatform)}
                 >
-                  <option value="google-meet">🎥 Google Meet</option>
-                  <option value="zoom" disabled className="text-gray-400">📹 Zoom (Coming Soon)</option>
-                  <option value="teams" disabled className="text-gray-400">📺 Microsoft Teams (Coming Soon)</option>
+                  {MEETING_PLATFORM_VALUES.map((value) => (
+                    <option key={value} value={value}>
+                      {PLATFORM_ICONS[value]} {getMeetingPlatformLabel(value)}
+                    </option>
+                  ))}
                   <option value="webex" disabled className="text-gray-400">🎯 Cisco Webex (Coming Soon)</option>
                 </select>
                 <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -751,7 +1427,7 @@ export default function AdminCalendar() {
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                Currently only Google Meet is available. Other platforms coming soon.
+                Each meeting runs on the platform picked here. The platform needs its credentials set on the server.
               </p>
             </div>
               
@@ -904,6 +1580,33 @@ export default function AdminCalendar() {
               </div>
             )}
             
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Session
+              </label>
+              <div className="relative">
+                <select
+                  className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200 appearance-none bg-white"
+                  value={slot}
+                  onChange={(e) => {
+                    const newSlot = e.target.value as SessionSlot;
+                    setSlot(newSlot);
+                    setStartTime(getSlotStartTime(newSlot));
+                  }}
+                >
+                  {SESSION_SLOT_VALUES.map((value) => (
+                    <option key={value} value={value}>{SESSION_SLOT_LABELS[value]}</option>
+                  ))}
+                </select>
+                <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Each day can have one meeting per session; members are invited to the session they booked.
+              </p>
+            </div>
+            
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
                 Start Time (IST)
@@ -941,6 +1644,23 @@ export default function AdminCalendar() {
                 placeholder="60"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Capacity (optional)
+              </label>
+              <input
+                type="number"
+                className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200"
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                min="1"
+                placeholder="Session default"
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Members beyond the capacity are put on the session&apos;s waitlist.
+              </p>
+            </div>
             
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useRefresh } from '../../hooks/useRefresh';
+
+type Coupon = {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: 'percentage' | 'flat';
+  discountValue: number;
+  applicablePlans: string[];
+  validFrom: string | null;
+  validUntil: string | null;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  isActive: boolean;
+  createdAt: string;
+  redemptionCount: number;
+  pendingCount: number;
+  totalDiscountGiven: number;
+};
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage' as 'percentage' | 'flat',
+  discountValue: 10,
+  applicablePlans: [] as string[],
+  validFrom: '',
+  validUntil: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+};
+
+export default function CouponsView() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [plans, setPlans] = useState<{ key: string; name: string }[]>([]);
+
+  const { triggerRefresh } = useRefresh();
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchCoupons = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        setError('Admin authentication missing');
+        return;
+      }
+      const [response, plansResponse] = await Promise.all([
+        fetch('/api/admin/coupons', {
+          headers: { 'Authorization': `Bearer ${adminPasscode}` }
+        }),
+        fetch('/api/admin/plans', {
+          headers: { 'Authorization': `Bearer ${adminPasscode}` }
+        })
+      ]);
+      if (!response.ok || !plansResponse.ok) {
+        throw new Error('Failed to fetch coupons');
+      }
+      const [data, plansData] = await Promise.all([response.json(), plansResponse.json()]);
+      setCoupons(data.coupons || []);
+      setPlans(plansData.plans || []);
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  const togglePlan = (planKey: string) => {
+    setForm(prev => ({
+      ...prev,
+      applicablePlans: prev.applicablePlans.includes(planKey)
+        ? prev.applicablePlans.filter(p => p !== planKey)
+        : [...prev.applicablePlans, planKey]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/coupons', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          discountType: form.discountType,
+          discountValue: Number(form.discountValue),
+          applicablePlans: form.applicablePlans,
+          validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : undefined,
+          validUntil: form.validUntil ? new Date(`${form.validUntil}T23:59:59`).toISOString() : undefined,
+          maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+          perUserLimit: form.perUserLimit ? Number(form.perUserLimit) : null,
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const fieldErrors = data.details?.fieldErrors
+          ? Object.values(data.details.fieldErrors).flat().join(', ')
+          : '';
+        throw new Error(fieldErrors || data.message || 'Failed to create coupon');
+      }
+      showToast(`Coupon ${data.coupon.code} created`);
+      setForm(emptyForm);
+      fetchCoupons();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/coupons', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ couponId: coupon.id, isActive: !coupon.isActive })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update coupon');
+      }
+      showToast(`Coupon ${coupon.code} ${coupon.isActive ? 'disabled' : 'enabled'}`);
+      fetchCoupons();
+      triggerRefresh('analytics');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    }
+  };
+
+  const formatDiscount = (coupon: Coupon) =>
+    coupon.discountType === 'percentage' ? `${coupon.discountValue}% off` : `₹${coupon.discountValue} off`;
+
+  const formatValidity = (coupon: Coupon) => {
+    if (!coupon.validFrom && !coupon.validUntil) return 'Always';
+    const from = coupon.validFrom ? format(new Date(coupon.validFrom), 'MMM d, yyyy') : '—';
+    const until = coupon.validUntil ? format(new Date(coupon.validUntil), 'MMM d, yyyy') : '—';
+    return `${from} → ${until}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-white to-orange-50 p-6">
+      {/* Toast notification */}
+      {toast && (
+        <div className={`fixed top-6 right-6 z-50 p-4 rounded-xl shadow-2xl backdrop-blur-sm border ${
+          toast.type === 'success'
+            ? 'bg-emerald-500/90 border-emerald-400 text-white'
+            : 'bg-red-500/90 border-red-400 text-white'
+        } transform transition-all duration-300 ease-out`}>
+          <span className="font-medium">{toast.message}</span>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header Section */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="p-3 bg-gradient-to-r from-amber-500 to-orange-600 rounded-2xl shadow-lg">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent">
+                Coupons
+              </h1>
+              <p className="text-gray-600 font-medium mt-1">
+                Create promo codes and track how often they are redeemed
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Create Coupon Form */}
+          <form onSubmit={handleCreate} className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6 space-y-4">
+            <h3 className="text-lg font-bold text-gray-800">New Coupon</h3>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                placeholder="WELCOME10"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 uppercase"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Type</label>
+                <select
+                  value={form.discountType}
+                  onChange={(e) => setForm(prev => ({ ...prev, discountType: e.target.value as 'percentage' | 'flat' }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 bg-white"
+                >
+                  <option value="percentage">Percentage</option>
+                  <option value="flat">Flat (₹)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Value</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={form.discountType === 'percentage' ? 100 : undefined}
+                  value={form.discountValue}
+                  onChange={(e) => setForm(prev => ({ ...prev, discountValue: Number(e.target.value) }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-1">Plans (none selected = all plans)</label>
+              <div className="flex flex-wrap gap-2">
+                {plans.map(({ key: planKey, name }) => (
+                  <button
+                    key={planKey}
+                    type="button"
+                    onClick={() => togglePlan(planKey)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-all duration-200 ${
+                      form.applicablePlans.includes(planKey)
+                        ? 'bg-amber-500 text-white border-amber-500'
+                        : 'bg-white text-gray-700 border-gray-200 hover:bg-amber-50'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Valid From</label>
+                <input
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm(prev => ({ ...prev, validFrom: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Valid Until</label>
+                <input
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm(prev => ({ ...prev, validUntil: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Max Redemptions</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxRedemptions: e.target.value }))}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Per User Limit</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.perUserLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, perUserLimit: e.target.value }))}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white py-3 px-4 rounded-lg font-medium hover:from-amber-600 hover:to-orange-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {saving ? 'Creating...' : 'Create Coupon'}
+            </button>
+          </form>
+
+          {/* Coupon List */}
+          <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+            <h3 className="text-lg font-bold text-gray-800 mb-4">All Coupons</h3>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-4 border-amber-200 border-t-amber-600"></div>
+              </div>
+            ) : error ? (
+              <p className="text-red-600">{error}</p>
+            ) : coupons.length === 0 ? (
+              <p className="text-gray-500 text-center py-12">No coupons yet. Create one to get started.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-semibold">Code</th>
+                      <th className="py-2 pr-4 font-semibold">Discount</th>
+                      <th className="py-2 pr-4 font-semibold">Plans</th>
+                      <th className="py-2 pr-4 font-semibold">Validity</th>
+                      <th className="py-2 pr-4 font-semibold">Redemptions</th>
+                      <th className="py-2 pr-4 font-semibold">Discount Given</th>
+                      <th className="py-2 pr-4 font-semibold">Status</th>
+                      <th className="py-2 font-semibold"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {coupons.map(coupon => (
+                      <tr key={coupon.id} className="border-b border-gray-100 hover:bg-amber-50/50">
+                        <td className="py-3 pr-4">
+                          <div className="font-mono font-semibold text-gray-800">{coupon.code}</div>
+                          {coupon.description && <div className="text-xs text-gray-500">{coupon.description}</div>}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{formatDiscount(coupon)}</td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {coupon.applicablePlans.length === 0
+                            ? 'All'
+                            : coupon.applicablePlans.map(p => plans.find(plan => plan.key === p)?.name || p).join(', ')}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">{formatValidity(coupon)}</td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {coupon.redemptionCount}{coupon.maxRedemptions !== null ? ` / ${coupon.maxRedemptions}` : ''}
+                          {coupon.pendingCount > 0 && (
+                            <span className="text-xs text-gray-400 ml-1">(+{coupon.pendingCount} pending)</span>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">₹{coupon.totalDiscountGiven.toLocaleString()}</td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            coupon.isActive ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            {coupon.isActive ? 'Active' : 'Disabled'}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          <button
+                            onClick={() => handleToggleActive(coupon)}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium transition-all duration-200 ${
+                              coupon.isActive
+                                ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                                : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'
+                            }`}
+                          >
+                            {coupon.isActive ? 'Disable' : 'Enable'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,12 +4,19 @@ import { useState, useEffect, useCallback } from 'react';
 import { format, subDays, subMonths } from 'date-fns';
 
 type AnalyticsData = {
-  totalRevenue: number;
+  totalRevenue: number; // Net of coupon discounts and refunds
+  grossRevenue: number;
+  totalDiscounts: number;
+  totalRefunds: number;
+  discountsByCoupon: Array<{ code: string; redemptions: number; discount: number; netRevenue: number }>;
+  // Daily customers in the period who upgraded to a monthly plan
+  conversion?: { dailyCustomers: number; convertedCustomers: number; conversionRate: number; upgradeCredits: number };
   activeSubscriptions: number;
   totalSubscriptions: number;
   newSubscriptions: number;
   subscriptionsByPlan: Record<string, number>;
   revenueByPlan: Record<string, number>;
+  planNames: Record<string, string>; // Catalogue name for each plan key
   revenueByDay: Array<{ date: string; revenue: number }>;
   subscriptionsByDay: Array<{ date: string; count: number }>;
 };
@@ -277,8 +284,15 @@ export default function EarningsAnalyticsView() {
             <div className="bg-gradient-to-br from-emerald-50 to-green-100 backdrop-blur-sm rounded-2xl shadow-xl border border-emerald-200/50 p-6 transform hover:scale-[1.02] transition-all duration-300">
               <div className="flex items-center justify-between">
                 <div>
-                  <h3 className="text-lg font-bold text-emerald-800 mb-1">Total Revenue</h3>
+                  <h3 className="text-lg font-bold text-emerald-800 mb-1">Net Revenue</h3>
                   <p className="text-3xl font-bold bg-gradient-to-r from-emerald-600 to-green-800 bg-clip-text text-transparent">₹{(analyticsData.totalRevenue || 0).toLocaleString()}</p>
+                  {((analyticsData.totalDiscounts || 0) > 0 || (analyticsData.totalRefunds || 0) > 0) && (
+                    <p className="text-xs text-emerald-700 mt-1">
+                      Gross ₹{(analyticsData.grossRevenue || 0).toLocaleString()}
+                      {(analyticsData.totalDiscounts || 0) > 0 && <> − discounts ₹{analyticsData.totalDiscounts.toLocaleString()}</>}
+                      {(analyticsData.totalRefunds || 0) > 0 && <> − refunds ₹{analyticsData.totalRefunds.toLocaleString()}</>}
+                    </p>
+                  )}
                 </div>
                 <div className="p-3 bg-gradient-to-r from-emerald-500 to-green-600 rounded-xl">
                   <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -449,13 +463,10 @@ export default function EarningsAnalyticsView() {
               <div className="space-y-4 mt-6">
                 {analyticsData.subscriptionsByPlan && Object.keys(analyticsData.subscriptionsByPlan).length > 0 ? (
                   Object.entries(analyticsData.subscriptionsByPlan).map(([plan, count]) => {
-                    const planDisplayName = plan === 'daily' ? 'Daily' : 
-                                           plan === 'monthly' ? 'Monthly' :
-                                           plan === 'unlimited' ? 'Unlimited' :
-                                           plan.charAt(0).toUpperCase() + plan.slice(1);
+                    const planDisplayName = analyticsData.planNames?.[plan] ||
+                                           (plan === 'unlimited' ? 'Unlimited' : plan.charAt(0).toUpperCase() + plan.slice(1));
                     
                     // Calculate percentage based on total of all plan counts (not totalSubscriptions)
-                    // This accounts for family-monthly being split into 2 monthly entries
                     const totalPlanSubscriptions = Object.values(analyticsData.subscriptionsByPlan).reduce((sum, c) => sum + c, 0);
                     const percentage = totalPlanSubscriptions > 0 ? (count / totalPlanSubscriptions) * 100 : 0;
                     
@@ -497,10 +508,8 @@ export default function EarningsAnalyticsView() {
               <div className="space-y-4 mt-6">
                 {analyticsData.revenueByPlan && Object.keys(analyticsData.revenueByPlan).length > 0 ? (
                   Object.entries(analyticsData.revenueByPlan).map(([plan, revenue]) => {
-                    const planDisplayName = plan === 'daily' ? 'Daily' : 
-                                           plan === 'monthly' ? 'Monthly' :
-                                           plan === 'unlimited' ? 'Unlimited' :
-                                           plan.charAt(0).toUpperCase() + plan.slice(1);
+                    const planDisplayName = analyticsData.planNames?.[plan] ||
+                                           (plan === 'unlimited' ? 'Unlimited' : plan.charAt(0).toUpperCase() + plan.slice(1));
                     
                     // Calculate percentage based on total revenue (this should be correct already)
                     const percentage = analyticsData.totalRevenue > 0 ? (revenue / analyticsData.totalRevenue) * 100 : 0;
@@ -531,6 +540,74 @@ export default function EarningsAnalyticsView() {
               </div>
             </div>
           </div>
+          
+          {/* Daily to Monthly Conversion */}
+          {analyticsData.conversion && analyticsData.conversion.dailyCustomers > 0 && (
+            <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+              <div className="flex items-center space-x-3 mb-6">
+                <div className="p-2 bg-gradient-to-r from-sky-500 to-indigo-600 rounded-xl">
+                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                  </svg>
+                </div>
+                <h3 className="text-xl font-bold text-gray-800">Daily to Monthly Upgrades</h3>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">Daily Customers</p>
+                  <p className="text-2xl font-bold text-gray-800">{analyticsData.conversion.dailyCustomers}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Upgraded</p>
+                  <p className="text-2xl font-bold text-gray-800">{analyticsData.conversion.convertedCustomers}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Conversion Rate</p>
+                  <p className="text-2xl font-bold text-indigo-700">{analyticsData.conversion.conversionRate}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Credit Given</p>
+                  <p className="text-2xl font-bold text-amber-700">₹{analyticsData.conversion.upgradeCredits.toLocaleString()}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Coupon Discounts */}
+          {analyticsData.discountsByCoupon && analyticsData.discountsByCoupon.length > 0 && (
+            <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+              <div className="flex items-center space-x-3 mb-6">
+                <div className="p-2 bg-gradient-to-r from-amber-500 to-yellow-600 rounded-xl">
+                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                  </svg>
+                </div>
+                <h3 className="text-xl font-bold text-gray-800">Coupon Discounts</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-semibold">Coupon</th>
+                      <th className="py-2 pr-4 font-semibold">Orders</th>
+                      <th className="py-2 pr-4 font-semibold">Discount Given</th>
+                      <th className="py-2 pr-4 font-semibold">Net Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analyticsData.discountsByCoupon.map(entry => (
+                      <tr key={entry.code} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 font-mono font-semibold text-gray-800">{entry.code}</td>
+                        <td className="py-2 pr-4 text-gray-700">{entry.redemptions}</td>
+                        <td className="py-2 pr-4 text-amber-700">₹{entry.discount.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-emerald-700">₹{entry.netRevenue.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
         </div>
       ) : (
         <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-12 text-center">
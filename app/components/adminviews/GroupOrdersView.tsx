@@ -0,0 +1,301 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+
+type Seat = {
+  id: string;
+  seatNumber: number;
+  email: string;
+  status: 'invited' | 'claimed' | 'cancelled';
+  invitedAt: string | null;
+  claimedAt: string | null;
+  member: {
+    userId: string;
+    name: string;
+    email: string;
+    subscriptionId: string;
+    subscriptionStatus: string;
+    paymentStatus: string;
+  } | null;
+};
+
+type GroupOrder = {
+  id: string;
+  orderId: string;
+  planType: string;
+  planName: string;
+  seats: number;
+  claimedSeats: number;
+  amount: number;
+  startDate: string;
+  endDate: string;
+  status: 'pending' | 'paid' | 'failed' | 'cancelled';
+  createdAt: string;
+  purchaser: { id: string; name: string; email: string; phone: string };
+  seatList: Seat[];
+};
+
+const ORDER_STATUS_STYLES: Record<GroupOrder['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  paid: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const SEAT_STATUS_STYLES: Record<Seat['status'], string> = {
+  invited: 'bg-amber-100 text-amber-700',
+  claimed: 'bg-emerald-100 text-emerald-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export default function GroupOrdersView() {
+  const [groupOrders, setGroupOrders] = useState<GroupOrder[]>([]);
+  const [statusFilter, setStatusFilter] = useState('paid');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [sendingSeatId, setSendingSeatId] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchGroupOrders = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        setError('Admin authentication missing');
+        return;
+      }
+      const response = await fetch(`/api/admin/group-orders?status=${statusFilter}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch group plans');
+      }
+      const data = await response.json();
+      setGroupOrders(data.groupOrders || []);
+    } catch (error) {
+      console.error('Error fetching group orders:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchGroupOrders();
+  }, [fetchGroupOrders]);
+
+  // Re-send a seat invite, optionally to a different email
+  const handleSendInvite = async (seat: Seat, reassign: boolean) => {
+    let email: string | undefined;
+    if (reassign) {
+      const entered = window.prompt(`Send seat ${seat.seatNumber} to a different email address. The previous claim link will stop working.`, seat.email);
+      if (!entered || entered.trim().toLowerCase() === seat.email) return;
+      email = entered.trim();
+    }
+
+    setSendingSeatId(seat.id);
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/group-orders', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ seatId: seat.id, ...(email ? { email } : {}) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to send invite');
+      }
+      showToast(data.message);
+      fetchGroupOrders();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setSendingSeatId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 via-white to-cyan-50 p-6">
+      {/* Toast notification */}
+      {toast && (
+        <div className={`fixed top-6 right-6 z-50 p-4 rounded-xl shadow-2xl backdrop-blur-sm border ${
+          toast.type === 'success'
+            ? 'bg-emerald-500/90 border-emerald-400 text-white'
+            : 'bg-red-500/90 border-red-400 text-white'
+        } transform transition-all duration-300 ease-out`}>
+          <span className="font-medium">{toast.message}</span>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header Section */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              <div className="p-3 bg-gradient-to-r from-teal-500 to-cyan-600 rounded-2xl shadow-lg">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-cyan-600 bg-clip-text text-transparent">
+                  Group Plans
+                </h1>
+                <p className="text-gray-600 font-medium mt-1">
+                  Multi-seat purchases with the members invited to each seat
+                </p>
+              </div>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-4 py-2 text-sm bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <option value="paid">Paid</option>
+              <option value="pending">Pending</option>
+              <option value="failed">Failed</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Group Orders */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-teal-200 border-t-teal-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">{error}</p>
+          ) : groupOrders.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No group plans found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-semibold">Purchaser</th>
+                    <th className="py-2 pr-4 font-semibold">Plan</th>
+                    <th className="py-2 pr-4 font-semibold">Period</th>
+                    <th className="py-2 pr-4 font-semibold">Seats Claimed</th>
+                    <th className="py-2 pr-4 font-semibold">Amount</th>
+                    <th className="py-2 pr-4 font-semibold">Status</th>
+                    <th className="py-2 font-semibold"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groupOrders.map(groupOrder => (
+                    <Fragment key={groupOrder.id}>
+                      <tr className="border-b border-gray-100 hover:bg-teal-50/50">
+                        <td className="py-3 pr-4">
+                          <div className="font-medium text-gray-800">{groupOrder.purchaser.name}</div>
+                          <div className="text-xs text-gray-500">{groupOrder.purchaser.email}</div>
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{groupOrder.planName}</td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                          {format(new Date(groupOrder.startDate), 'MMM d')} – {format(new Date(groupOrder.endDate), 'MMM d, yyyy')}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{groupOrder.claimedSeats} / {groupOrder.seats}</td>
+                        <td className="py-3 pr-4 text-gray-700">₹{groupOrder.amount.toLocaleString('en-IN')}</td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ORDER_STATUS_STYLES[groupOrder.status] || 'bg-gray-100 text-gray-600'}`}>
+                            {groupOrder.status}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          <button
+                            onClick={() => setExpandedId(expandedId === groupOrder.id ? null : groupOrder.id)}
+                            className="px-3 py-1 rounded-lg text-xs font-medium bg-teal-50 text-teal-700 hover:bg-teal-100 transition-all duration-200"
+                          >
+                            {expandedId === groupOrder.id ? 'Hide' : 'Seats'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedId === groupOrder.id && (
+                        <tr className="border-b border-gray-100 bg-gray-50/50">
+                          <td colSpan={7} className="p-4">
+                            <div className="text-xs text-gray-500 mb-2 font-mono">Order {groupOrder.orderId}</div>
+                            <table className="min-w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-semibold">Seat</th>
+                                  <th className="py-1 pr-4 font-semibold">Member</th>
+                                  <th className="py-1 pr-4 font-semibold">Status</th>
+                                  <th className="py-1 pr-4 font-semibold">Invited / Claimed</th>
+                                  <th className="py-1 font-semibold"></th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {groupOrder.seatList.map(seat => (
+                                  <tr key={seat.id} className="border-t border-gray-100">
+                                    <td className="py-2 pr-4 text-gray-700">
+                                      {seat.seatNumber}{seat.member?.userId === groupOrder.purchaser.id ? ' (purchaser)' : ''}
+                                    </td>
+                                    <td className="py-2 pr-4 text-gray-700">
+                                      {seat.member ? (
+                                        <>
+                                          <div className="font-medium">{seat.member.name}</div>
+                                          <div className="text-gray-500">{seat.member.email} · {seat.member.subscriptionStatus}</div>
+                                        </>
+                                      ) : seat.email}
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                      <span className={`px-2 py-0.5 rounded-full font-medium ${SEAT_STATUS_STYLES[seat.status] || 'bg-gray-100 text-gray-600'}`}>
+                                        {seat.status}
+                                      </span>
+                                    </td>
+                                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                                      {seat.claimedAt
+                                        ? format(new Date(seat.claimedAt), 'MMM d, yyyy HH:mm')
+                                        : seat.invitedAt ? format(new Date(seat.invitedAt), 'MMM d, yyyy HH:mm') : 'Not sent'}
+                                    </td>
+                                    <td className="py-2 whitespace-nowrap">
+                                      {seat.status === 'invited' && groupOrder.status === 'paid' && (
+                                        <div className="flex gap-2">
+                                          <button
+                                            onClick={() => handleSendInvite(seat, false)}
+                                            disabled={sendingSeatId === seat.id}
+                                            className="px-3 py-1 rounded-lg font-medium bg-teal-50 text-teal-700 hover:bg-teal-100 disabled:opacity-50 transition-all duration-200"
+                                          >
+                                            Resend
+                                          </button>
+                                          <button
+                                            onClick={() => handleSendInvite(seat, true)}
+                                            disabled={sendingSeatId === seat.id}
+                                            className="px-3 py-1 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-all duration-200"
+                                          >
+                                            Reassign
+                                          </button>
+                                        </div>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
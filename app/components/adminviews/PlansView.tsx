@@ -0,0 +1,510 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { MAX_PLAN_SEATS } from '@/lib/pricing';
+
+type PlanPrice = {
+  id: string;
+  amount: number;
+  effectiveFrom: string;
+  subscriptionCount: number;
+};
+
+type Plan = {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  duration: number;
+  seats: number;
+  maxPauseDays: number;
+  isActive: boolean;
+  displayOrder: number;
+  availableFrom: string | null;
+  availableUntil: string | null;
+  amount: number | null;
+  currentPriceId: string | null;
+  nextPrice: { amount: number; effectiveFrom: string } | null;
+  subscriptionCount: number;
+  prices: PlanPrice[];
+};
+
+const emptyForm = {
+  key: '',
+  name: '',
+  description: '',
+  amount: '',
+  priceEffectiveFrom: '',
+  duration: '30',
+  seats: '1',
+  maxPauseDays: '0',
+  displayOrder: '0',
+  isActive: true,
+  availableFrom: '',
+  availableUntil: '',
+};
+
+const toDateInput = (value: string | null) => value ? format(new Date(value), 'yyyy-MM-dd') : '';
+
+export default function PlansView() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchPlans = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        setError('Admin authentication missing');
+        return;
+      }
+      const response = await fetch('/api/admin/plans', {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch plans');
+      }
+      const data = await response.json();
+      setPlans(data.plans || []);
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const sendPlanRequest = async (method: 'POST' | 'PATCH' | 'DELETE', body?: object, query = '') => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    const response = await fetch(`/api/admin/plans${query}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${adminPasscode}`
+      },
+      ...(body ? { body: JSON.stringify(body) } : {})
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      const fieldErrors = data.details?.fieldErrors
+        ? Object.values(data.details.fieldErrors).flat().join(', ')
+        : typeof data.details === 'string' ? data.details : '';
+      throw new Error(fieldErrors || data.message || 'Plan request failed');
+    }
+    return data;
+  };
+
+  const handleEdit = (plan: Plan) => {
+    setEditingPlan(plan);
+    setForm({
+      key: plan.key,
+      name: plan.name,
+      description: plan.description,
+      amount: plan.amount !== null ? String(plan.amount) : '',
+      priceEffectiveFrom: '',
+      duration: String(plan.duration),
+      seats: String(plan.seats),
+      maxPauseDays: String(plan.maxPauseDays),
+      displayOrder: String(plan.displayOrder),
+      isActive: plan.isActive,
+      availableFrom: toDateInput(plan.availableFrom),
+      availableUntil: toDateInput(plan.availableUntil),
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingPlan(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const fields = {
+        name: form.name,
+        description: form.description,
+        duration: Number(form.duration),
+        seats: Number(form.seats),
+        maxPauseDays: Number(form.maxPauseDays),
+        displayOrder: Number(form.displayOrder),
+        isActive: form.isActive,
+        availableFrom: form.availableFrom ? new Date(form.availableFrom).toISOString() : null,
+        availableUntil: form.availableUntil ? new Date(`${form.availableUntil}T23:59:59`).toISOString() : null,
+      };
+
+      if (editingPlan) {
+        // Only send a price when it changed, so no needless price version is created
+        const amountChanged = form.amount !== '' && Number(form.amount) !== editingPlan.amount;
+        const data = await sendPlanRequest('PATCH', {
+          planId: editingPlan.id,
+          ...fields,
+          ...(amountChanged ? {
+            amount: Number(form.amount),
+            ...(form.priceEffectiveFrom ? { priceEffectiveFrom: new Date(form.priceEffectiveFrom).toISOString() } : {})
+          } : {})
+        });
+        showToast(data.message);
+      } else {
+        const data = await sendPlanRequest('POST', {
+          key: form.key,
+          amount: Number(form.amount),
+          ...fields
+        });
+        showToast(`Plan ${data.plan.name} created`);
+      }
+      handleCancelEdit();
+      fetchPlans();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (plan: Plan) => {
+    try {
+      await sendPlanRequest('PATCH', { planId: plan.id, isActive: !plan.isActive });
+      showToast(`Plan ${plan.name} ${plan.isActive ? 'disabled' : 'enabled'}`);
+      fetchPlans();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    }
+  };
+
+  const handleDelete = async (plan: Plan) => {
+    if (!confirm(`Delete the ${plan.name}? This cannot be undone.`)) return;
+    try {
+      const data = await sendPlanRequest('DELETE', undefined, `?planId=${encodeURIComponent(plan.id)}`);
+      showToast(data.message);
+      if (editingPlan?.id === plan.id) handleCancelEdit();
+      fetchPlans();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    }
+  };
+
+  const formatAvailability = (plan: Plan) => {
+    if (!plan.availableFrom && !plan.availableUntil) return 'Always';
+    const from = plan.availableFrom ? format(new Date(plan.availableFrom), 'MMM d, yyyy') : '—';
+    const until = plan.availableUntil ? format(new Date(plan.availableUntil), 'MMM d, yyyy') : '—';
+    return `${from} → ${until}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 via-white to-cyan-50 p-6">
+      {/* Toast notification */}
+      {toast && (
+        <div className={`fixed top-6 right-6 z-50 p-4 rounded-xl shadow-2xl backdrop-blur-sm border ${
+          toast.type === 'success'
+            ? 'bg-emerald-500/90 border-emerald-400 text-white'
+            : 'bg-red-500/90 border-red-400 text-white'
+        } transform transition-all duration-300 ease-out`}>
+          <span className="font-medium">{toast.message}</span>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header Section */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="p-3 bg-gradient-to-r from-teal-500 to-cyan-600 rounded-2xl shadow-lg">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-cyan-600 bg-clip-text text-transparent">
+                Plans
+              </h1>
+              <p className="text-gray-600 font-medium mt-1">
+                Manage the plans shown on the registration form and their prices
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Create / Edit Plan Form */}
+          <form onSubmit={handleSubmit} className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6 space-y-4">
+            <h3 className="text-lg font-bold text-gray-800">{editingPlan ? `Edit ${editingPlan.name}` : 'New Plan'}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Key</label>
+                <input
+                  type="text"
+                  value={form.key}
+                  onChange={(e) => setForm(prev => ({ ...prev, key: e.target.value }))}
+                  placeholder="quarterly"
+                  disabled={!!editingPlan}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-100 disabled:text-gray-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Display Order</label>
+                <input
+                  type="number"
+                  value={form.displayOrder}
+                  onChange={(e) => setForm(prev => ({ ...prev, displayOrder: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Quarterly Plan"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-1">Description</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Price (₹)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.amount}
+                  onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  required
+                />
+              </div>
+              {editingPlan && (
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-1">New Price From</label>
+                  <input
+                    type="date"
+                    value={form.priceEffectiveFrom}
+                    onChange={(e) => setForm(prev => ({ ...prev, priceEffectiveFrom: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Duration (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.duration}
+                  onChange={(e) => setForm(prev => ({ ...prev, duration: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Members</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_PLAN_SEATS}
+                  value={form.seats}
+                  onChange={(e) => setForm(prev => ({ ...prev, seats: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Max Pause (days)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.maxPauseDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxPauseDays: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">On Sale From</label>
+                <input
+                  type="date"
+                  value={form.availableFrom}
+                  onChange={(e) => setForm(prev => ({ ...prev, availableFrom: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">On Sale Until</label>
+                <input
+                  type="date"
+                  value={form.availableUntil}
+                  onChange={(e) => setForm(prev => ({ ...prev, availableUntil: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              <span>Active</span>
+            </label>
+            {editingPlan && editingPlan.prices.length > 0 && (
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-1">Price History</label>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {editingPlan.prices.map(price => (
+                    <li key={price.id} className="flex justify-between">
+                      <span>
+                        ₹{price.amount.toLocaleString()} from {format(new Date(price.effectiveFrom), 'MMM d, yyyy')}
+                        {price.id === editingPlan.currentPriceId && <span className="ml-1 text-teal-600 font-medium">(current)</span>}
+                      </span>
+                      <span>{price.subscriptionCount} sold</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-3">
+              {editingPlan && (
+                <button
+                  type="button"
+                  onClick={handleCancelEdit}
+                  className="flex-1 py-3 px-4 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-gradient-to-r from-teal-500 to-cyan-600 text-white py-3 px-4 rounded-lg font-medium hover:from-teal-600 hover:to-cyan-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {saving ? 'Saving...' : editingPlan ? 'Save Changes' : 'Create Plan'}
+              </button>
+            </div>
+          </form>
+
+          {/* Plan List */}
+          <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+            <h3 className="text-lg font-bold text-gray-800 mb-4">All Plans</h3>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-4 border-teal-200 border-t-teal-600"></div>
+              </div>
+            ) : error ? (
+              <p className="text-red-600">{error}</p>
+            ) : plans.length === 0 ? (
+              <p className="text-gray-500 text-center py-12">No plans yet. Create one to get started.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-semibold">Plan</th>
+                      <th className="py-2 pr-4 font-semibold">Price</th>
+                      <th className="py-2 pr-4 font-semibold">Duration</th>
+                      <th className="py-2 pr-4 font-semibold">Members</th>
+                      <th className="py-2 pr-4 font-semibold">On Sale</th>
+                      <th className="py-2 pr-4 font-semibold">Sold</th>
+                      <th className="py-2 pr-4 font-semibold">Status</th>
+                      <th className="py-2 font-semibold"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plans.map(plan => (
+                      <tr key={plan.id} className="border-b border-gray-100 hover:bg-teal-50/50">
+                        <td className="py-3 pr-4">
+                          <div className="font-semibold text-gray-800">{plan.name}</div>
+                          <div className="text-xs font-mono text-gray-500">{plan.key}</div>
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                          {plan.amount !== null ? `₹${plan.amount.toLocaleString()}` : 'No price yet'}
+                          {plan.nextPrice && (
+                            <div className="text-xs text-gray-500">
+                              ₹{plan.nextPrice.amount.toLocaleString()} from {format(new Date(plan.nextPrice.effectiveFrom), 'MMM d')}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {plan.duration} day{plan.duration === 1 ? '' : 's'}
+                          {plan.maxPauseDays > 0 && (
+                            <div className="text-xs text-gray-500">Pause up to {plan.maxPauseDays} day{plan.maxPauseDays === 1 ? '' : 's'}</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{plan.seats}</td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">{formatAvailability(plan)}</td>
+                        <td className="py-3 pr-4 text-gray-700">{plan.subscriptionCount}</td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            plan.isActive ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            {plan.isActive ? 'Active' : 'Disabled'}
+                          </span>
+                        </td>
+                        <td className="py-3 whitespace-nowrap space-x-2">
+                          <button
+                            onClick={() => handleEdit(plan)}
+                            className="px-3 py-1 rounded-lg text-xs font-medium bg-teal-50 text-teal-700 hover:bg-teal-100 transition-all duration-200"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(plan)}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium transition-all duration-200 ${
+                              plan.isActive
+                                ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                                : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'
+                            }`}
+                          >
+                            {plan.isActive ? 'Disable' : 'Enable'}
+                          </button>
+                          {plan.subscriptionCount === 0 && (
+                            <button
+                              onClick={() => handleDelete(plan)}
+                              className="px-3 py-1 rounded-lg text-xs font-medium bg-gray-50 text-gray-600 hover:bg-gray-100 transition-all duration-200"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useRefresh } from '../../hooks/useRefresh';
+
+type OrderResult = {
+  orderId: string;
+  action: 'activated' | 'expired' | 'skipped' | 'error';
+  razorpayStatus: string | null;
+  paymentId: string | null;
+  subscriptions: number;
+  userEmails: string[];
+  message: string;
+};
+
+type ReconciliationRun = {
+  id: string;
+  trigger: string;
+  status: 'running' | 'completed' | 'failed';
+  staleAfterMinutes: number;
+  ordersChecked: number;
+  ordersActivated: number;
+  ordersExpired: number;
+  ordersSkipped: number;
+  ordersFailed: number;
+  details: OrderResult[] | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+const ACTION_STYLES: Record<OrderResult['action'], string> = {
+  activated: 'bg-emerald-100 text-emerald-700',
+  expired: 'bg-gray-100 text-gray-600',
+  skipped: 'bg-amber-100 text-amber-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const RUN_STATUS_STYLES: Record<ReconciliationRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function ReconciliationView() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [summary, setSummary] = useState({ staleAfterMinutes: 30, pendingOrders: 0, staleOrders: 0 });
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const { triggerRefresh } = useRefresh();
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchRuns = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        setError('Admin authentication missing');
+        return;
+      }
+      const response = await fetch('/api/admin/reconciliation', {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation runs');
+      }
+      const data = await response.json();
+      setRuns(data.runs || []);
+      setSummary({
+        staleAfterMinutes: data.staleAfterMinutes,
+        pendingOrders: data.pendingOrders,
+        staleOrders: data.staleOrders,
+      });
+    } catch (error) {
+      console.error('Error fetching reconciliation runs:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/reconciliation', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.run?.error || data.message || 'Failed to run reconciliation');
+      }
+      showToast(data.message);
+      setExpandedRunId(data.run.id);
+      fetchRuns();
+      if (data.run.ordersActivated > 0 || data.run.ordersExpired > 0) {
+        triggerRefresh('all');
+      }
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 via-white to-indigo-50 p-6">
+      {/* Toast notification */}
+      {toast && (
+        <div className={`fixed top-6 right-6 z-50 p-4 rounded-xl shadow-2xl backdrop-blur-sm border ${
+          toast.type === 'success'
+            ? 'bg-emerald-500/90 border-emerald-400 text-white'
+            : 'bg-red-500/90 border-red-400 text-white'
+        } transform transition-all duration-300 ease-out`}>
+          <span className="font-medium">{toast.message}</span>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header Section */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              <div className="p-3 bg-gradient-to-r from-sky-500 to-indigo-600 rounded-2xl shadow-lg">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-sky-600 to-indigo-600 bg-clip-text text-transparent">
+                  Payment Reconciliation
+                </h1>
+                <p className="text-gray-600 font-medium mt-1">
+                  Orders pending for over {summary.staleAfterMinutes} minutes are checked against Razorpay
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleRunNow}
+              disabled={running}
+              className="bg-gradient-to-r from-sky-500 to-indigo-600 text-white py-3 px-6 rounded-lg font-medium hover:from-sky-600 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {running ? 'Reconciling...' : 'Run Now'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4 mt-6">
+            <div className="bg-sky-50 rounded-xl p-4">
+              <div className="text-sm text-gray-500">Pending orders</div>
+              <div className="text-2xl font-bold text-gray-800">{summary.pendingOrders}</div>
+            </div>
+            <div className="bg-indigo-50 rounded-xl p-4">
+              <div className="text-sm text-gray-500">Stale (due for reconciliation)</div>
+              <div className="text-2xl font-bold text-gray-800">{summary.staleOrders}</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Run History */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+          <h3 className="text-lg font-bold text-gray-800 mb-4">Recent Runs</h3>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-sky-200 border-t-sky-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">{error}</p>
+          ) : runs.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No reconciliation runs yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-semibold">Started</th>
+                    <th className="py-2 pr-4 font-semibold">Trigger</th>
+                    <th className="py-2 pr-4 font-semibold">Status</th>
+                    <th className="py-2 pr-4 font-semibold">Checked</th>
+                    <th className="py-2 pr-4 font-semibold">Activated</th>
+                    <th className="py-2 pr-4 font-semibold">Expired</th>
+                    <th className="py-2 pr-4 font-semibold">Skipped</th>
+                    <th className="py-2 pr-4 font-semibold">Errors</th>
+                    <th className="py-2 font-semibold"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <Fragment key={run.id}>
+                      <tr className="border-b border-gray-100 hover:bg-sky-50/50">
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                          {format(new Date(run.startedAt), 'MMM d, yyyy HH:mm')}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700 capitalize">{run.trigger}</td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${RUN_STATUS_STYLES[run.status] || 'bg-gray-100 text-gray-600'}`}>
+                            {run.status}
+                          </span>
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{run.ordersChecked}</td>
+                        <td className="py-3 pr-4 text-emerald-700 font-medium">{run.ordersActivated}</td>
+                        <td className="py-3 pr-4 text-gray-700">{run.ordersExpired}</td>
+                        <td className="py-3 pr-4 text-gray-700">{run.ordersSkipped}</td>
+                        <td className="py-3 pr-4 text-red-600">{run.ordersFailed}</td>
+                        <td className="py-3">
+                          {(run.details?.length || run.error) && (
+                            <button
+                              onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                              className="px-3 py-1 rounded-lg text-xs font-medium bg-sky-50 text-sky-700 hover:bg-sky-100 transition-all duration-200"
+                            >
+                              {expandedRunId === run.id ? 'Hide' : 'Details'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedRunId === run.id && (
+                        <tr className="border-b border-gray-100 bg-gray-50/50">
+                          <td colSpan={9} className="p-4">
+                            {run.error && <p className="text-red-600 mb-2">{run.error}</p>}
+                            {run.details && run.details.length > 0 && (
+                              <table className="min-w-full text-xs">
+                                <thead>
+                                  <tr className="text-left text-gray-500">
+                                    <th className="py-1 pr-4 font-semibold">Order</th>
+                                    <th className="py-1 pr-4 font-semibold">Users</th>
+                                    <th className="py-1 pr-4 font-semibold">Result</th>
+                                    <th className="py-1 pr-4 font-semibold">Razorpay</th>
+                                    <th className="py-1 font-semibold">Notes</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {run.details.map(result => (
+                                    <tr key={result.orderId} className="border-t border-gray-100">
+                                      <td className="py-2 pr-4 font-mono text-gray-700">{result.orderId}</td>
+                                      <td className="py-2 pr-4 text-gray-700">{result.userEmails.join(', ')}</td>
+                                      <td className="py-2 pr-4">
+                                        <span className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[result.action]}`}>
+                                          {result.action}
+                                        </span>
+                                      </td>
+                                      <td className="py-2 pr-4 text-gray-700">
+                                        {result.razorpayStatus || '—'}
+                                        {result.paymentId && <div className="font-mono text-gray-400">{result.paymentId}</div>}
+                                      </td>
+                                      <td className="py-2 text-gray-600">{result.message}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+
+type RenewalPeriod = {
+  id: string;
+  orderId: string | null;
+  startDate: string;
+  endDate: string;
+  status: string;
+  paymentStatus: string;
+  price: number;
+  createdAt: string;
+};
+
+type Renewal = {
+  id: string;
+  planType: string;
+  planName: string;
+  status: 'pending' | 'active' | 'past_due' | 'stopped' | 'lapsed';
+  maxAmount: number;
+  mandateExpiresAt: string;
+  nextRenewalAt: string | null;
+  failedAttempts: number;
+  lastAttemptAt: string | null;
+  lastFailureReason: string | null;
+  stoppedAt: string | null;
+  stoppedBy: string | null;
+  createdAt: string;
+  hasMandate: boolean;
+  member: { id: string; name: string; email: string; phone: string };
+  periodsPaid: number;
+  totalCharged: number;
+  currentPeriodEnd: string | null;
+  subscriptions: RenewalPeriod[];
+};
+
+const RENEWAL_STATUS_STYLES: Record<Renewal['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  past_due: 'bg-red-100 text-red-700',
+  stopped: 'bg-gray-100 text-gray-600',
+  lapsed: 'bg-gray-100 text-gray-600',
+};
+
+const PAYMENT_STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  success: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function RenewalsView() {
+  const [renewals, setRenewals] = useState<Renewal[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [stoppingId, setStoppingId] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchRenewals = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        setError('Admin authentication missing');
+        return;
+      }
+      const response = await fetch(`/api/admin/renewals?status=${statusFilter}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch auto-renewals');
+      }
+      const data = await response.json();
+      setRenewals(data.renewals || []);
+    } catch (error) {
+      console.error('Error fetching auto-renewals:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchRenewals();
+  }, [fetchRenewals]);
+
+  // Charge every renewal that is due without waiting for the daily job
+  const handleRunRenewals = async () => {
+    setRunning(true);
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/renewals', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to run renewals');
+      }
+      showToast(data.message);
+      fetchRenewals();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleStop = async (renewal: Renewal) => {
+    const reason = window.prompt(`Stop auto-renewal for ${renewal.member.email}? Their current plan stays active. Optional reason:`, '');
+    if (reason === null) return;
+
+    setStoppingId(renewal.id);
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      const response = await fetch('/api/admin/renewals', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ renewalId: renewal.id, ...(reason.trim() ? { reason: reason.trim() } : {}) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to stop auto-renewal');
+      }
+      showToast(data.message);
+      fetchRenewals();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setStoppingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 via-white to-cyan-50 p-6">
+      {/* Toast notification */}
+      {toast && (
+        <div className={`fixed top-6 right-6 z-50 p-4 rounded-xl shadow-2xl backdrop-blur-sm border ${
+          toast.type === 'success'
+            ? 'bg-emerald-500/90 border-emerald-400 text-white'
+            : 'bg-red-500/90 border-red-400 text-white'
+        } transform transition-all duration-300 ease-out`}>
+          <span className="font-medium">{toast.message}</span>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header Section */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              <div className="p-3 bg-gradient-to-r from-teal-500 to-cyan-600 rounded-2xl shadow-lg">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-cyan-600 bg-clip-text text-transparent">
+                  Auto-Renewals
+                </h1>
+                <p className="text-gray-600 font-medium mt-1">
+                  Recurring payment mandates and the periods renewed under each
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-4 py-2 text-sm bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                <option value="all">All</option>
+                <option value="active">Active</option>
+                <option value="past_due">Past Due</option>
+                <option value="pending">Pending</option>
+                <option value="stopped">Stopped</option>
+                <option value="lapsed">Lapsed</option>
+              </select>
+              <button
+                onClick={handleRunRenewals}
+                disabled={running}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-gradient-to-r from-teal-500 to-cyan-600 text-white shadow hover:shadow-lg disabled:opacity-50 transition-all duration-200"
+              >
+                {running ? 'Running...' : 'Run Renewals Now'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Renewals */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-teal-200 border-t-teal-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">{error}</p>
+          ) : renewals.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No auto-renewals found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-semibold">Member</th>
+                    <th className="py-2 pr-4 font-semibold">Plan</th>
+                    <th className="py-2 pr-4 font-semibold">Paid Until</th>
+                    <th className="py-2 pr-4 font-semibold">Next Charge</th>
+                    <th className="py-2 pr-4 font-semibold">Periods / Charged</th>
+                    <th className="py-2 pr-4 font-semibold">Status</th>
+                    <th className="py-2 font-semibold"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renewals.map(renewal => (
+                    <Fragment key={renewal.id}>
+                      <tr className="border-b border-gray-100 hover:bg-teal-50/50">
+                        <td className="py-3 pr-4">
+                          <div className="font-medium text-gray-800">{renewal.member.name}</div>
+                          <div className="text-xs text-gray-500">{renewal.member.email}</div>
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{renewal.planName}</td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                          {renewal.currentPeriodEnd ? format(new Date(renewal.currentPeriodEnd), 'MMM d, yyyy') : '—'}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                          {(renewal.status === 'active' || renewal.status === 'past_due') && renewal.nextRenewalAt
+                            ? format(new Date(renewal.nextRenewalAt), 'MMM d, yyyy')
+                            : '—'}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {renewal.periodsPaid} / ₹{renewal.totalCharged.toLocaleString('en-IN')}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${RENEWAL_STATUS_STYLES[renewal.status] || 'bg-gray-100 text-gray-600'}`}>
+                            {renewal.status.replace('_', ' ')}
+                          </span>
+                          {renewal.failedAttempts > 0 && (
+                            <div className="text-xs text-red-600 mt-1">{renewal.failedAttempts} failed attempt(s)</div>
+                          )}
+                        </td>
+                        <td className="py-3 whitespace-nowrap">
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setExpandedId(expandedId === renewal.id ? null : renewal.id)}
+                              className="px-3 py-1 rounded-lg text-xs font-medium bg-teal-50 text-teal-700 hover:bg-teal-100 transition-all duration-200"
+                            >
+                              {expandedId === renewal.id ? 'Hide' : 'Periods'}
+                            </button>
+                            {renewal.status !== 'stopped' && renewal.status !== 'lapsed' && (
+                              <button
+                                onClick={() => handleStop(renewal)}
+                                disabled={stoppingId === renewal.id}
+                                className="px-3 py-1 rounded-lg text-xs font-medium bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-50 transition-all duration-200"
+                              >
+                                Stop
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {expandedId === renewal.id && (
+                        <tr className="border-b border-gray-100 bg-gray-50/50">
+                          <td colSpan={7} className="p-4">
+                            <div className="text-xs text-gray-500 mb-2 space-y-1">
+                              <div>
+                                Mandate {renewal.hasMandate ? 'authorised' : 'not yet authorised'} · up to ₹{renewal.maxAmount.toLocaleString('en-IN')} per charge · expires {format(new Date(renewal.mandateExpiresAt), 'MMM d, yyyy')}
+                              </div>
+                              {renewal.lastFailureReason && (renewal.status === 'past_due' || renewal.status === 'lapsed') && (
+                                <div className="text-red-600">Last failure: {renewal.lastFailureReason}</div>
+                              )}
+                              {renewal.stoppedAt && (
+                                <div>Stopped {format(new Date(renewal.stoppedAt), 'MMM d, yyyy HH:mm')} by {renewal.stoppedBy || 'system'}</div>
+                              )}
+                            </div>
+                            <table className="min-w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-semibold">Period</th>
+                                  <th className="py-1 pr-4 font-semibold">Order</th>
+                                  <th className="py-1 pr-4 font-semibold">Amount</th>
+                                  <th className="py-1 pr-4 font-semibold">Payment</th>
+                                  <th className="py-1 font-semibold">Subscription</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {renewal.subscriptions.map(period => (
+                                  <tr key={period.id} className="border-t border-gray-100">
+                                    <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                                      {format(new Date(period.startDate), 'MMM d')} – {format(new Date(period.endDate), 'MMM d, yyyy')}
+                                    </td>
+                                    <td className="py-2 pr-4 text-gray-500 font-mono">{period.orderId || '—'}</td>
+                                    <td className="py-2 pr-4 text-gray-700">₹{period.price.toLocaleString('en-IN')}</td>
+                                    <td className="py-2 pr-4">
+                                      <span className={`px-2 py-0.5 rounded-full font-medium ${PAYMENT_STATUS_STYLES[period.paymentStatus] || 'bg-gray-100 text-gray-600'}`}>
+                                        {period.paymentStatus}
+                                      </span>
+                                    </td>
+                                    <td className="py-2 text-gray-600">{period.status}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
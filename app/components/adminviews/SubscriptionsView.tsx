@@ -11,6 +11,9 @@ interface SubscriptionsViewProps {
   handleRowClick: (userId: string) => void;
 }
 
+// Statuses that end a subscription regardless of its dates
+const ENDED_STATUSES = ['cancelled', 'refunded', 'upgraded'];
+
 const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
   subscriptionView,
   setSubscriptionView,
@@ -41,8 +44,8 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
       const endDate = new Date(subscription.endDate);
       let actualStatus = subscription.status;
       
-      // Only calculate status if it's not explicitly set to cancelled/canceled
-      if (!actualStatus || (actualStatus !== 'cancelled' && actualStatus !== 'canceled')) {
+      // Only calculate status if the subscription has not been ended explicitly
+      if (!actualStatus || !ENDED_STATUSES.includes(actualStatus)) {
         if (startDate <= today && endDate >= today) {
           actualStatus = 'active';
         } else if (endDate < today) {
@@ -56,7 +59,7 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
       if (filter === 'active' && actualStatus !== 'active') {
         return false;
       }
-      if (filter === 'expired' && !(actualStatus === 'expired' || actualStatus === 'cancelled' || actualStatus === 'canceled')) {
+      if (filter === 'expired' && !(actualStatus === 'expired' || ENDED_STATUSES.includes(actualStatus))) {
         return false;
       }
       if (filter === 'upcoming' && actualStatus !== 'upcoming') {
@@ -107,7 +110,7 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
     const endDate = new Date(subscription.endDate);
     
     // If subscription is cancelled, it's not active
-    if (subscription.status === 'cancelled' || subscription.status === 'canceled') {
+    if (ENDED_STATUSES.includes(subscription.status)) {
       return false;
     }
     
@@ -119,7 +122,7 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
     if (!subscription) return false;
     
     // If subscription is cancelled, it's not upcoming
-    if (subscription.status === 'cancelled' || subscription.status === 'canceled') {
+    if (ENDED_STATUSES.includes(subscription.status)) {
       return false;
     }
     
@@ -133,7 +136,7 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
     const endDate = new Date(subscription.endDate);
     
     // If subscription is cancelled, it's not just expired
-    if (subscription.status === 'cancelled' || subscription.status === 'canceled') {
+    if (ENDED_STATUSES.includes(subscription.status)) {
       return false;
     }
     
@@ -143,7 +146,7 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
   // Calculate cancelled subscriptions
   const cancelledSubscriptions = filteredSubscriptions.filter(subscription => {
     if (!subscription) return false;
-    return subscription.status === 'cancelled' || subscription.status === 'canceled';
+    return ENDED_STATUSES.includes(subscription.status);
   });
 
   return (
@@ -400,8 +403,8 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
                       const endDate = new Date(subscription.endDate);
                       let status = subscription.status;
                       
-                      // Only calculate status if it's not explicitly set to cancelled/canceled
-                      if (!status || (status !== 'cancelled' && status !== 'canceled')) {
+                      // Only calculate status if the subscription has not been ended explicitly
+                      if (!status || !ENDED_STATUSES.includes(status)) {
                         if (startDate <= today && endDate >= today) {
                           status = 'active';
                         } else if (endDate < today) {
@@ -458,16 +461,16 @@ const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
                               ${status === 'active' ? 'bg-gradient-to-r from-emerald-100 to-green-100 text-emerald-800 border border-emerald-200' : 
                                 status === 'upcoming' ? 'bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-800 border border-blue-200' : 
                                   status === 'expired' ? 'bg-gradient-to-r from-red-100 to-pink-100 text-red-800 border border-red-200' : 
-                                    (status === 'cancelled' || status === 'canceled') ? 'bg-gradient-to-r from-gray-100 to-slate-100 text-gray-800 border border-gray-300' :
+                                    ENDED_STATUSES.includes(status) ? 'bg-gradient-to-r from-gray-100 to-slate-100 text-gray-800 border border-gray-300' :
                                       'bg-gradient-to-r from-amber-100 to-yellow-100 text-amber-800 border border-amber-200'}`}>
                               <div className={`w-2 h-2 rounded-full mr-2 
                                 ${status === 'active' ? 'bg-emerald-500' : 
                                   status === 'upcoming' ? 'bg-blue-500' : 
                                     status === 'expired' ? 'bg-red-500' : 
-                                      (status === 'cancelled' || status === 'canceled') ? 'bg-gray-500' :
+                                      ENDED_STATUSES.includes(status) ? 'bg-gray-500' :
                                         'bg-amber-500'}`}>
                               </div>
-                              {status === 'cancelled' || status === 'canceled' ? 'cancelled' : status}
+                              {status}
                             </span>
                           </td>
                           <td className="px-6 py-5 whitespace-nowrap">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
+import { SESSION_SLOT_LABELS, type SessionSlot } from '@/lib/sessionSlots';
 
 // Helper function to display UTC time stored in DB as IST
 const displayUTCAsIST = (utcTimeString: string): Date => {
@@ -27,6 +28,7 @@ const formatMeetingDate = (dateString: string): string => {
 type TodayMeeting = {
   id: string;
   meetingDate: string;
+  slot: SessionSlot;
   platform: string;
   meetingLink: string;
   startTime: string;
@@ -38,7 +40,11 @@ type TodayMeeting = {
   googleEventId?: string;
   zoomMeetingId?: string;
   zoomStartUrl?: string;
+  jitsiHostUrl?: string;
   attendeeCount?: number;
+  activeCount?: number;
+  capacity?: number | null;
+  waitlistCount?: number;
 };
 
 type Attendee = {
@@ -47,6 +53,8 @@ type Attendee = {
   email: string;
   phone?: string;
   registeredDate: string;
+  present?: boolean;
+  attendanceSource?: string | null;
 };
 
 interface TodayMeetingCardProps {
@@ -55,12 +63,18 @@ interface TodayMeetingCardProps {
 }
 
 const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onAddUserClick }) => {
-  const [meeting, setMeeting] = useState<TodayMeeting | null>(null);
+  // One meeting per session slot running today
+  const [meetings, setMeetings] = useState<TodayMeeting[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [showAttendees, setShowAttendees] = useState(false);
+  const [attendeesMeeting, setAttendeesMeeting] = useState<TodayMeeting | null>(null);
   const [attendees, setAttendees] = useState<Attendee[]>([]);
   const [loadingAttendees, setLoadingAttendees] = useState(false);
+  // Manual check-in of attendees, and pulling attendance from the platform
+  const [checkingInUserId, setCheckingInUserId] = useState<string | null>(null);
+  const [syncingAttendance, setSyncingAttendance] = useState(false);
+  const [attendanceMessage, setAttendanceMessage] = useState('');
+  const [removingUserId, setRemovingUserId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchTodayMeeting();
@@ -92,11 +106,7 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
       }
       
       const data = await response.json();
-      if (data.meeting) {
-        setMeeting(data.meeting);
-      } else {
-        setMeeting(null);
-      }
+      setMeetings(data.meetings || (data.meeting ? [data.meeting] : []));
     } catch (error) {
       console.error('Error fetching today\'s meeting:', error);
       setError('Failed to fetch today&apos;s meeting');
@@ -105,9 +115,7 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
     }
   };
 
-  const fetchAttendees = async () => {
-    if (!meeting) return;
-    
+  const fetchAttendees = async (meeting: TodayMeeting) => {
     try {
       setLoadingAttendees(true);
       const adminPasscode = sessionStorage.getItem('adminPasscode');
@@ -124,7 +132,7 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
       
       const data = await response.json();
       setAttendees(data.attendees || []);
-      setShowAttendees(true);
+      setAttendeesMeeting(meeting);
     } catch (error) {
       console.error('Error fetching attendees:', error);
       setError('Failed to fetch attendees');
@@ -133,12 +141,105 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
     }
   };
 
-  const handleJoinMeeting = () => {
-    if (!meeting) return;
-    
+  const toggleCheckIn = async (attendee: Attendee) => {
+    if (!attendeesMeeting) return;
+    try {
+      setCheckingInUserId(attendee.id);
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+
+      const response = await fetch('/api/admin/attendance', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ meetingId: attendeesMeeting.id, userId: attendee.id, present: !attendee.present })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update attendance');
+      }
+
+      setAttendees(prev => prev.map(a => a.id === attendee.id
+        ? { ...a, present: !attendee.present, attendanceSource: attendee.present ? null : 'manual' }
+        : a
+      ));
+    } catch (error) {
+      console.error('Error updating attendance:', error);
+      setAttendanceMessage('Failed to update attendance');
+    } finally {
+      setCheckingInUserId(null);
+    }
+  };
+
+  const removeAttendee = async (attendee: Attendee) => {
+    if (!attendeesMeeting) return;
+    if (!window.confirm(`Remove ${attendee.name} from this session?${attendeesMeeting.platform === 'jitsi' ? '' : ` They are taken off the ${attendeesMeeting.platform === 'zoom' ? 'Zoom meeting' : 'calendar event'} as well.`}`)) {
+      return;
+    }
+    try {
+      setRemovingUserId(attendee.id);
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+
+      const response = await fetch(`/api/admin/meeting-attendees?meetingId=${attendeesMeeting.id}&userId=${attendee.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminPasscode}`
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to remove attendee');
+      }
+
+      setAttendees(prev => prev.filter(a => a.id !== attendee.id));
+      setAttendanceMessage(`${attendee.name} removed from the session`);
+      fetchTodayMeeting();
+    } catch (error) {
+      console.error('Error removing attendee:', error);
+      setAttendanceMessage(error instanceof Error ? error.message : 'Failed to remove attendee');
+    } finally {
+      setRemovingUserId(null);
+    }
+  };
+
+  const syncAttendance = async () => {
+    if (!attendeesMeeting) return;
+    try {
+      setSyncingAttendance(true);
+      setAttendanceMessage('');
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+
+      const response = await fetch('/api/admin/attendance/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ meetingId: attendeesMeeting.id })
+      });
+
+      const data = await response.json();
+      setAttendanceMessage(data.message || (response.ok ? 'Attendance updated' : 'Failed to fetch attendance'));
+      if (response.ok) {
+        await fetchAttendees(attendeesMeeting);
+      }
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+      setAttendanceMessage('Failed to fetch attendance');
+    } finally {
+      setSyncingAttendance(false);
+    }
+  };
+
+  const handleJoinMeeting = (meeting: TodayMeeting) => {
     // For Zoom, use zoomStartUrl for admin (host) if available
     if (meeting.platform === 'zoom' && meeting.zoomStartUrl) {
       window.open(meeting.zoomStartUrl, '_blank');
+    } else if (meeting.platform === 'jitsi' && meeting.jitsiHostUrl) {
+      // Jitsi's moderator link makes the admin the room's moderator
+      window.open(meeting.jitsiHostUrl, '_blank');
     } else {
       // For Google Meet or if no special admin link is available
       window.open(meeting.meetingLink, '_blank');
@@ -174,7 +275,7 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
     );
   }
 
-  if (!meeting) {
+  if (meetings.length === 0) {
     return (
       <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
         <div className="flex items-center space-x-3 mb-4">
@@ -213,67 +314,136 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
             </svg>
           </div>
-          <h3 className="text-xl font-bold text-gray-800">Today&apos;s Meeting</h3>
+          <h3 className="text-xl font-bold text-gray-800">
+            {meetings.length > 1 ? 'Today\'s Sessions' : 'Today\'s Meeting'}
+          </h3>
         </div>
-        <span className="px-3 py-1 bg-gradient-to-r from-emerald-100 to-green-100 text-emerald-800 text-sm font-bold rounded-full border border-emerald-200 capitalize">
-          {meeting.platform}
-        </span>
+        <button 
+          onClick={fetchTodayMeeting}
+          className="p-2 bg-white/70 backdrop-blur-sm border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-all duration-300"
+          title="Refresh"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
       </div>
       
-      <div className="space-y-4 mb-6">
-        <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl p-4 border border-indigo-200/50">
-          <h4 className="text-lg font-bold text-indigo-800 mb-2">{meeting.meetingTitle}</h4>
-          {meeting.meetingDesc && (
-            <p className="text-indigo-600 text-sm">{meeting.meetingDesc}</p>
-          )}
-        </div>
-        
-        <div className="grid grid-cols-1 gap-3">
-          <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200/50">
-            <div className="p-1 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-lg">
-              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
+      {/* One column per session slot */}
+      <div className={`grid grid-cols-1 gap-4 mb-6 ${meetings.length > 1 ? 'md:grid-cols-2' : ''}`}>
+        {meetings.map((meeting) => (
+          <div key={meeting.id} className="flex flex-col space-y-3 p-4 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl border border-indigo-200/50">
+            <div className="flex items-center justify-between">
+              <span className="px-3 py-1 bg-gradient-to-r from-indigo-100 to-purple-100 text-indigo-800 text-sm font-bold rounded-full border border-indigo-200">
+                {SESSION_SLOT_LABELS[meeting.slot] || meeting.slot}
+              </span>
+              <span className="px-3 py-1 bg-gradient-to-r from-emerald-100 to-green-100 text-emerald-800 text-sm font-bold rounded-full border border-emerald-200 capitalize">
+                {meeting.platform}
+              </span>
             </div>
+
             <div>
-              <span className="text-sm text-blue-600 font-medium">Time:</span>
-              <span className="ml-2 font-bold text-blue-800">
-                {meeting.startTimeUTC ? format(displayUTCAsIST(meeting.startTimeUTC), 'h:mm a') : 'N/A'} - 
-                {meeting.endTimeUTC ? format(displayUTCAsIST(meeting.endTimeUTC), 'h:mm a') : 'N/A'}
-              </span>
+              <h4 className="text-lg font-bold text-indigo-800">{meeting.meetingTitle}</h4>
+              {meeting.meetingDesc && (
+                <p className="text-indigo-600 text-sm">{meeting.meetingDesc}</p>
+              )}
             </div>
-          </div>
-          
-          <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg border border-purple-200/50">
-            <div className="p-1 bg-gradient-to-r from-purple-500 to-pink-600 rounded-lg">
-              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-              </svg>
+
+            <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200/50">
+              <div className="p-1 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-lg">
+                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+              <div>
+                <span className="text-sm text-blue-600 font-medium">Time:</span>
+                <span className="ml-2 font-bold text-blue-800">
+                  {meeting.startTimeUTC ? format(displayUTCAsIST(meeting.startTimeUTC), 'h:mm a') : 'N/A'} - 
+                  {meeting.endTimeUTC ? format(displayUTCAsIST(meeting.endTimeUTC), 'h:mm a') : 'N/A'}
+                </span>
+              </div>
             </div>
-            <div>
-              <span className="text-sm text-purple-600 font-medium">Attendees:</span>
-              <span className="ml-2 font-bold text-purple-800">
-                {meeting.attendeeCount || 0} registered
-              </span>
+            
+            <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg border border-purple-200/50">
+              <div className="p-1 bg-gradient-to-r from-purple-500 to-pink-600 rounded-lg">
+                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </div>
+              <div>
+                <span className="text-sm text-purple-600 font-medium">Attendees:</span>
+                <span className="ml-2 font-bold text-purple-800">
+                  {meeting.capacity
+                    ? `${meeting.attendeeCount || 0} / ${meeting.capacity} seats`
+                    : `${meeting.attendeeCount || 0} registered`}
+                </span>
+                {!!meeting.waitlistCount && (
+                  <span className="ml-2 text-sm text-amber-700">({meeting.waitlistCount} waiting)</span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3 mt-auto">
+              <button 
+                onClick={() => handleJoinMeeting(meeting)}
+                className="flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-emerald-500 to-green-600 text-white font-bold rounded-xl hover:from-emerald-600 hover:to-green-700 transition-all duration-300 transform hover:scale-105 shadow-lg flex-1"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+                <span>Join as Host</span>
+              </button>
+
+              <button 
+                onClick={() => fetchAttendees(meeting)}
+                disabled={loadingAttendees}
+                className="px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-medium rounded-xl hover:from-indigo-600 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50"
+                title="Show attendees"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </button>
             </div>
           </div>
-        </div>
+        ))}
       </div>
       
       {/* Attendee List Modal */}
-      {showAttendees && (
-        <div className="mt-4 bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-4 border border-gray-200/50">
+      {(attendeesMeeting || loadingAttendees) && (
+        <div className="mb-4 bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-4 border border-gray-200/50">
           <div className="flex items-center justify-between mb-3">
-            <h5 className="font-bold text-gray-800">Meeting Attendees</h5>
-            <button 
-              onClick={() => setShowAttendees(false)}
-              className="text-gray-500 hover:text-gray-700"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+            <h5 className="font-bold text-gray-800">
+              {attendeesMeeting ? `${SESSION_SLOT_LABELS[attendeesMeeting.slot] || attendeesMeeting.slot} Attendees` : 'Meeting Attendees'}
+              {attendees.length > 0 && (
+                <span className="ml-2 text-sm font-medium text-emerald-700">
+                  {attendees.filter(a => a.present).length} checked in
+                </span>
+              )}
+            </h5>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={syncAttendance}
+                disabled={syncingAttendance || !attendeesMeeting}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                title="Pull participant records from the meeting platform"
+              >
+                {syncingAttendance ? 'Fetching...' : 'Fetch Attendance'}
+              </button>
+              <button 
+                onClick={() => { setAttendeesMeeting(null); setAttendanceMessage(''); }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
           </div>
+
+          {attendanceMessage && (
+            <div className="mb-3 text-sm text-gray-700">{attendanceMessage}</div>
+          )}
           
           {loadingAttendees ? (
             <div className="text-center py-4">
@@ -290,8 +460,31 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
                       <div className="text-sm text-gray-500">{attendee.phone}</div>
                     )}
                   </div>
-                  <div className="text-xs text-gray-500">
-                    Registered: {attendee.registeredDate}
+                  <div className="flex items-center space-x-3">
+                    <div className="text-xs text-gray-500">
+                      Registered: {attendee.registeredDate}
+                    </div>
+                    <button
+                      onClick={() => toggleCheckIn(attendee)}
+                      disabled={checkingInUserId === attendee.id}
+                      className={`px-3 py-1 text-xs font-semibold rounded-full border disabled:opacity-50 ${
+                        attendee.present
+                          ? 'bg-emerald-100 text-emerald-800 border-emerald-300'
+                          : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                      }`}
+                      title={attendee.present && attendee.attendanceSource !== 'manual'
+                        ? `Recorded from ${attendee.attendanceSource}`
+                        : undefined}
+                    >
+                      {attendee.present ? 'Present' : 'Check In'}
+                    </button>
+                    <button
+                      onClick={() => removeAttendee(attendee)}
+                      disabled={removingUserId === attendee.id}
+                      className="px-3 py-1 text-xs font-semibold rounded-full border bg-white text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      {removingUserId === attendee.id ? 'Removing...' : 'Remove'}
+                    </button>
                   </div>
                 </div>
               ))}
@@ -301,56 +494,9 @@ const TodayMeetingCard: React.FC<TodayMeetingCardProps> = ({ refreshTrigger, onA
           )}
         </div>
       )}
-      
-      <div className="flex justify-between items-center space-x-3">
-        <button 
-          onClick={handleJoinMeeting}
-          className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-emerald-500 to-green-600 text-white font-bold rounded-xl hover:from-emerald-600 hover:to-green-700 transition-all duration-300 transform hover:scale-105 shadow-lg flex-1"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-          </svg>
-          <span>Join as Host</span>
-        </button>
-        
-        {onAddUserClick && (
-          <button 
-            onClick={onAddUserClick}
-            className="px-4 py-3 bg-gradient-to-r from-blue-500 to-cyan-600 text-white font-medium rounded-xl hover:from-blue-600 hover:to-cyan-700 transition-all duration-300 transform hover:scale-105 shadow-lg"
-            title="Add user to today&apos;s meeting"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-            </svg>
-          </button>
-        )}
-        
-        <button 
-          onClick={fetchAttendees}
-          disabled={loadingAttendees}
-          className="px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-medium rounded-xl hover:from-indigo-600 hover:to-purple-700 transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50"
-        >
-          {loadingAttendees ? (
-            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
-          ) : (
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-            </svg>
-          )}
-        </button>
-        
-        <button 
-          onClick={fetchTodayMeeting}
-          className="px-4 py-3 bg-white/70 backdrop-blur-sm border border-gray-200 text-gray-700 font-medium rounded-xl hover:bg-gray-50 transition-all duration-300"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-        </button>
-      </div>
 
       {/* Add User Button */}
-      <div className="mt-4">
+      <div>
         <button 
           onClick={onAddUserClick}
           className="w-full px-4 py-3 bg-gradient-to-r from-green-400 to-green-500 text-white font-medium rounded-xl hover:from-green-500 hover:to-green-600 transition-all duration-300 transform hover:scale-105 shadow-lg"
@@ -14,8 +14,83 @@ export type Subscription = {
   duration?: number;
   price?: number;
   orderId: string;
+  paymentRef?: string | null;
+  refundAmount?: number;
+  refundedAt?: string | null;
+  cancellationReason?: string | null;
 };
 
+type InvoiceSummary = {
+  id: string;
+  invoiceNumber: string;
+  orderId: string;
+  total: number; // In paise
+  issuedAt: string;
+};
+
+type RefundQuote = {
+  amountPaid: number;
+  refundAmount: number;
+  totalDays: number;
+  unusedDays: number;
+};
+
+type SubscriptionPause = {
+  id: string;
+  startDate: string;
+  endDate: string; // Day the subscription resumes
+  days: number;
+  reason: string;
+  status: 'active' | 'cancelled';
+  createdAt: string;
+};
+
+type PauseAllowance = {
+  maxPauseDays: number;
+  usedDays: number;
+  remainingDays: number;
+  pauses: SubscriptionPause[];
+};
+
+type SubscriptionEvent = {
+  id: string;
+  subscriptionId: string | null;
+  meetingId: string | null;
+  type: string;
+  actor: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  note: string | null;
+  createdAt: string;
+};
+
+type AttendanceSummary = {
+  sessions: number;
+  attended: number;
+  rate: number | null;
+};
+
+// Labels for the subscription history timeline
+const EVENT_LABELS: Record<string, string> = {
+  created: 'Subscription created',
+  status_changed: 'Status changed',
+  paused: 'Paused',
+  resumed: 'Resumed',
+  extended: 'Extended',
+  refunded: 'Partially refunded',
+  unlimited_granted: 'Unlimited access granted',
+  unlimited_revoked: 'Unlimited access revoked',
+  meeting_added: 'Added to meeting',
+  meeting_removed: 'Removed from meeting',
+  user_updated: 'Details updated',
+};
+
+// Payment statuses of subscriptions paid through Razorpay (refundable and invoiceable)
+const PAID_PAYMENT_STATUSES = ['success'];
+
+// Subscription statuses a refund can move on from
+const REFUNDABLE_SUBSCRIPTION_STATUSES = ['active', 'paused', 'expired'];
+
 export type UserWithSubscriptions = {
   id: string;
   firstName?: string;
@@ -63,10 +138,112 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
   const [successMessage, setSuccessMessage] = React.useState('');
   const [showAddToMeeting, setShowAddToMeeting] = React.useState(false);
   const [showEditModal, setShowEditModal] = React.useState(false);
+  const [refundTarget, setRefundTarget] = React.useState<Subscription | null>(null);
+  const [refundMode, setRefundMode] = React.useState<'full' | 'prorated'>('prorated');
+  const [refundReason, setRefundReason] = React.useState('');
+  const [refundQuotes, setRefundQuotes] = React.useState<{ full: RefundQuote; prorated: RefundQuote } | null>(null);
+  const [refundLoading, setRefundLoading] = React.useState(false);
+  const [invoices, setInvoices] = React.useState<InvoiceSummary[]>([]);
+  const [pauseTarget, setPauseTarget] = React.useState<Subscription | null>(null);
+  const [pauseAllowance, setPauseAllowance] = React.useState<PauseAllowance | null>(null);
+  const [pauseStart, setPauseStart] = React.useState('');
+  const [pauseDays, setPauseDays] = React.useState('');
+  const [pauseReason, setPauseReason] = React.useState('');
+  const [pauseLoading, setPauseLoading] = React.useState(false);
+  const [history, setHistory] = React.useState<SubscriptionEvent[]>([]);
+  const [attendance, setAttendance] = React.useState<AttendanceSummary | null>(null);
+  const [calendarFeedUrl, setCalendarFeedUrl] = React.useState('');
 
   // Use refresh system
   const { triggerRefresh } = useRefresh();
 
+  // Load the user's invoices so they can be listed per subscription
+  const fetchInvoices = React.useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode || !user?.id) return;
+
+    try {
+      const response = await fetch(`/api/admin/invoices?userId=${user.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(data.invoices || []);
+      }
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+    }
+  }, [user?.id]);
+
+  // Load the user's subscription history for the timeline
+  const fetchHistory = React.useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode || !user?.id) return;
+
+    try {
+      const response = await fetch(`/api/admin/subscription-events?userId=${user.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.events || []);
+      }
+    } catch (error) {
+      console.error('Error fetching subscription history:', error);
+    }
+  }, [user?.id]);
+
+  // Load how many of their sessions the user attended
+  const fetchAttendance = React.useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode || !user?.id) return;
+
+    try {
+      const response = await fetch(`/api/admin/attendance?userId=${user.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAttendance(data.attendance || null);
+      }
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+    }
+  }, [user?.id]);
+
+  // Load the user's calendar feed link so it can be shared with them
+  const fetchCalendarFeed = React.useCallback(async () => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode || !user?.id) return;
+
+    try {
+      const response = await fetch(`/api/admin/calendar-feed?userId=${user.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setCalendarFeedUrl(data.url || '');
+      }
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error);
+    }
+  }, [user?.id]);
+
+  React.useEffect(() => {
+    if (show) {
+      fetchInvoices();
+      fetchAttendance();
+      fetchCalendarFeed();
+    }
+  }, [show, fetchInvoices, fetchAttendance, fetchCalendarFeed]);
+
+  // Every change made from this modal updates the user, so reload the history with it
+  React.useEffect(() => {
+    if (show) {
+      fetchHistory();
+    }
+  }, [show, user, fetchHistory]);
+
   if (!show || !user) return null;
 
   // Determine user name based on available properties
@@ -81,6 +258,13 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
       return dateString;
     }
   };
+
+  // Show a recorded value; dates are stored as ISO strings
+  const formatEventValue = (value: unknown) => {
+    if (value === null || value === undefined) return '—';
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(value);
+    return String(value);
+  };
   // Calculate summary info with proper null checking
   const totalSpent = user.subscriptions?.reduce((sum, sub) => {
     const price = sub.price || 0;
@@ -93,6 +277,48 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
   }).length || 0;
   
   // Function to toggle unlimited access status
+  const handleCopyCalendarFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl);
+      setSuccessMessage('Calendar feed link copied');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch {
+      setErrorMessage('Could not copy the link');
+    }
+  };
+
+  // A new link stops the old one working, e.g. after the user shared it
+  const handleResetCalendarFeed = async () => {
+    if (!window.confirm('Reset this user\'s calendar feed link? Calendars subscribed to the old link stop updating.')) {
+      return;
+    }
+    setErrorMessage('');
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/calendar-feed', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ userId: user.id })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to reset calendar feed link');
+      }
+      setCalendarFeedUrl(data.url);
+      setSuccessMessage('Calendar feed link reset');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to reset calendar feed link');
+    }
+  };
+
   const handleToggleUnlimited = async () => {
     const isCurrentlyUnlimited = user.role === 'superuser' || user.role === 'ADMIN';
     const action = isCurrentlyUnlimited ? 'revoke' : 'grant';
@@ -158,6 +384,327 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
     }
   };
 
+  // Download an invoice PDF
+  const handleDownloadInvoice = async (invoice: InvoiceSummary) => {
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch(`/api/admin/invoices?invoiceId=${invoice.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to download invoice');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `Invoice-${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+      setTimeout(() => setErrorMessage(''), 3000);
+    }
+  };
+
+  // Generate the invoice for a paid order that does not have one yet
+  const handleGenerateInvoice = async (orderId: string) => {
+    setErrorMessage('');
+    setSuccessMessage('');
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/invoices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ orderId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to generate invoice');
+      }
+
+      setSuccessMessage(data.message || 'Invoice generated');
+      await fetchInvoices();
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setTimeout(() => {
+        setSuccessMessage('');
+        setErrorMessage('');
+      }, 3000);
+    }
+  };
+
+  // Open the refund dialog and load full / pro-rated refund amounts
+  const handleOpenRefund = async (subscription: Subscription) => {
+    setRefundTarget(subscription);
+    setRefundMode('prorated');
+    setRefundReason('');
+    setRefundQuotes(null);
+    setErrorMessage('');
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch(`/api/admin/refunds?subscriptionId=${subscription.id}`, {
+        headers: { 'Authorization': `Bearer ${adminPasscode}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to calculate refund');
+      }
+      if (!data.eligible) {
+        throw new Error(data.reason || 'This subscription cannot be refunded');
+      }
+      setRefundQuotes({ full: data.full, prorated: data.prorated });
+    } catch (error) {
+      console.error('Error loading refund amounts:', error);
+      setRefundTarget(null);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+      setTimeout(() => setErrorMessage(''), 3000);
+    }
+  };
+
+  // Load how many days the subscription can still be paused
+  const loadPauseAllowance = async (subscriptionId: string) => {
+    const adminPasscode = sessionStorage.getItem('adminPasscode');
+    if (!adminPasscode) {
+      throw new Error('Admin authentication required');
+    }
+
+    const response = await fetch(`/api/admin/pauses?subscriptionId=${subscriptionId}`, {
+      headers: { 'Authorization': `Bearer ${adminPasscode}` }
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to load pauses');
+    }
+    setPauseAllowance({
+      maxPauseDays: data.maxPauseDays,
+      usedDays: data.usedDays,
+      remainingDays: data.remainingDays,
+      pauses: data.pauses || []
+    });
+  };
+
+  // Open the pause dialog for a subscription
+  const handleOpenPause = async (subscription: Subscription) => {
+    setPauseTarget(subscription);
+    setPauseAllowance(null);
+    setPauseStart(format(new Date(), 'yyyy-MM-dd'));
+    setPauseDays('');
+    setPauseReason('');
+    setErrorMessage('');
+
+    try {
+      await loadPauseAllowance(subscription.id);
+    } catch (error) {
+      console.error('Error loading pauses:', error);
+      setPauseTarget(null);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+      setTimeout(() => setErrorMessage(''), 3000);
+    }
+  };
+
+  // Reflect a pause or resume in the modal and the rest of the dashboard
+  const applyPauseChange = (data: { message?: string; subscription?: Subscription }) => {
+    setSuccessMessage(data.message || 'Subscription updated');
+
+    triggerRefresh('users');
+    triggerRefresh('subscriptions');
+    triggerRefresh('meetings');
+
+    if (data.subscription) {
+      setPauseTarget(prev => prev ? { ...prev, ...data.subscription } : prev);
+      if (onUserUpdated) {
+        onUserUpdated({
+          ...user,
+          subscriptions: user.subscriptions.map(sub =>
+            sub.id === data.subscription!.id ? { ...sub, ...data.subscription } : sub
+          )
+        });
+      }
+    }
+  };
+
+  // Pause the selected subscription and extend its end date
+  const handlePause = async () => {
+    if (!pauseTarget || !pauseStart || !pauseDays || !pauseReason.trim()) return;
+
+    setPauseLoading(true);
+    setErrorMessage('');
+    setSuccessMessage('');
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/pauses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({
+          subscriptionId: pauseTarget.id,
+          startDate: pauseStart,
+          days: Number(pauseDays),
+          reason: pauseReason.trim()
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to pause subscription');
+      }
+
+      applyPauseChange(data);
+      setPauseTarget(null);
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setPauseLoading(false);
+      // Clear messages after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage('');
+        setErrorMessage('');
+      }, 3000);
+    }
+  };
+
+  // End a pause early, or cancel one that has not started
+  const handleResume = async (pause: SubscriptionPause) => {
+    if (!pauseTarget) return;
+    if (!window.confirm('Resume this subscription now? Unused pause days are taken off the end date.')) {
+      return;
+    }
+
+    setPauseLoading(true);
+    setErrorMessage('');
+    setSuccessMessage('');
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/pauses', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({ pauseId: pause.id })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to resume subscription');
+      }
+
+      applyPauseChange(data);
+      await loadPauseAllowance(pauseTarget.id);
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setPauseLoading(false);
+      // Clear messages after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage('');
+        setErrorMessage('');
+      }, 3000);
+    }
+  };
+
+  // Function to cancel and refund the selected subscription
+  const handleRefund = async () => {
+    if (!refundTarget || !refundQuotes) return;
+
+    const refundAmount = refundQuotes[refundMode].refundAmount;
+    if (!window.confirm(`Are you sure you want to cancel this ${refundTarget.planType} subscription and refund ₹${refundAmount}? The user will be removed from upcoming sessions and this cannot be undone.`)) {
+      return;
+    }
+
+    setRefundLoading(true);
+    setErrorMessage('');
+    setSuccessMessage('');
+
+    try {
+      const adminPasscode = sessionStorage.getItem('adminPasscode');
+      if (!adminPasscode) {
+        throw new Error('Admin authentication required');
+      }
+
+      const response = await fetch('/api/admin/refunds', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminPasscode}`
+        },
+        body: JSON.stringify({
+          subscriptionId: refundTarget.id,
+          mode: refundMode,
+          reason: refundReason || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to refund subscription');
+      }
+
+      setSuccessMessage(data.message || 'Subscription refunded');
+      setRefundTarget(null);
+
+      triggerRefresh('users');
+      triggerRefresh('subscriptions');
+      triggerRefresh('analytics');
+      triggerRefresh('meetings');
+
+      if (onUserUpdated && data.subscription) {
+        onUserUpdated({
+          ...user,
+          subscriptions: user.subscriptions.map(sub =>
+            sub.id === data.subscription.id ? { ...sub, ...data.subscription } : sub
+          )
+        });
+      }
+    } catch (error) {
+      console.error('Error refunding subscription:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setRefundLoading(false);
+      // Clear messages after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage('');
+        setErrorMessage('');
+      }, 3000);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
       <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden border border-white/20">
@@ -229,6 +776,29 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
               <p className="text-sm text-gray-600">Subscription Count</p>
               <p className="font-medium">{user.subscriptions?.length || 0}</p>
             </div>
+            <div>
+              <p className="text-sm text-gray-600">Attendance</p>
+              <p className="font-medium">
+                {attendance && attendance.rate !== null
+                  ? `${attendance.rate}% (${attendance.attended} of ${attendance.sessions} sessions)`
+                  : 'Not taken yet'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Calendar Feed</p>
+              {calendarFeedUrl ? (
+                <div className="flex items-center space-x-3">
+                  <button onClick={handleCopyCalendarFeed} className="font-medium text-indigo-600 hover:text-indigo-800 underline">
+                    Copy link
+                  </button>
+                  <button onClick={handleResetCalendarFeed} className="font-medium text-red-600 hover:text-red-800 underline">
+                    Reset
+                  </button>
+                </div>
+              ) : (
+                <p className="font-medium">N/A</p>
+              )}
+            </div>
             <div>
               <p className="text-sm text-gray-600">Role</p>
               <p className="font-medium">{user.role === 'superuser' || user.role === 'ADMIN'
@@ -340,8 +910,11 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                     <option value="all">All Status</option>
                     <option value="active">Active</option>
                     <option value="expired">Expired</option>
+                    <option value="paused">Paused</option>
                     <option value="pending">Pending</option>
                     <option value="cancelled">Cancelled</option>
+                    <option value="refunded">Refunded</option>
+                    <option value="upgraded">Upgraded</option>
                   </select>
                 </div>
                 <div>
@@ -352,9 +925,12 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                     className="p-2 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 transition-all duration-200 bg-white text-sm font-medium"
                   >
                     <option value="all">All Payments</option>
-                    <option value="completed">Completed</option>
+                    <option value="success">Paid</option>
+                    <option value="admin_added">Admin Added</option>
                     <option value="pending">Pending</option>
                     <option value="failed">Failed</option>
+                    <option value="refunded">Refunded</option>
+                    <option value="partially_refunded">Partially Refunded</option>
                   </select>
                 </div>
               </div>
@@ -467,6 +1043,18 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                           <span>Order ID</span>
                         </div>
                       </th>
+                      <th 
+                        scope="col" 
+                        className="px-4 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider"
+                      >
+                        <span>Invoice</span>
+                      </th>
+                      <th 
+                        scope="col" 
+                        className="px-4 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider"
+                      >
+                        <span>Actions</span>
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -507,13 +1095,15 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                           <td className="px-4 py-4 whitespace-nowrap">
                             <span className={`px-3 py-1 text-xs font-semibold rounded-full flex items-center space-x-1 w-fit ${
                               sub.status === 'active' ? 'bg-emerald-100 text-emerald-800' : 
-                              sub.status === 'expired' ? 'bg-gray-100 text-gray-800' : 
+                              sub.status === 'paused' ? 'bg-amber-100 text-amber-800' : 
+                              sub.status === 'expired' || sub.status === 'upgraded' ? 'bg-gray-100 text-gray-800' : 
                               sub.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 
                               'bg-red-100 text-red-800'
                             }`}>
                               <div className={`w-2 h-2 rounded-full ${
                                 sub.status === 'active' ? 'bg-emerald-500' : 
-                                sub.status === 'expired' ? 'bg-gray-500' : 
+                                sub.status === 'paused' ? 'bg-amber-500' : 
+                                sub.status === 'expired' || sub.status === 'upgraded' ? 'bg-gray-500' : 
                                 sub.status === 'pending' ? 'bg-yellow-500' : 
                                 'bg-red-500'
                               }`}></div>
@@ -522,13 +1112,15 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                           </td>
                           <td className="px-4 py-4 whitespace-nowrap">
                             <span className={`px-3 py-1 text-xs font-semibold rounded-full flex items-center space-x-1 w-fit ${
-                              sub.paymentStatus === 'completed' ? 'bg-emerald-100 text-emerald-800' : 
+                              sub.paymentStatus === 'success' || sub.paymentStatus === 'admin_added' ? 'bg-emerald-100 text-emerald-800' : 
                               sub.paymentStatus === 'pending' ? 'bg-yellow-100 text-yellow-800' : 
+                              sub.paymentStatus?.includes('refunded') ? 'bg-purple-100 text-purple-800' : 
                               'bg-red-100 text-red-800'
                             }`}>
                               <div className={`w-2 h-2 rounded-full ${
-                                sub.paymentStatus === 'completed' ? 'bg-emerald-500' : 
+                                sub.paymentStatus === 'success' || sub.paymentStatus === 'admin_added' ? 'bg-emerald-500' : 
                                 sub.paymentStatus === 'pending' ? 'bg-yellow-500' : 
+                                sub.paymentStatus?.includes('refunded') ? 'bg-purple-500' : 
                                 'bg-red-500'
                               }`}></div>
                               <span>{sub.paymentStatus}</span>
@@ -536,10 +1128,66 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
                           </td>
                           <td className="px-4 py-4 whitespace-nowrap text-sm font-bold text-gray-900">
                             ₹{sub.price || 0}
+                            {(sub.refundAmount || 0) > 0 && (
+                              <div className="text-xs font-medium text-purple-700">−₹{sub.refundAmount} refunded</div>
+                            )}
                           </td>
                           <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700 font-mono">
                             {sub.orderId}
                           </td>
+                          <td className="px-4 py-4 whitespace-nowrap text-sm">
+                            {(() => {
+                              const invoice = invoices.find(inv => inv.orderId === sub.orderId);
+                              if (invoice) {
+                                return (
+                                  <button
+                                    onClick={() => handleDownloadInvoice(invoice)}
+                                    className="text-indigo-600 hover:text-indigo-800 font-mono text-xs underline"
+                                    title={`Issued ${formatDate(invoice.issuedAt)}`}
+                                  >
+                                    {invoice.invoiceNumber}
+                                  </button>
+                                );
+                              }
+                              if (PAID_PAYMENT_STATUSES.includes(sub.paymentStatus) && (sub.price || 0) > 0) {
+                                return (
+                                  <button
+                                    onClick={() => handleGenerateInvoice(sub.orderId)}
+                                    className="text-xs text-gray-500 hover:text-indigo-700 underline"
+                                  >
+                                    Generate
+                                  </button>
+                                );
+                              }
+                              return <span className="text-xs text-gray-400">—</span>;
+                            })()}
+                          </td>
+                          <td className="px-4 py-4 whitespace-nowrap text-sm">
+                            <div className="flex items-center space-x-2">
+                              {(sub.status === 'active' || sub.status === 'paused') && new Date(sub.endDate) > new Date() && (
+                                <button
+                                  onClick={() => handleOpenPause(sub)}
+                                  disabled={pauseLoading}
+                                  className="px-3 py-1 bg-gradient-to-r from-amber-400 to-orange-500 text-white text-xs rounded-lg font-semibold hover:from-amber-500 hover:to-orange-600 transition-all duration-300 shadow disabled:opacity-50"
+                                >
+                                  Pause
+                                </button>
+                              )}
+                              {PAID_PAYMENT_STATUSES.includes(sub.paymentStatus) && REFUNDABLE_SUBSCRIPTION_STATUSES.includes(sub.status) && (sub.price || 0) > 0 ? (
+                                <button
+                                  onClick={() => handleOpenRefund(sub)}
+                                  disabled={refundLoading}
+                                  className="px-3 py-1 bg-gradient-to-r from-red-500 to-pink-600 text-white text-xs rounded-lg font-semibold hover:from-red-600 hover:to-pink-700 transition-all duration-300 shadow disabled:opacity-50"
+                                >
+                                  Cancel &amp; Refund
+                                </button>
+                              ) : sub.refundedAt ? (
+                                <span className="text-xs text-gray-500" title={sub.cancellationReason || undefined}>
+                                  Refunded {formatDate(sub.refundedAt)}
+                                </span>
+                              ) : null}
+                            </div>
+                          </td>
                         </tr>
                       ))}
                   </tbody>
@@ -570,6 +1218,51 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
           </div>
         )}
         
+        {/* History Section */}
+        <div className="px-8 py-6 border-t border-gray-200/50">
+          <div className="flex items-center space-x-3 mb-4">
+            <div className="p-2 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-lg">
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <h4 className="text-lg font-bold text-gray-800">History</h4>
+          </div>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes recorded yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-80 overflow-y-auto">
+              {history.map(event => {
+                const changedFields = Object.keys({ ...event.before, ...event.after });
+                return (
+                  <li key={event.id} className="ml-4">
+                    <div className="absolute w-2.5 h-2.5 bg-indigo-400 rounded-full -left-[5px] mt-1.5"></div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold text-gray-800">{EVENT_LABELS[event.type] || event.type}</span>
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">{event.actor}</span>
+                      <span className="text-xs text-gray-500">{format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm')}</span>
+                    </div>
+                    {event.note && <p className="text-sm text-gray-600">{event.note}</p>}
+                    {changedFields.length > 0 && (
+                      <ul className="text-xs text-gray-600 mt-1">
+                        {changedFields.map(field => (
+                          <li key={field}>
+                            <span className="font-medium">{field}</span>:{' '}
+                            {event.before && field in event.before && (
+                              <>{formatEventValue(event.before[field])} → </>
+                            )}
+                            {formatEventValue(event.after?.[field])}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
         {/* Footer */}
         <div className="px-8 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-t border-gray-200/50 flex justify-between items-center">
           <div className="text-sm text-gray-600">
@@ -599,6 +1292,199 @@ const UserDetailModal: React.FC<UserDetailModalProps> = ({
         </div>
       </div>
 
+      {/* Refund Dialog */}
+      {refundTarget && (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-red-50 to-pink-50 rounded-t-2xl">
+              <h3 className="text-lg font-bold text-gray-800">Cancel &amp; Refund Subscription</h3>
+              <p className="text-sm text-gray-600">
+                {refundTarget.planType} · {formatDate(refundTarget.startDate)} – {formatDate(refundTarget.endDate)} · ₹{refundTarget.price || 0} paid
+              </p>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              {!refundQuotes ? (
+                <div className="flex items-center space-x-2 text-gray-600">
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-indigo-500 border-t-transparent"></div>
+                  <span>Calculating refund...</span>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <label className="flex items-center space-x-3 p-3 border-2 rounded-xl cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name="refundMode"
+                        checked={refundMode === 'prorated'}
+                        onChange={() => setRefundMode('prorated')}
+                      />
+                      <span className="flex-1">
+                        <span className="font-semibold text-gray-800">Pro-rated refund</span>
+                        <span className="block text-xs text-gray-500">
+                          {refundQuotes.prorated.unusedDays} of {refundQuotes.prorated.totalDays} day(s) unused
+                        </span>
+                      </span>
+                      <span className="font-bold text-gray-900">₹{refundQuotes.prorated.refundAmount}</span>
+                    </label>
+                    <label className="flex items-center space-x-3 p-3 border-2 rounded-xl cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name="refundMode"
+                        checked={refundMode === 'full'}
+                        onChange={() => setRefundMode('full')}
+                      />
+                      <span className="flex-1 font-semibold text-gray-800">Full refund</span>
+                      <span className="font-bold text-gray-900">₹{refundQuotes.full.refundAmount}</span>
+                    </label>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Reason (shown to the user)</label>
+                    <textarea
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                      rows={2}
+                      maxLength={500}
+                      className="w-full p-2 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 text-sm"
+                      placeholder="Optional"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => setRefundTarget(null)}
+                disabled={refundLoading}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-xl text-gray-800 font-semibold disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleRefund}
+                disabled={!refundQuotes || refundLoading}
+                className="px-4 py-2 bg-gradient-to-r from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 rounded-xl text-white font-semibold shadow-lg disabled:opacity-50 flex items-center space-x-2"
+              >
+                {refundLoading && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                )}
+                <span>{refundLoading ? 'Processing...' : 'Cancel & Refund'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Pause Dialog */}
+      {pauseTarget && (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-amber-50 to-orange-50 rounded-t-2xl">
+              <h3 className="text-lg font-bold text-gray-800">Pause Subscription</h3>
+              <p className="text-sm text-gray-600">
+                {pauseTarget.planType} · {formatDate(pauseTarget.startDate)} – {formatDate(pauseTarget.endDate)}
+              </p>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              {!pauseAllowance ? (
+                <div className="flex items-center space-x-2 text-gray-600">
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-indigo-500 border-t-transparent"></div>
+                  <span>Loading pauses...</span>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-700">
+                    {pauseAllowance.maxPauseDays === 0
+                      ? 'This plan cannot be paused.'
+                      : `${pauseAllowance.remainingDays} of ${pauseAllowance.maxPauseDays} pause day(s) left. The end date moves out by the days paused.`}
+                  </p>
+                  {pauseAllowance.pauses.length > 0 && (
+                    <div className="space-y-2">
+                      {pauseAllowance.pauses.map(pause => (
+                        <div key={pause.id} className="flex items-center justify-between p-3 border-2 rounded-xl text-sm">
+                          <span>
+                            <span className={`font-semibold ${pause.status === 'cancelled' ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+                              {formatDate(pause.startDate)} · {pause.days} day(s)
+                            </span>
+                            <span className="block text-xs text-gray-500">{pause.reason}</span>
+                          </span>
+                          {pause.status === 'active' && new Date(pause.endDate) > new Date() && (
+                            <button
+                              onClick={() => handleResume(pause)}
+                              disabled={pauseLoading}
+                              className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded-lg font-semibold disabled:opacity-50"
+                            >
+                              {new Date(pause.startDate) > new Date() ? 'Cancel' : 'Resume Now'}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {pauseAllowance.remainingDays > 0 && (
+                    <>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">First paused day</label>
+                          <input
+                            type="date"
+                            value={pauseStart}
+                            onChange={(e) => setPauseStart(e.target.value)}
+                            className="w-full p-2 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">Days</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={pauseAllowance.remainingDays}
+                            value={pauseDays}
+                            onChange={(e) => setPauseDays(e.target.value)}
+                            className="w-full p-2 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">Reason (shown to the user)</label>
+                        <textarea
+                          value={pauseReason}
+                          onChange={(e) => setPauseReason(e.target.value)}
+                          rows={2}
+                          maxLength={500}
+                          className="w-full p-2 border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 text-sm"
+                          placeholder="e.g. Travelling"
+                        />
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={() => setPauseTarget(null)}
+                disabled={pauseLoading}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-xl text-gray-800 font-semibold disabled:opacity-50"
+              >
+                Back
+              </button>
+              {pauseAllowance && pauseAllowance.remainingDays > 0 && (
+                <button
+                  onClick={handlePause}
+                  disabled={pauseLoading || !pauseStart || !pauseDays || !pauseReason.trim()}
+                  className="px-4 py-2 bg-gradient-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 rounded-xl text-white font-semibold shadow-lg disabled:opacity-50 flex items-center space-x-2"
+                >
+                  {pauseLoading && (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  )}
+                  <span>{pauseLoading ? 'Processing...' : 'Pause'}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add User to Meeting Modal */}
       <AddUserToMeetingModal
         show={showAddToMeeting}
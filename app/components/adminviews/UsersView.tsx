@@ -183,7 +183,7 @@ const UsersView: React.FC<UsersViewProps> = ({
               onChange={(e) => updateFilter('paymentStatus', e.target.value)}
             >
               <option value="all">All Payments</option>
-              <option value="completed">Completed</option>
+              <option value="success">Paid</option>
               <option value="pending">Pending</option>
               <option value="failed">Failed</option>
             </select>
@@ -286,6 +286,14 @@ const UsersView: React.FC<UsersViewProps> = ({
                     <span>Source</span>
                   </div>
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                  <div className="flex items-center space-x-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                    </svg>
+                    <span>Attendance</span>
+                  </div>
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-bold text-gray-600 uppercase tracking-wider rounded-tr-xl">
                   <div className="flex items-center space-x-2">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -363,6 +371,22 @@ const UsersView: React.FC<UsersViewProps> = ({
                       {user.source || 'Unknown'}
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {user.attendance && user.attendance.rate !== null ? (
+                      <div className="text-sm">
+                        <span className={`font-semibold ${
+                          user.attendance.rate >= 75 ? 'text-emerald-700' :
+                          user.attendance.rate >= 40 ? 'text-amber-700' :
+                          'text-red-700'
+                        }`}>
+                          {user.attendance.rate}%
+                        </span>
+                        <span className="ml-1 text-gray-500">({user.attendance.attended}/{user.attendance.sessions})</span>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-400">—</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 font-medium">
                     {user.createdAt ? format(new Date(user.createdAt), 'MMM d, yyyy') : 'N/A'}
                   </td>
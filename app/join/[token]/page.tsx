@@ -0,0 +1,69 @@
+import Image from "next/image";
+import Link from "next/link";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { JOIN_LINK_OUTCOMES, resolveJoinLink } from "@/lib/joinLinks";
+
+export const dynamic = "force-dynamic";
+
+const TITLES: Record<string, string> = {
+  [JOIN_LINK_OUTCOMES.INVALID]: "Link not recognised",
+  [JOIN_LINK_OUTCOMES.EXPIRED]: "Session over",
+  [JOIN_LINK_OUTCOMES.NOT_FOUND]: "Session not found",
+  [JOIN_LINK_OUTCOMES.CANCELLED]: "Session cancelled",
+  [JOIN_LINK_OUTCOMES.NO_SUBSCRIPTION]: "No active plan",
+};
+
+export default async function JoinPage({
+  params
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const requestHeaders = await headers();
+  const result = await resolveJoinLink(decodeURIComponent(token), {
+    ipAddress: requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    userAgent: requestHeaders.get("user-agent")
+  });
+
+  if (result.meetingLink) {
+    redirect(result.meetingLink);
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-lg p-6 sm:p-8 text-center">
+        <Image
+          src="/goalete_logo.jpeg"
+          alt="GOALETE Club"
+          width={80}
+          height={80}
+          className="rounded-full mx-auto mb-3 object-cover"
+        />
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">{TITLES[result.outcome] || "Cannot join"}</h1>
+        <p className="text-gray-600 mb-2">
+          {result.firstName ? `Hi ${result.firstName}, ` : ""}{result.message}
+        </p>
+        {result.outcome === JOIN_LINK_OUTCOMES.CANCELLED ? (
+          <p className="text-gray-600 text-sm">
+            Your plan is not affected. You will get an invite for your next session as usual.
+          </p>
+        ) : (
+          <>
+            <p className="text-gray-600 text-sm mb-6">
+              {result.outcome === JOIN_LINK_OUTCOMES.EXPIRED
+                ? "Join us for the next one - renew your plan to keep getting daily session invites."
+                : "Join links only work for the member they were sent to, while their plan is active. Renew your plan to get your own invite."}
+            </p>
+            <Link
+              href="/form"
+              className="inline-block w-full py-3 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 transition"
+            >
+              Renew My Plan
+            </Link>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import RenewalManageForm from "../components/RenewalManageForm";
+
+export default async function RenewalPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <RenewalManageForm token={token || ""} />
+    </main>
+  );
+}
@@ -1,6 +1,8 @@
 import type { Subscription, User } from "@/generated/prisma";
 import { format } from "date-fns";
-import { PLAN_TYPES } from "./pricing";
+import { PLAN_KEYS, PLAN_TYPES } from "./pricing";
+import type { AttendanceSummary } from "./attendance";
+import { LIVE_SUBSCRIPTION_STATUSES } from "./subscriptionStatus";
 
 // Extended Subscription type with price field
 interface SubscriptionWithPrice extends Subscription {
@@ -24,6 +26,7 @@ export type AdminUserData = {
   paymentStatus?: string;
   hasActiveOrUpcomingSubscriptions?: boolean;
   nextSessionDate?: string;
+  attendance?: AttendanceSummary;
 };
 
 export type AdminSubscriptionData = {
@@ -57,7 +60,7 @@ export function formatUserForAdmin(
   const hasActiveOrUpcomingSubscriptions = user.subscriptions.some(sub => {
     const startDate = new Date(sub.startDate);
     const endDate = new Date(sub.endDate);
-    return sub.status === 'active' && (
+    return LIVE_SUBSCRIPTION_STATUSES.includes(sub.status) && (
       (startDate <= today && endDate >= today) || // Currently active
       startDate > today // Upcoming
     );
@@ -68,7 +71,7 @@ export function formatUserForAdmin(
     .filter(sub => {
       const startDate = new Date(sub.startDate);
       const endDate = new Date(sub.endDate);
-      return sub.status === 'active' && (
+      return LIVE_SUBSCRIPTION_STATUSES.includes(sub.status) && (
         startDate > today || // Future subscription
         (startDate <= today && endDate >= today) // Currently active
       );
@@ -141,19 +144,18 @@ export function generateCSV(users: AdminUserData[]): string {
 }
 
 // Function to calculate subscription statistics
-export function calculateSubscriptionStats(users: AdminUserData[]) {
+// planKeys are the catalogue plan keys to count users by
+export function calculateSubscriptionStats(users: AdminUserData[], planKeys: string[] = PLAN_KEYS) {
   const today = new Date();
+  const byPlan: Record<string, number> = Object.fromEntries(planKeys.map(key => [key, 0]));
+  byPlan[PLAN_TYPES.UNLIMITED] = 0;
+  byPlan.other = 0;
   const stats = {
     total: users.length,
     active: 0,
     expired: 0,
     upcoming: 0,
-    byPlan: {
-      'daily': 0,
-      'monthly': 0,
-      'unlimited': 0,
-      other: 0
-    }
+    byPlan
   };
 
   users.forEach(user => {
@@ -172,18 +174,13 @@ export function calculateSubscriptionStats(users: AdminUserData[]) {
       }
     }
     
-    // Count by plan type - split family-monthly into monthly
+    // Count by plan type - legacy family-monthly rows belong to the combo plan
     if (user.plan) {
-      const planType = user.plan.toLowerCase();
-      if (planType === PLAN_TYPES.DAILY || planType === PLAN_TYPES.DAILY) {
-        stats.byPlan['daily']++;
-      } else if (planType === PLAN_TYPES.MONTHLY) {
-        stats.byPlan.monthly++;
-      } else if (planType === 'family-monthly' || planType === 'monthlyfamily' || planType === PLAN_TYPES.COMBO_PLAN) {
-        // Split family-monthly into 2 monthly entries
-        stats.byPlan.monthly += 2;
-      } else if (planType === PLAN_TYPES.UNLIMITED) {
-        stats.byPlan.unlimited++;
+      const planType = user.plan === 'family-monthly' || user.plan === 'monthlyfamily'
+        ? PLAN_TYPES.COMBO_PLAN
+        : user.plan;
+      if (planType in stats.byPlan && planType !== 'other') {
+        stats.byPlan[planType]++;
       } else {
         stats.byPlan.other++;
       }
@@ -0,0 +1,474 @@
+/**
+ * Attendance
+ * Records which members actually joined each session. After a session the
+ * meeting platform's participant records (Google Meet conference records,
+ * Zoom past meeting reports, Teams attendance reports) are pulled and matched to members; admins can
+ * also check members in by hand from the Today's Meeting card. A member's
+ * attendance rate only counts sessions whose attendance was taken.
+ *
+ * Participant records come from the meeting's MeetingProvider (see
+ * lib/meetingProviders.ts); Jitsi has none, so its sessions rely on join
+ * link clicks and check-ins.
+ * Set ATTENDANCE_FETCHER=fake to use a local fake that reports every invited
+ * member as present, so attendance can be tried without platform access.
+ */
+import axios from 'axios';
+import { ConferenceRecordsServiceClient } from '@google-apps/meet';
+import prisma from './prisma';
+import { createJWTClient, getAdminEmail } from './googleAuth';
+import { get_zoom_token } from './meetingLink';
+import { getMeetingDay } from './waitlist';
+import { getMeetingProvider } from './meetingProviders';
+import { isMeetingPlatform } from './meetingPlatforms';
+import type { Attendance, Meeting, User } from '@/generated/prisma';
+
+const MINUTE_MS = 60 * 1000;
+
+// Read-only access to Google Meet conference records
+const MEET_SCOPES = ['https://www.googleapis.com/auth/meetings.space.readonly'];
+
+export const ATTENDANCE_SOURCES = {
+  GOOGLE_MEET: "google-meet" as const,
+  ZOOM: "zoom" as const,
+  TEAMS: "teams" as const,
+  JITSI: "jitsi" as const,       // Never synced: Jitsi keeps no participant records
+  MANUAL: "manual" as const,   // Checked in by an admin; never overwritten by a sync
+  JOIN_LINK: "join-link" as const, // Clicked their tracked join link; replaced by the platform's record on sync
+} as const;
+
+export type AttendanceSource = typeof ATTENDANCE_SOURCES[keyof typeof ATTENDANCE_SOURCES];
+
+/**
+ * One stretch of a participant in a session; people who rejoin have several
+ */
+export interface ParticipantRecord {
+  email?: string | null;
+  name?: string | null;
+  joinedAt: Date;
+  leftAt?: Date | null;
+}
+
+type AttendanceMember = Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+
+/**
+ * Meeting with the members invited to it
+ */
+export type MeetingForAttendance = Meeting & { users: AttendanceMember[] };
+
+/**
+ * Source of participant records for a meeting platform
+ */
+export interface AttendanceFetcher {
+  fetchParticipants(meeting: MeetingForAttendance): Promise<ParticipantRecord[]>;
+}
+
+/**
+ * Result of taking attendance for a meeting
+ */
+export interface AttendanceSyncResult {
+  success: boolean;
+  message: string;
+  recorded: number;
+  // Participants who could not be matched to a member
+  unmatched: string[];
+}
+
+/**
+ * Result of checking a member in or out by hand
+ */
+export interface CheckInResult {
+  success: boolean;
+  message: string;
+  attendance: Attendance | null;
+}
+
+/**
+ * A member's attendance over the sessions they were invited to
+ */
+export interface AttendanceSummary {
+  sessions: number;
+  attended: number;
+  // Percentage of sessions attended, or null before any attendance was taken
+  rate: number | null;
+}
+
+const MEMBER_SELECT = { id: true, email: true, firstName: true, lastName: true } as const;
+
+/**
+ * Turn a protobuf timestamp into a date
+ */
+function fromTimestamp(timestamp?: { seconds?: number | string | { toString(): string } | null; nanos?: number | null } | null): Date | null {
+  if (!timestamp?.seconds) return null;
+  return new Date(Number(timestamp.seconds.toString()) * 1000 + Math.floor((timestamp.nanos || 0) / 1e6));
+}
+
+/**
+ * Participant records of a Google Meet session. Meet only reports display
+ * names for signed-in participants, so they are matched to members by name.
+ */
+export const googleMeetAttendanceFetcher: AttendanceFetcher = {
+  async fetchParticipants(meeting) {
+    const meetingCode = meeting.meetingLink.match(/meet\.google\.com\/([a-z]{3}-[a-z]{4}-[a-z]{3})/i)?.[1];
+    if (!meetingCode) {
+      throw new Error(`No Google Meet code in ${meeting.meetingLink}`);
+    }
+
+    const client = new ConferenceRecordsServiceClient({
+      authClient: createJWTClient(getAdminEmail(), MEET_SCOPES)
+    });
+
+    // Meeting codes can be reused, so only conferences around the session count
+    const from = new Date(meeting.startTime.getTime() - 60 * MINUTE_MS);
+    const to = new Date(meeting.endTime.getTime() + 60 * MINUTE_MS);
+    const filter = `space.meeting_code = "${meetingCode.toLowerCase()}" AND start_time >= "${from.toISOString()}" AND start_time <= "${to.toISOString()}"`;
+
+    const participants: ParticipantRecord[] = [];
+    for await (const conference of client.listConferenceRecordsAsync({ filter })) {
+      if (!conference.name) continue;
+      for await (const participant of client.listParticipantsAsync({ parent: conference.name })) {
+        const joinedAt = fromTimestamp(participant.earliestStartTime);
+        if (!joinedAt) continue;
+        participants.push({
+          name: participant.signedinUser?.displayName
+            || participant.anonymousUser?.displayName
+            || participant.phoneUser?.displayName,
+          joinedAt,
+          leftAt: fromTimestamp(participant.latestEndTime)
+        });
+      }
+    }
+    return participants;
+  }
+};
+
+/**
+ * Participant records of a Zoom session, from its past meeting report
+ */
+export const zoomAttendanceFetcher: AttendanceFetcher = {
+  async fetchParticipants(meeting) {
+    if (!meeting.zoomMeetingId) {
+      throw new Error('Meeting has no Zoom meeting ID');
+    }
+
+    const accessToken = await get_zoom_token();
+    const participants: ParticipantRecord[] = [];
+    let nextPageToken = '';
+    do {
+      try {
+        const response = await axios.get(
+          `https://api.zoom.us/v2/past_meetings/${meeting.zoomMeetingId}/participants`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            params: { page_size: 300, next_page_token: nextPageToken || undefined }
+          }
+        );
+        for (const participant of response.data.participants || []) {
+          participants.push({
+            email: participant.user_email,
+            name: participant.name,
+            joinedAt: new Date(participant.join_time),
+            leftAt: participant.leave_time ? new Date(participant.leave_time) : null
+          });
+        }
+        nextPageToken = response.data.next_page_token || '';
+      } catch (error: any) {
+        console.error('Zoom participant report error:', error.response?.data || error.message);
+        throw new Error('Failed to fetch Zoom participants');
+      }
+    } while (nextPageToken);
+    return participants;
+  }
+};
+
+/**
+ * Fetcher that answers from memory instead of a meeting platform
+ * @param participantsByMeeting Participant records per meeting ID; meetings
+ *   not listed report every invited member present for the whole session
+ * @returns Attendance fetcher
+ */
+export function createFakeAttendanceFetcher(
+  participantsByMeeting: Record<string, ParticipantRecord[]> = {}
+): AttendanceFetcher {
+  return {
+    async fetchParticipants(meeting) {
+      return participantsByMeeting[meeting.id] ?? meeting.users.map(user => ({
+        email: user.email,
+        name: `${user.firstName} ${user.lastName}`.trim(),
+        joinedAt: meeting.startTime,
+        leftAt: meeting.endTime
+      }));
+    }
+  };
+}
+
+/**
+ * Get the fetcher for a meeting platform
+ * @param platform Meeting platform
+ * @returns Attendance fetcher, or null if the platform has no participant records
+ */
+export function getAttendanceFetcher(platform: string): AttendanceFetcher | null {
+  if (process.env.ATTENDANCE_FETCHER === 'fake') {
+    return createFakeAttendanceFetcher();
+  }
+  if (!isMeetingPlatform(platform)) return null;
+  const { fetchParticipants } = getMeetingProvider(platform);
+  return fetchParticipants ? { fetchParticipants } : null;
+}
+
+/**
+ * Normalise a name for matching
+ */
+function toNameKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Find the member a participant record belongs to: by email, then by full name
+ * among the invited members
+ */
+function matchParticipant(
+  participant: ParticipantRecord,
+  invited: AttendanceMember[],
+  membersByEmail: Map<string, AttendanceMember>
+): AttendanceMember | null {
+  if (participant.email) {
+    const member = membersByEmail.get(participant.email.toLowerCase());
+    if (member) return member;
+  }
+  if (participant.name) {
+    const nameKey = toNameKey(participant.name);
+    const matches = invited.filter(user => toNameKey(`${user.firstName} ${user.lastName}`) === nameKey);
+    // Two invited members with the same name cannot be told apart
+    if (matches.length === 1) return matches[0];
+  }
+  return null;
+}
+
+/**
+ * Take attendance for a meeting from its platform's participant records.
+ * Members checked in by hand are kept as they are.
+ * @param meetingId Meeting to take attendance for
+ * @param fetcher Source of participant records (the meeting platform's by default)
+ * @returns Sync result with the number of members recorded
+ */
+export async function syncMeetingAttendance(
+  meetingId: string,
+  fetcher?: AttendanceFetcher
+): Promise<AttendanceSyncResult> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: { users: { select: MEMBER_SELECT } }
+  });
+  if (!meeting) {
+    return { success: false, message: "Meeting not found", recorded: 0, unmatched: [] };
+  }
+  if (meeting.startTime > new Date()) {
+    return { success: false, message: "The session has not started yet", recorded: 0, unmatched: [] };
+  }
+
+  const participantFetcher = fetcher ?? getAttendanceFetcher(meeting.platform);
+  if (!participantFetcher) {
+    return { success: false, message: `No participant records for ${meeting.platform} meetings`, recorded: 0, unmatched: [] };
+  }
+
+  let participants: ParticipantRecord[];
+  try {
+    participants = await participantFetcher.fetchParticipants(meeting);
+  } catch (error) {
+    console.error(`Error fetching participants of meeting ${meetingId}:`, error);
+    return {
+      success: false,
+      message: `Failed to fetch participants: ${error instanceof Error ? error.message : String(error)}`,
+      recorded: 0,
+      unmatched: []
+    };
+  }
+
+  // Members who joined without being invited are matched by email too
+  const membersByEmail = new Map(meeting.users.map(user => [user.email.toLowerCase(), user]));
+  const uninvitedEmails = participants
+    .map(participant => participant.email?.toLowerCase())
+    .filter((email): email is string => !!email && !membersByEmail.has(email));
+  if (uninvitedEmails.length > 0) {
+    const uninvited = await prisma.user.findMany({
+      where: { email: { in: uninvitedEmails, mode: 'insensitive' } },
+      select: MEMBER_SELECT
+    });
+    uninvited.forEach(user => membersByEmail.set(user.email.toLowerCase(), user));
+  }
+
+  // Merge each member's stretches into one record
+  const attendees = new Map<string, { joinedAt: Date; leftAt: Date | null; minutes: number }>();
+  const unmatched: string[] = [];
+  for (const participant of participants) {
+    const member = matchParticipant(participant, meeting.users, membersByEmail);
+    if (!member) {
+      unmatched.push(participant.email || participant.name || 'Unknown participant');
+      continue;
+    }
+
+    const leftAt = participant.leftAt ?? null;
+    const minutes = leftAt ? Math.max(0, (leftAt.getTime() - participant.joinedAt.getTime()) / MINUTE_MS) : 0;
+    const existing = attendees.get(member.id);
+    if (!existing) {
+      attendees.set(member.id, { joinedAt: participant.joinedAt, leftAt, minutes });
+      continue;
+    }
+    if (participant.joinedAt < existing.joinedAt) existing.joinedAt = participant.joinedAt;
+    if (leftAt && (!existing.leftAt || leftAt > existing.leftAt)) existing.leftAt = leftAt;
+    existing.minutes += minutes;
+  }
+
+  const checkedIn = await prisma.attendance.findMany({
+    where: { meetingId, source: ATTENDANCE_SOURCES.MANUAL },
+    select: { userId: true }
+  });
+  checkedIn.forEach(({ userId }) => attendees.delete(userId));
+
+  // Sources share their values with the platforms
+  const source = isMeetingPlatform(meeting.platform) ? meeting.platform : ATTENDANCE_SOURCES.GOOGLE_MEET;
+  await prisma.$transaction([
+    ...Array.from(attendees, ([userId, attendee]) => {
+      const data = {
+        source,
+        joinedAt: attendee.joinedAt,
+        leftAt: attendee.leftAt,
+        durationMinutes: Math.round(attendee.minutes)
+      };
+      return prisma.attendance.upsert({
+        where: { meetingId_userId: { meetingId, userId } },
+        create: { meetingId, userId, ...data },
+        update: data
+      });
+    }),
+    prisma.meeting.update({
+      where: { id: meetingId },
+      data: { attendanceTakenAt: new Date() }
+    })
+  ]);
+
+  const uniqueUnmatched = Array.from(new Set(unmatched));
+  return {
+    success: true,
+    message: `${attendees.size} attendee(s) recorded for ${getMeetingDay(meeting)}`
+      + (uniqueUnmatched.length > 0 ? `; ${uniqueUnmatched.length} participant(s) not matched to a member` : ''),
+    recorded: attendees.size,
+    unmatched: uniqueUnmatched
+  };
+}
+
+/**
+ * Take attendance for every meeting of a day that has none yet. Run by the
+ * daily invite job for the previous day, once the platform reports are ready.
+ * @param day Day as yyyy-MM-dd
+ * @param fetcher Source of participant records (each meeting platform's by default)
+ * @returns Number of meetings synced and members recorded
+ */
+export async function syncAttendanceForDate(
+  day: string,
+  fetcher?: AttendanceFetcher
+): Promise<{ meetings: number; recorded: number }> {
+  const meetings = await prisma.meeting.findMany({
+    where: { meetingDate: new Date(day), attendanceTakenAt: null },
+    select: { id: true }
+  });
+
+  let synced = 0;
+  let recorded = 0;
+  for (const meeting of meetings) {
+    const result = await syncMeetingAttendance(meeting.id, fetcher);
+    if (!result.success) {
+      console.error(`Attendance for meeting ${meeting.id} not taken: ${result.message}`);
+      continue;
+    }
+    synced++;
+    recorded += result.recorded;
+  }
+  return { meetings: synced, recorded };
+}
+
+/**
+ * Check a member in to a session, or undo a check-in
+ * @param meetingId Session to check in to
+ * @param userId Member to check in
+ * @param present Whether the member attended
+ * @returns Check-in result with the member's attendance (null when checked out)
+ */
+export async function setManualAttendance({
+  meetingId,
+  userId,
+  present
+}: {
+  meetingId: string;
+  userId: string;
+  present: boolean;
+}): Promise<CheckInResult> {
+  const meeting = await prisma.meeting.findUnique({ where: { id: meetingId }, select: { id: true } });
+  if (!meeting) {
+    return { success: false, message: "Meeting not found", attendance: null };
+  }
+
+  if (!present) {
+    await prisma.$transaction([
+      prisma.attendance.deleteMany({ where: { meetingId, userId } }),
+      prisma.meeting.update({ where: { id: meetingId }, data: { attendanceTakenAt: new Date() } })
+    ]);
+    return { success: true, message: "Member marked absent", attendance: null };
+  }
+
+  const [attendance] = await prisma.$transaction([
+    prisma.attendance.upsert({
+      where: { meetingId_userId: { meetingId, userId } },
+      create: { meetingId, userId, source: ATTENDANCE_SOURCES.MANUAL, joinedAt: new Date() },
+      update: { source: ATTENDANCE_SOURCES.MANUAL }
+    }),
+    prisma.meeting.update({ where: { id: meetingId }, data: { attendanceTakenAt: new Date() } })
+  ]);
+  return { success: true, message: "Member checked in", attendance };
+}
+
+/**
+ * Get the attendance of several members
+ * @param userIds Members to look up
+ * @returns Attendance summary per member ID
+ */
+export async function getAttendanceSummaries(userIds: string[]): Promise<Record<string, AttendanceSummary>> {
+  if (userIds.length === 0) return {};
+
+  const takenSessions = { attendanceTakenAt: { not: null } };
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: {
+      id: true,
+      _count: {
+        select: {
+          meetings: { where: takenSessions },
+          attendances: { where: { meeting: takenSessions } }
+        }
+      }
+    }
+  });
+
+  const summaries: Record<string, AttendanceSummary> = {};
+  for (const user of users) {
+    // Members can join sessions they were not invited to, so attended can exceed sessions
+    const sessions = Math.max(user._count.meetings, user._count.attendances);
+    const attended = user._count.attendances;
+    summaries[user.id] = {
+      sessions,
+      attended,
+      rate: sessions > 0 ? Math.round((attended / sessions) * 100) : null
+    };
+  }
+  return summaries;
+}
+
+/**
+ * Get one member's attendance
+ * @param userId Member to look up
+ * @returns Attendance summary of the member
+ */
+export async function getAttendanceSummary(userId: string): Promise<AttendanceSummary> {
+  const summaries = await getAttendanceSummaries([userId]);
+  return summaries[userId] ?? { sessions: 0, attended: 0, rate: null };
+}
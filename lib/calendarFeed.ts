@@ -0,0 +1,173 @@
+/**
+ * Member calendar feeds
+ * Each member has a secret feed URL (/api/calendar/<token>.ics) that calendar
+ * apps subscribe to. It lists every upcoming session their subscriptions
+ * cover, in the member's slot, skipping paused days and no-session days.
+ * Sessions whose meeting exists carry its time, UID, sequence and the
+ * member's join link, and cancelled ones show as cancelled; days whose
+ * meeting is created later show the slot's usual time until then.
+ *
+ * The token is made the first time the feed URL is needed; resetting it
+ * stops the old URL working.
+ */
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import prisma from './prisma';
+import { getHolidays } from './holidays';
+import { isPausedOn } from './pauses';
+import { getJoinUrl } from './joinLinks';
+import { getMeetingDay } from './waitlist';
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_LABELS, getSlotStartTime, isSessionSlot, type SessionSlot } from './sessionSlots';
+import { ENTITLED_PAYMENT_STATUSES, LIVE_SUBSCRIPTION_STATUSES } from './subscriptionStatus';
+import { ICS_METHODS, buildIcsCalendar, getIcsUid, getMeetingUid, type IcsEvent } from './ics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar apps get at most this many days ahead
+const FEED_HORIZON_DAYS = 366;
+
+// Subscription dates carry the time they were bought at, so sessions are compared by day
+const toDay = (date: Date) => date.toISOString().split('T')[0];
+const nextDay = (day: string) => toDay(new Date(new Date(day).getTime() + DAY_MS));
+
+function createCalendarToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function toFeedUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://form.goalete.com';
+  return `${baseUrl.replace(/\/$/, '')}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Get a member's calendar feed URL, creating their token if they have none
+ * @param userId Member
+ * @returns Feed URL
+ */
+export async function getCalendarFeedUrl(userId: string): Promise<string> {
+  // Only set when missing, so two callers at once end up with the same token
+  await prisma.user.updateMany({
+    where: { id: userId, calendarToken: null },
+    data: { calendarToken: createCalendarToken() }
+  });
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { calendarToken: true }
+  });
+  return toFeedUrl(user.calendarToken!);
+}
+
+/**
+ * Replace a member's calendar token, e.g. after their feed URL was shared
+ * @param userId Member
+ * @returns New feed URL
+ */
+export async function resetCalendarFeedUrl(userId: string): Promise<string> {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { calendarToken: createCalendarToken() },
+    select: { calendarToken: true }
+  });
+  return toFeedUrl(user.calendarToken!);
+}
+
+/**
+ * Build the calendar feed of the member a token belongs to
+ * @param token Token from the feed URL
+ * @returns iCalendar content, or null if no member has the token
+ */
+export async function buildCalendarFeed(token: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { calendarToken: token },
+    select: { id: true, firstName: true }
+  });
+  if (!user) return null;
+
+  const today = format(new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' })), 'yyyy-MM-dd');
+  const horizon = toDay(new Date(new Date(today).getTime() + FEED_HORIZON_DAYS * DAY_MS));
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      userId: user.id,
+      status: { in: LIVE_SUBSCRIPTION_STATUSES },
+      paymentStatus: { in: ENTITLED_PAYMENT_STATUSES },
+      endDate: { gte: new Date(today) }
+    },
+    include: { pauses: true },
+    orderBy: { startDate: 'asc' }
+  });
+
+  // Session day -> slot; the earliest subscription covering a day decides its slot
+  const sessionDays = new Map<string, SessionSlot>();
+  for (const subscription of subscriptions) {
+    const slot = isSessionSlot(subscription.slot) ? subscription.slot : DEFAULT_SESSION_SLOT;
+    const first = toDay(subscription.startDate) > today ? toDay(subscription.startDate) : today;
+    const last = toDay(subscription.endDate) < horizon ? toDay(subscription.endDate) : horizon;
+    for (let day = first; day <= last; day = nextDay(day)) {
+      if (sessionDays.has(day)) continue;
+      if (subscription.pauses.some(pause => isPausedOn(pause, new Date(day)))) continue;
+      sessionDays.set(day, slot);
+    }
+  }
+
+  const days = [...sessionDays.keys()].sort();
+  const from = days[0] ?? today;
+  const to = days[days.length - 1] ?? today;
+  const [holidays, meetings] = await Promise.all([
+    getHolidays(from, to),
+    prisma.meeting.findMany({
+      where: {
+        meetingDate: { gte: new Date(from), lte: new Date(to) },
+        slot: { in: [...new Set(sessionDays.values())] }
+      },
+      include: { users: { where: { id: user.id }, select: { id: true } } }
+    })
+  ]);
+  const holidayDays = new Set(holidays.map(holiday => holiday.date));
+  const meetingsBySession = new Map(meetings.map(meeting => [`${getMeetingDay(meeting)}|${meeting.slot}`, meeting]));
+
+  const duration = parseInt(process.env.DEFAULT_MEETING_DURATION || '60');
+  const defaultTitle = process.env.DEFAULT_MEETING_TITLE || 'GOALETE Club Session';
+  const events: IcsEvent[] = [];
+  for (const day of days) {
+    const slot = sessionDays.get(day)!;
+    const meeting = meetingsBySession.get(`${day}|${slot}`);
+
+    if (!meeting) {
+      // A meeting scheduled on a no-session day anyway is still listed
+      if (holidayDays.has(day)) continue;
+      const startTime = new Date(`${day}T${getSlotStartTime(slot)}:00.000+05:30`);
+      events.push({
+        uid: getIcsUid(`${day}-${slot}`),
+        sequence: 0,
+        startTime,
+        endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+        summary: defaultTitle,
+        description: `${SESSION_SLOT_LABELS[slot]} session. Your join link is emailed on the day.`
+      });
+      continue;
+    }
+
+    const invited = meeting.users.length > 0;
+    const joinLink = invited ? (getJoinUrl(meeting.id, user.id, meeting.endTime) || meeting.meetingLink) : undefined;
+    events.push({
+      uid: getMeetingUid(meeting.id),
+      sequence: meeting.sequence,
+      startTime: meeting.startTime,
+      endTime: meeting.endTime,
+      summary: meeting.meetingTitle,
+      description: meeting.cancelledAt
+        ? `This session has been cancelled.${meeting.cancellationReason ? `\n\n${meeting.cancellationReason}` : ''}`
+        : [meeting.meetingDesc, joinLink ? `Join: ${joinLink}` : 'Your join link is emailed on the day.'].filter(Boolean).join('\n\n'),
+      location: meeting.cancelledAt ? undefined : joinLink,
+      url: meeting.cancelledAt ? undefined : joinLink,
+      cancelled: !!meeting.cancelledAt
+    });
+  }
+
+  return buildIcsCalendar({
+    method: ICS_METHODS.PUBLISH,
+    name: `GOALETE Club - ${user.firstName}`,
+    events
+  });
+}
@@ -0,0 +1,834 @@
+/**
+ * Google Calendar sync
+ * Keeps Google Meet meetings in line with the events of the Google calendar
+ * (GOOGLE_CALENDAR_ID). The first sync reads the whole calendar; every later
+ * one asks Google only for the events changed since, using the sync token
+ * stored in CalendarSyncState. When Google expires the token (410) the next
+ * sync is a full one again.
+ *
+ * Syncs run when Google pushes a change notification to
+ * /api/google/calendar-webhook (see watchGoogleCalendar), from the daily
+ * cron as a safety net, and when an admin starts one.
+ *
+ * When the two sides disagree:
+ * - Event deleted on Google: the meeting is cancelled and its attendees told.
+ *   A meeting the sync created that nobody was invited to is deleted instead.
+ * - Event moved on Google: the meeting is rescheduled to the new time. If the
+ *   app refuses the new time (past, no-session day, slot taken) the event is
+ *   moved back and the conflict reported.
+ * - Title, description or Meet link changed on Google: copied to the meeting.
+ * - Guests changed on Google: the meeting's members win; missing members are
+ *   added back and other guests removed, except the organizer and
+ *   SPECIAL_EMAILS.
+ * - New GOALETE event with a Meet link: becomes the meeting of its day and
+ *   slot, or is linked to that meeting if it has no event yet.
+ * - Meeting cancelled in the app: stays cancelled.
+ * Events that have ended are left alone.
+ *
+ * Cancelling or deleting meetings waits for an admin: syncs that run on
+ * their own make every other change and hold those back, keeping the sync
+ * token so the next sync finds them again. An admin first runs a dry run,
+ * which returns every change with its field-level diff, then approves or
+ * rejects each one. Each change's ID covers its content, so a change that
+ * is different by the time it is applied is held rather than applied.
+ */
+import crypto from 'crypto';
+import type { calendar_v3 } from 'googleapis';
+import type { Prisma } from '@/generated/prisma';
+import prisma from './prisma';
+import { getCalendarClient, getAdminEmail } from './googleAuth';
+import {
+  cancelMeeting,
+  getDefaultMeetingDescription,
+  getSpecialEmails,
+  google_add_users_to_meeting,
+  google_remove_users_from_meeting,
+  google_update_meet_time,
+  rescheduleMeeting
+} from './meetingLink';
+import { getSlotForStartTime } from './sessionSlots';
+import { getMeetingDay } from './waitlist';
+import { MEETING_PLATFORMS } from './meetingPlatforms';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// A sync that started longer ago than this is taken to have crashed
+const SYNC_LOCK_MS = 10 * MINUTE_MS;
+
+// Notifications during a sync run it again, at most this many times in a row
+const MAX_SYNC_RUNS = 3;
+
+// Google keeps calendar push channels for at most a week
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// The daily cron renews channels that expire within this
+const CHANNEL_RENEW_BEFORE_MS = 2 * DAY_MS;
+
+export const CALENDAR_CHANGE_TYPES = {
+  CREATE: "create" as const,         // New meeting from a calendar event
+  UPDATE: "update" as const,         // Title, description, Meet link or event copied to the meeting
+  RESCHEDULE: "reschedule" as const, // Meeting moved to the event's time
+  CANCEL: "cancel" as const,         // Meeting cancelled because its event was deleted
+  DELETE: "delete" as const,         // Unused synced meeting removed with its event
+  ATTENDEES: "attendees" as const,   // Event guests put back to the meeting's members
+} as const;
+
+export type CalendarChangeType = typeof CALENDAR_CHANGE_TYPES[keyof typeof CALENDAR_CHANGE_TYPES];
+
+// Changes only an admin's review applies
+export const REVIEWED_CALENDAR_CHANGE_TYPES: CalendarChangeType[] = [
+  CALENDAR_CHANGE_TYPES.CANCEL,
+  CALENDAR_CHANGE_TYPES.DELETE
+];
+
+/**
+ * One field a change sets; null is no value (e.g. before a meeting exists)
+ */
+export interface CalendarFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * A change the sync makes to bring a meeting and its event in line
+ */
+export interface CalendarChange {
+  // Stable for the same change, so an admin's review applies to exactly what they saw
+  id: string;
+  type: CalendarChangeType;
+  eventId: string;
+  // Null for meetings still to be created
+  meetingId: string | null;
+  day: string;
+  slot: string;
+  description: string;
+  fields: CalendarFieldChange[];
+  // Members emailed about the change, or added to or removed from the event
+  affectedAttendees: number;
+  create?: {
+    startTime: Date;
+    endTime: Date;
+    meetingTitle: string;
+    meetingDesc: string;
+    meetingLink: string;
+  };
+  update?: {
+    meetingTitle?: string;
+    meetingDesc?: string;
+    meetingLink?: string;
+    googleEventId?: string;
+  };
+  reschedule?: {
+    startTime: string;
+    duration: number;
+    // Meeting's time, to move the event back to if the app refuses the new one
+    previousStartTime: Date;
+    previousEndTime: Date;
+  };
+  attendees?: {
+    add: { email: string; name?: string }[];
+    remove: string[];
+  };
+}
+
+/**
+ * An admin's decisions on the changes of a dry run
+ */
+export interface CalendarSyncReview {
+  approved: string[];
+  rejected: string[];
+}
+
+/**
+ * Result of a calendar sync
+ */
+export interface CalendarSyncResult {
+  success: boolean;
+  message: string;
+  fullSync: boolean;
+  dryRun: boolean;
+  // Another sync was running; it runs again once done to pick up the changes
+  queued: boolean;
+  // Changes made, or on a dry run every change the sync would make
+  changes: CalendarChange[];
+  // Changes waiting for an admin's review
+  held: CalendarChange[];
+  rejected: number;
+  counts: Record<CalendarChangeType, number>;
+  // Changes where the app kept its own version and put Google back
+  conflicts: string[];
+  errors: string[];
+}
+
+/**
+ * A calendar event reduced to what the sync compares
+ */
+interface SyncEvent {
+  id: string;
+  deleted: boolean;
+  isSession: boolean;
+  day: string;
+  time: string;
+  startTime: Date | null;
+  endTime: Date | null;
+  summary: string;
+  description: string;
+  meetingLink: string | null;
+  guests: { email: string; organizer: boolean }[];
+}
+
+type SyncMeeting = Awaited<ReturnType<typeof findMeetings>>[number];
+
+function getCalendarId(): string {
+  return process.env.GOOGLE_CALENDAR_ID || 'primary';
+}
+
+function isGone(error: unknown): boolean {
+  const apiError = error as { code?: string | number; response?: { status?: number } };
+  return apiError.response?.status === 410 || apiError.code === 410 || apiError.code === '410';
+}
+
+function toSyncEvent(event: calendar_v3.Schema$Event): SyncEvent | null {
+  if (!event.id) return null;
+
+  // All-day events have no dateTime and are never sessions
+  const start = event.start?.dateTime ? new Date(event.start.dateTime) : null;
+  const end = event.end?.dateTime ? new Date(event.end.dateTime) : null;
+  const videoEntryPoint = event.conferenceData?.entryPoints?.find(entry => entry.entryPointType === 'video');
+  const meetingLink = videoEntryPoint?.uri || event.hangoutLink || null;
+  const text = `${event.summary || ''} ${event.description || ''}`.toLowerCase();
+
+  return {
+    id: event.id,
+    deleted: event.status === 'cancelled',
+    isSession: text.includes('goalete') && !!meetingLink && !!start && !!end,
+    day: start ? start.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' }) : '',
+    time: start
+      ? start.toLocaleTimeString('en-GB', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false })
+      : '',
+    startTime: start,
+    endTime: end,
+    summary: event.summary || '',
+    description: (event.description || '').trim(),
+    meetingLink,
+    guests: (event.attendees || [])
+      .filter(attendee => attendee.email && !attendee.resource)
+      .map(attendee => ({ email: attendee.email!.toLowerCase(), organizer: !!(attendee.organizer || attendee.self) }))
+  };
+}
+
+async function findMeetings(where: Prisma.MeetingWhereInput) {
+  return prisma.meeting.findMany({
+    where,
+    include: { users: { select: { email: true, firstName: true, lastName: true } } }
+  });
+}
+
+/**
+ * Read the calendar's events, only those changed since the sync token if
+ * there is one
+ */
+async function listEvents(
+  calendar: calendar_v3.Calendar,
+  syncToken: string | null
+): Promise<{ events: calendar_v3.Schema$Event[]; nextSyncToken: string | null }> {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  for (;;) {
+    // Sync tokens can't be combined with q, timeMin or orderBy, so a full sync reads everything
+    const response = await calendar.events.list({
+      calendarId: getCalendarId(),
+      singleEvents: true,
+      showDeleted: true,
+      maxResults: 2500,
+      syncToken: syncToken || undefined,
+      pageToken
+    });
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+    if (!pageToken) {
+      return { events, nextSyncToken: response.data.nextSyncToken || null };
+    }
+  }
+}
+
+function titleMatches(meeting: SyncMeeting, summary: string): boolean {
+  // Event titles carry the session date after the meeting title
+  return summary === meeting.meetingTitle || summary.startsWith(`${meeting.meetingTitle} `);
+}
+
+type PlannedChange = Omit<CalendarChange, 'id'>;
+
+/**
+ * Work out the changes for the events read from Google
+ * @param events Changed events, or every event on a full sync
+ * @param fullSync Whether events holds the whole calendar; linked meetings missing from it count as deleted
+ */
+async function planCalendarChanges(events: SyncEvent[], fullSync: boolean): Promise<CalendarChange[]> {
+  const now = Date.now();
+  // On a full sync every upcoming linked meeting, so those whose event has gone are found too
+  const linkedMeetings = await findMeetings(
+    fullSync
+      ? { googleEventId: { not: null }, endTime: { gt: new Date(now) } }
+      : { googleEventId: { in: events.map(event => event.id) } }
+  );
+  const meetingsByEvent = new Map(linkedMeetings.map(meeting => [meeting.googleEventId!, meeting]));
+
+  // Meetings of the days new events fall on, to link or place them
+  const newEventDays = [...new Set(
+    events.filter(event => event.isSession && !event.deleted && !meetingsByEvent.has(event.id)).map(event => event.day)
+  )];
+  const dayMeetings = newEventDays.length > 0
+    ? await findMeetings({ meetingDate: { in: newEventDays.map(day => new Date(day)) } })
+    : [];
+  const meetingsBySession = new Map(dayMeetings.map(meeting => [`${getMeetingDay(meeting)}|${meeting.slot}`, meeting]));
+  const createdSessions = new Set<string>();
+
+  const protectedEmails = new Set(
+    [getAdminEmail(), ...getSpecialEmails()].filter((email): email is string => !!email).map(email => email.toLowerCase())
+  );
+  const changes: PlannedChange[] = [];
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    seen.add(event.id);
+    let meeting = meetingsByEvent.get(event.id);
+    const update: NonNullable<CalendarChange['update']> = {};
+    const fields: CalendarFieldChange[] = [];
+
+    if (event.deleted) {
+      if (!meeting || meeting.cancelledAt || meeting.endTime.getTime() <= now) continue;
+      changes.push(removalChange(meeting, event.id));
+      continue;
+    }
+    if (!event.startTime || !event.endTime || event.endTime.getTime() <= now) continue;
+
+    if (!meeting) {
+      if (!event.isSession) continue;
+      const slot = getSlotForStartTime(event.time);
+      const sessionMeeting = meetingsBySession.get(`${event.day}|${slot}`);
+
+      if (!sessionMeeting) {
+        // One meeting per slot, even if the calendar has two events for it
+        if (createdSessions.has(`${event.day}|${slot}`)) continue;
+        createdSessions.add(`${event.day}|${slot}`);
+        const meetingDesc = event.description || getDefaultMeetingDescription();
+        changes.push({
+          type: CALENDAR_CHANGE_TYPES.CREATE,
+          eventId: event.id,
+          meetingId: null,
+          day: event.day,
+          slot,
+          description: `New ${slot} meeting "${event.summary}" on ${event.day} at ${event.time}`,
+          fields: [
+            { field: 'meetingTitle', from: null, to: event.summary },
+            { field: 'meetingDesc', from: null, to: meetingDesc },
+            { field: 'startTime', from: null, to: event.startTime.toISOString() },
+            { field: 'endTime', from: null, to: event.endTime.toISOString() },
+            { field: 'meetingLink', from: null, to: event.meetingLink }
+          ],
+          affectedAttendees: 0,
+          create: {
+            startTime: event.startTime,
+            endTime: event.endTime,
+            meetingTitle: event.summary,
+            meetingDesc,
+            meetingLink: event.meetingLink!
+          }
+        });
+        continue;
+      }
+      // The slot's meeting keeps its own event; another event for it is ignored
+      if (sessionMeeting.googleEventId || sessionMeeting.platform !== MEETING_PLATFORMS.GOOGLE_MEET) continue;
+
+      update.googleEventId = event.id;
+      fields.push({ field: 'googleEventId', from: null, to: event.id });
+      sessionMeeting.googleEventId = event.id;
+      meeting = sessionMeeting;
+    }
+
+    // Cancelled here stays cancelled; the platform event was deleted on cancel
+    if (meeting.cancelledAt) continue;
+    const day = getMeetingDay(meeting);
+
+    if (event.summary && !titleMatches(meeting, event.summary)) {
+      update.meetingTitle = event.summary;
+      fields.push({ field: 'meetingTitle', from: meeting.meetingTitle, to: event.summary });
+    }
+    const currentDesc = (meeting.meetingDesc || getDefaultMeetingDescription()).trim();
+    if (event.description && event.description !== currentDesc) {
+      update.meetingDesc = event.description;
+      fields.push({ field: 'meetingDesc', from: currentDesc, to: event.description });
+    }
+    if (event.meetingLink && event.meetingLink !== meeting.meetingLink) {
+      update.meetingLink = event.meetingLink;
+      fields.push({ field: 'meetingLink', from: meeting.meetingLink, to: event.meetingLink });
+    }
+    if (fields.length > 0) {
+      changes.push({
+        type: CALENDAR_CHANGE_TYPES.UPDATE,
+        eventId: event.id,
+        meetingId: meeting.id,
+        day,
+        slot: meeting.slot,
+        description: update.googleEventId
+          ? `Link the ${meeting.slot} meeting of ${day} to its calendar event`
+          : `Copy the ${meeting.slot} meeting of ${day} from Google`,
+        fields,
+        affectedAttendees: meeting.users.length,
+        update
+      });
+    }
+
+    if (event.startTime.getTime() !== meeting.startTime.getTime() || event.endTime.getTime() !== meeting.endTime.getTime()) {
+      changes.push({
+        type: CALENDAR_CHANGE_TYPES.RESCHEDULE,
+        eventId: event.id,
+        meetingId: meeting.id,
+        day: event.day,
+        slot: meeting.slot,
+        description: `Move the ${meeting.slot} meeting of ${day} to ${event.day} ${event.time}`,
+        fields: [
+          { field: 'startTime', from: meeting.startTime.toISOString(), to: event.startTime.toISOString() },
+          { field: 'endTime', from: meeting.endTime.toISOString(), to: event.endTime.toISOString() }
+        ],
+        // Every attendee is emailed the new time
+        affectedAttendees: meeting.users.length,
+        reschedule: {
+          startTime: event.time,
+          duration: Math.round((event.endTime.getTime() - event.startTime.getTime()) / MINUTE_MS),
+          previousStartTime: meeting.startTime,
+          previousEndTime: meeting.endTime
+        }
+      });
+    }
+
+    const guestEmails = new Set(event.guests.map(guest => guest.email));
+    const memberEmails = new Set(meeting.users.map(user => user.email.toLowerCase()));
+    const add = meeting.users
+      .filter(user => !guestEmails.has(user.email.toLowerCase()))
+      .map(user => ({ email: user.email, name: `${user.firstName} ${user.lastName}`.trim() }));
+    const remove = event.guests
+      .filter(guest => !guest.organizer && !memberEmails.has(guest.email) && !protectedEmails.has(guest.email))
+      .map(guest => guest.email);
+    if (add.length > 0 || remove.length > 0) {
+      const guestFields: CalendarFieldChange[] = [];
+      if (add.length > 0) guestFields.push({ field: 'guestsAdded', from: null, to: add.map(user => user.email).join(', ') });
+      if (remove.length > 0) guestFields.push({ field: 'guestsRemoved', from: remove.join(', '), to: null });
+      changes.push({
+        type: CALENDAR_CHANGE_TYPES.ATTENDEES,
+        eventId: event.id,
+        meetingId: meeting.id,
+        day,
+        slot: meeting.slot,
+        description: `Put the guests of the ${meeting.slot} meeting of ${day} back to its members (${add.length} added, ${remove.length} removed)`,
+        fields: guestFields,
+        affectedAttendees: add.length + remove.length,
+        attendees: { add, remove }
+      });
+    }
+  }
+
+  // A full read of the calendar lists every event, so linked events it lacks were deleted
+  if (fullSync) {
+    for (const meeting of linkedMeetings) {
+      if (seen.has(meeting.googleEventId!) || meeting.cancelledAt) continue;
+      seen.add(meeting.googleEventId!);
+      changes.push(removalChange(meeting, meeting.googleEventId!));
+    }
+  }
+
+  // A change that differs in any way from the reviewed one gets a new ID
+  return changes.map(change => ({
+    id: `${change.type}:${change.eventId}:${crypto
+      .createHash('sha256')
+      .update(JSON.stringify([change.meetingId, change.fields]))
+      .digest('hex')
+      .slice(0, 12)}`,
+    ...change
+  }));
+}
+
+function removalChange(meeting: SyncMeeting, eventId: string): PlannedChange {
+  const day = getMeetingDay(meeting);
+  const base = {
+    eventId,
+    meetingId: meeting.id,
+    day,
+    slot: meeting.slot,
+    fields: [{ field: 'googleEventId', from: eventId, to: null }],
+    affectedAttendees: meeting.users.length
+  };
+  // Nothing to tell anyone about a synced meeting nobody was invited to
+  if (meeting.createdBy === 'calendar-sync' && meeting.users.length === 0) {
+    return {
+      ...base,
+      type: CALENDAR_CHANGE_TYPES.DELETE,
+      description: `Delete the ${meeting.slot} meeting of ${day}; its event was deleted and nobody was invited`
+    };
+  }
+  return {
+    ...base,
+    type: CALENDAR_CHANGE_TYPES.CANCEL,
+    description: `Cancel the ${meeting.slot} meeting of ${day}; its event was deleted (${meeting.users.length} attendees)`
+  };
+}
+
+/**
+ * Make one change
+ * @returns A conflict message if the app kept its own version, otherwise null
+ */
+async function applyCalendarChange(change: CalendarChange): Promise<string | null> {
+  switch (change.type) {
+    case CALENDAR_CHANGE_TYPES.CREATE: {
+      const data = change.create!;
+      try {
+        await prisma.meeting.create({
+          data: {
+            meetingDate: new Date(change.day),
+            slot: change.slot,
+            platform: MEETING_PLATFORMS.GOOGLE_MEET,
+            meetingLink: data.meetingLink,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            createdBy: 'calendar-sync',
+            meetingTitle: data.meetingTitle,
+            meetingDesc: data.meetingDesc,
+            googleEventId: change.eventId,
+            isDefault: false
+          }
+        });
+      } catch (createError: any) {
+        // The slot's meeting was created meanwhile
+        if (createError.code === 'P2002') {
+          return `Event ${change.eventId}: the ${change.slot} meeting of ${change.day} already exists`;
+        }
+        throw createError;
+      }
+      return null;
+    }
+
+    case CALENDAR_CHANGE_TYPES.UPDATE:
+      await prisma.meeting.update({
+        where: { id: change.meetingId! },
+        data: change.update!
+      });
+      return null;
+
+    case CALENDAR_CHANGE_TYPES.RESCHEDULE: {
+      const data = change.reschedule!;
+      const result = await rescheduleMeeting({
+        meetingId: change.meetingId!,
+        date: change.day,
+        startTime: data.startTime,
+        duration: data.duration
+      });
+      if (result.success) return null;
+
+      // The app's time wins; put the event back
+      await google_update_meet_time(change.eventId, data.previousStartTime, data.previousEndTime);
+      return `Event ${change.eventId} moved back to ${data.previousStartTime.toISOString()}: ${result.message}`;
+    }
+
+    case CALENDAR_CHANGE_TYPES.CANCEL: {
+      const result = await cancelMeeting({
+        meetingId: change.meetingId!,
+        reason: 'Removed from the GOALETE calendar'
+      });
+      if (!result.success) throw new Error(result.message);
+      return null;
+    }
+
+    case CALENDAR_CHANGE_TYPES.DELETE:
+      await prisma.meeting.delete({ where: { id: change.meetingId! } });
+      return null;
+
+    case CALENDAR_CHANGE_TYPES.ATTENDEES: {
+      const data = change.attendees!;
+      if (data.add.length > 0) await google_add_users_to_meeting(change.eventId, data.add);
+      if (data.remove.length > 0) await google_remove_users_from_meeting(change.eventId, data.remove);
+      return null;
+    }
+  }
+}
+
+/**
+ * Take the calendar's sync lock
+ * @returns true if this caller may sync; otherwise the running sync is asked to run again
+ */
+async function acquireSyncLock(calendarId: string): Promise<boolean> {
+  await prisma.calendarSyncState.upsert({
+    where: { calendarId },
+    create: { calendarId },
+    update: {}
+  });
+  const { count } = await prisma.calendarSyncState.updateMany({
+    where: {
+      calendarId,
+      OR: [
+        { syncStartedAt: null },
+        { syncStartedAt: { lt: new Date(Date.now() - SYNC_LOCK_MS) } }
+      ]
+    },
+    data: { syncStartedAt: new Date(), resyncRequested: false }
+  });
+  if (count > 0) return true;
+
+  await prisma.calendarSyncState.update({
+    where: { calendarId },
+    data: { resyncRequested: true }
+  });
+  return false;
+}
+
+/**
+ * Sync the Google calendar with the meetings, reading only the events changed
+ * since the last sync unless there is no sync token or a full sync is asked for
+ * @param full Read the whole calendar, e.g. to recover from a missed change
+ * @param dryRun Work out the changes without making them or moving the sync token on
+ * @param review An admin's decisions on a dry run; changes in neither list are held
+ * @returns Changes made (or, on a dry run, to be made), held changes, conflicts and errors
+ */
+export async function syncGoogleCalendar({
+  full = false,
+  dryRun = false,
+  review
+}: {
+  full?: boolean;
+  dryRun?: boolean;
+  review?: CalendarSyncReview;
+} = {}): Promise<CalendarSyncResult> {
+  const calendarId = getCalendarId();
+  const counts = Object.fromEntries(
+    Object.values(CALENDAR_CHANGE_TYPES).map(type => [type, 0])
+  ) as Record<CalendarChangeType, number>;
+  const result: CalendarSyncResult = {
+    success: true,
+    message: '',
+    fullSync: false,
+    dryRun,
+    queued: false,
+    changes: [],
+    held: [],
+    rejected: 0,
+    counts,
+    conflicts: [],
+    errors: []
+  };
+
+  // A dry run changes nothing, so it doesn't need the lock
+  if (!dryRun && !await acquireSyncLock(calendarId)) {
+    result.queued = true;
+    result.message = 'A calendar sync is already running; it will pick up these changes';
+    return result;
+  }
+
+  try {
+    const calendar = await getCalendarClient(getAdminEmail());
+    let forceFull = full;
+
+    for (let run = 0; run < MAX_SYNC_RUNS; run++) {
+      const state = await prisma.calendarSyncState.findUnique({ where: { calendarId } });
+      let syncToken = forceFull ? null : state?.syncToken ?? null;
+      forceFull = false;
+
+      let listed: Awaited<ReturnType<typeof listEvents>>;
+      try {
+        listed = await listEvents(calendar, syncToken);
+      } catch (listError) {
+        if (!syncToken || !isGone(listError)) throw listError;
+        console.log('Calendar sync token expired; running a full sync');
+        listed = await listEvents(calendar, null);
+        syncToken = null;
+      }
+      const fullSync = !syncToken;
+      result.fullSync = result.fullSync || fullSync;
+
+      const events = listed.events.map(toSyncEvent).filter((event): event is SyncEvent => event !== null);
+      const changes = await planCalendarChanges(events, fullSync);
+      console.log(`Calendar sync read ${events.length} events${fullSync ? ' (full)' : ''}; ${changes.length} changes`);
+
+      if (dryRun) {
+        result.changes = changes;
+        for (const change of changes) counts[change.type]++;
+        break;
+      }
+
+      const held: CalendarChange[] = [];
+      for (const change of changes) {
+        if (review) {
+          if (review.rejected.includes(change.id)) {
+            result.rejected++;
+            continue;
+          }
+          if (!review.approved.includes(change.id)) {
+            held.push(change);
+            continue;
+          }
+        } else if (REVIEWED_CALENDAR_CHANGE_TYPES.includes(change.type)) {
+          held.push(change);
+          continue;
+        }
+
+        try {
+          const conflict = await applyCalendarChange(change);
+          if (conflict) {
+            result.conflicts.push(conflict);
+          } else {
+            result.changes.push(change);
+            counts[change.type]++;
+          }
+        } catch (changeError) {
+          const errorMsg = `${change.description}: ${changeError instanceof Error ? changeError.message : String(changeError)}`;
+          console.error(errorMsg);
+          result.errors.push(errorMsg);
+        }
+      }
+      result.held = held;
+
+      // Held changes must come back in the next sync, so the token only moves on without them
+      const { resyncRequested } = await prisma.calendarSyncState.update({
+        where: { calendarId },
+        data: {
+          syncToken: held.length > 0 ? syncToken : listed.nextSyncToken,
+          heldChanges: held.length,
+          lastSyncedAt: new Date()
+        },
+        select: { resyncRequested: true }
+      });
+      if (!resyncRequested) break;
+      await prisma.calendarSyncState.update({ where: { calendarId }, data: { resyncRequested: false } });
+    }
+  } catch (error) {
+    console.error('Calendar sync error:', error);
+    result.success = false;
+    result.errors.push(error instanceof Error ? error.message : String(error));
+  } finally {
+    if (!dryRun) {
+      await prisma.calendarSyncState.update({
+        where: { calendarId },
+        data: { syncStartedAt: null }
+      });
+    }
+  }
+
+  const applied = Object.entries(counts).filter(([, count]) => count > 0).map(([type, count]) => `${count} ${type}`);
+  result.message = result.success
+    ? `Calendar ${dryRun ? 'dry run' : 'synced'}${result.fullSync ? ' (full)' : ''}: ${applied.length > 0 ? applied.join(', ') : 'no changes'}` +
+      `${result.held.length > 0 ? `; ${result.held.length} held for review` : ''}` +
+      `${result.rejected > 0 ? `; ${result.rejected} rejected` : ''}` +
+      `${result.conflicts.length > 0 ? `; ${result.conflicts.length} conflicts` : ''}` +
+      `${result.errors.length > 0 ? `; ${result.errors.length} errors` : ''}`
+    : `Calendar sync failed: ${result.errors[result.errors.length - 1]}`;
+  console.log(result.message);
+  return result;
+}
+
+/**
+ * Get when the calendar was last synced, how many changes wait for review
+ * and until when Google sends notifications
+ */
+export async function getCalendarSyncStatus(): Promise<{
+  lastSyncedAt: Date | null;
+  heldChanges: number;
+  channelExpiresAt: Date | null;
+}> {
+  const state = await prisma.calendarSyncState.findUnique({ where: { calendarId: getCalendarId() } });
+  return {
+    lastSyncedAt: state?.lastSyncedAt ?? null,
+    heldChanges: state?.heldChanges ?? 0,
+    channelExpiresAt: state?.channelExpiresAt ?? null
+  };
+}
+
+function getWebhookUrl(): string | null {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+  // Google only delivers notifications to HTTPS addresses
+  if (!baseUrl || !baseUrl.startsWith('https://')) return null;
+  return `${baseUrl.replace(/\/$/, '')}/api/google/calendar-webhook`;
+}
+
+/**
+ * Ask Google to notify /api/google/calendar-webhook of calendar changes,
+ * replacing the current channel
+ * @returns Expiry of the new channel
+ */
+export async function watchGoogleCalendar(): Promise<Date> {
+  const address = getWebhookUrl();
+  if (!address) {
+    throw new Error('Calendar notifications need an https NEXT_PUBLIC_BASE_URL');
+  }
+
+  const calendarId = getCalendarId();
+  const calendar = await getCalendarClient(getAdminEmail());
+  const channelId = crypto.randomUUID();
+  const channelToken = crypto.randomBytes(24).toString('base64url');
+
+  const response = await calendar.events.watch({
+    calendarId,
+    requestBody: {
+      id: channelId,
+      type: 'web_hook',
+      address,
+      token: channelToken,
+      params: { ttl: String(CHANNEL_TTL_SECONDS) }
+    }
+  });
+  const channelExpiresAt = response.data.expiration
+    ? new Date(Number(response.data.expiration))
+    : new Date(Date.now() + CHANNEL_TTL_SECONDS * 1000);
+
+  const previous = await prisma.calendarSyncState.findUnique({ where: { calendarId } });
+  await prisma.calendarSyncState.upsert({
+    where: { calendarId },
+    create: { calendarId, channelId, channelResourceId: response.data.resourceId, channelToken, channelExpiresAt },
+    update: { channelId, channelResourceId: response.data.resourceId, channelToken, channelExpiresAt }
+  });
+
+  // Two live channels would send every notification twice
+  if (previous?.channelId && previous.channelResourceId) {
+    try {
+      await calendar.channels.stop({
+        requestBody: { id: previous.channelId, resourceId: previous.channelResourceId }
+      });
+    } catch (stopError) {
+      console.error(`Error stopping calendar channel ${previous.channelId}:`, stopError);
+    }
+  }
+
+  console.log(`✅ Watching calendar ${calendarId} on channel ${channelId} until ${channelExpiresAt.toISOString()}`);
+  return channelExpiresAt;
+}
+
+/**
+ * Renew the calendar's push channel if it is missing or about to expire
+ * @returns Expiry of the new channel, or null if none was needed or notifications can't be received here
+ */
+export async function renewCalendarWatchIfNeeded(): Promise<Date | null> {
+  if (!getWebhookUrl()) return null;
+
+  const state = await prisma.calendarSyncState.findUnique({ where: { calendarId: getCalendarId() } });
+  if (state?.channelExpiresAt && state.channelExpiresAt.getTime() - Date.now() > CHANNEL_RENEW_BEFORE_MS) {
+    return null;
+  }
+  return watchGoogleCalendar();
+}
+
+/**
+ * Check that a push notification comes from the calendar's current channel
+ * @param channelId X-Goog-Channel-ID header
+ * @param channelToken X-Goog-Channel-Token header
+ * @returns true if the notification is ours
+ */
+export async function isCalendarChannel(channelId: string, channelToken: string | null): Promise<boolean> {
+  const state = await prisma.calendarSyncState.findUnique({ where: { calendarId: getCalendarId() } });
+  if (!state?.channelId || !state.channelToken || !channelToken) return false;
+
+  const expected = Buffer.from(state.channelToken);
+  const received = Buffer.from(channelToken);
+  return state.channelId === channelId &&
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received);
+}
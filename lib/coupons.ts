@@ -0,0 +1,234 @@
+/**
+ * Coupon and promo code helpers
+ * Validation, discount calculation and redemption tracking for plan purchases
+ */
+import prisma from './prisma';
+import { getPurchasablePlan } from './plans';
+import { Prisma } from '@/generated/prisma';
+import type { Coupon, CouponRedemption } from '@/generated/prisma';
+
+export const COUPON_DISCOUNT_TYPES = {
+  PERCENTAGE: "percentage" as const,
+  FLAT: "flat" as const,
+} as const;
+
+// Redemptions that count against coupon limits (checkouts in progress reserve a use)
+const COUNTED_REDEMPTION_STATUSES = ['pending', 'redeemed'];
+
+// Tries at reserving a use when concurrent checkouts of the same coupon conflict
+const RESERVATION_ATTEMPTS = 3;
+
+/**
+ * Coupon validation result interface
+ */
+export interface CouponValidationResult {
+  valid: boolean;
+  reason: string | null;
+  coupon: Coupon | null;
+  discountAmount: number;
+}
+
+/**
+ * Result of reserving a coupon use for an order
+ */
+export interface CouponReservationResult {
+  reserved: boolean;
+  reason: string | null;
+  redemption: CouponRedemption | null;
+}
+
+/**
+ * Normalise a user-entered coupon code
+ * @param code Raw code
+ * @returns Uppercase code without surrounding whitespace
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Calculate the discount a coupon gives on a price
+ * The discounted price never drops below Rs. 1 as Razorpay cannot charge zero
+ * @param coupon Coupon to apply
+ * @param listPrice Price in INR before discount
+ * @returns Discount in INR
+ */
+export function calculateCouponDiscount(
+  coupon: Pick<Coupon, 'discountType' | 'discountValue'>,
+  listPrice: number
+): number {
+  const rawDiscount = coupon.discountType === COUPON_DISCOUNT_TYPES.PERCENTAGE
+    ? Math.round((listPrice * coupon.discountValue) / 100)
+    : coupon.discountValue;
+  return Math.min(Math.max(rawDiscount, 0), Math.max(listPrice - 1, 0));
+}
+
+/**
+ * Validate a coupon code for a plan purchase
+ * @param code Coupon code entered by the user
+ * @param planType Plan being purchased
+ * @param userId Purchasing user's ID, used for the per-user limit (optional)
+ * @returns Validation result including the discount in INR
+ */
+export async function validateCoupon({
+  code,
+  planType,
+  userId
+}: {
+  code: string;
+  planType: string;
+  userId?: string;
+}): Promise<CouponValidationResult> {
+  const invalid = (reason: string, coupon: Coupon | null = null): CouponValidationResult => ({
+    valid: false,
+    reason,
+    coupon,
+    discountAmount: 0
+  });
+
+  const plan = await getPurchasablePlan(planType);
+  if (!plan) {
+    return invalid(`Plan "${planType}" cannot be purchased`);
+  }
+
+  const coupon = await prisma.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) }
+  });
+
+  if (!coupon || !coupon.isActive) {
+    return invalid("This coupon code is not valid");
+  }
+
+  const now = new Date();
+  if (coupon.validFrom && coupon.validFrom > now) {
+    return invalid("This coupon is not active yet", coupon);
+  }
+  if (coupon.validUntil && coupon.validUntil < now) {
+    return invalid("This coupon has expired", coupon);
+  }
+
+  if (coupon.applicablePlans.length > 0 && !coupon.applicablePlans.includes(planType)) {
+    return invalid(`This coupon cannot be used for the ${plan.name}`, coupon);
+  }
+
+  const limitReason = await getRedemptionLimitReason(prisma, coupon, userId);
+  if (limitReason) {
+    return invalid(limitReason, coupon);
+  }
+
+  return {
+    valid: true,
+    reason: null,
+    coupon,
+    discountAmount: calculateCouponDiscount(coupon, plan.amount)
+  };
+}
+
+/**
+ * Check a coupon's redemption limits
+ * @param client Prisma client or transaction to count redemptions with
+ * @param coupon Coupon being used
+ * @param userId Purchasing user's ID, used for the per-user limit (optional)
+ * @returns Why the coupon cannot be used, or null if a use is left
+ */
+async function getRedemptionLimitReason(
+  client: Pick<Prisma.TransactionClient, 'couponRedemption'>,
+  coupon: Coupon,
+  userId?: string
+): Promise<string | null> {
+  if (coupon.maxRedemptions !== null) {
+    const totalRedemptions = await client.couponRedemption.count({
+      where: { couponId: coupon.id, status: { in: COUNTED_REDEMPTION_STATUSES } }
+    });
+    if (totalRedemptions >= coupon.maxRedemptions) {
+      return "This coupon has reached its usage limit";
+    }
+  }
+
+  if (userId && coupon.perUserLimit !== null) {
+    const userRedemptions = await client.couponRedemption.count({
+      where: { couponId: coupon.id, userId, status: { in: COUNTED_REDEMPTION_STATUSES } }
+    });
+    if (userRedemptions >= coupon.perUserLimit) {
+      return "You have already used this coupon";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reserve a coupon use for an order while checkout is in progress.
+ * The limits are checked again together with the reservation, in one
+ * serializable transaction, so concurrent checkouts cannot use a coupon
+ * more often than it allows.
+ * @param couponId Coupon ID
+ * @param userId Purchasing user's ID
+ * @param orderId Razorpay order ID
+ * @param discountAmount Discount in INR applied to the whole order
+ * @returns Reservation result with the reason when no use is left
+ */
+export async function reserveCouponRedemption({
+  couponId,
+  userId,
+  orderId,
+  discountAmount
+}: {
+  couponId: string;
+  userId: string;
+  orderId: string;
+  discountAmount: number;
+}): Promise<CouponReservationResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const coupon = await tx.coupon.findUnique({ where: { id: couponId } });
+        if (!coupon || !coupon.isActive) {
+          return { reserved: false, reason: "This coupon code is not valid", redemption: null };
+        }
+
+        const limitReason = await getRedemptionLimitReason(tx, coupon, userId);
+        if (limitReason) {
+          return { reserved: false, reason: limitReason, redemption: null };
+        }
+
+        const redemption = await tx.couponRedemption.create({
+          data: { couponId, userId, orderId, discountAmount, status: 'pending' }
+        });
+        return { reserved: true, reason: null, redemption };
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      // Another checkout reserved a use at the same time; count again
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034' && attempt < RESERVATION_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Mark the coupon use for an order as redeemed once payment succeeds
+ * @param orderId Razorpay order ID
+ * @returns Number of redemptions updated
+ */
+export async function markCouponRedeemed(orderId: string): Promise<number> {
+  const result = await prisma.couponRedemption.updateMany({
+    where: { orderId, status: 'pending' },
+    data: { status: 'redeemed' }
+  });
+  return result.count;
+}
+
+/**
+ * Release the coupon use for an abandoned order so it can be used again
+ * @param orderId Razorpay order ID
+ * @returns Number of redemptions released
+ */
+export async function releaseCouponRedemption(orderId: string): Promise<number> {
+  const result = await prisma.couponRedemption.updateMany({
+    where: { orderId, status: 'pending' },
+    data: { status: 'released' }
+  });
+  return result.count;
+}
@@ -3,7 +3,11 @@
  * Using nodemailer with Gmail SMTP
  */
 import nodemailer, { Transporter } from 'nodemailer';
-import { PLAN_PRICING, PLAN_TYPES } from './pricing';
+import { PLAN_PRICING, PLAN_TYPES, isPurchasablePlan } from './pricing';
+import { getJoinUrl } from './joinLinks';
+import { getMeetingPlatformLabel, MEETING_PLATFORM_LABELS } from './meetingPlatforms';
+import { ICS_METHODS, buildIcsCalendar, getIcsUid, getMeetingUid } from './ics';
+import { getCalendarFeedUrl } from './calendarFeed';
 
 /**
  * Creates and returns a configured nodemailer transport
@@ -492,55 +496,811 @@ export async function sendFamilyAdminNotificationEmail({
 export async function sendWelcomeEmail({
   recipient,
   planType,
+  planName,
   startDate,
   endDate,
   amount,
-  paymentId
+  paymentId,
+  paidBy,
+  invoice,
+  renewalManageUrl
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planType: string;
+  planName?: string;
+  startDate: Date;
+  endDate: Date;
+  amount: number;
+  paymentId?: string;
+  // Purchaser's name when the subscription is a seat of a group purchase
+  paidBy?: string;
+  invoice?: {
+    invoiceNumber: string;
+    fileName: string;
+    pdf: Buffer;
+  };
+  // Link to manage automatic renewal, when the plan renews automatically
+  renewalManageUrl?: string;
+}): Promise<boolean> {
+  try {
+    // Format dates for display
+    const formattedStartDate = startDate.toLocaleDateString('en-IN', { 
+      day: '2-digit', month: '2-digit', year: 'numeric' 
+    });
+    const formattedEndDate = endDate.toLocaleDateString('en-IN', { 
+      day: '2-digit', month: '2-digit', year: 'numeric' 
+    });
+    
+    // Prepare readable plan type
+    const planDisplay = planName
+      ?? (isPurchasablePlan(planType) ? PLAN_PRICING[planType].name : planType);
+      // Create HTML content with modern, elegant design
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Welcome to GOALETE Club!</title>        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #27ae60; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #27ae60; }
+          .highlight { font-weight: bold; color: #27ae60; }
+          .instructions { background-color: #eafaf1; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .contact-us { margin-top: 20px; background-color: #f0f7fd; padding: 15px; border-radius: 8px; border-left: 4px solid #3498db; }
+          .button { display: inline-block; background-color: #3498db; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; font-weight: 600; }
+          .social-links { margin: 15px 0; }
+          .social-links a { color: #3498db; text-decoration: none; margin: 0 10px; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Welcome to GOALETE Club!</h1>
+          <p>Your journey to achieving your goals starts now</p>
+        </div>
+        
+        <p>Dear ${recipient.name},</p>
+        
+        <p>Thank you for joining GOALETE Club! Your payment has been successfully processed, and your subscription is now active.</p>
+        
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planDisplay}</p>
+          ${paidBy
+            ? `<p><strong>Paid By:</strong> ${paidBy}</p>`
+            : `<p><strong>Amount Paid:</strong> ₹${amount.toFixed(2)}</p>`}
+          ${paymentId && !paidBy ? `<p><strong>Payment ID:</strong> ${paymentId}</p>` : ''}
+          ${invoice ? `<p><strong>Invoice:</strong> ${invoice.invoiceNumber} (attached)</p>` : ''}
+          <p><strong>Start Date:</strong> ${formattedStartDate}</p>
+          <p><strong>End Date:</strong> ${formattedEndDate}</p>
+          ${renewalManageUrl ? `<p><strong>Auto-Renewal:</strong> On - your plan renews automatically on ${formattedEndDate}. <a href="${renewalManageUrl}">Manage or stop renewal</a></p>` : ''}
+        </div>
+        
+        <div class="instructions">
+          <p><strong>What's Next?</strong></p>
+          <p>Our team will be in touch with you shortly to schedule your ${planType === PLAN_TYPES.DAILY ? 'session' : 'first session'}.</p>
+          <p>You will receive a calendar invitation via email with the meeting details.</p>
+          ${planType === PLAN_TYPES.DAILY ? `
+            <p>Your session will be conducted online via Google Meet on the selected date.</p>
+          ` : `
+            <p>Your sessions will be conducted online via Google Meet according to the schedule we will establish together.</p>
+          `}
+          <p>Sessions are typically held at <span class="highlight">9:00 PM (IST)</span>.</p>
+          <p>Please ensure you join the session on time for the best experience.</p>
+        </div>
+          <div class="contact-us">
+          <p><strong>Questions or Need Help?</strong></p>
+          <p>Our support team is ready to assist you with any questions you might have about your subscription or upcoming sessions.</p>
+          <a href="mailto:${process.env.ADMIN_EMAIL || 'info@goaleteclub.com'}" class="button">Contact Support</a>
+        </div>
+        
+        <p class="note">Note: Please keep this email for your records. It serves as confirmation of your subscription.</p>
+        
+        <p>We're excited to have you with us and look forward to helping you achieve your goals!</p>
+        
+        <p>Best regards,<br>GOALETE Club Team</p>
+        
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+          <div class="social-links">
+            <a href="https://instagram.com/goaleteclub">Instagram</a> | 
+            <a href="https://twitter.com/goaleteclub">Twitter</a> | 
+            <a href="https://facebook.com/goaleteclub">Facebook</a>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+    
+    // Send email
+    return await sendEmail({
+      to: recipient.email,
+      subject: `Welcome to GOALETE CLUB - Your ${planDisplay} Subscription`,
+      html: htmlContent,
+      attachments: invoice ? [{
+        filename: invoice.fileName,
+        content: invoice.pdf.toString('base64'),
+        contentType: 'application/pdf',
+        encoding: 'base64'
+      }] : undefined
+    });
+  } catch (error) {
+    console.error('Error sending welcome email:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a cancellation and refund confirmation email to a subscriber
+ * @param params Parameters including recipient details, plan, refund amount and reference
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendRefundConfirmationEmail({
+  recipient,
+  planType,
+  startDate,
+  endDate,
+  amountPaid,
+  refundAmount,
+  refundId,
+  reason
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planType: string;
+  startDate: Date;
+  endDate: Date;
+  amountPaid: number;
+  refundAmount: number;
+  refundId?: string;
+  reason?: string;
+}): Promise<boolean> {
+  try {
+    const formattedStartDate = startDate.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+    const formattedEndDate = endDate.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const planDisplay = isPurchasablePlan(planType) ? PLAN_PRICING[planType].name : planType;
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your GOALETE Club subscription has been cancelled</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #3498db; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #3498db; }
+          .highlight { font-weight: bold; color: #27ae60; }
+          .contact-us { margin-top: 20px; background-color: #f0f7fd; padding: 15px; border-radius: 8px; border-left: 4px solid #3498db; }
+          .button { display: inline-block; background-color: #3498db; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; font-weight: 600; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Subscription Cancelled</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>Your GOALETE Club subscription has been cancelled${refundAmount > 0 ? ' and a refund has been issued to your original payment method' : ''}.</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planDisplay}</p>
+          <p><strong>Period:</strong> ${formattedStartDate} - ${formattedEndDate}</p>
+          <p><strong>Amount Paid:</strong> ₹${amountPaid.toFixed(2)}</p>
+          <p><strong>Refund Amount:</strong> <span class="highlight">₹${refundAmount.toFixed(2)}</span></p>
+          ${refundId ? `<p><strong>Refund Reference:</strong> ${refundId}</p>` : ''}
+          ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+        </div>
+
+        ${refundAmount > 0 ? `
+          <p>Refunds usually reach your account within 5-7 working days, depending on your bank.</p>
+        ` : ''}
+        <p>You will no longer receive invites for upcoming GOALETE Club sessions under this subscription.</p>
+
+        <div class="contact-us">
+          <p><strong>Questions?</strong></p>
+          <p>If you did not expect this cancellation or have any questions about your refund, please get in touch.</p>
+          <a href="mailto:${process.env.ADMIN_EMAIL || 'info@goaleteclub.com'}" class="button">Contact Support</a>
+        </div>
+
+        <p class="note">Note: Please keep this email for your records. It serves as confirmation of your cancellation.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - Your ${planDisplay} Subscription Has Been Cancelled`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending refund confirmation email:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a seat invitation with a claim link to a member of a group purchase
+ * @param params Parameters including recipient email, purchaser, plan, dates and claim link
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendSeatInviteEmail({
+  recipientEmail,
+  purchaserName,
+  planName,
+  startDate,
+  endDate,
+  claimUrl
+}: {
+  recipientEmail: string;
+  purchaserName: string;
+  planName: string;
+  startDate: Date;
+  endDate: Date;
+  claimUrl: string;
+}): Promise<boolean> {
+  try {
+    const formattedStartDate = startDate.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+    const formattedEndDate = endDate.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>You have been invited to GOALETE Club</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #27ae60; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #27ae60; }
+          .button { display: inline-block; background-color: #27ae60; color: white; text-decoration: none; padding: 12px 24px; border-radius: 4px; font-weight: 600; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>You're Invited!</h1>
+        </div>
+
+        <p>Hello,</p>
+
+        <p><strong>${purchaserName}</strong> has reserved a seat for you in GOALETE Club sessions. The seat is already paid for; just confirm your details to start receiving session invites.</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planName}</p>
+          <p><strong>Start Date:</strong> ${formattedStartDate}</p>
+          <p><strong>End Date:</strong> ${formattedEndDate}</p>
+        </div>
+
+        <p style="text-align: center;">
+          <a href="${claimUrl}" class="button">Claim Your Seat</a>
+        </p>
+
+        <p class="note">If the button does not work, copy this link into your browser: ${claimUrl}</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipientEmail,
+      subject: `GOALETE CLUB - ${purchaserName} has invited you to join`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending seat invite email:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a dunning email after an automatic renewal charge fails
+ * @param params Parameters including recipient, plan, attempt count and the next retry
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendRenewalPaymentFailedEmail({
+  recipient,
+  planName,
+  amount,
+  attempt,
+  maxAttempts,
+  nextAttemptAt,
+  reason,
+  manageUrl
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planName: string;
+  amount: number;
+  attempt: number;
+  maxAttempts: number;
+  // Next retry, or null when this was the last attempt
+  nextAttemptAt: Date | null;
+  reason?: string;
+  manageUrl: string;
+}): Promise<boolean> {
+  try {
+    const formattedNextAttempt = nextAttemptAt?.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Renewal payment failed</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #e67e22; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #e67e22; }
+          .button { display: inline-block; background-color: #3498db; color: white; text-decoration: none; padding: 12px 24px; border-radius: 4px; font-weight: 600; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>We couldn't renew your plan</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>We tried to charge ₹${amount.toFixed(2)} to renew your ${planName}, but the payment did not go through${reason ? ` (${reason})` : ''}.</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planName}</p>
+          <p><strong>Attempt:</strong> ${attempt} of ${maxAttempts}</p>
+          ${formattedNextAttempt
+            ? `<p><strong>Next Attempt:</strong> ${formattedNextAttempt}</p>`
+            : `<p><strong>Status:</strong> Automatic renewal has stopped</p>`}
+        </div>
+
+        ${formattedNextAttempt
+          ? `<p>Please make sure your card or UPI account has sufficient balance and the autopay mandate is still active. We will try again automatically.</p>`
+          : `<p>This was our last attempt, so your plan will not renew. You can register again at any time to continue your sessions.</p>`}
+
+        <p style="text-align: center;">
+          <a href="${manageUrl}" class="button">Manage Auto-Renewal</a>
+        </p>
+
+        <p class="note">If the button does not work, copy this link into your browser: ${manageUrl}</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: nextAttemptAt
+        ? `GOALETE CLUB - Renewal payment failed for your ${planName}`
+        : `GOALETE CLUB - Your ${planName} could not be renewed`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending renewal payment failed email:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a notice that automatic renewal has been stopped
+ * @param params Parameters including recipient, plan, current period end and the reason
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendAutoRenewalStoppedEmail({
+  recipient,
+  planName,
+  endDate,
+  reason
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planName: string;
+  // End of the last paid period, if there is one
+  endDate?: Date;
+  reason: string;
+}): Promise<boolean> {
+  try {
+    const formattedEndDate = endDate?.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Automatic renewal stopped</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #3498db; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #3498db; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Automatic renewal stopped</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>Your ${planName} will no longer renew automatically: ${reason}</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planName}</p>
+          ${formattedEndDate ? `<p><strong>Access Until:</strong> ${formattedEndDate}</p>` : ''}
+        </div>
+
+        <p>No further charges will be made. You can register again at any time to continue your sessions.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - Automatic renewal of your ${planName} has stopped`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending auto-renewal stopped email:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a confirmation that a subscription has been paused
+ * @param params Parameters including recipient, plan, paused dates and the new end date
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendSubscriptionPausedEmail({
+  recipient,
+  planName,
+  pauseStart,
+  pauseEnd,
+  newEndDate,
+  reason
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planName: string;
+  pauseStart: Date;
+  // Last paused day
+  pauseEnd: Date;
+  newEndDate: Date;
+  reason: string;
+}): Promise<boolean> {
+  try {
+    const formatDate = (date: Date) => date.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your plan is paused</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #3498db; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #3498db; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Your plan is paused</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>Your ${planName} has been paused. You will not receive session invites while it is paused, and the paused days have been added to the end of your plan.</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planName}</p>
+          <p><strong>Paused:</strong> ${formatDate(pauseStart)} to ${formatDate(pauseEnd)}</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+          <p><strong>New End Date:</strong> ${formatDate(newEndDate)}</p>
+        </div>
+
+        <p>Your sessions resume automatically once the pause is over.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - Your ${planName} is paused`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending subscription paused email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tells a member that there is no session on a day and their plan has been
+ * extended to make up for it
+ * @param params Parameters including recipient, plan, the skipped day and the new end date
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendSubscriptionExtendedEmail({
+  recipient,
+  planName,
+  skippedDate,
+  reason,
+  newEndDate
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  planName: string;
+  skippedDate: Date;
+  reason: string;
+  newEndDate: Date;
+}): Promise<boolean> {
+  try {
+    const formatDate = (date: Date) => date.toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>No session today</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #3498db; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #3498db; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>No session today</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>There is no GOALETE session on ${formatDate(skippedDate)}. So that you don't lose the day, we have added it to the end of your ${planName}.</p>
+
+        <div class="plan-details">
+          <p><strong>Plan:</strong> ${planName}</p>
+          <p><strong>No session on:</strong> ${formatDate(skippedDate)}</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+          <p><strong>New End Date:</strong> ${formatDate(newEndDate)}</p>
+        </div>
+
+        <p>Your sessions continue as usual from the next day.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - No session on ${formatDate(skippedDate)}, your ${planName} has been extended`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending subscription extended email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tells a member that a session is full and they are on its waitlist
+ * @param params Parameters including recipient, session day and slot, and queue position
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendWaitlistedEmail({
+  recipient,
+  sessionDate,
+  slotLabel,
+  position
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  sessionDate: string;
+  slotLabel: string;
+  position: number;
+}): Promise<boolean> {
+  try {
+    const formattedDate = new Date(sessionDate).toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>You are on the waitlist</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #3498db; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #3498db; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>You are on the waitlist</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+
+        <p>The ${slotLabel.toLowerCase()} GOALETE session on ${formattedDate} is full. We have put you on its waitlist and will email you as soon as a seat opens up.</p>
+
+        <div class="plan-details">
+          <p><strong>Session:</strong> ${slotLabel}, ${formattedDate}</p>
+          <p><strong>Position on the waitlist:</strong> ${position}</p>
+        </div>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - You are on the waitlist for ${formattedDate}`,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Error sending waitlisted email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tells a waitlisted member that a seat has opened up: either they have been
+ * added to the meeting, or a seat is held for them to book until a deadline
+ * @param params Parameters including recipient, session day and slot, and the meeting or booking link
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendWaitlistPromotedEmail({
+  recipient,
+  sessionDate,
+  slotLabel,
+  meetingLink,
+  bookingUrl,
+  holdExpiresAt
 }: {
   recipient: {
     name: string;
     email: string;
   };
-  planType: string;
-  startDate: Date;
-  endDate: Date;
-  amount: number;
-  paymentId?: string;
+  sessionDate: string;
+  slotLabel: string;
+  meetingLink?: string;
+  bookingUrl?: string;
+  holdExpiresAt?: Date;
 }): Promise<boolean> {
   try {
-    // Format dates for display
-    const formattedStartDate = startDate.toLocaleDateString('en-IN', { 
-      day: '2-digit', month: '2-digit', year: 'numeric' 
+    const formattedDate = new Date(sessionDate).toLocaleDateString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric'
     });
-    const formattedEndDate = endDate.toLocaleDateString('en-IN', { 
-      day: '2-digit', month: '2-digit', year: 'numeric' 
+    const formattedDeadline = holdExpiresAt?.toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata', day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit'
     });
-    
-    // Prepare readable plan type
-    const planDisplay = planType === PLAN_TYPES.DAILY 
-      ? PLAN_PRICING[PLAN_TYPES.DAILY].name
-      : planType === PLAN_TYPES.MONTHLY 
-        ? PLAN_PRICING[PLAN_TYPES.MONTHLY].name
-        : PLAN_PRICING[PLAN_TYPES.COMBO_PLAN].name;
-      // Create HTML content with modern, elegant design
+    const link = meetingLink || bookingUrl;
+
     const htmlContent = `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Welcome to GOALETE Club!</title>        <style>
+        <title>A seat has opened up</title>
+        <style>
           body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
           .header { text-align: center; margin-bottom: 30px; }
           .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #27ae60; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
           h1 { color: #2c3e50; margin-bottom: 5px; }
           .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #27ae60; }
-          .highlight { font-weight: bold; color: #27ae60; }
-          .instructions { background-color: #eafaf1; padding: 15px; border-radius: 8px; margin: 20px 0; }
-          .contact-us { margin-top: 20px; background-color: #f0f7fd; padding: 15px; border-radius: 8px; border-left: 4px solid #3498db; }
-          .button { display: inline-block; background-color: #3498db; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; font-weight: 600; }
-          .social-links { margin: 15px 0; }
-          .social-links a { color: #3498db; text-decoration: none; margin: 0 10px; }
+          .button { display: inline-block; background-color: #27ae60; color: white; text-decoration: none; padding: 12px 24px; border-radius: 4px; font-weight: 600; }
           .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
           .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
         </style>
@@ -548,72 +1308,95 @@ export async function sendWelcomeEmail({
       <body>
         <div class="header">
           <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
-          <h1>Welcome to GOALETE Club!</h1>
-          <p>Your journey to achieving your goals starts now</p>
+          <h1>A seat has opened up!</h1>
         </div>
-        
+
         <p>Dear ${recipient.name},</p>
-        
-        <p>Thank you for joining GOALETE Club! Your payment has been successfully processed, and your subscription is now active.</p>
-        
+
+        ${meetingLink
+          ? `<p>Good news: a seat has opened up in the ${slotLabel.toLowerCase()} GOALETE session on ${formattedDate} and you have been added to it.</p>`
+          : `<p>Good news: a seat has opened up in the ${slotLabel.toLowerCase()} GOALETE session on ${formattedDate}. We are holding it for you until ${formattedDeadline}; book before then to keep it.</p>`}
+
         <div class="plan-details">
-          <p><strong>Plan:</strong> ${planDisplay}</p>
-          <p><strong>Amount Paid:</strong> ₹${amount.toFixed(2)}</p>
-          ${paymentId ? `<p><strong>Payment ID:</strong> ${paymentId}</p>` : ''}
-          <p><strong>Start Date:</strong> ${formattedStartDate}</p>
-          <p><strong>End Date:</strong> ${formattedEndDate}</p>
-        </div>
-        
-        <div class="instructions">
-          <p><strong>What's Next?</strong></p>
-          <p>Our team will be in touch with you shortly to schedule your ${planType === PLAN_TYPES.DAILY ? 'session' : 'first session'}.</p>
-          <p>You will receive a calendar invitation via email with the meeting details.</p>
-          ${planType === PLAN_TYPES.DAILY ? `
-            <p>Your session will be conducted online via Google Meet on the selected date.</p>
-          ` : `
-            <p>Your sessions will be conducted online via Google Meet according to the schedule we will establish together.</p>
-          `}
-          <p>Sessions are typically held at <span class="highlight">9:00 PM (IST)</span>.</p>
-          <p>Please ensure you join the session on time for the best experience.</p>
-        </div>
-          <div class="contact-us">
-          <p><strong>Questions or Need Help?</strong></p>
-          <p>Our support team is ready to assist you with any questions you might have about your subscription or upcoming sessions.</p>
-          <a href="mailto:${process.env.ADMIN_EMAIL || 'info@goaleteclub.com'}" class="button">Contact Support</a>
+          <p><strong>Session:</strong> ${slotLabel}, ${formattedDate}</p>
+          ${formattedDeadline && !meetingLink ? `<p><strong>Seat held until:</strong> ${formattedDeadline}</p>` : ''}
         </div>
-        
-        <p class="note">Note: Please keep this email for your records. It serves as confirmation of your subscription.</p>
-        
-        <p>We're excited to have you with us and look forward to helping you achieve your goals!</p>
-        
+
+        ${link ? `
+        <p style="text-align: center;">
+          <a href="${link}" class="button">${meetingLink ? 'Join the Session' : 'Book Your Seat'}</a>
+        </p>
+
+        <p class="note">If the button does not work, copy this link into your browser: ${link}</p>
+        ` : ''}
+
         <p>Best regards,<br>GOALETE Club Team</p>
-        
+
         <div class="footer">
           <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
-          <div class="social-links">
-            <a href="https://instagram.com/goaleteclub">Instagram</a> | 
-            <a href="https://twitter.com/goaleteclub">Twitter</a> | 
-            <a href="https://facebook.com/goaleteclub">Facebook</a>
-          </div>
         </div>
       </body>
       </html>
     `;
-    
-    // Send email
+
     return await sendEmail({
       to: recipient.email,
-      subject: `Welcome to GOALETE CLUB - Your ${planDisplay} Subscription`,
+      subject: `GOALETE CLUB - A seat has opened up for ${formattedDate}`,
       html: htmlContent
     });
   } catch (error) {
-    console.error('Error sending welcome email:', error);
+    console.error('Error sending waitlist promoted email:', error);
     return false;
   }
 }
 
 /**
- * Sends a meeting invite email with calendar attachment
+ * Build the calendar attachment of a session email (see lib/ics.ts)
+ */
+function buildMeetingIcs({
+  method,
+  uid,
+  sequence,
+  recipient,
+  meetingTitle,
+  meetingDescription,
+  meetingLink,
+  platformName,
+  startTime,
+  endTime
+}: {
+  method: typeof ICS_METHODS.REQUEST | typeof ICS_METHODS.CANCEL;
+  uid: string;
+  sequence: number;
+  recipient: { name: string; email: string };
+  meetingTitle: string;
+  meetingDescription: string;
+  meetingLink: string;
+  platformName: string;
+  startTime: Date;
+  endTime: Date;
+}): string {
+  return buildIcsCalendar({
+    method,
+    events: [{
+      uid,
+      sequence,
+      startTime,
+      endTime,
+      summary: meetingTitle,
+      description: `${meetingDescription}\n\nJoin ${platformName}: ${meetingLink}`,
+      location: meetingLink,
+      url: meetingLink,
+      cancelled: method === ICS_METHODS.CANCEL,
+      attendee: recipient
+    }]
+  });
+}
+
+/**
+ * Sends a meeting invite email with calendar attachment. With meetingId and
+ * userId the email carries the member's tracked join link instead of the raw
+ * meeting link; with userId it also links the member's calendar feed.
  * @param params Parameters including recipient details, meeting info, and platform
  * @returns Promise<boolean> indicating success or failure
  */
@@ -621,11 +1404,14 @@ export async function sendMeetingInvite({
   recipient,
   meetingTitle,
   meetingDescription,
-  meetingLink,
+  meetingLink: rawMeetingLink,
   startTime,
   endTime,
   platform,
-  hostLink
+  hostLink,
+  meetingId,
+  userId,
+  sequence = 0
 }: {
   recipient: {
     name: string;
@@ -638,12 +1424,21 @@ export async function sendMeetingInvite({
   endTime: Date;
   platform: string;
   hostLink?: string;
+  meetingId?: string;
+  userId?: string;
+  // Revision of the meeting's calendar entry (Meeting.sequence)
+  sequence?: number;
 }): Promise<boolean> {
   try {
-    // Format dates for calendar and display
-    const startDateISO = startTime.toISOString();
-    const endDateISO = endTime.toISOString();
-    
+    const meetingLink = (meetingId && userId && getJoinUrl(meetingId, userId, endTime)) || rawMeetingLink;
+    // The invite still goes out if the feed link cannot be made
+    const calendarFeedUrl = userId
+      ? await getCalendarFeedUrl(userId).catch(error => {
+          console.error('Error getting calendar feed URL:', error);
+          return null;
+        })
+      : null;
+
     // Format times for display in email body
     const timeOptions: Intl.DateTimeFormatOptions = { 
       hour: '2-digit', 
@@ -664,33 +1459,29 @@ export async function sendMeetingInvite({
     const formattedEndTime = endTime.toLocaleTimeString('en-IN', timeOptions);
     
     // Platform-specific content
-    const platformName = platform === 'Zoom' ? 'Zoom' : 'Google Meet';
-    const platformIcon = platform === 'Zoom' ? '🔵' : '👥';
-    const platformInstructions = platform === 'Zoom' 
+    // Callers pass either the stored platform or its display name
+    const platformName = getMeetingPlatformLabel(platform);
+    const isZoom = platformName === MEETING_PLATFORM_LABELS.zoom;
+    const platformIcon = isZoom ? '🔵' : '👥';
+    const platformInstructions = isZoom
       ? 'You can join using the Zoom app or directly from your web browser.'
-      : 'You can join directly from your web browser, no installation required.';
+      : platformName === MEETING_PLATFORM_LABELS.teams
+        ? 'You can join using the Microsoft Teams app or directly from your web browser.'
+        : 'You can join directly from your web browser, no installation required.';
     
     // Create iCalendar content for the meeting
-    const icalContent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//GOALETE CLUB//Meeting Invite//EN
-CALSCALE:GREGORIAN
-METHOD:REQUEST
-BEGIN:VEVENT
-DTSTART:${startDateISO.replace(/[-:]/g, '').replace(/\.\d+/g, '')}
-DTEND:${endDateISO.replace(/[-:]/g, '').replace(/\.\d+/g, '')}
-DTSTAMP:${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/g, '')}
-ORGANIZER;CN=GOALETE CLUB:mailto:${process.env.ADMIN_EMAIL}
-UID:${Date.now()}@goaleteclub.com
-ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN=${recipient.name}:mailto:${recipient.email}
-SUMMARY:${meetingTitle}
-DESCRIPTION:${meetingDescription}\\n\\nJoin ${platformName}: ${meetingLink}
-LOCATION:${meetingLink}
-SEQUENCE:0
-STATUS:CONFIRMED
-TRANSP:OPAQUE
-END:VEVENT
-END:VCALENDAR`;
+    const icalContent = buildMeetingIcs({
+      method: ICS_METHODS.REQUEST,
+      uid: meetingId ? getMeetingUid(meetingId) : getIcsUid(`invite-${Date.now()}`),
+      sequence,
+      recipient,
+      meetingTitle,
+      meetingDescription,
+      meetingLink,
+      platformName,
+      startTime,
+      endTime
+    });
       // Create HTML content with modern, elegant design
     const htmlContent = `
       <!DOCTYPE html>
@@ -701,13 +1492,13 @@ END:VCALENDAR`;
         <title>${meetingTitle}</title>
         <style>
           body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { text-align: center; margin-bottom: 30px; background-color: ${platform === 'Zoom' ? '#2D8CFF' : '#1a73e8'}; padding: 20px; border-radius: 8px; color: white; }
+          .header { text-align: center; margin-bottom: 30px; background-color: ${isZoom ? '#2D8CFF' : '#1a73e8'}; padding: 20px; border-radius: 8px; color: white; }
           h1 { margin-bottom: 5px; }
-          .meeting-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid ${platform === 'Zoom' ? '#2D8CFF' : '#1a73e8'}; }
+          .meeting-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid ${isZoom ? '#2D8CFF' : '#1a73e8'}; }
           .details-row { margin-bottom: 10px; }
           .details-label { font-weight: 600; color: #596880; }
           .meeting-link { background-color: #e8f4fd; padding: 15px; border-radius: 8px; margin: 20px 0; text-align: center; }
-          .meeting-link a { display: inline-block; background-color: ${platform === 'Zoom' ? '#2D8CFF' : '#1a73e8'}; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; font-weight: 600; margin-top: 10px; }
+          .meeting-link a { display: inline-block; background-color: ${isZoom ? '#2D8CFF' : '#1a73e8'}; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; font-weight: 600; margin-top: 10px; }
           .host-link { margin-top: 15px; font-size: 14px; color: #666; border-top: 1px solid #eee; padding-top: 15px; }
           .host-link a { color: #1a73e8; text-decoration: underline; }
           .calendar-info { font-style: italic; margin-top: 20px; color: #666; }
@@ -752,6 +1543,9 @@ END:VCALENDAR`;
         ` : ''}
         
         <p class="calendar-info">This invitation includes a calendar attachment. Add it to your calendar to receive a reminder.</p>
+        ${calendarFeedUrl ? `
+        <p class="calendar-info">To see all your upcoming sessions, subscribe to <a href="${calendarFeedUrl}">your GOALETE calendar</a> in Google Calendar, Outlook or Apple Calendar. Keep this link private.</p>
+        ` : ''}
 
         <div class="footer">
           <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
@@ -779,3 +1573,238 @@ END:VCALENDAR`;
     return false;
   }
 }
+
+/**
+ * Tells an attendee that their session has moved, with an updated calendar
+ * entry that replaces the one from the original invite
+ * @param params Parameters including recipient, meeting details, old and new times, and the calendar sequence
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendMeetingRescheduledEmail({
+  recipient,
+  meetingId,
+  userId,
+  meetingTitle,
+  meetingDescription,
+  meetingLink: rawMeetingLink,
+  platform,
+  previousStartTime,
+  startTime,
+  endTime,
+  sequence
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  meetingId: string;
+  userId: string;
+  meetingTitle: string;
+  meetingDescription: string;
+  meetingLink: string;
+  platform: string;
+  previousStartTime: Date;
+  startTime: Date;
+  endTime: Date;
+  sequence: number;
+}): Promise<boolean> {
+  try {
+    const meetingLink = getJoinUrl(meetingId, userId, endTime) || rawMeetingLink;
+    const platformName = getMeetingPlatformLabel(platform);
+    const formatDateTime = (date: Date) => date.toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata', weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', hour12: true
+    });
+
+    const icalContent = buildMeetingIcs({
+      method: ICS_METHODS.REQUEST,
+      uid: getMeetingUid(meetingId),
+      sequence,
+      recipient,
+      meetingTitle,
+      meetingDescription,
+      meetingLink,
+      platformName,
+      startTime,
+      endTime
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your session has moved</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #f39c12; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #f39c12; }
+          .old-time { color: #7f8c8d; text-decoration: line-through; }
+          .button { display: inline-block; background-color: #1a73e8; color: white; text-decoration: none; padding: 12px 24px; border-radius: 4px; font-weight: 600; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Your session has moved</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+        <p>The GOALETE session "${meetingTitle}" has been rescheduled. Your seat moves with it; you don't need to do anything.</p>
+
+        <div class="plan-details">
+          <p><strong>Was:</strong> <span class="old-time">${formatDateTime(previousStartTime)} (IST)</span></p>
+          <p><strong>Now:</strong> ${formatDateTime(startTime)} (IST)</p>
+          <p><strong>Platform:</strong> ${platformName}</p>
+        </div>
+
+        <p style="text-align: center;">
+          <a href="${meetingLink}" class="button">Join ${platformName} Meeting</a>
+        </p>
+
+        <p class="note">The attached calendar file updates the entry from your original invite.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+          <p>If you have any questions, please contact us at ${process.env.ADMIN_EMAIL || 'info@goaleteclub.com'}</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - Session rescheduled to ${formatDateTime(startTime)}`,
+      html: htmlContent,
+      attachments: [
+        {
+          filename: 'meeting-invite.ics',
+          content: icalContent,
+          contentType: 'text/calendar; charset=utf-8; method=REQUEST'
+        }
+      ]
+    });
+  } catch (error) {
+    console.error('Error sending meeting rescheduled email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tells an attendee that their session has been cancelled, with a calendar
+ * cancellation that removes the entry from the original invite
+ * @param params Parameters including recipient, meeting details, reason, and the calendar sequence
+ * @returns Promise<boolean> indicating success or failure
+ */
+export async function sendMeetingCancelledEmail({
+  recipient,
+  meetingId,
+  meetingTitle,
+  meetingDescription,
+  meetingLink,
+  platform,
+  startTime,
+  endTime,
+  reason,
+  sequence
+}: {
+  recipient: {
+    name: string;
+    email: string;
+  };
+  meetingId: string;
+  meetingTitle: string;
+  meetingDescription: string;
+  meetingLink: string;
+  platform: string;
+  startTime: Date;
+  endTime: Date;
+  reason?: string;
+  sequence: number;
+}): Promise<boolean> {
+  try {
+    const platformName = getMeetingPlatformLabel(platform);
+    const formattedStart = startTime.toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata', weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', hour12: true
+    });
+
+    const icalContent = buildMeetingIcs({
+      method: ICS_METHODS.CANCEL,
+      uid: getMeetingUid(meetingId),
+      sequence,
+      recipient,
+      meetingTitle,
+      meetingDescription,
+      meetingLink,
+      platformName,
+      startTime,
+      endTime
+    });
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Session cancelled</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; margin-bottom: 30px; }
+          .logo { width: 150px; height: 150px; border-radius: 50%; object-fit: cover; margin-bottom: 15px; border: 3px solid #e74c3c; box-shadow: 0 4px 8px rgba(0,0,0,0.1); }
+          h1 { color: #2c3e50; margin-bottom: 5px; }
+          .plan-details { background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin: 25px 0; border-left: 4px solid #e74c3c; }
+          .footer { margin-top: 40px; font-size: 14px; color: #7f8c8d; text-align: center; }
+          .note { font-size: 14px; color: #596880; font-style: italic; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="https://goaletemeet.vercel.app/goalete_logo.jpeg" alt="GOALETE Club" class="logo">
+          <h1>Session cancelled</h1>
+        </div>
+
+        <p>Dear ${recipient.name},</p>
+        <p>We're sorry, the GOALETE session "${meetingTitle}" on ${formattedStart} (IST) has been cancelled.</p>
+
+        ${reason ? `
+        <div class="plan-details">
+          <p><strong>Reason:</strong> ${reason}</p>
+        </div>
+        ` : ''}
+
+        <p class="note">The attached calendar file removes the session from your calendar.</p>
+
+        <p>Best regards,<br>GOALETE Club Team</p>
+
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} GOALETE CLUB. All rights reserved.</p>
+          <p>If you have any questions, please contact us at ${process.env.ADMIN_EMAIL || 'info@goaleteclub.com'}</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmail({
+      to: recipient.email,
+      subject: `GOALETE CLUB - Session on ${formattedStart} cancelled`,
+      html: htmlContent,
+      attachments: [
+        {
+          filename: 'meeting-cancel.ics',
+          content: icalContent,
+          contentType: 'text/calendar; charset=utf-8; method=CANCEL'
+        }
+      ]
+    });
+  } catch (error) {
+    console.error('Error sending meeting cancelled email:', error);
+    return false;
+  }
+}
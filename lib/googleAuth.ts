@@ -10,8 +10,9 @@ const SCOPES = ['https://www.googleapis.com/auth/calendar'];
 /**
  * Create JWT client for service account authentication with Domain-Wide Delegation
  * @param impersonateUser Email of the user to impersonate (optional for domain-wide delegation)
+ * @param scopes OAuth scopes to request (Calendar by default)
  */
-export function createJWTClient(impersonateUser?: string): JWT {
+export function createJWTClient(impersonateUser?: string, scopes: string[] = SCOPES): JWT {
   const clientEmail = process.env.GOOGLE_CLIENT_EMAIL;
   const privateKey = process.env.GOOGLE_PRIVATE_KEY;
 
@@ -25,7 +26,7 @@ export function createJWTClient(impersonateUser?: string): JWT {
   const jwtConfig: any = {
     email: clientEmail,
     key: privateKey.replace(/\\n/g, '\n'), // Handle escaped newlines properly
-    scopes: SCOPES,
+    scopes,
   };
 
   // Add subject (user impersonation) if provided for Domain-Wide Delegation
@@ -0,0 +1,359 @@
+/**
+ * Group (multi-seat) purchases
+ * A purchaser buys several seats of a plan in one order. The purchaser's own
+ * subscription carries the payment; every other seat belongs to a member
+ * who is invited by email and claims it through a link, at which point the
+ * seat becomes a subscription of its own under the same order
+ */
+import crypto from 'crypto';
+import prisma from './prisma';
+import { canUserSubscribeForDates } from './subscription';
+import { sendSeatInviteEmail } from './email';
+import { getPlanNames } from './plans';
+import { SubscriptionStatus } from './subscriptionStatus';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent, subscriptionSnapshot } from './subscriptionEvents';
+import type { GroupOrder, GroupSeat, Prisma, User } from '@/generated/prisma';
+import type { SubscriptionWithUser } from './payments';
+
+export const GROUP_ORDER_STATUSES = {
+  PENDING: "pending" as const,
+  PAID: "paid" as const,
+  FAILED: "failed" as const,
+  CANCELLED: "cancelled" as const,
+} as const;
+
+export const SEAT_STATUSES = {
+  INVITED: "invited" as const,
+  CLAIMED: "claimed" as const,
+  CANCELLED: "cancelled" as const,
+} as const;
+
+/**
+ * Seat with the group purchase it belongs to
+ */
+export type SeatWithGroupOrder = GroupSeat & { groupOrder: GroupOrder & { purchaser: User } };
+
+/**
+ * Result of a seat claim
+ */
+export interface SeatClaimResult {
+  claimed: boolean;
+  reason: string | null;
+  subscription?: SubscriptionWithUser;
+  purchaserName?: string;
+}
+
+/**
+ * Generate an unguessable token for a seat claim link
+ */
+export function createSeatClaimToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Build the link a member follows to claim a seat
+ * @param token Seat claim token
+ * @returns Absolute claim URL
+ */
+export function getSeatClaimUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://form.goalete.com';
+  return `${baseUrl.replace(/\/$/, '')}/claim?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Create the parent record of a group purchase with a seat for every member.
+ * The purchaser and any member whose subscription was created at checkout
+ * hold claimed seats; the remaining seats are invited by email once the
+ * order is paid.
+ * @param orderId Razorpay order ID
+ * @param purchaserSubscriptionId Subscription carrying the order's payment
+ * @param memberSubscriptionIds Subscriptions created at checkout for other members
+ * @param inviteEmails Emails of members who will claim their own seats
+ * @returns Group order with its seats
+ */
+export async function createGroupOrder({
+  orderId,
+  purchaserSubscriptionId,
+  memberSubscriptionIds = [],
+  inviteEmails = []
+}: {
+  orderId: string;
+  purchaserSubscriptionId: string;
+  memberSubscriptionIds?: string[];
+  inviteEmails?: string[];
+}): Promise<GroupOrder & { seatList: GroupSeat[] }> {
+  const subscriptionIds = [purchaserSubscriptionId, ...memberSubscriptionIds];
+  const subscriptions = await prisma.subscription.findMany({
+    where: { id: { in: subscriptionIds } },
+    include: { user: true }
+  });
+  const byId = new Map(subscriptions.map(sub => [sub.id, sub]));
+  const purchaserSubscription = byId.get(purchaserSubscriptionId);
+  if (!purchaserSubscription) {
+    throw new Error(`Subscription ${purchaserSubscriptionId} not found`);
+  }
+
+  const claimedSeats: Prisma.GroupSeatCreateWithoutGroupOrderInput[] = subscriptionIds.map((id, index) => ({
+    seatNumber: index + 1,
+    email: byId.get(id)!.user.email,
+    claimToken: createSeatClaimToken(),
+    status: SEAT_STATUSES.CLAIMED,
+    claimedAt: new Date(),
+    subscription: { connect: { id } }
+  }));
+  const invitedSeats: Prisma.GroupSeatCreateWithoutGroupOrderInput[] = inviteEmails.map((email, index) => ({
+    seatNumber: subscriptionIds.length + index + 1,
+    email: email.toLowerCase(),
+    claimToken: createSeatClaimToken(),
+    status: SEAT_STATUSES.INVITED
+  }));
+
+  const groupOrder = await prisma.groupOrder.create({
+    data: {
+      orderId,
+      purchaserId: purchaserSubscription.userId,
+      planType: purchaserSubscription.planType,
+      seats: claimedSeats.length + invitedSeats.length,
+      startDate: purchaserSubscription.startDate,
+      endDate: purchaserSubscription.endDate,
+      seatList: { create: [...claimedSeats, ...invitedSeats] }
+    },
+    include: { seatList: true }
+  });
+
+  await prisma.subscription.updateMany({
+    where: { id: { in: subscriptionIds } },
+    data: { groupOrderId: groupOrder.id }
+  });
+
+  return groupOrder;
+}
+
+/**
+ * Email claim links to invited members of a paid group purchase
+ * @param groupOrderId Group order to send invites for
+ * @param seatIds Only send to these seats; by default seats never invited before
+ * @returns Number of invites sent
+ */
+export async function sendGroupSeatInvites(groupOrderId: string, seatIds?: string[]): Promise<number> {
+  const groupOrder = await prisma.groupOrder.findUnique({
+    where: { id: groupOrderId },
+    include: {
+      purchaser: true,
+      seatList: {
+        where: {
+          status: SEAT_STATUSES.INVITED,
+          ...(seatIds ? { id: { in: seatIds } } : { invitedAt: null })
+        }
+      }
+    }
+  });
+  if (!groupOrder || groupOrder.status !== GROUP_ORDER_STATUSES.PAID) {
+    return 0;
+  }
+
+  const planNames = await getPlanNames();
+  const purchaserName = `${groupOrder.purchaser.firstName} ${groupOrder.purchaser.lastName}`;
+
+  let sent = 0;
+  for (const seat of groupOrder.seatList) {
+    const emailSent = await sendSeatInviteEmail({
+      recipientEmail: seat.email,
+      purchaserName,
+      planName: planNames[groupOrder.planType] || groupOrder.planType,
+      startDate: groupOrder.startDate,
+      endDate: groupOrder.endDate,
+      claimUrl: getSeatClaimUrl(seat.claimToken)
+    });
+    if (emailSent) {
+      await prisma.groupSeat.update({ where: { id: seat.id }, data: { invitedAt: new Date() } });
+      sent++;
+    } else {
+      console.error(`Failed to send seat invite to ${seat.email} for group order ${groupOrderId}`);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Mark the group purchase of a paid order as paid and invite its members.
+ * Orders that are not group purchases are ignored.
+ * @param orderId Razorpay order ID
+ * @returns Number of invites sent
+ */
+export async function activateGroupOrder(orderId: string): Promise<number> {
+  const groupOrder = await prisma.groupOrder.findUnique({ where: { orderId } });
+  if (!groupOrder) return 0;
+
+  if (groupOrder.status !== GROUP_ORDER_STATUSES.PAID) {
+    await prisma.groupOrder.update({
+      where: { id: groupOrder.id },
+      data: { status: GROUP_ORDER_STATUSES.PAID }
+    });
+  }
+  return sendGroupSeatInvites(groupOrder.id);
+}
+
+/**
+ * Mark the group purchase of an unpaid order as failed
+ * @param orderId Razorpay order ID
+ */
+export async function markGroupOrderFailed(orderId: string): Promise<void> {
+  await prisma.groupOrder.updateMany({
+    where: { orderId, status: GROUP_ORDER_STATUSES.PENDING },
+    data: { status: GROUP_ORDER_STATUSES.FAILED }
+  });
+}
+
+/**
+ * Look up a seat by its claim token
+ * @param token Seat claim token
+ * @returns Seat with its group purchase, or null if the token is unknown
+ */
+export async function getSeatByToken(token: string): Promise<SeatWithGroupOrder | null> {
+  return prisma.groupSeat.findUnique({
+    where: { claimToken: token },
+    include: { groupOrder: { include: { purchaser: true } } }
+  });
+}
+
+/**
+ * Check whether a seat can still be claimed
+ * @param seat Seat with its group purchase
+ * @returns Reason the seat cannot be claimed, or null if it can
+ */
+export function getSeatClaimIneligibilityReason(seat: SeatWithGroupOrder): string | null {
+  if (seat.status === SEAT_STATUSES.CLAIMED) {
+    return "This seat has already been claimed";
+  }
+  if (seat.status !== SEAT_STATUSES.INVITED) {
+    return "This seat is no longer available";
+  }
+  if (seat.groupOrder.status !== GROUP_ORDER_STATUSES.PAID) {
+    return "The purchase for this seat has not been paid";
+  }
+  if (seat.groupOrder.endDate < new Date()) {
+    return "The plan for this seat has ended";
+  }
+  return null;
+}
+
+/**
+ * Claim an invited seat: create or update the member's user record and
+ * give them an active subscription under the purchaser's order
+ * @param token Seat claim token
+ * @param member Member details entered on the claim page
+ * @returns Claim result with the new subscription
+ */
+export async function claimGroupSeat({
+  token,
+  firstName,
+  lastName,
+  phone
+}: {
+  token: string;
+  firstName: string;
+  lastName: string;
+  phone: string;
+}): Promise<SeatClaimResult> {
+  const seat = await getSeatByToken(token);
+  if (!seat) {
+    return { claimed: false, reason: "Invalid or expired claim link" };
+  }
+
+  const ineligibilityReason = getSeatClaimIneligibilityReason(seat);
+  if (ineligibilityReason) {
+    return { claimed: false, reason: ineligibilityReason };
+  }
+
+  const { groupOrder } = seat;
+  const subscriptionCheck = await canUserSubscribeForDates(
+    seat.email,
+    groupOrder.startDate,
+    groupOrder.endDate,
+    groupOrder.planType
+  );
+  if (!subscriptionCheck.canSubscribe) {
+    return { claimed: false, reason: subscriptionCheck.reason };
+  }
+
+  // The payment is recorded on the purchaser's subscription
+  const purchaserSubscription = await prisma.subscription.findFirst({
+    where: { groupOrderId: groupOrder.id, userId: groupOrder.purchaserId }
+  });
+  if (!purchaserSubscription) {
+    return { claimed: false, reason: "The purchase for this seat could not be found" };
+  }
+
+  const purchaserName = `${groupOrder.purchaser.firstName} ${groupOrder.purchaser.lastName}`;
+  const user = await prisma.user.upsert({
+    where: { email: seat.email },
+    update: {},
+    create: {
+      firstName,
+      lastName,
+      email: seat.email,
+      phone,
+      source: "Group Plan",
+      referenceName: purchaserName,
+    }
+  });
+
+  const alreadyMember = await prisma.subscription.count({
+    where: { groupOrderId: groupOrder.id, userId: user.id }
+  });
+  if (alreadyMember > 0) {
+    return { claimed: false, reason: "You already hold a seat in this group" };
+  }
+
+  // Claim the seat with a conditional update so a double submit cannot
+  // create two subscriptions
+  const subscription = await prisma.$transaction(async (tx) => {
+    const claim = await tx.groupSeat.updateMany({
+      where: { id: seat.id, status: SEAT_STATUSES.INVITED },
+      data: { status: SEAT_STATUSES.CLAIMED, claimedAt: new Date() }
+    });
+    if (claim.count === 0) return null;
+
+    const created = await tx.subscription.create({
+      data: {
+        userId: user.id,
+        planType: groupOrder.planType,
+        startDate: groupOrder.startDate,
+        endDate: groupOrder.endDate,
+        orderId: groupOrder.orderId,
+        paymentRef: purchaserSubscription.paymentRef,
+        paymentStatus: purchaserSubscription.paymentStatus,
+        status: SubscriptionStatus.active,
+        duration: purchaserSubscription.duration,
+        price: 0,
+        listPrice: 0,
+        discountAmount: 0,
+        billingState: purchaserSubscription.billingState,
+        planPriceId: purchaserSubscription.planPriceId,
+        groupOrderId: groupOrder.id,
+        slot: purchaserSubscription.slot,
+      },
+      include: { user: true }
+    });
+    await tx.groupSeat.update({
+      where: { id: seat.id },
+      data: { subscriptionId: created.id }
+    });
+    await recordSubscriptionEvent({
+      userId: created.userId,
+      subscriptionId: created.id,
+      type: SUBSCRIPTION_EVENT_TYPES.CREATED,
+      actor: EVENT_ACTORS.MEMBER,
+      after: subscriptionSnapshot(created),
+      note: `Claimed a seat bought by ${purchaserName}`
+    }, tx);
+    return created;
+  });
+
+  if (!subscription) {
+    return { claimed: false, reason: "This seat has already been claimed" };
+  }
+
+  return { claimed: true, reason: null, subscription, purchaserName };
+}
@@ -0,0 +1,142 @@
+/**
+ * GST configuration and tax calculation
+ * Plan prices are GST inclusive; these helpers split them into taxable value
+ * and CGST/SGST (intra-state) or IGST (inter-state)
+ */
+
+// GST rate applied to coaching sessions, in percent
+export const GST_RATE = 18;
+
+// SAC for commercial training and coaching services
+export const DEFAULT_SAC_CODE = "999293";
+
+// GST state codes, used for the place of supply
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+/**
+ * Seller details printed on invoices
+ */
+export interface SellerDetails {
+  name: string;
+  address: string;
+  gstin: string | null;
+  stateCode: string;
+  sacCode: string;
+}
+
+/**
+ * GST split of a tax-inclusive amount, all values in paise
+ */
+export interface GstBreakdown {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  interState: boolean;
+}
+
+/**
+ * Check whether a value is a known GST state code
+ */
+export function isGstStateCode(code: string | null | undefined): code is string {
+  return !!code && code in GST_STATES;
+}
+
+/**
+ * Read the seller's GST registration from the environment.
+ * The state defaults to the first two digits of the GSTIN.
+ * @returns Seller details
+ */
+export function getSellerDetails(): SellerDetails {
+  const gstin = process.env.GST_SELLER_GSTIN?.trim().toUpperCase() || null;
+  const stateFromGstin = gstin ? gstin.slice(0, 2) : null;
+  const stateCode = process.env.GST_SELLER_STATE_CODE || stateFromGstin || "29";
+
+  return {
+    name: process.env.GST_SELLER_NAME || "GOALETE CLUB",
+    address: process.env.GST_SELLER_ADDRESS || "",
+    gstin,
+    stateCode,
+    sacCode: process.env.GST_SAC_CODE || DEFAULT_SAC_CODE,
+  };
+}
+
+/**
+ * Split a GST-inclusive amount into taxable value and tax components
+ * @param totalInPaise Amount charged including GST, in paise
+ * @param placeOfSupply Customer's GST state code
+ * @param sellerStateCode Seller's GST state code
+ * @returns Breakdown in paise; CGST and SGST always add up to the total tax
+ */
+export function computeGstBreakdown(
+  totalInPaise: number,
+  placeOfSupply: string,
+  sellerStateCode: string
+): GstBreakdown {
+  const taxableValue = Math.round((totalInPaise * 100) / (100 + GST_RATE));
+  const tax = totalInPaise - taxableValue;
+  const interState = placeOfSupply !== sellerStateCode;
+
+  if (interState) {
+    return { taxableValue, cgst: 0, sgst: 0, igst: tax, total: totalInPaise, interState };
+  }
+
+  const cgst = Math.floor(tax / 2);
+  return { taxableValue, cgst, sgst: tax - cgst, igst: 0, total: totalInPaise, interState };
+}
+
+/**
+ * Get the Indian financial year (April to March) for a date in IST
+ * @param date Date to check
+ * @returns Financial year label, e.g. "2026-27"
+ */
+export function getFinancialYear(date: Date): string {
+  const istDate = new Date(date.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  const startYear = istDate.getMonth() >= 3 ? istDate.getFullYear() : istDate.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Format paise as a rupee amount with two decimals
+ */
+export function formatPaise(amountInPaise: number): string {
+  return (amountInPaise / 100).toFixed(2);
+}
@@ -0,0 +1,217 @@
+/**
+ * No-session calendar
+ * Admins mark days without a GOALETE session (festivals, coach leave). No
+ * default meeting is created on those days, single-day plans cannot be
+ * booked for them, and, when the holiday asks for it, subscriptions running
+ * on the day are pushed out by one day so members don't lose it.
+ */
+import { format } from 'date-fns';
+import prisma from './prisma';
+import { notPausedOn } from './pauses';
+import { getPlanNames } from './plans';
+import { PLAN_TYPES } from './pricing';
+import { rescheduleRenewal } from './renewals';
+import { sendSubscriptionExtendedEmail } from './email';
+import { ENTITLED_PAYMENT_STATUSES, SubscriptionStatus } from './subscriptionStatus';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent } from './subscriptionEvents';
+import type { Holiday } from '@/generated/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of adding or removing a holiday
+ */
+export interface HolidayResult {
+  success: boolean;
+  message: string;
+  holiday: Holiday | null;
+}
+
+/**
+ * Get today's date at midnight in IST
+ */
+function getTodayIST(): Date {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Key a holiday is stored under
+ * @param date Date in IST (as built from toLocaleString with Asia/Kolkata)
+ * @returns The day as yyyy-MM-dd
+ */
+export function toHolidayDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Get the holiday on a day, if any
+ * @param day Day as yyyy-MM-dd
+ * @returns The holiday or null
+ */
+export async function getHoliday(day: string): Promise<Holiday | null> {
+  return prisma.holiday.findUnique({ where: { date: day } });
+}
+
+/**
+ * Check whether a day has no session
+ * @param day Day as yyyy-MM-dd
+ * @returns true if the day is a holiday
+ */
+export async function isHoliday(day: string): Promise<boolean> {
+  return (await getHoliday(day)) !== null;
+}
+
+/**
+ * Get the holidays between two days
+ * @param from First day as yyyy-MM-dd (inclusive)
+ * @param to Last day as yyyy-MM-dd (inclusive)
+ * @returns Holidays in date order
+ */
+export async function getHolidays(from: string, to: string): Promise<Holiday[]> {
+  return prisma.holiday.findMany({
+    where: { date: { gte: from, lte: to } },
+    orderBy: { date: 'asc' }
+  });
+}
+
+/**
+ * Mark a day as having no session
+ * @param date Day as yyyy-MM-dd
+ * @param reason Shown to admins and in the extension email
+ * @param extendSubscriptions Push subscriptions running on the day out by one day
+ * @returns Holiday result with the created holiday
+ */
+export async function createHoliday({
+  date,
+  reason,
+  extendSubscriptions
+}: {
+  date: string;
+  reason: string;
+  extendSubscriptions: boolean;
+}): Promise<HolidayResult> {
+  if (date < toHolidayDate(getTodayIST())) {
+    return { success: false, message: `${date} is in the past`, holiday: null };
+  }
+  if (await isHoliday(date)) {
+    return { success: false, message: `${date} is already a no-session day`, holiday: null };
+  }
+
+  const holiday = await prisma.holiday.create({
+    data: { date, reason, extendSubscriptions }
+  });
+
+  // Meetings already scheduled for the day are left for the admin to remove
+  const scheduled = await prisma.meeting.count({
+    where: {
+      meetingDate: {
+        gte: new Date(`${date}T00:00:00.000Z`),
+        lt: new Date(new Date(`${date}T00:00:00.000Z`).getTime() + DAY_MS)
+      }
+    }
+  });
+
+  return {
+    success: true,
+    message: scheduled > 0
+      ? `${date} marked as a no-session day; ${scheduled} meeting(s) already scheduled for it were kept`
+      : `${date} marked as a no-session day`,
+    holiday
+  };
+}
+
+/**
+ * Remove a holiday that has not been applied yet
+ * @param holidayId Holiday to remove
+ * @returns Holiday result with the removed holiday
+ */
+export async function deleteHoliday(holidayId: string): Promise<HolidayResult> {
+  const holiday = await prisma.holiday.findUnique({ where: { id: holidayId } });
+  if (!holiday) {
+    return { success: false, message: "Holiday not found", holiday: null };
+  }
+  // Extensions are not rolled back, so an applied holiday stays on the calendar
+  if (holiday.extendedAt) {
+    return { success: false, message: `Subscriptions have already been extended for ${holiday.date}`, holiday };
+  }
+
+  await prisma.holiday.delete({ where: { id: holidayId } });
+  return { success: true, message: `${holiday.date} is a session day again`, holiday };
+}
+
+/**
+ * Push every subscription running on a holiday out by one day and tell the
+ * members. Run by the daily invite job on the day itself, so plans bought
+ * after the holiday was added are covered too; each holiday is applied once.
+ * @param holiday Today's holiday
+ * @param day Today in IST, as used to pick the day's members
+ * @returns Number of subscriptions extended
+ */
+export async function applyHolidayExtensions(holiday: Holiday, day: Date): Promise<number> {
+  if (!holiday.extendSubscriptions) return 0;
+
+  // Claim the holiday so overlapping runs don't extend twice
+  const claimed = await prisma.holiday.updateMany({
+    where: { id: holiday.id, extendedAt: null },
+    data: { extendedAt: new Date() }
+  });
+  if (claimed.count === 0) return 0;
+
+  // Members who would have been invited today; unlimited plans never run out
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      status: SubscriptionStatus.active,
+      paymentStatus: { in: ENTITLED_PAYMENT_STATUSES },
+      planType: { not: PLAN_TYPES.UNLIMITED },
+      startDate: { lte: day },
+      endDate: { gte: day },
+      ...notPausedOn(day)
+    },
+    include: { user: true }
+  });
+
+  const planNames = await getPlanNames();
+  let extended = 0;
+  for (const subscription of subscriptions) {
+    const newEndDate = new Date(subscription.endDate.getTime() + DAY_MS);
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.subscription.update({
+          where: { id: subscription.id },
+          data: { endDate: newEndDate }
+        });
+        await recordSubscriptionEvent({
+          userId: subscription.userId,
+          subscriptionId: subscription.id,
+          type: SUBSCRIPTION_EVENT_TYPES.EXTENDED,
+          actor: EVENT_ACTORS.SYSTEM,
+          before: { endDate: subscription.endDate },
+          after: { endDate: newEndDate },
+          note: `No session on ${holiday.date}: ${holiday.reason}`
+        }, tx);
+        await rescheduleRenewal(tx, subscription, newEndDate);
+      });
+      extended++;
+    } catch (extendError) {
+      console.error(`Error extending subscription ${subscription.id} for holiday ${holiday.date}:`, extendError);
+      continue;
+    }
+
+    const { user } = subscription;
+    await sendSubscriptionExtendedEmail({
+      recipient: { name: `${user.firstName} ${user.lastName}`.trim(), email: user.email },
+      planName: planNames[subscription.planType] || subscription.planType,
+      skippedDate: day,
+      reason: holiday.reason,
+      newEndDate
+    });
+  }
+
+  await prisma.holiday.update({
+    where: { id: holiday.id },
+    data: { subscriptionsExtended: extended }
+  });
+  return extended;
+}
@@ -0,0 +1,173 @@
+/**
+ * iCalendar (RFC 5545)
+ * Builds the calendar files attached to session emails and served by the
+ * member calendar feeds. Every session of a Meeting uses the UID of its
+ * Meeting.id, so an invite, a reschedule and a cancellation of one session
+ * all land on the same calendar entry; the highest SEQUENCE wins.
+ */
+
+const ICS_DOMAIN = 'goaleteclub.com';
+
+// Content lines longer than this many octets are folded (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+export const ICS_METHODS = {
+  PUBLISH: "PUBLISH" as const,   // Subscribed feeds
+  REQUEST: "REQUEST" as const,   // Invites and changes
+  CANCEL: "CANCEL" as const,     // Cancellations
+} as const;
+
+export type IcsMethod = typeof ICS_METHODS[keyof typeof ICS_METHODS];
+
+/**
+ * One session in a calendar file
+ */
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  startTime: Date;
+  endTime: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  cancelled?: boolean;
+  // Member the entry is for; invites and cancellations must name them
+  attendee?: { name: string; email: string };
+}
+
+/**
+ * Get the UID of a meeting's calendar entry
+ * @param meetingId Meeting ID
+ * @returns UID shared by every calendar file of the meeting
+ */
+export function getMeetingUid(meetingId: string): string {
+  return `${meetingId}@${ICS_DOMAIN}`;
+}
+
+/**
+ * Get the UID of a calendar entry that is not tied to a meeting yet
+ * @param key Unique key of the entry, e.g. the day and slot of a session
+ * @returns UID
+ */
+export function getIcsUid(key: string): string {
+  return `${key}@${ICS_DOMAIN}`;
+}
+
+/**
+ * Format a time as a UTC DATE-TIME (e.g. 20261020T153000Z)
+ */
+function toIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quote a parameter value such as CN when it holds characters that end a parameter
+ */
+function quoteParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'");
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Fold a content line to at most 75 octets per line, without splitting a
+ * multi-byte character
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEventLines(event: IcsEvent, method: IcsMethod, stamp: string): string[] {
+  const organizerEmail = process.env.ADMIN_EMAIL;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsDateTime(event.startTime)}`,
+    `DTEND:${toIcsDateTime(event.endTime)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  // Scheduling methods need an organizer and the attendee the message is for
+  if (method !== ICS_METHODS.PUBLISH && organizerEmail) {
+    lines.push(`ORGANIZER;CN=GOALETE CLUB:mailto:${organizerEmail}`);
+  }
+  if (event.attendee) {
+    lines.push(
+      `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN=${quoteParam(event.attendee.name || event.attendee.email)}:mailto:${event.attendee.email}`
+    );
+  }
+  lines.push(
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `TRANSP:${event.cancelled ? 'TRANSPARENT' : 'OPAQUE'}`,
+    'END:VEVENT'
+  );
+  return lines;
+}
+
+/**
+ * Build an iCalendar file
+ * @param method REQUEST or CANCEL for emails, PUBLISH for feeds
+ * @param events Sessions to include
+ * @param name Calendar name shown by apps that subscribe to a feed
+ * @returns File content with CRLF line endings and folded lines
+ */
+export function buildIcsCalendar({
+  method,
+  events,
+  name
+}: {
+  method: IcsMethod;
+  events: IcsEvent[];
+  name?: string;
+}): string {
+  const stamp = toIcsDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//GOALETE CLUB//Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`
+  ];
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  }
+  for (const event of events) {
+    lines.push(...buildEventLines(event, method, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,320 @@
+/**
+ * GST invoice generation
+ * One sequentially numbered invoice per paid order, rendered as PDF and
+ * stored in the database for re-download
+ */
+import prisma from './prisma';
+import { Prisma } from '@/generated/prisma';
+import type { Invoice } from '@/generated/prisma';
+import { PLAN_PRICING, isPurchasablePlan } from './pricing';
+import {
+  GST_RATE,
+  GST_STATES,
+  computeGstBreakdown,
+  formatPaise,
+  getFinancialYear,
+  getSellerDetails,
+  isGstStateCode,
+  type SellerDetails
+} from './gst';
+import { SimplePdfDocument, PAGE_HEIGHT, PAGE_WIDTH } from './pdf';
+import { PaymentStatus } from './subscriptionStatus';
+
+// Payment statuses of subscriptions that were paid and can be invoiced
+const INVOICEABLE_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.success];
+
+// Content stops this far above the bottom edge of a page, in points
+const PAGE_BOTTOM_MARGIN = 60;
+
+/**
+ * Invoice line item, one per subscription on the order (amounts in paise)
+ */
+export interface InvoiceLineItem {
+  subscriptionId: string;
+  description: string;
+  memberName: string;
+  memberEmail: string;
+  period: string;
+  listPrice: number;
+  discount: number;
+  amount: number;
+}
+
+/**
+ * Format an invoice number, e.g. GC/26-27/00001 (at most 16 characters as GST requires)
+ * @param financialYear Financial year label, e.g. "2026-27"
+ * @param sequence Sequence number within the financial year
+ * @returns Invoice number
+ */
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  const prefix = (process.env.INVOICE_PREFIX || 'GC').slice(0, 4);
+  return `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(5, '0')}`;
+}
+
+/**
+ * File name used when attaching or downloading an invoice
+ */
+export function getInvoiceFileName(invoiceNumber: string): string {
+  return `Invoice-${invoiceNumber.replace(/\//g, '-')}.pdf`;
+}
+
+/**
+ * Format a date as DD/MM/YYYY in IST
+ */
+function formatInvoiceDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', {
+    day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Asia/Kolkata'
+  });
+}
+
+/**
+ * Split text into lines of at most maxChars characters on word boundaries
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Render an invoice as a PDF document
+ * @param invoice Invoice data without the PDF
+ * @param seller Seller details printed in the header
+ * @returns PDF file contents
+ */
+function renderInvoicePdf(
+  invoice: Omit<Invoice, 'id' | 'pdf'>,
+  seller: SellerDetails
+): Buffer {
+  const doc = new SimplePdfDocument();
+  const lineItems = invoice.lineItems as unknown as InvoiceLineItem[];
+  const left = 50;
+  const right = PAGE_WIDTH - 50;
+  const interState = invoice.igst > 0;
+
+  // Header
+  doc.text(left, 60, 'TAX INVOICE', { size: 18, bold: true });
+  doc.text(right, 60, seller.name, { size: 12, bold: true, align: 'right' });
+  doc.line(left, 75, right, 75, 1);
+
+  // Seller details
+  let y = 95;
+  doc.text(left, y, seller.name, { bold: true });
+  for (const addressLine of wrapText(seller.address, 55)) {
+    y += 14;
+    doc.text(left, y, addressLine);
+  }
+  y += 14;
+  doc.text(left, y, `GSTIN: ${seller.gstin || 'Not registered'}`);
+  y += 14;
+  doc.text(left, y, `State: ${GST_STATES[seller.stateCode] || seller.stateCode} (${seller.stateCode})`);
+
+  // Invoice details
+  const details: [string, string][] = [
+    ['Invoice No:', invoice.invoiceNumber],
+    ['Invoice Date:', formatInvoiceDate(invoice.issuedAt)],
+    ['Order ID:', invoice.orderId],
+    ['Payment ID:', invoice.paymentRef || '-'],
+    ['Place of Supply:', `${GST_STATES[invoice.placeOfSupply] || invoice.placeOfSupply} (${invoice.placeOfSupply})`],
+  ];
+  details.forEach(([label, value], index) => {
+    doc.text(330, 95 + index * 14, label, { bold: true });
+    doc.text(right, 95 + index * 14, value, { align: 'right' });
+  });
+
+  // Bill to
+  y = Math.max(y, 95 + details.length * 14) + 25;
+  doc.text(left, y, 'Bill To', { bold: true, size: 11 });
+  y += 15;
+  doc.text(left, y, invoice.customerName);
+  y += 14;
+  doc.text(left, y, invoice.customerEmail);
+  if (invoice.customerPhone) {
+    y += 14;
+    doc.text(left, y, invoice.customerPhone);
+  }
+
+  const bottom = PAGE_HEIGHT - PAGE_BOTTOM_MARGIN;
+
+  // Continue on a new page when the next block would pass the bottom margin
+  const ensureSpace = (height: number): boolean => {
+    if (y + height <= bottom) return false;
+    doc.addPage();
+    doc.text(left, 50, `Tax invoice ${invoice.invoiceNumber} (continued)`, { size: 9 });
+    y = 80;
+    return true;
+  };
+
+  // Line items; the column headings are repeated on every page of the table
+  const itemsHeader = () => {
+    doc.line(left, y - 12, right, y - 12);
+    doc.text(left, y, '#', { bold: true });
+    doc.text(70, y, 'Description', { bold: true });
+    doc.text(310, y, 'SAC', { bold: true });
+    doc.text(410, y, 'Price', { bold: true, align: 'right' });
+    doc.text(475, y, 'Discount', { bold: true, align: 'right' });
+    doc.text(right, y, 'Amount', { bold: true, align: 'right' });
+    doc.line(left, y + 6, right, y + 6);
+  };
+  y += 30;
+  itemsHeader();
+
+  lineItems.forEach((item, index) => {
+    if (ensureSpace(34)) itemsHeader();
+    y += 22;
+    doc.text(left, y, String(index + 1));
+    doc.text(70, y, `${item.description} - ${item.memberName}`);
+    doc.text(310, y, invoice.sacCode);
+    doc.text(410, y, formatPaise(item.listPrice), { align: 'right' });
+    doc.text(475, y, item.discount > 0 ? `-${formatPaise(item.discount)}` : '-', { align: 'right' });
+    doc.text(right, y, formatPaise(item.amount), { align: 'right' });
+    y += 12;
+    doc.text(70, y, `${item.period} | ${item.memberEmail}`, { size: 8 });
+  });
+  doc.line(left, y + 10, right, y + 10);
+
+  // Totals
+  const totals: [string, string][] = [
+    ['Amount (incl. GST)', formatPaise(invoice.total)],
+  ];
+  if (invoice.discountAmount > 0) {
+    totals.unshift(['Coupon discount' + (invoice.couponCode ? ` (${invoice.couponCode})` : ''), `-${formatPaise(invoice.discountAmount)}`]);
+  }
+  totals.push(['Taxable value', formatPaise(invoice.taxableValue)]);
+  if (interState) {
+    totals.push([`IGST @ ${GST_RATE}%`, formatPaise(invoice.igst)]);
+  } else {
+    totals.push([`CGST @ ${GST_RATE / 2}%`, formatPaise(invoice.cgst)]);
+    totals.push([`SGST @ ${GST_RATE / 2}%`, formatPaise(invoice.sgst)]);
+  }
+
+  ensureSpace(30 + totals.length * 16 + 6);
+  y += 30;
+  totals.forEach(([label, value]) => {
+    doc.text(330, y, label);
+    doc.text(right, y, value, { align: 'right' });
+    y += 16;
+  });
+  doc.line(330, y - 8, right, y - 8);
+  y += 6;
+  doc.text(330, y, 'Total (INR)', { bold: true, size: 11 });
+  doc.text(right, y, formatPaise(invoice.total), { bold: true, size: 11, align: 'right' });
+
+  // Footer
+  ensureSpace(64);
+  y += 50;
+  doc.text(left, y, `Prices are inclusive of GST. Tax payable on reverse charge: No.`, { size: 9 });
+  y += 14;
+  doc.text(left, y, 'This is a computer generated invoice and does not require a signature.', { size: 9 });
+
+  return doc.toBuffer();
+}
+
+/**
+ * Get the invoice for a paid order, generating it on first use.
+ * Group orders produce a single invoice billed to the purchaser, listing
+ * the members who had a seat when it was issued.
+ * @param orderId Razorpay order ID
+ * @returns Invoice, or null if the order has no paid subscriptions
+ */
+export async function ensureOrderInvoice(orderId: string): Promise<Invoice | null> {
+  const existing = await prisma.invoice.findUnique({ where: { orderId } });
+  if (existing) return existing;
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: { orderId, paymentStatus: { in: INVOICEABLE_PAYMENT_STATUSES } },
+    include: { user: true, planPrice: { include: { plan: true } }, groupOrder: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (subscriptions.length === 0) {
+    return null;
+  }
+
+  // Group orders are billed to their purchaser, whose subscription carries
+  // the payment; any other order has a single subscription
+  const groupOrder = await prisma.groupOrder.findUnique({
+    where: { orderId },
+    include: { purchaser: true }
+  });
+  const payer = (groupOrder && subscriptions.find(sub => sub.userId === groupOrder.purchaserId)) || subscriptions[0];
+  const customer = groupOrder ? groupOrder.purchaser : payer.user;
+
+  const seller = getSellerDetails();
+  const placeOfSupply = isGstStateCode(payer.billingState) ? payer.billingState : seller.stateCode;
+
+  const lineItems: InvoiceLineItem[] = subscriptions.map(sub => ({
+    subscriptionId: sub.id,
+    description: (sub.planPrice?.plan.name
+      ?? (isPurchasablePlan(sub.planType) ? PLAN_PRICING[sub.planType].name : sub.planType))
+      // The purchaser of a group plan pays for every seat
+      + (sub.groupOrder?.purchaserId === sub.userId ? ` (${sub.groupOrder.seats} seats)` : ''),
+    memberName: `${sub.user.firstName} ${sub.user.lastName}`,
+    memberEmail: sub.user.email,
+    period: `${formatInvoiceDate(sub.startDate)} - ${formatInvoiceDate(sub.endDate)}`,
+    listPrice: (sub.listPrice || sub.price) * 100,
+    // An upgrade credit reduces the line like a discount
+    discount: (sub.discountAmount + sub.creditAmount) * 100,
+    amount: sub.price * 100,
+  }));
+
+  const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const discountAmount = subscriptions.reduce((sum, sub) => sum + sub.discountAmount * 100, 0);
+  const gst = computeGstBreakdown(total, placeOfSupply, seller.stateCode);
+  const issuedAt = new Date();
+  const financialYear = getFinancialYear(issuedAt);
+
+  try {
+    // Allocate the next number and create the invoice together so numbers have no gaps
+    return await prisma.$transaction(async (tx) => {
+      const counter = await tx.invoiceCounter.upsert({
+        where: { financialYear },
+        create: { financialYear, lastSequence: 1 },
+        update: { lastSequence: { increment: 1 } }
+      });
+
+      const invoiceData = {
+        invoiceNumber: formatInvoiceNumber(financialYear, counter.lastSequence),
+        financialYear,
+        sequence: counter.lastSequence,
+        orderId,
+        paymentRef: payer.paymentRef,
+        userId: customer.id,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        customerEmail: customer.email,
+        customerPhone: customer.phone || null,
+        placeOfSupply,
+        sellerGstin: seller.gstin,
+        sacCode: seller.sacCode,
+        lineItems: lineItems as unknown as Prisma.JsonArray,
+        couponCode: payer.couponCode,
+        discountAmount,
+        taxableValue: gst.taxableValue,
+        cgst: gst.cgst,
+        sgst: gst.sgst,
+        igst: gst.igst,
+        total,
+        issuedAt,
+      };
+
+      return tx.invoice.create({
+        data: { ...invoiceData, pdf: new Uint8Array(renderInvoicePdf(invoiceData, seller)) }
+      });
+    });
+  } catch (error) {
+    // Another request generated the invoice for this order first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.invoice.findUnique({ where: { orderId } });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Jitsi Meet meetings
+ * A Jitsi session is a room on our self-hosted Jitsi Meet server, so it costs
+ * nothing per meeting. Nothing is created on the server ahead of time: the
+ * room exists once someone joins with a valid token. Each meeting gets an
+ * unguessable room name and two links carrying a JWT for that room, a
+ * participant link stored as the meeting link and a moderator link stored as
+ * the host link (like Zoom's start URL).
+ *
+ * Needs JITSI_DOMAIN (e.g. meet.example.com), and JITSI_APP_ID and
+ * JITSI_APP_SECRET matching the server's token authentication (app_id and
+ * app_secret of the Prosody token auth module). Tokens stop working
+ * JOIN_LINK_GRACE_HOURS after the session ends.
+ *
+ * Jitsi keeps no participant records, so attendance for Jitsi sessions comes
+ * from tracked join links and manual check-ins.
+ */
+import crypto from 'crypto';
+import { JOIN_LINK_GRACE_HOURS } from './joinLinks';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface JitsiConfig {
+  domain: string;
+  appId: string;
+  appSecret: string;
+}
+
+function getJitsiConfig(): JitsiConfig {
+  const domain = process.env.JITSI_DOMAIN;
+  const appId = process.env.JITSI_APP_ID;
+  const appSecret = process.env.JITSI_APP_SECRET;
+
+  if (!domain || !appId || !appSecret) {
+    throw new Error('Jitsi Meet is not configured (JITSI_DOMAIN, JITSI_APP_ID, JITSI_APP_SECRET)');
+  }
+  // Accept the domain with or without a scheme
+  return { domain: domain.replace(/^https?:\/\//, '').replace(/\/+$/, ''), appId, appSecret };
+}
+
+function toBase64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a Jitsi JWT (HS256) for one room
+ */
+function signJitsiToken(
+  config: JitsiConfig,
+  roomName: string,
+  endTime: Date,
+  user: { name?: string; moderator: boolean }
+): string {
+  const header = toBase64Url({ alg: 'HS256', typ: 'JWT' });
+  const payload = toBase64Url({
+    aud: 'jitsi',
+    iss: config.appId,
+    sub: config.domain,
+    room: roomName,
+    exp: Math.floor((endTime.getTime() + JOIN_LINK_GRACE_HOURS * HOUR_MS) / 1000),
+    moderator: user.moderator,
+    context: {
+      user: { name: user.name, moderator: user.moderator }
+    }
+  });
+  const signature = crypto
+    .createHmac('sha256', config.appSecret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Build the participant and moderator links of a Jitsi room
+ * @param roomName Room name
+ * @param endTime Session end; the links expire a grace period after it
+ * @returns Participant join URL and moderator (host) URL
+ */
+export function jitsi_room_links(roomName: string, endTime: Date): { join_url: string; host_url: string } {
+  const config = getJitsiConfig();
+  const roomUrl = `https://${config.domain}/${encodeURIComponent(roomName)}`;
+  // Participants share one link, so Jitsi asks each of them for their name
+  const participantToken = signJitsiToken(config, roomName, endTime, { moderator: false });
+  const hostToken = signJitsiToken(config, roomName, endTime, { name: 'GOALETE Club Host', moderator: true });
+
+  return {
+    join_url: `${roomUrl}?jwt=${participantToken}`,
+    host_url: `${roomUrl}?jwt=${hostToken}`
+  };
+}
+
+/**
+ * Create a Jitsi Meet room for a session
+ * @param date ISO date string (YYYY-MM-DD)
+ * @param startTime string (HH:MM, 24-hour format, IST)
+ * @param duration number (minutes)
+ * @returns Room name, participant join URL and moderator URL
+ */
+export async function jitsi_create_meet({
+  date,
+  startTime,
+  duration
+}: {
+  date: string;
+  startTime: string;
+  duration: number;
+}): Promise<{ room_name: string; join_url: string; host_url: string }> {
+  const start = new Date(`${date}T${startTime}:00.000+05:30`);
+  const end = new Date(start.getTime() + duration * 60 * 1000);
+
+  // Rooms are open to anyone with a token for the name, so the name must not be guessable
+  const roomName = `goalete-${date}-${crypto.randomBytes(8).toString('hex')}`;
+  const links = jitsi_room_links(roomName, end);
+  console.log(`✅ Created Jitsi room ${roomName}`);
+
+  return { room_name: roomName, ...links };
+}
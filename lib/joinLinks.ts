@@ -0,0 +1,202 @@
+/**
+ * Tracked join links
+ * Invites link to /join/<token> instead of the raw meeting link. Each token is
+ * signed for one member and one meeting, so a click tells us who is joining,
+ * and a forwarded link only works for its member while they have a
+ * subscription for the session. Every click is logged; an allowed click counts
+ * as an attendance signal until the platform's participant records replace it.
+ *
+ * Tokens are signed with JOIN_LINK_SECRET; without it invites keep the raw
+ * meeting link.
+ */
+import crypto from 'crypto';
+import prisma from './prisma';
+import { notPausedOn } from './pauses';
+import { ATTENDANCE_SOURCES } from './attendance';
+import { ENTITLED_PAYMENT_STATUSES, SubscriptionStatus } from './subscriptionStatus';
+
+// Links keep working this long after the session ends, for members who run late
+export const JOIN_LINK_GRACE_HOURS = 2;
+
+export const JOIN_LINK_OUTCOMES = {
+  ALLOWED: "allowed" as const,
+  INVALID: "invalid" as const,               // Tampered with or not a join link
+  EXPIRED: "expired" as const,               // The session is over
+  NOT_FOUND: "not_found" as const,           // The meeting was removed
+  CANCELLED: "cancelled" as const,           // The session was cancelled after the invite went out
+  NO_SUBSCRIPTION: "no_subscription" as const,
+} as const;
+
+export type JoinLinkOutcome = typeof JOIN_LINK_OUTCOMES[keyof typeof JOIN_LINK_OUTCOMES];
+
+/**
+ * Member and meeting a join token was issued for
+ */
+export interface JoinTokenPayload {
+  meetingId: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Result of following a join link; meetingLink is set only when the member may join
+ */
+export interface JoinLinkResult {
+  outcome: JoinLinkOutcome;
+  message: string;
+  meetingLink?: string;
+  firstName?: string;
+}
+
+function getJoinLinkSecret(): string | null {
+  return process.env.JOIN_LINK_SECRET || null;
+}
+
+function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a join token for a member and a meeting
+ * @param meetingId Meeting the member is invited to
+ * @param userId Member the link is for
+ * @param sessionEnd End of the session; the token expires JOIN_LINK_GRACE_HOURS later
+ * @returns Signed token, or null if JOIN_LINK_SECRET is not set
+ */
+export function createJoinToken(meetingId: string, userId: string, sessionEnd: Date): string | null {
+  const secret = getJoinLinkSecret();
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(sessionEnd.getTime() / 1000) + JOIN_LINK_GRACE_HOURS * 60 * 60;
+  const payload = Buffer.from(JSON.stringify({ m: meetingId, u: userId, e: expiresAt })).toString('base64url');
+  return `${payload}.${signPayload(payload, secret)}`;
+}
+
+/**
+ * Get the tracked join URL of a member for a meeting
+ * @param meetingId Meeting the member is invited to
+ * @param userId Member the link is for
+ * @param sessionEnd End of the session
+ * @returns Join URL, or null if JOIN_LINK_SECRET is not set
+ */
+export function getJoinUrl(meetingId: string, userId: string, sessionEnd: Date): string | null {
+  const token = createJoinToken(meetingId, userId, sessionEnd);
+  if (!token) return null;
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://form.goalete.com';
+  return `${baseUrl.replace(/\/$/, '')}/join/${token}`;
+}
+
+/**
+ * Check a join token's signature and read it
+ * @param token Token from the join URL
+ * @returns What the token was issued for, or null if it is not a valid token
+ */
+export function verifyJoinToken(token: string): JoinTokenPayload | null {
+  const secret = getJoinLinkSecret();
+  const [payload, signature] = token.split('.');
+  if (!secret || !payload || !signature) return null;
+
+  const expected = Buffer.from(signPayload(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { m, u, e } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof m !== 'string' || typeof u !== 'string' || typeof e !== 'number') return null;
+    return { meetingId: m, userId: u, expiresAt: new Date(e * 1000) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow a member's join link: check the token and the member's subscription
+ * for the session, log the click and record the member as joining
+ * @param token Token from the join URL
+ * @param client Where the click came from
+ * @returns Outcome, with the meeting link when the member may join
+ */
+export async function resolveJoinLink(
+  token: string,
+  client: { ipAddress?: string | null; userAgent?: string | null } = {}
+): Promise<JoinLinkResult> {
+  const payload = verifyJoinToken(token);
+  if (!payload) {
+    return { outcome: JOIN_LINK_OUTCOMES.INVALID, message: "This join link is not valid." };
+  }
+
+  const [meeting, user] = await Promise.all([
+    prisma.meeting.findUnique({ where: { id: payload.meetingId } }),
+    prisma.user.findUnique({ where: { id: payload.userId }, select: { id: true, firstName: true } })
+  ]);
+  if (!meeting || !user) {
+    return { outcome: JOIN_LINK_OUTCOMES.NOT_FOUND, message: "This session is no longer scheduled." };
+  }
+
+  const logClick = (allowed: boolean) => prisma.joinLinkClick.create({
+    data: {
+      meetingId: meeting.id,
+      userId: user.id,
+      allowed,
+      ipAddress: client.ipAddress ?? null,
+      userAgent: client.userAgent?.slice(0, 500) ?? null
+    }
+  });
+
+  // Cancelling doesn't close every platform's room, so the link must stop here
+  if (meeting.cancelledAt) {
+    await logClick(false);
+    return {
+      outcome: JOIN_LINK_OUTCOMES.CANCELLED,
+      message: meeting.cancellationReason
+        ? `This session has been cancelled: ${meeting.cancellationReason}`
+        : "This session has been cancelled.",
+      firstName: user.firstName
+    };
+  }
+
+  if (payload.expiresAt < new Date()) {
+    await logClick(false);
+    return { outcome: JOIN_LINK_OUTCOMES.EXPIRED, message: "This session has ended.", firstName: user.firstName };
+  }
+
+  const day = meeting.meetingDate;
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      userId: user.id,
+      status: SubscriptionStatus.active,
+      paymentStatus: { in: ENTITLED_PAYMENT_STATUSES },
+      startDate: { lte: day },
+      endDate: { gte: day },
+      ...notPausedOn(day)
+    },
+    select: { id: true }
+  });
+  if (!subscription) {
+    await logClick(false);
+    return {
+      outcome: JOIN_LINK_OUTCOMES.NO_SUBSCRIPTION,
+      message: "Your plan does not include this session.",
+      firstName: user.firstName
+    };
+  }
+
+  // The first click counts as joining; other records are left as they are
+  await prisma.$transaction([
+    logClick(true),
+    prisma.attendance.upsert({
+      where: { meetingId_userId: { meetingId: meeting.id, userId: user.id } },
+      create: { meetingId: meeting.id, userId: user.id, source: ATTENDANCE_SOURCES.JOIN_LINK, joinedAt: new Date() },
+      update: {}
+    })
+  ]);
+
+  return {
+    outcome: JOIN_LINK_OUTCOMES.ALLOWED,
+    message: "Joining the session",
+    meetingLink: meeting.meetingLink,
+    firstName: user.firstName
+  };
+}
@@ -4,6 +4,15 @@ import { google } from 'googleapis';
 import { format } from 'date-fns';
 import { MeetingWithUsers } from '../types/meeting';
 import { getCalendarClient, getAuthenticatedJWT, getAdminEmail } from './googleAuth';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvents, type EventActor } from './subscriptionEvents';
+import { DEFAULT_SESSION_SLOT, getSlotForStartTime, getSlotStartTime, type SessionSlot } from './sessionSlots';
+import { ENTITLED_PAYMENT_STATUSES, LIVE_SUBSCRIPTION_STATUSES, SubscriptionStatus } from './subscriptionStatus';
+import { getMeetingCapacity, getMeetingDay, promoteWaitlist, subscriptionCoversDay, waitlistForMeeting } from './waitlist';
+import { isPausedOn } from './pauses';
+import { getHoliday, isHoliday } from './holidays';
+import { sendMeetingCancelledEmail, sendMeetingRescheduledEmail } from './email';
+import { getMeetingProvider, type CreatedProviderMeeting } from './meetingProviders';
+import { MEETING_PLATFORMS, type MeetingPlatform } from './meetingPlatforms';
 
 /**
  * Enhanced error handling for the Google API calls
@@ -56,7 +65,7 @@ function getSendUpdatesMode(): 'none' | 'all' | 'externalOnly' {
  * Create a meeting link for the given platform, date, and timeslot.
  * This is a simple function that only returns the URL string.
  * For more functionality use createMeeting or other higher-level functions.
- * @param platform 'google-meet' | 'zoom'
+ * @param platform Meeting platform
  * @param date ISO date string (YYYY-MM-DD)
  * @param startTime string (HH:MM, 24-hour format)
  * @param duration number (minutes)
@@ -72,22 +81,21 @@ export async function createMeetingLink({
   meetingTitle,
   meetingDesc
 }: {
-  platform: 'google-meet' | 'zoom',
+  platform: MeetingPlatform,
   date: string,
   startTime: string,
   duration: number,
   meetingTitle?: string,
   meetingDesc?: string
 }): Promise<string> {
-  if (platform === 'google-meet') {
-    const { join_url } = await google_create_meet({ date, startTime, duration, meetingTitle, meetingDesc });
-    return join_url;
-  } else if (platform === 'zoom') {
-    const { join_url } = await zoom_create_meet({ date, startTime, duration, meetingTitle, meetingDesc });
-    return join_url;
-  } else {
-    throw new Error('Unsupported platform');
-  }
+  const { meetingLink } = await getMeetingProvider(platform).create({
+    date,
+    startTime,
+    duration,
+    meetingTitle: meetingTitle || getDefaultMeetingTitle(date),
+    meetingDesc: meetingDesc || getDefaultMeetingDescription()
+  });
+  return meetingLink;
 }
 
 // Enhanced Google Meet creation with proper conference data following Google Calendar API guidelines
@@ -508,8 +516,148 @@ export async function google_add_users_to_meeting(eventId: string, users: { emai
   }
 }
 
+// Remove a single attendee from a Google Calendar event using get + patch
+export async function google_remove_user_from_meeting(eventId: string, email: string): Promise<void> {
+  try {
+    const impersonateUser = getAdminEmail();
+    const calendar = await getCalendarClient(impersonateUser);
+    const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+    const event = await calendar.events.get({
+      calendarId: calendarId,
+      eventId: eventId,
+      fields: 'attendees'
+    });
+
+    if (!event.data) {
+      throw new Error(`Event with ID ${eventId} not found`);
+    }
+
+    const attendees = event.data.attendees || [];
+    const remainingAttendees = attendees.filter((attendee: any) => attendee.email?.toLowerCase() !== email.toLowerCase());
+
+    if (remainingAttendees.length === attendees.length) {
+      console.log(`User ${email} is not an attendee of event ${eventId}`);
+      return;
+    }
+
+    await calendar.events.patch({
+      calendarId: calendarId,
+      eventId: eventId,
+      sendUpdates: getSendUpdatesMode(),
+      sendNotifications: !shouldDisableOrganizerNotifications(),
+      requestBody: {
+        attendees: remainingAttendees
+      }
+    });
+
+    console.log(`✅ Removed ${email} from event ${eventId} (patch method)`);
+  } catch (error) {
+    console.error(`Error removing user ${email} from Google Calendar event ${eventId}:`, error);
+    throw new Error(`Failed to remove user from Google Calendar event: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Remove several attendees from a Google Calendar event with one get + patch
+export async function google_remove_users_from_meeting(eventId: string, emails: string[]): Promise<void> {
+  if (emails.length === 0) {
+    console.log('No users to remove from meeting');
+    return;
+  }
+
+  try {
+    const impersonateUser = getAdminEmail();
+    const calendar = await getCalendarClient(impersonateUser);
+    const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+    const event = await calendar.events.get({
+      calendarId: calendarId,
+      eventId: eventId,
+      fields: 'attendees'
+    });
+
+    if (!event.data) {
+      throw new Error(`Event with ID ${eventId} not found`);
+    }
+
+    const removedEmails = new Set(emails.map(email => email.toLowerCase()));
+    const attendees = event.data.attendees || [];
+    const remainingAttendees = attendees.filter((attendee: any) => !removedEmails.has(attendee.email?.toLowerCase()));
+
+    if (remainingAttendees.length === attendees.length) {
+      console.log(`None of the ${emails.length} users are attendees of event ${eventId}`);
+      return;
+    }
+
+    await calendar.events.patch({
+      calendarId: calendarId,
+      eventId: eventId,
+      sendUpdates: getSendUpdatesMode(),
+      sendNotifications: !shouldDisableOrganizerNotifications(),
+      requestBody: {
+        attendees: remainingAttendees
+      }
+    });
+
+    console.log(`✅ Removed ${attendees.length - remainingAttendees.length} users from event ${eventId} (patch method)`);
+  } catch (error) {
+    console.error(`Error removing users from Google Calendar event ${eventId}:`, error);
+    throw new Error(`Failed to remove users from Google Calendar event: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Move a Google Calendar event to a new time; the Meet link stays the same
+export async function google_update_meet_time(eventId: string, startTime: Date, endTime: Date): Promise<void> {
+  try {
+    const impersonateUser = getAdminEmail();
+    const calendar = await getCalendarClient(impersonateUser);
+    const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+    await calendar.events.patch({
+      calendarId: calendarId,
+      eventId: eventId,
+      sendUpdates: getSendUpdatesMode(),
+      sendNotifications: !shouldDisableOrganizerNotifications(),
+      requestBody: {
+        start: { dateTime: startTime.toISOString(), timeZone: 'Asia/Kolkata' },
+        end: { dateTime: endTime.toISOString(), timeZone: 'Asia/Kolkata' }
+      }
+    });
+
+    console.log(`✅ Moved event ${eventId} to ${startTime.toISOString()} (patch method)`);
+  } catch (error) {
+    console.error(`Error moving Google Calendar event ${eventId}:`, error);
+    throw new Error(`Failed to update Google Calendar event: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Delete a Google Calendar event; an event that is already gone counts as deleted
+export async function google_cancel_meet(eventId: string): Promise<void> {
+  try {
+    const impersonateUser = getAdminEmail();
+    const calendar = await getCalendarClient(impersonateUser);
+    const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+    await calendar.events.delete({
+      calendarId: calendarId,
+      eventId: eventId,
+      sendUpdates: getSendUpdatesMode()
+    });
+
+    console.log(`✅ Deleted event ${eventId}`);
+  } catch (error) {
+    const apiError = error as ApiError;
+    if (apiError.response?.status === 404 || apiError.response?.status === 410) {
+      console.log(`Event ${eventId} was already deleted`);
+      return;
+    }
+    console.error(`Error deleting Google Calendar event ${eventId}:`, error);
+    throw new Error(`Failed to delete Google Calendar event: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 
-async function get_zoom_token(): Promise<string> {
+export async function get_zoom_token(): Promise<string> {
   const clientId = process.env.ZOOM_CLIENT_ID;
   const clientSecret = process.env.ZOOM_CLIENT_SECRET;
   const accountId = process.env.ZOOM_ACCOUNT_ID;
@@ -610,37 +758,119 @@ export async function zoom_create_meet({
   }
 }
 
+/**
+ * Move a Zoom meeting to a new time; the join link stays the same
+ * @param meetingId Zoom meeting ID
+ * @param startTime New start (UTC instant)
+ * @param duration New length in minutes
+ */
+export async function zoom_update_meet(meetingId: string, startTime: Date, duration: number): Promise<void> {
+  const accessToken = await get_zoom_token();
+  try {
+    await axios.patch(
+      `https://api.zoom.us/v2/meetings/${meetingId}`,
+      {
+        start_time: startTime.toISOString(),
+        duration,
+        timezone: 'Asia/Kolkata'
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  } catch (error: any) {
+    console.error('Zoom update error:', error.response?.data || error.message);
+    throw new Error('Failed to update Zoom meeting');
+  }
+}
+
+/**
+ * Delete a Zoom meeting without Zoom's own cancellation email; members are
+ * told by GOALETE. A meeting that is already gone counts as deleted.
+ * @param meetingId Zoom meeting ID
+ */
+export async function zoom_cancel_meet(meetingId: string): Promise<void> {
+  const accessToken = await get_zoom_token();
+  try {
+    await axios.delete(
+      `https://api.zoom.us/v2/meetings/${meetingId}`,
+      {
+        params: { cancel_meeting_reminder: false },
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      }
+    );
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      console.log(`Zoom meeting ${meetingId} was already deleted`);
+      return;
+    }
+    console.error('Zoom delete error:', error.response?.data || error.message);
+    throw new Error('Failed to delete Zoom meeting');
+  }
+}
+
 /**
  * STREAMLINED MEETING MANAGEMENT SYSTEM
  * This replaces multiple redundant functions with a unified approach
  */
 
+/**
+ * Raised when getOrCreate would create a meeting on a day without a session
+ */
+export class NoSessionDayError extends Error {
+  date: string;
+  reason: string;
+
+  constructor(date: string, reason: string) {
+    super(`No session on ${date} (${reason})`);
+    this.name = 'NoSessionDayError';
+    this.date = date;
+    this.reason = reason;
+  }
+}
+
 /**
  * Core unified function for all meeting operations
  * Handles: creation, retrieval, calendar sync, user management
  * @param options Meeting operation configuration
- * @returns Meeting record with users
+ * @returns Meeting record with users; a cancelled meeting is returned as it is,
+ * so callers sending its link must check cancelledAt first
+ * @throws NoSessionDayError if getOrCreate finds no meeting on a no-session day
  */
 export async function manageMeeting({
   date,
-  platform = 'google-meet',
-  startTime = '21:00',
+  slot = DEFAULT_SESSION_SLOT,
+  platform = MEETING_PLATFORMS.GOOGLE_MEET,
+  startTime = getSlotStartTime(slot),
   duration = 60,
+  capacity,
   meetingTitle,
   meetingDesc,
   userIds = [],
   operation = 'getOrCreate',
-  syncFromCalendar = true
+  syncFromCalendar = true,
+  actor = EVENT_ACTORS.SYSTEM
 }: {
   date: string;
-  platform?: 'google-meet' | 'zoom';
+  // Session of the day to manage; each slot has its own meeting
+  slot?: SessionSlot;
+  platform?: MeetingPlatform;
   startTime?: string;
   duration?: number;
+  // Maximum attendees of a new meeting; defaults to the slot's capacity
+  capacity?: number;
   meetingTitle?: string;
   meetingDesc?: string;
   userIds?: string[];
   operation?: 'getOrCreate' | 'create' | 'get';
   syncFromCalendar?: boolean;
+  // Who is adding the users, for their subscription history
+  actor?: EventActor;
 }): Promise<MeetingWithUsers> {
   const dateObj = new Date(date);
   
@@ -650,7 +880,8 @@ export async function manageMeeting({
       meetingDate: {
         gte: new Date(dateObj.setHours(0, 0, 0, 0)),
         lt: new Date(dateObj.setHours(23, 59, 59, 999))
-      }
+      },
+      slot
     },
     include: { users: true },
     orderBy: { createdAt: 'desc' }
@@ -658,78 +889,271 @@ export async function manageMeeting({
 
   // Step 2: If no database meeting and sync enabled, check Google Calendar
   if (!existingMeeting && syncFromCalendar && operation !== 'create') {
-    console.log(`No meeting found in database for ${date}, checking Google Calendar`);
-    existingMeeting = await syncCalendarEvent(date);
+    console.log(`No ${slot} meeting found in database for ${date}, checking Google Calendar`);
+    existingMeeting = await syncCalendarEvent(date, slot);
   }
 
   // Step 3: Handle based on operation type
   switch (operation) {
     case 'get':
       if (!existingMeeting) {
-        throw new Error(`No meeting found for date ${date}`);
+        throw new Error(`No ${slot} meeting found for date ${date}`);
       }
-      return await addUsersToMeeting(existingMeeting, userIds);
+      return await addUsersToMeeting(existingMeeting, userIds, actor);
 
     case 'create':
       if (existingMeeting) {
-        throw new Error(`Meeting already exists for date ${date}`);
+        throw new Error(`A ${slot} meeting already exists for date ${date}`);
       }
       return await createNewMeeting({
-        date, platform, startTime, duration, meetingTitle, meetingDesc, userIds
+        date, slot, platform, startTime, duration, capacity, meetingTitle, meetingDesc, userIds, actor
       });
 
     case 'getOrCreate':
-    default:
+    default: {
       if (existingMeeting) {
-        return await addUsersToMeeting(existingMeeting, userIds);
+        return await addUsersToMeeting(existingMeeting, userIds, actor);
+      }
+      // Only an explicit create may add a session on a no-session day
+      const holiday = await getHoliday(date);
+      if (holiday) {
+        throw new NoSessionDayError(date, holiday.reason);
       }
       return await createNewMeeting({
-        date, platform, startTime, duration, meetingTitle, meetingDesc, userIds
+        date, slot, platform, startTime, duration, capacity, meetingTitle, meetingDesc, userIds, actor
       });
+    }
   }
 }
 
+/**
+ * Result of rescheduling or cancelling a meeting
+ */
+export interface MeetingChangeResult {
+  success: boolean;
+  message: string;
+  meeting: MeetingWithUsers | null;
+  // Attendees emailed about the change
+  notified: number;
+}
+
+/**
+ * Move a meeting to a new time, and optionally a new day, on its platform and
+ * in the database, then email every attendee the new time with an updated
+ * calendar entry. The meeting keeps its slot and link.
+ * @param meetingId Meeting to move
+ * @param date New day as yyyy-MM-dd; defaults to the meeting's day
+ * @param startTime New start as HH:MM (24-hour, IST)
+ * @param duration New length in minutes; defaults to the current length
+ * @returns Change result with the updated meeting
+ */
+export async function rescheduleMeeting({
+  meetingId,
+  date,
+  startTime,
+  duration
+}: {
+  meetingId: string;
+  date?: string;
+  startTime: string;
+  duration?: number;
+}): Promise<MeetingChangeResult> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: { users: true }
+  });
+  if (!meeting) {
+    return { success: false, message: "Meeting not found", meeting: null, notified: 0 };
+  }
+  if (meeting.cancelledAt) {
+    return { success: false, message: "Meeting has been cancelled", meeting, notified: 0 };
+  }
+
+  const currentDay = getMeetingDay(meeting);
+  const newDay = date || currentDay;
+  const newDuration = duration ?? Math.round((meeting.endTime.getTime() - meeting.startTime.getTime()) / (60 * 1000));
+  const newStart = new Date(`${newDay}T${startTime}:00.000+05:30`);
+  const newEnd = new Date(newStart.getTime() + (newDuration * 60 * 1000));
+
+  if (newStart.getTime() <= Date.now()) {
+    return { success: false, message: "The new time is in the past", meeting, notified: 0 };
+  }
+  if (newDay !== currentDay) {
+    if (await isHoliday(newDay)) {
+      return { success: false, message: `${newDay} is a no-session day`, meeting, notified: 0 };
+    }
+    // Each slot has one meeting a day
+    const clash = await prisma.meeting.findFirst({
+      where: {
+        meetingDate: {
+          gte: new Date(`${newDay}T00:00:00.000Z`),
+          lt: new Date(`${newDay}T23:59:59.999Z`)
+        },
+        slot: meeting.slot
+      },
+      select: { id: true }
+    });
+    if (clash) {
+      return { success: false, message: `A ${meeting.slot} meeting already exists for ${newDay}`, meeting, notified: 0 };
+    }
+  }
+
+  // Move the platform meeting first so the database never points at a time the link doesn't have
+  let platformChanges: Partial<CreatedProviderMeeting> | void;
+  try {
+    platformChanges = await getMeetingProvider(meeting.platform).update(meeting, newStart, newEnd);
+  } catch (platformError) {
+    console.error(`Error moving meeting ${meeting.id} on ${meeting.platform}:`, platformError);
+    return {
+      success: false,
+      message: platformError instanceof Error ? platformError.message : String(platformError),
+      meeting,
+      notified: 0
+    };
+  }
+
+  const updatedMeeting = await prisma.meeting.update({
+    where: { id: meeting.id },
+    data: {
+      meetingDate: new Date(newDay),
+      startTime: newStart,
+      endTime: newEnd,
+      ...platformChanges,
+      sequence: { increment: 1 }
+    },
+    include: { users: true }
+  });
+
+  let notified = 0;
+  for (const user of updatedMeeting.users) {
+    const sent = await sendMeetingRescheduledEmail({
+      recipient: { name: `${user.firstName} ${user.lastName}`.trim(), email: user.email },
+      meetingId: updatedMeeting.id,
+      userId: user.id,
+      meetingTitle: updatedMeeting.meetingTitle,
+      meetingDescription: updatedMeeting.meetingDesc || getDefaultMeetingDescription(),
+      meetingLink: updatedMeeting.meetingLink,
+      platform: updatedMeeting.platform,
+      previousStartTime: meeting.startTime,
+      startTime: newStart,
+      endTime: newEnd,
+      sequence: updatedMeeting.sequence
+    });
+    if (sent) notified++;
+  }
+
+  console.log(`Rescheduled meeting ${meeting.id} to ${newStart.toISOString()}; notified ${notified}/${updatedMeeting.users.length} attendees`);
+  return {
+    success: true,
+    message: `Meeting moved to ${newDay} ${startTime}; ${notified} of ${updatedMeeting.users.length} attendees notified`,
+    meeting: updatedMeeting,
+    notified
+  };
+}
+
+/**
+ * Cancel a meeting: delete it on its platform, mark the row cancelled and
+ * email every attendee a calendar cancellation. The row and its attendees are
+ * kept so the day is not recreated by the daily job.
+ * @param meetingId Meeting to cancel
+ * @param reason Shown to attendees in the cancellation email
+ * @returns Change result with the cancelled meeting
+ */
+export async function cancelMeeting({
+  meetingId,
+  reason
+}: {
+  meetingId: string;
+  reason?: string;
+}): Promise<MeetingChangeResult> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: { users: true }
+  });
+  if (!meeting) {
+    return { success: false, message: "Meeting not found", meeting: null, notified: 0 };
+  }
+  if (meeting.cancelledAt) {
+    return { success: false, message: "Meeting is already cancelled", meeting, notified: 0 };
+  }
+  if (meeting.endTime.getTime() <= Date.now()) {
+    return { success: false, message: "Meeting has already ended", meeting, notified: 0 };
+  }
+
+  try {
+    await getMeetingProvider(meeting.platform).cancel(meeting);
+  } catch (platformError) {
+    console.error(`Error cancelling meeting ${meeting.id} on ${meeting.platform}:`, platformError);
+    return {
+      success: false,
+      message: platformError instanceof Error ? platformError.message : String(platformError),
+      meeting,
+      notified: 0
+    };
+  }
+
+  const cancelledMeeting = await prisma.meeting.update({
+    where: { id: meeting.id },
+    data: {
+      cancelledAt: new Date(),
+      cancellationReason: reason || null,
+      sequence: { increment: 1 }
+    },
+    include: { users: true }
+  });
+
+  let notified = 0;
+  for (const user of cancelledMeeting.users) {
+    const sent = await sendMeetingCancelledEmail({
+      recipient: { name: `${user.firstName} ${user.lastName}`.trim(), email: user.email },
+      meetingId: cancelledMeeting.id,
+      meetingTitle: cancelledMeeting.meetingTitle,
+      meetingDescription: cancelledMeeting.meetingDesc || getDefaultMeetingDescription(),
+      meetingLink: cancelledMeeting.meetingLink,
+      platform: cancelledMeeting.platform,
+      startTime: cancelledMeeting.startTime,
+      endTime: cancelledMeeting.endTime,
+      reason,
+      sequence: cancelledMeeting.sequence
+    });
+    if (sent) notified++;
+  }
+
+  console.log(`Cancelled meeting ${meeting.id}; notified ${notified}/${cancelledMeeting.users.length} attendees`);
+  return {
+    success: true,
+    message: `Meeting cancelled; ${notified} of ${cancelledMeeting.users.length} attendees notified`,
+    meeting: cancelledMeeting,
+    notified
+  };
+}
+
 /**
  * Internal function: Create new meeting with platform integration
  */
 async function createNewMeeting({
-  date, platform, startTime, duration, meetingTitle, meetingDesc, userIds
+  date, slot, platform, startTime, duration, capacity, meetingTitle, meetingDesc, userIds, actor
 }: {
   date: string;
-  platform: 'google-meet' | 'zoom';
+  slot: SessionSlot;
+  platform: MeetingPlatform;
   startTime: string;
   duration: number;
+  capacity?: number;
   meetingTitle?: string;
   meetingDesc?: string;
   userIds: string[];
+  actor: EventActor;
 }): Promise<MeetingWithUsers> {
   const finalTitle = meetingTitle || getDefaultMeetingTitle(date);
   const finalDesc = meetingDesc || getDefaultMeetingDescription();
   
   // Create platform meeting
-  let meetingLink = '';
-  let googleEventId: string | undefined;
-  let zoomMeetingId: string | undefined;
-  let zoomStartUrl: string | undefined;
-
-  if (platform === 'google-meet') {
-    const { join_url, id } = await google_create_meet({ 
-      date, startTime, duration,
-      meetingTitle: finalTitle,
-      meetingDesc: finalDesc
-    });
-    meetingLink = join_url;
-    googleEventId = id;
-  } else if (platform === 'zoom') {
-    const response = await zoom_create_meet({ 
-      date, startTime, duration,
-      meetingTitle: finalTitle,
-      meetingDesc: finalDesc
-    });
-    meetingLink = response.join_url;
-    zoomMeetingId = response.id?.toString();
-    zoomStartUrl = response.start_url;
-  }
+  const platformMeeting = await getMeetingProvider(platform).create({
+    date, startTime, duration,
+    meetingTitle: finalTitle,
+    meetingDesc: finalDesc
+  });
 
   // Create database record
   const istDateTime = new Date(`${date}T${startTime}:00.000+05:30`);
@@ -738,26 +1162,25 @@ async function createNewMeeting({
   const meeting = await prisma.meeting.create({
     data: {
       meetingDate: new Date(date),
+      slot,
+      capacity,
       platform,
-      meetingLink,
+      ...platformMeeting,
       startTime: istDateTime,
       endTime: endDateTime,
       createdBy: 'system',
       meetingTitle: finalTitle,
       meetingDesc: finalDesc,
-      googleEventId,
-      zoomMeetingId,
-      zoomStartUrl,
       isDefault: false
     },
     include: { users: true }
   });
 
-  console.log(`Created ${platform} meeting for ${date} with ID: ${meeting.id}`);
+  console.log(`Created ${platform} ${slot} meeting for ${date} with ID: ${meeting.id}`);
   
   // Add users if provided
   if (userIds.length > 0) {
-    return await addUsersToMeeting(meeting, userIds);
+    return await addUsersToMeeting(meeting, userIds, actor);
   }
   
   return meeting;
@@ -768,11 +1191,16 @@ async function createNewMeeting({
  */
 async function addUsersToMeeting(
   meeting: MeetingWithUsers, 
-  userIds: string[]
+  userIds: string[],
+  actor: EventActor = EVENT_ACTORS.SYSTEM
 ): Promise<MeetingWithUsers> {
   if (userIds.length === 0) {
     return meeting;
   }
+  if (meeting.cancelledAt) {
+    console.log(`Meeting ${meeting.id} is cancelled; not adding users`);
+    return meeting;
+  }
 
   // Filter out users already in meeting
   const existingUserIds = new Set(meeting.users?.map(user => user.id) || []);
@@ -784,11 +1212,29 @@ async function addUsersToMeeting(
   }
 
   // Get user details
-  const newUsers = await prisma.user.findMany({
+  const candidates = await prisma.user.findMany({
     where: { id: { in: newUserIds } },
     select: { id: true, email: true, firstName: true, lastName: true }
   });
 
+  // Members beyond the meeting's capacity wait for a seat, in the order given
+  const capacity = getMeetingCapacity(meeting);
+  const freeSeats = capacity === null ? candidates.length : Math.max(capacity - existingUserIds.size, 0);
+  const orderedCandidates = newUserIds
+    .map(id => candidates.find(user => user.id === id))
+    .filter((user): user is typeof candidates[number] => !!user);
+  const newUsers = orderedCandidates.slice(0, freeSeats);
+  const overflowUserIds = orderedCandidates.slice(freeSeats).map(user => user.id);
+
+  if (overflowUserIds.length > 0) {
+    console.log(`Meeting ${meeting.id} is full (${capacity} seats); waitlisting ${overflowUserIds.length} users`);
+    try {
+      await waitlistForMeeting(meeting, overflowUserIds);
+    } catch (waitlistError) {
+      console.error(`Error waitlisting users for meeting ${meeting.id}:`, waitlistError);
+    }
+  }
+
   if (newUsers.length === 0) {
     return meeting;
   }
@@ -804,17 +1250,7 @@ async function addUsersToMeeting(
           : user.email.split('@')[0]
       }));
 
-    if (meeting.platform === 'google-meet' && meeting.googleEventId && usersForPlatform.length > 0) {
-      await google_add_users_to_meeting(meeting.googleEventId, usersForPlatform);
-    } else if (meeting.platform === 'zoom' && meeting.zoomMeetingId && usersForPlatform.length > 0) {
-      for (const user of usersForPlatform) {
-        try {
-          await zoom_add_user_to_meeting(meeting.zoomMeetingId!, user.email, user.name);
-        } catch (error) {
-          console.error(`Error adding ${user.email} to Zoom meeting:`, error);
-        }
-      }
-    }
+    await getMeetingProvider(meeting.platform).addAttendees(meeting, usersForPlatform);
   } catch (platformError) {
     console.error('Error adding users to platform meeting:', platformError);
   }
@@ -829,15 +1265,166 @@ async function addUsersToMeeting(
     },
     include: { users: true }
   });
+  await recordSubscriptionEvents(newUsers.map(user => ({
+    userId: user.id,
+    meetingId: meeting.id,
+    type: SUBSCRIPTION_EVENT_TYPES.MEETING_ADDED,
+    actor,
+    after: { meetingDate: meeting.meetingDate, slot: meeting.slot }
+  })));
 
   console.log(`Added ${newUsers.length} users to meeting ${meeting.id}`);
   return updatedMeeting;
 }
 
+/**
+ * Result of removing users from a meeting
+ */
+export interface MeetingRemovalResult {
+  success: boolean;
+  message: string;
+  removed: number;
+}
+
+/**
+ * Detach users from a meeting: take them off the platform meeting, remove them in the database, record it in their history
+ * and give the freed seats to the session's waitlist
+ * @param meetingId Meeting to remove the users from
+ * @param userIds Users to remove; users not in the meeting are ignored
+ * @param actor Who is removing them, for their subscription history
+ * @param subscriptionId Subscription the removal is about, if there is one
+ * @param note Reason kept in the history
+ * @returns Removal result with the number of users removed
+ */
+export async function removeUsersFromMeeting({
+  meetingId,
+  userIds,
+  actor = EVENT_ACTORS.SYSTEM,
+  subscriptionId,
+  note
+}: {
+  meetingId: string;
+  userIds: string[];
+  actor?: EventActor;
+  subscriptionId?: string;
+  note?: string;
+}): Promise<MeetingRemovalResult> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: { users: { select: { id: true, email: true } } }
+  });
+  if (!meeting) {
+    return { success: false, message: "Meeting not found", removed: 0 };
+  }
+
+  const removedIds = new Set(userIds);
+  const users = meeting.users.filter(user => removedIds.has(user.id));
+  if (users.length === 0) {
+    return { success: false, message: "User is not in this meeting", removed: 0 };
+  }
+
+  // A cancelled meeting has no platform meeting left to update
+  if (!meeting.cancelledAt) {
+    try {
+      await getMeetingProvider(meeting.platform).removeAttendees(meeting, users.map(user => user.email));
+    } catch (platformError) {
+      // The database is the source of truth for invites; keep detaching
+      console.error('Error removing users from platform meeting:', platformError);
+    }
+  }
+
+  await prisma.meeting.update({
+    where: { id: meeting.id },
+    data: {
+      users: {
+        disconnect: users.map(user => ({ id: user.id }))
+      }
+    }
+  });
+  await recordSubscriptionEvents(users.map(user => ({
+    userId: user.id,
+    subscriptionId,
+    meetingId: meeting.id,
+    type: SUBSCRIPTION_EVENT_TYPES.MEETING_REMOVED,
+    actor,
+    after: { meetingDate: meeting.meetingDate, slot: meeting.slot },
+    note
+  })));
+  console.log(`Removed ${users.length} users from meeting ${meeting.id}`);
+
+  if (!meeting.cancelledAt && meeting.endTime.getTime() > Date.now()) {
+    try {
+      await promoteWaitlist(getMeetingDay(meeting), meeting.slot as SessionSlot);
+    } catch (waitlistError) {
+      console.error(`Error promoting waitlist for meeting ${meeting.id}:`, waitlistError);
+    }
+  }
+
+  return {
+    success: true,
+    message: `Removed ${users.length} user(s) from the meeting`,
+    removed: users.length
+  };
+}
+
+/**
+ * Detach members from upcoming meetings that none of their subscriptions
+ * covers any more, e.g. after a cancellation, refund, pause or an end date
+ * that was moved in. Run by the daily invite job.
+ * @returns Number of users removed, counted once per meeting
+ */
+export async function detachUncoveredUsers(): Promise<number> {
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      endTime: { gt: new Date() },
+      cancelledAt: null,
+      users: { some: {} }
+    },
+    include: { users: { select: { id: true } } },
+    orderBy: { meetingDate: 'asc' }
+  });
+  if (meetings.length === 0) return 0;
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      userId: { in: [...new Set(meetings.flatMap(meeting => meeting.users.map(user => user.id)))] },
+      status: { in: LIVE_SUBSCRIPTION_STATUSES },
+      paymentStatus: { in: ENTITLED_PAYMENT_STATUSES },
+      endDate: { gte: meetings[0].meetingDate }
+    },
+    include: { pauses: true }
+  });
+
+  let detached = 0;
+  for (const meeting of meetings) {
+    const day = getMeetingDay(meeting);
+    const uncovered = meeting.users.filter(user => !subscriptions.some(subscription =>
+      subscription.userId === user.id &&
+      subscriptionCoversDay(subscription, day) &&
+      !subscription.pauses.some(pause => isPausedOn(pause, meeting.meetingDate))
+    ));
+    if (uncovered.length === 0) continue;
+
+    try {
+      const result = await removeUsersFromMeeting({
+        meetingId: meeting.id,
+        userIds: uncovered.map(user => user.id),
+        note: 'No subscription covers this session'
+      });
+      detached += result.removed;
+    } catch (removeError) {
+      console.error(`Error detaching users from meeting ${meeting.id}:`, removeError);
+    }
+  }
+
+  return detached;
+}
+
 /**
  * Internal function: Sync existing calendar event to database
+ * Events are matched to the slot whose default start time is nearest
  */
-async function syncCalendarEvent(date: string): Promise<MeetingWithUsers | null> {
+async function syncCalendarEvent(date: string, slot: SessionSlot = DEFAULT_SESSION_SLOT): Promise<MeetingWithUsers | null> {
   try {
     const impersonateUser = getAdminEmail();
     const calendar = await getCalendarClient(impersonateUser);
@@ -878,6 +1465,11 @@ async function syncCalendarEvent(date: string): Promise<MeetingWithUsers | null>
           const endTimeStr = event.end.dateTime || event.end.date;
           
           if (!startTimeStr || !endTimeStr) continue;
+
+          const eventStartIST = new Date(startTimeStr).toLocaleTimeString('en-GB', {
+            timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false
+          });
+          if (getSlotForStartTime(eventStartIST) !== slot) continue;
           
           console.log(`Syncing calendar event ${event.id} with meeting link`);
           
@@ -885,6 +1477,7 @@ async function syncCalendarEvent(date: string): Promise<MeetingWithUsers | null>
             const meeting = await prisma.meeting.create({
               data: {
                 meetingDate: new Date(date),
+                slot,
                 platform: 'google-meet',
                 meetingLink: videoEntryPoint.uri,
                 startTime: new Date(startTimeStr),
@@ -908,7 +1501,8 @@ async function syncCalendarEvent(date: string): Promise<MeetingWithUsers | null>
                   meetingDate: {
                     gte: new Date(date + 'T00:00:00.000Z'),
                     lt: new Date(date + 'T23:59:59.999Z')
-                  }
+                  },
+                  slot
                 },
                 include: { users: true },
                 orderBy: { createdAt: 'desc' }
@@ -927,6 +1521,28 @@ async function syncCalendarEvent(date: string): Promise<MeetingWithUsers | null>
   }
 }
 
+/**
+ * Get the slot a member attends on a day, from the newest subscription
+ * covering it
+ * @param userId Member to look up
+ * @param day Day of the session
+ * @returns The member's slot, or the default slot if no subscription covers the day
+ */
+export async function getUserSlotForDate(userId: string, day: Date): Promise<SessionSlot> {
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      userId,
+      status: SubscriptionStatus.active,
+      paymentStatus: { in: ENTITLED_PAYMENT_STATUSES },
+      startDate: { lte: day },
+      endDate: { gte: day }
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { slot: true }
+  });
+  return (subscription?.slot as SessionSlot | undefined) ?? DEFAULT_SESSION_SLOT;
+}
+
 /**
  * Helper functions
  */
@@ -937,7 +1553,7 @@ function getDefaultMeetingTitle(date?: string): string {
     : `GOALETE Club Session ${dateString}`;
 }
 
-function getDefaultMeetingDescription(): string {
+export function getDefaultMeetingDescription(): string {
   return process.env.DEFAULT_MEETING_DESCRIPTION || 
     'Join us for a GOALETE Club session to learn how to achieve any goal in life.';
 }
@@ -976,6 +1592,50 @@ export async function zoom_add_user_to_meeting(meetingId: string, email: string,
   }
 }
 
+/**
+ * Cancel a user's registration for a Zoom meeting, so their join link stops
+ * working. Users who are not registered are left alone.
+ * @param meetingId Zoom meeting ID
+ * @param email User's email the registration was made with
+ */
+export async function zoom_remove_user_from_meeting(meetingId: string, email: string): Promise<void> {
+  try {
+    const accessToken = await get_zoom_token();
+    const headers = {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+
+    // Find the registrant by email; Zoom cancels registrations by ID
+    let registrant: { id: string; email: string } | undefined;
+    let nextPageToken = '';
+    do {
+      const response = await axios.get(
+        `https://api.zoom.us/v2/meetings/${meetingId}/registrants`,
+        { headers, params: { status: 'approved', page_size: 300, next_page_token: nextPageToken || undefined } }
+      );
+      registrant = (response.data.registrants || []).find(
+        (candidate: { email?: string }) => candidate.email?.toLowerCase() === email.toLowerCase()
+      );
+      nextPageToken = response.data.next_page_token || '';
+    } while (!registrant && nextPageToken);
+
+    if (!registrant) {
+      console.log(`User ${email} is not registered for Zoom meeting ${meetingId}`);
+      return;
+    }
+
+    await axios.put(
+      `https://api.zoom.us/v2/meetings/${meetingId}/registrants/status`,
+      { action: 'cancel', registrants: [{ id: registrant.id, email: registrant.email }] },
+      { headers }
+    );
+  } catch (error: any) {
+    console.error('Zoom remove registrant error:', error.response?.data || error.message);
+    throw new Error('Failed to remove user from Zoom meeting');
+  }
+}
+
 /**
  * SIMPLIFIED WRAPPER FUNCTIONS FOR BACKWARD COMPATIBILITY
  * These replace the old redundant functions with calls to the unified manageMeeting function
@@ -1004,6 +1664,7 @@ export async function addUserToTodaysMeeting(userId: string, targetDate?: string
   
   return await manageMeeting({
     date: dateToUse,
+    slot: await getUserSlotForDate(userId, new Date(dateToUse)),
     userIds: [userId],
     operation: 'getOrCreate',
     syncFromCalendar: true
@@ -1021,7 +1682,7 @@ export async function getOrCreateDailyMeeting(targetDate?: string): Promise<Meet
     const today = new Date(dateToUse);
     const activeSubscriptions = await prisma.subscription.findMany({
       where: {
-        status: 'active',
+        status: SubscriptionStatus.active,
         startDate: { lte: today },
         endDate: { gte: today }
       },
@@ -1072,7 +1733,7 @@ export async function createMeeting({
   meetingTitle,
   meetingDesc
 }: {
-  platform: 'google-meet' | 'zoom',
+  platform: MeetingPlatform,
   date: string,
   startTime: string,
   duration: number,
@@ -1103,7 +1764,7 @@ export async function createCompleteMeeting({
   meetingDesc,
   userIds = []
 }: {
-  platform: 'google-meet' | 'zoom',
+  platform: MeetingPlatform,
   date: string,
   startTime: string,
   duration: number,
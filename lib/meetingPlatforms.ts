@@ -0,0 +1,53 @@
+/**
+ * Meeting platforms
+ * Each session runs on one platform, picked when the meeting is created and
+ * stored on the meeting. The platform decides which MeetingProvider (see
+ * lib/meetingProviders.ts) creates, moves and cancels it and manages its
+ * attendees. Kept free of platform SDKs so the admin calendar can use it.
+ */
+
+export const MEETING_PLATFORMS = {
+  GOOGLE_MEET: "google-meet" as const,
+  ZOOM: "zoom" as const,
+  TEAMS: "teams" as const,
+  JITSI: "jitsi" as const,
+} as const;
+
+export type MeetingPlatform = typeof MEETING_PLATFORMS[keyof typeof MEETING_PLATFORMS];
+
+export const MEETING_PLATFORM_VALUES = Object.values(MEETING_PLATFORMS) as [MeetingPlatform, ...MeetingPlatform[]];
+
+export const MEETING_PLATFORM_LABELS: Record<MeetingPlatform, string> = {
+  [MEETING_PLATFORMS.GOOGLE_MEET]: "Google Meet",
+  [MEETING_PLATFORMS.ZOOM]: "Zoom",
+  [MEETING_PLATFORMS.TEAMS]: "Microsoft Teams",
+  [MEETING_PLATFORMS.JITSI]: "Jitsi Meet",
+};
+
+/**
+ * Check whether a value is a known platform
+ * @param value Value to check
+ * @returns true if the value is a meeting platform
+ */
+export function isMeetingPlatform(value: unknown): value is MeetingPlatform {
+  return MEETING_PLATFORM_VALUES.includes(value as MeetingPlatform);
+}
+
+/**
+ * Get the name of a platform to show to members
+ * @param platform Platform stored on a meeting
+ * @returns Display name, or the value itself if the platform is unknown
+ */
+export function getMeetingPlatformLabel(platform: string): string {
+  return isMeetingPlatform(platform) ? MEETING_PLATFORM_LABELS[platform] : platform;
+}
+
+/**
+ * Get the platform of meetings created without one, from
+ * DEFAULT_MEETING_PLATFORM on the server
+ * @returns Default meeting platform
+ */
+export function getDefaultMeetingPlatform(): MeetingPlatform {
+  const platform = process.env.DEFAULT_MEETING_PLATFORM;
+  return isMeetingPlatform(platform) ? platform : MEETING_PLATFORMS.GOOGLE_MEET;
+}
@@ -0,0 +1,318 @@
+/**
+ * Meeting providers
+ * A MeetingProvider runs sessions on one platform: it creates the platform
+ * meeting, moves and cancels it, keeps its attendees in step with the
+ * meeting's members and reports who joined. lib/meetingLink.ts works through
+ * the provider of each meeting's platform instead of branching on it, so a
+ * new platform only needs a provider here and a value in meetingPlatforms.ts.
+ *
+ * Set MEETING_PROVIDER=fake to run every platform on an in-memory fake, so
+ * meetings can be tried without platform access.
+ */
+import { randomUUID } from 'crypto';
+import {
+  google_add_users_to_meeting,
+  google_cancel_meet,
+  google_create_meet,
+  google_remove_users_from_meeting,
+  google_update_meet_time,
+  zoom_add_user_to_meeting,
+  zoom_cancel_meet,
+  zoom_create_meet,
+  zoom_remove_user_from_meeting,
+  zoom_update_meet
+} from './meetingLink';
+import {
+  teams_add_users_to_meeting,
+  teams_cancel_meet,
+  teams_create_meet,
+  teams_fetch_participants,
+  teams_remove_users_from_meeting,
+  teams_update_meet
+} from './teamsMeeting';
+import { jitsi_create_meet, jitsi_room_links } from './jitsiMeeting';
+import {
+  createFakeAttendanceFetcher,
+  googleMeetAttendanceFetcher,
+  zoomAttendanceFetcher,
+  type AttendanceFetcher
+} from './attendance';
+import { MEETING_PLATFORMS, isMeetingPlatform, type MeetingPlatform } from './meetingPlatforms';
+import type { Meeting } from '@/generated/prisma';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Details of a meeting to create on a platform
+ */
+export interface NewProviderMeeting {
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:MM (24-hour, IST)
+  duration: number; // minutes
+  meetingTitle: string;
+  meetingDesc: string;
+}
+
+/**
+ * Link and platform references of a created meeting, stored on its Meeting row
+ */
+export interface CreatedProviderMeeting {
+  meetingLink: string;
+  googleEventId?: string;
+  zoomMeetingId?: string;
+  zoomStartUrl?: string;
+  teamsEventId?: string;
+  jitsiRoomName?: string;
+  jitsiHostUrl?: string;
+}
+
+/**
+ * Fields of a Meeting row a provider needs to find its platform meeting
+ */
+export type ProviderMeetingRef = Pick<
+  Meeting,
+  'id' | 'meetingLink' | 'startTime' | 'endTime' | 'googleEventId' | 'zoomMeetingId' | 'teamsEventId' | 'jitsiRoomName'
+>;
+
+/**
+ * Member to add to a platform meeting
+ */
+export interface MeetingAttendee {
+  email: string;
+  name?: string;
+}
+
+/**
+ * Runs sessions on one meeting platform. Meetings without a platform
+ * reference (e.g. created before the platform kept one) are left alone.
+ * update may return new links to store, for platforms whose links depend on
+ * the session time; platforms without participant records leave out
+ * fetchParticipants.
+ */
+export interface MeetingProvider {
+  platform: MeetingPlatform;
+  create(meeting: NewProviderMeeting): Promise<CreatedProviderMeeting>;
+  update(meeting: ProviderMeetingRef, startTime: Date, endTime: Date): Promise<Partial<CreatedProviderMeeting> | void>;
+  cancel(meeting: ProviderMeetingRef): Promise<void>;
+  addAttendees(meeting: ProviderMeetingRef, attendees: MeetingAttendee[]): Promise<void>;
+  removeAttendees(meeting: ProviderMeetingRef, emails: string[]): Promise<void>;
+  fetchParticipants?: AttendanceFetcher['fetchParticipants'];
+}
+
+/**
+ * Google Meet sessions are Google Calendar events with a Meet conference
+ */
+export const googleMeetProvider: MeetingProvider = {
+  platform: MEETING_PLATFORMS.GOOGLE_MEET,
+  async create(meeting) {
+    const { join_url, id } = await google_create_meet(meeting);
+    return { meetingLink: join_url, googleEventId: id };
+  },
+  async update(meeting, startTime, endTime) {
+    if (!meeting.googleEventId) return;
+    await google_update_meet_time(meeting.googleEventId, startTime, endTime);
+  },
+  async cancel(meeting) {
+    if (!meeting.googleEventId) return;
+    await google_cancel_meet(meeting.googleEventId);
+  },
+  async addAttendees(meeting, attendees) {
+    if (!meeting.googleEventId || attendees.length === 0) return;
+    await google_add_users_to_meeting(meeting.googleEventId, attendees);
+  },
+  async removeAttendees(meeting, emails) {
+    if (!meeting.googleEventId || emails.length === 0) return;
+    await google_remove_users_from_meeting(meeting.googleEventId, emails);
+  },
+  fetchParticipants(meeting) {
+    return googleMeetAttendanceFetcher.fetchParticipants(meeting);
+  }
+};
+
+/**
+ * Zoom sessions are scheduled meetings with members as registrants
+ */
+export const zoomProvider: MeetingProvider = {
+  platform: MEETING_PLATFORMS.ZOOM,
+  async create(meeting) {
+    const response = await zoom_create_meet(meeting);
+    return {
+      meetingLink: response.join_url,
+      zoomMeetingId: response.id?.toString(),
+      zoomStartUrl: response.start_url
+    };
+  },
+  async update(meeting, startTime, endTime) {
+    if (!meeting.zoomMeetingId) return;
+    await zoom_update_meet(meeting.zoomMeetingId, startTime, Math.round((endTime.getTime() - startTime.getTime()) / MINUTE_MS));
+  },
+  async cancel(meeting) {
+    if (!meeting.zoomMeetingId) return;
+    await zoom_cancel_meet(meeting.zoomMeetingId);
+  },
+  async addAttendees(meeting, attendees) {
+    if (!meeting.zoomMeetingId) return;
+    // Zoom registers one person per call; one failure shouldn't stop the rest
+    for (const attendee of attendees) {
+      try {
+        await zoom_add_user_to_meeting(meeting.zoomMeetingId, attendee.email, attendee.name);
+      } catch (error) {
+        console.error(`Error adding ${attendee.email} to Zoom meeting:`, error);
+      }
+    }
+  },
+  async removeAttendees(meeting, emails) {
+    if (!meeting.zoomMeetingId) return;
+    for (const email of emails) {
+      try {
+        await zoom_remove_user_from_meeting(meeting.zoomMeetingId, email);
+      } catch (error) {
+        console.error(`Error removing ${email} from Zoom meeting:`, error);
+      }
+    }
+  },
+  fetchParticipants(meeting) {
+    return zoomAttendanceFetcher.fetchParticipants(meeting);
+  }
+};
+
+/**
+ * Teams sessions are Outlook calendar events with a Teams meeting (see lib/teamsMeeting.ts)
+ */
+export const teamsProvider: MeetingProvider = {
+  platform: MEETING_PLATFORMS.TEAMS,
+  async create(meeting) {
+    const { join_url, id } = await teams_create_meet(meeting);
+    return { meetingLink: join_url, teamsEventId: id };
+  },
+  async update(meeting, startTime, endTime) {
+    if (!meeting.teamsEventId) return;
+    await teams_update_meet(meeting.teamsEventId, startTime, endTime);
+  },
+  async cancel(meeting) {
+    if (!meeting.teamsEventId) return;
+    await teams_cancel_meet(meeting.teamsEventId);
+  },
+  async addAttendees(meeting, attendees) {
+    if (!meeting.teamsEventId || attendees.length === 0) return;
+    await teams_add_users_to_meeting(meeting.teamsEventId, attendees);
+  },
+  async removeAttendees(meeting, emails) {
+    if (!meeting.teamsEventId || emails.length === 0) return;
+    await teams_remove_users_from_meeting(meeting.teamsEventId, emails);
+  },
+  fetchParticipants(meeting) {
+    return teams_fetch_participants(meeting.meetingLink, meeting.startTime, meeting.endTime);
+  }
+};
+
+/**
+ * Jitsi sessions are rooms on our own Jitsi Meet server (see lib/jitsiMeeting.ts).
+ * Rooms need no cleanup and no attendee list: the links carry the access.
+ */
+export const jitsiProvider: MeetingProvider = {
+  platform: MEETING_PLATFORMS.JITSI,
+  async create(meeting) {
+    const { room_name, join_url, host_url } = await jitsi_create_meet(meeting);
+    return { meetingLink: join_url, jitsiRoomName: room_name, jitsiHostUrl: host_url };
+  },
+  async update(meeting, _startTime, endTime) {
+    if (!meeting.jitsiRoomName) return;
+    // The links expire with the session, so a moved session needs new ones
+    const { join_url, host_url } = jitsi_room_links(meeting.jitsiRoomName, endTime);
+    return { meetingLink: join_url, jitsiHostUrl: host_url };
+  },
+  async cancel() {},
+  async addAttendees() {},
+  async removeAttendees() {}
+};
+
+/**
+ * State of a meeting held by the fake provider
+ */
+export interface FakeProviderMeeting {
+  meetingLink: string;
+  startTime: Date;
+  endTime: Date;
+  attendees: Set<string>;
+  cancelled: boolean;
+}
+
+/**
+ * Provider that keeps meetings in memory instead of on a platform. Meetings
+ * are keyed by their generated link; participant records report every
+ * invited member present for the whole session.
+ * @param platform Platform the fake stands in for
+ * @param meetings Store to keep meetings in, shared between fakes
+ * @returns Fake provider with its store
+ */
+export function createFakeMeetingProvider(
+  platform: MeetingPlatform = MEETING_PLATFORMS.GOOGLE_MEET,
+  meetings: Map<string, FakeProviderMeeting> = new Map()
+): MeetingProvider & { meetings: Map<string, FakeProviderMeeting> } {
+  const find = (meeting: ProviderMeetingRef) => meetings.get(meeting.meetingLink);
+
+  return {
+    platform,
+    meetings,
+    async create(meeting) {
+      const meetingLink = `https://meet.invalid/${platform}/${randomUUID()}`;
+      const startTime = new Date(`${meeting.date}T${meeting.startTime}:00.000+05:30`);
+      meetings.set(meetingLink, {
+        meetingLink,
+        startTime,
+        endTime: new Date(startTime.getTime() + meeting.duration * MINUTE_MS),
+        attendees: new Set(),
+        cancelled: false
+      });
+      return { meetingLink };
+    },
+    async update(meeting, startTime, endTime) {
+      const stored = find(meeting);
+      if (!stored) return;
+      stored.startTime = startTime;
+      stored.endTime = endTime;
+    },
+    async cancel(meeting) {
+      const stored = find(meeting);
+      if (stored) stored.cancelled = true;
+    },
+    async addAttendees(meeting, attendees) {
+      const stored = find(meeting);
+      attendees.forEach(attendee => stored?.attendees.add(attendee.email.toLowerCase()));
+    },
+    async removeAttendees(meeting, emails) {
+      const stored = find(meeting);
+      emails.forEach(email => stored?.attendees.delete(email.toLowerCase()));
+    },
+    fetchParticipants(meeting) {
+      return createFakeAttendanceFetcher().fetchParticipants(meeting);
+    }
+  };
+}
+
+const MEETING_PROVIDERS: Record<MeetingPlatform, MeetingProvider> = {
+  [MEETING_PLATFORMS.GOOGLE_MEET]: googleMeetProvider,
+  [MEETING_PLATFORMS.ZOOM]: zoomProvider,
+  [MEETING_PLATFORMS.TEAMS]: teamsProvider,
+  [MEETING_PLATFORMS.JITSI]: jitsiProvider,
+};
+
+// Meetings of the MEETING_PROVIDER=fake fakes, kept for the life of the process
+const fakeMeetings = new Map<string, FakeProviderMeeting>();
+
+/**
+ * Get the provider of a meeting platform
+ * @param platform Platform stored on a meeting
+ * @returns Meeting provider
+ * @throws Error if the platform is unknown
+ */
+export function getMeetingProvider(platform: string): MeetingProvider {
+  if (!isMeetingPlatform(platform)) {
+    throw new Error(`Unsupported meeting platform: ${platform}`);
+  }
+  if (process.env.MEETING_PROVIDER === 'fake') {
+    return createFakeMeetingProvider(platform, fakeMeetings);
+  }
+  return MEETING_PROVIDERS[platform];
+}
@@ -19,6 +19,9 @@ export interface MeetingInviteData {
   endTime: Date;
   platform: string;
   hostLink?: string;
+  // Member and meeting of a tracked join link (see lib/joinLinks.ts)
+  meetingId?: string;
+  userId?: string;
 }
 
 export interface MessageResult {
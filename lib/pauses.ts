@@ -0,0 +1,436 @@
+/**
+ * Subscription pauses
+ * Members who travel or fall sick can have their plan frozen for a few days.
+ * A paused member gets no session invites and is left off meeting attendee
+ * lists for the paused days, and the subscription's end date is pushed out
+ * by the same number of days. Each plan sets how many days may be paused.
+ */
+import prisma from './prisma';
+import { google_remove_user_from_meeting, manageMeeting } from './meetingLink';
+import { getPlanNames } from './plans';
+import { rescheduleRenewal } from './renewals';
+import { sendSubscriptionPausedEmail } from './email';
+import { LIVE_SUBSCRIPTION_STATUSES, SubscriptionStatus, transitionSubscription } from './subscriptionStatus';
+import type { SessionSlot } from './sessionSlots';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent } from './subscriptionEvents';
+import type { Prisma, Subscription, SubscriptionPause } from '@/generated/prisma';
+
+export const PAUSE_STATUSES = {
+  ACTIVE: "active" as const,
+  CANCELLED: "cancelled" as const,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a subscription may still be paused
+ */
+export interface PauseAllowance {
+  maxPauseDays: number;
+  usedDays: number;
+  remainingDays: number;
+  pauses: SubscriptionPause[];
+}
+
+/**
+ * Result of pausing or resuming a subscription
+ */
+export interface PauseResult {
+  success: boolean;
+  message: string;
+  pause: SubscriptionPause | null;
+  subscription: Subscription | null;
+  meetingsUpdated: number;
+}
+
+/**
+ * Get today's date at midnight in IST
+ */
+function getTodayIST(): Date {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Filter for subscriptions that are not paused on a date, to be combined
+ * with the usual active-on-date conditions
+ * @param date Date to check
+ * @returns Subscription where clause
+ */
+export function notPausedOn(date: Date): Prisma.SubscriptionWhereInput {
+  return {
+    pauses: {
+      none: {
+        status: PAUSE_STATUSES.ACTIVE,
+        startDate: { lte: date },
+        endDate: { gt: date }
+      }
+    }
+  };
+}
+
+/**
+ * Check whether a pause covers a date
+ * @param pause Pause to check
+ * @param date Date to check
+ * @returns true if the pause is active on the date
+ */
+export function isPausedOn(pause: Pick<SubscriptionPause, 'status' | 'startDate' | 'endDate'>, date: Date): boolean {
+  return pause.status === PAUSE_STATUSES.ACTIVE && pause.startDate <= date && pause.endDate > date;
+}
+
+/**
+ * Get how many days a subscription may be paused and how many are used
+ * @param subscription Subscription to check
+ * @returns Pause allowance with the subscription's pauses, newest first
+ */
+export async function getPauseAllowance(subscription: Pick<Subscription, 'id' | 'planType'>): Promise<PauseAllowance> {
+  const [plan, pauses] = await Promise.all([
+    prisma.plan.findUnique({ where: { key: subscription.planType } }),
+    prisma.subscriptionPause.findMany({
+      where: { subscriptionId: subscription.id },
+      orderBy: { startDate: 'desc' }
+    })
+  ]);
+
+  const maxPauseDays = plan?.maxPauseDays ?? 0;
+  const usedDays = pauses
+    .filter(pause => pause.status === PAUSE_STATUSES.ACTIVE)
+    .reduce((sum, pause) => sum + pause.days, 0);
+
+  return {
+    maxPauseDays,
+    usedDays,
+    remainingDays: Math.max(maxPauseDays - usedDays, 0),
+    pauses
+  };
+}
+
+/**
+ * Add or remove a member from the meetings held between two dates, skipping
+ * meetings they attend through another subscription that is not paused.
+ * A resumed member only rejoins their own slot's sessions that still go
+ * ahead, and waits for a seat when a session is full.
+ * @param subscription Subscription being paused or resumed
+ * @param email Member's email address used as the calendar attendee
+ * @param from First day (inclusive)
+ * @param until Last day (exclusive)
+ * @param action Whether to remove or re-add the member
+ * @returns Number of meetings updated
+ */
+async function updatePausedMeetings(
+  subscription: Subscription,
+  email: string,
+  from: Date,
+  until: Date,
+  action: 'remove' | 'add'
+): Promise<number> {
+  const [meetings, otherSubscriptions] = await Promise.all([
+    prisma.meeting.findMany({
+      where: action === 'remove'
+        ? { meetingDate: { gte: from, lt: until }, users: { some: { id: subscription.userId } } }
+        : {
+          meetingDate: { gte: from, lt: until },
+          slot: subscription.slot,
+          cancelledAt: null,
+          users: { none: { id: subscription.userId } }
+        }
+    }),
+    prisma.subscription.findMany({
+      where: {
+        userId: subscription.userId,
+        id: { not: subscription.id },
+        status: { in: LIVE_SUBSCRIPTION_STATUSES },
+        endDate: { gte: from }
+      },
+      include: { pauses: true }
+    })
+  ]);
+
+  let updated = 0;
+  for (const meeting of meetings) {
+    if (action === 'add') {
+      // Goes through the meeting's capacity, waitlist and platform attendees
+      const rejoined = await manageMeeting({
+        date: meeting.meetingDate.toISOString().split('T')[0],
+        slot: meeting.slot as SessionSlot,
+        userIds: [subscription.userId],
+        operation: 'get',
+        syncFromCalendar: false,
+        actor: EVENT_ACTORS.ADMIN
+      });
+      if (rejoined.users?.some(user => user.id === subscription.userId)) updated++;
+      continue;
+    }
+
+    const coveredElsewhere = otherSubscriptions.some(sub =>
+      sub.startDate <= meeting.meetingDate && sub.endDate >= meeting.meetingDate &&
+      !sub.pauses.some(pause => isPausedOn(pause, meeting.meetingDate))
+    );
+    if (coveredElsewhere) continue;
+
+    await prisma.meeting.update({
+      where: { id: meeting.id },
+      data: { users: { disconnect: { id: subscription.userId } } }
+    });
+    await recordSubscriptionEvent({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      meetingId: meeting.id,
+      type: SUBSCRIPTION_EVENT_TYPES.MEETING_REMOVED,
+      actor: EVENT_ACTORS.ADMIN,
+      after: { meetingDate: meeting.meetingDate },
+      note: 'Paused'
+    });
+    updated++;
+
+    if (meeting.googleEventId) {
+      try {
+        await google_remove_user_from_meeting(meeting.googleEventId, email);
+      } catch (calendarError) {
+        // The database is the source of truth for invites; don't fail the pause
+        console.error(`Failed to update ${email} on calendar event ${meeting.googleEventId}:`, calendarError);
+      }
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Pause a subscription for a number of days and push its end date out by
+ * the same number of days
+ * @param subscriptionId Subscription to pause
+ * @param startDate First paused day
+ * @param days Number of days to pause
+ * @param reason Why the member is pausing
+ * @returns Pause result with the updated subscription
+ */
+export async function pauseSubscription({
+  subscriptionId,
+  startDate,
+  days,
+  reason
+}: {
+  subscriptionId: string;
+  startDate: Date;
+  days: number;
+  reason: string;
+}): Promise<PauseResult> {
+  const fail = (message: string): PauseResult => ({
+    success: false,
+    message,
+    pause: null,
+    subscription: null,
+    meetingsUpdated: 0
+  });
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: subscriptionId },
+    include: { user: true }
+  });
+  if (!subscription) {
+    return fail("Subscription not found");
+  }
+  if (!LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    return fail(`Only active or paused subscriptions can be paused (this one is ${subscription.status})`);
+  }
+
+  const pauseStart = new Date(startDate);
+  pauseStart.setHours(0, 0, 0, 0);
+  const pauseEnd = addDays(pauseStart, days);
+
+  if (pauseStart < getTodayIST()) {
+    return fail("A pause cannot start in the past");
+  }
+  if (pauseStart < subscription.startDate || pauseStart >= subscription.endDate) {
+    return fail("A pause must start while the subscription is running");
+  }
+
+  const allowance = await getPauseAllowance(subscription);
+  if (allowance.maxPauseDays === 0) {
+    const planNames = await getPlanNames();
+    return fail(`${planNames[subscription.planType] || subscription.planType} subscriptions cannot be paused`);
+  }
+  if (days > allowance.remainingDays) {
+    return fail(`Only ${allowance.remainingDays} of ${allowance.maxPauseDays} pause day(s) are left on this subscription`);
+  }
+
+  const overlapping = allowance.pauses.find(pause =>
+    pause.status === PAUSE_STATUSES.ACTIVE && pause.startDate < pauseEnd && pause.endDate > pauseStart
+  );
+  if (overlapping) {
+    return fail("The subscription is already paused on some of these days");
+  }
+
+  // The extended end must not run into the member's next subscription
+  const newEndDate = addDays(subscription.endDate, days);
+  const following = await prisma.subscription.findFirst({
+    where: {
+      userId: subscription.userId,
+      id: { not: subscription.id },
+      status: { in: [...LIVE_SUBSCRIPTION_STATUSES, SubscriptionStatus.pending] },
+      startDate: { lt: newEndDate },
+      endDate: { gt: subscription.endDate }
+    },
+    orderBy: { startDate: 'asc' }
+  });
+  if (following) {
+    return fail(`Pausing would extend the subscription into the member's next ${following.planType} subscription starting ${following.startDate.toISOString().split('T')[0]}`);
+  }
+
+  const [pause, updatedSubscription] = await prisma.$transaction(async (tx) => {
+    const created = await tx.subscriptionPause.create({
+      data: {
+        subscriptionId: subscription.id,
+        startDate: pauseStart,
+        endDate: pauseEnd,
+        days,
+        reason
+      }
+    });
+    // A pause starting today takes effect now; later ones are picked up by the daily status sync
+    const updated = pauseStart <= getTodayIST() && subscription.status === SubscriptionStatus.active
+      ? await transitionSubscription(subscription.id, SubscriptionStatus.paused, {
+        data: { endDate: newEndDate },
+        actor: EVENT_ACTORS.ADMIN,
+        client: tx
+      })
+      : await tx.subscription.update({
+        where: { id: subscription.id },
+        data: { endDate: newEndDate }
+      });
+    await recordSubscriptionEvent({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      type: SUBSCRIPTION_EVENT_TYPES.PAUSED,
+      actor: EVENT_ACTORS.ADMIN,
+      before: { endDate: subscription.endDate },
+      after: { endDate: newEndDate, pauseStart, pauseEnd, days },
+      note: reason
+    }, tx);
+    await rescheduleRenewal(tx, subscription, newEndDate);
+    return [created, updated] as const;
+  });
+
+  const { user } = subscription;
+  const name = `${user.firstName} ${user.lastName}`;
+
+  let meetingsUpdated = 0;
+  try {
+    meetingsUpdated = await updatePausedMeetings(updatedSubscription, user.email, pauseStart, pauseEnd, 'remove');
+  } catch (meetingError) {
+    console.error(`Error removing user ${subscription.userId} from paused meetings:`, meetingError);
+  }
+
+  const planNames = await getPlanNames();
+  await sendSubscriptionPausedEmail({
+    recipient: { name, email: user.email },
+    planName: planNames[subscription.planType] || subscription.planType,
+    pauseStart,
+    pauseEnd: addDays(pauseEnd, -1),
+    newEndDate,
+    reason
+  });
+
+  return {
+    success: true,
+    message: `Paused for ${days} day(s); the subscription now ends ${newEndDate.toISOString().split('T')[0]}`,
+    pause,
+    subscription: updatedSubscription,
+    meetingsUpdated
+  };
+}
+
+/**
+ * Resume a paused subscription early. A pause that has not started yet is
+ * cancelled outright; one in progress ends today. The unused pause days are
+ * taken back off the subscription's end date.
+ * @param pauseId Pause to end
+ * @returns Pause result with the updated subscription
+ */
+export async function resumeSubscription(pauseId: string): Promise<PauseResult> {
+  const fail = (message: string): PauseResult => ({
+    success: false,
+    message,
+    pause: null,
+    subscription: null,
+    meetingsUpdated: 0
+  });
+
+  const pause = await prisma.subscriptionPause.findUnique({
+    where: { id: pauseId },
+    include: { subscription: { include: { user: true } } }
+  });
+  if (!pause) {
+    return fail("Pause not found");
+  }
+
+  const today = getTodayIST();
+  if (pause.status !== PAUSE_STATUSES.ACTIVE || pause.endDate <= today) {
+    return fail("This pause is already over");
+  }
+
+  const { subscription } = pause;
+  const resumeFrom = pause.startDate > today ? pause.startDate : today;
+  const usedDays = Math.round((resumeFrom.getTime() - pause.startDate.getTime()) / DAY_MS);
+  const unusedDays = pause.days - usedDays;
+  const newEndDate = addDays(subscription.endDate, -unusedDays);
+
+  const [updatedPause, updatedSubscription] = await prisma.$transaction(async (tx) => {
+    const ended = await tx.subscriptionPause.update({
+      where: { id: pause.id },
+      data: usedDays === 0
+        ? { status: PAUSE_STATUSES.CANCELLED, cancelledAt: new Date() }
+        : { endDate: resumeFrom, days: usedDays }
+    });
+    const updated = subscription.status === SubscriptionStatus.paused && pause.startDate <= today
+      ? await transitionSubscription(subscription.id, SubscriptionStatus.active, {
+        data: { endDate: newEndDate },
+        actor: EVENT_ACTORS.ADMIN,
+        client: tx
+      })
+      : await tx.subscription.update({
+        where: { id: subscription.id },
+        data: { endDate: newEndDate }
+      });
+    await recordSubscriptionEvent({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      type: SUBSCRIPTION_EVENT_TYPES.RESUMED,
+      actor: EVENT_ACTORS.ADMIN,
+      before: { endDate: subscription.endDate, pauseEnd: pause.endDate },
+      after: { endDate: newEndDate, pauseEnd: resumeFrom },
+      note: usedDays === 0 ? 'Pause cancelled before it started' : `Resumed after ${usedDays} paused day(s)`
+    }, tx);
+    await rescheduleRenewal(tx, subscription, newEndDate);
+    return [ended, updated] as const;
+  });
+
+  const { user } = subscription;
+  let meetingsUpdated = 0;
+  try {
+    meetingsUpdated = await updatePausedMeetings(
+      updatedSubscription,
+      user.email,
+      resumeFrom,
+      pause.endDate,
+      'add'
+    );
+  } catch (meetingError) {
+    console.error(`Error re-adding user ${subscription.userId} to resumed meetings:`, meetingError);
+  }
+
+  return {
+    success: true,
+    message: usedDays === 0
+      ? `Pause cancelled; the subscription ends ${newEndDate.toISOString().split('T')[0]} again`
+      : `Resumed after ${usedDays} paused day(s); the subscription now ends ${newEndDate.toISOString().split('T')[0]}`,
+    pause: updatedPause,
+    subscription: updatedSubscription,
+    meetingsUpdated
+  };
+}
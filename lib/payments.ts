@@ -0,0 +1,434 @@
+/**
+ * Order lifecycle helpers
+ * Activation, failure and refund handling shared by the checkout callback
+ * (PATCH /api/createOrder) and the Razorpay webhook
+ */
+import prisma from './prisma';
+import { NoSessionDayError, manageMeeting } from './meetingLink';
+import type { SessionSlot } from './sessionSlots';
+import { getMeetingPlatformLabel } from './meetingPlatforms';
+import {
+  sendWelcomeEmail,
+  sendAdminNotificationEmail,
+  sendFamilyAdminNotificationEmail
+} from './email';
+import { sendImmediateInviteViaMessaging } from './messaging';
+import { markCouponRedeemed } from './coupons';
+import { ensureOrderInvoice, getInvoiceFileName } from './invoices';
+import { activateGroupOrder, markGroupOrderFailed } from './groupOrders';
+import { completePlanConversions } from './upgrades';
+import { recordRenewalPayment, recordRenewalPaymentFailure, getRenewalManageUrl } from './renewals';
+import {
+  PaymentStatus,
+  SubscriptionStatus,
+  UNPAID_PAYMENT_STATUSES,
+  transitionSubscriptions
+} from './subscriptionStatus';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent, type EventActor } from './subscriptionEvents';
+import type { AutoRenewal, Invoice, Subscription, User } from '@/generated/prisma';
+
+export type SubscriptionWithUser = Subscription & { user: User };
+type ActivatedSubscription = SubscriptionWithUser & { autoRenewal: AutoRenewal | null };
+
+/**
+ * Result of an order activation attempt
+ */
+export interface OrderActivationResult {
+  found: boolean;
+  alreadyProcessed: boolean;
+  subscriptions: SubscriptionWithUser[];
+}
+
+/**
+ * Activate every pending subscription of a paid order and send the usual
+ * welcome email, today's invite and admin notification.
+ * Safe to call more than once for the same order: subscriptions that were
+ * already activated are skipped, so emails are only sent once.
+ * @param orderId Razorpay order ID
+ * @param paymentId Razorpay payment ID
+ * @param subscriptionIds Optional subset of subscriptions to activate
+ * @param actor Who reported the payment, for the subscription history
+ * @returns Activation result with the newly activated subscriptions
+ */
+export async function activateOrderSubscriptions({
+  orderId,
+  paymentId,
+  subscriptionIds,
+  actor
+}: {
+  orderId: string;
+  paymentId: string;
+  subscriptionIds?: string[];
+  actor: EventActor;
+}): Promise<OrderActivationResult> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { orderId },
+    include: { user: true },
+  });
+
+  if (subscriptions.length === 0) {
+    return { found: false, alreadyProcessed: false, subscriptions: [] };
+  }
+
+  let candidates = subscriptions;
+  if (subscriptionIds && subscriptionIds.length > 0) {
+    candidates = subscriptions.filter(sub => subscriptionIds.includes(sub.id));
+  }
+
+  // Claim each subscription with a conditional update so that the webhook and
+  // the browser callback racing each other cannot both send emails. An
+  // upgrade replaces the subscriptions it was bought against in the same
+  // transaction.
+  const activatedIds: string[] = [];
+  for (const sub of candidates) {
+    const activated = await prisma.$transaction(async (tx) => {
+      const count = await transitionSubscriptions(
+        { id: sub.id, paymentStatus: { in: UNPAID_PAYMENT_STATUSES } },
+        SubscriptionStatus.active,
+        { data: { paymentRef: paymentId, paymentStatus: PaymentStatus.success }, actor, client: tx }
+      );
+      if (count === 0) return false;
+      await completePlanConversions(tx, sub.id);
+      return true;
+    });
+    if (activated) activatedIds.push(sub.id);
+  }
+
+  if (activatedIds.length === 0) {
+    console.log(`Order ${orderId} already processed, skipping activation`);
+    return { found: true, alreadyProcessed: true, subscriptions: candidates };
+  }
+
+  await markCouponRedeemed(orderId);
+
+  const activatedSubs = await prisma.subscription.findMany({
+    where: { id: { in: activatedIds } },
+    include: { user: true, autoRenewal: true },
+  });
+
+  // The invoice is attached to the welcome email but must not block activation
+  let invoice: Invoice | null = null;
+  try {
+    invoice = await ensureOrderInvoice(orderId);
+  } catch (invoiceError) {
+    console.error(`Error generating invoice for order ${orderId}:`, invoiceError);
+  }
+
+  await sendActivationNotifications(activatedSubs, invoice);
+
+  // Invite the members of a group purchase to claim their seats
+  try {
+    await activateGroupOrder(orderId);
+  } catch (groupError) {
+    console.error(`Error activating group order ${orderId}:`, groupError);
+  }
+
+  // Schedule the next charge of an auto-renewing plan
+  try {
+    await recordRenewalPayment(orderId, paymentId);
+  } catch (renewalError) {
+    console.error(`Error updating auto-renewal for order ${orderId}:`, renewalError);
+  }
+
+  return { found: true, alreadyProcessed: false, subscriptions: activatedSubs };
+}
+
+/**
+ * Send welcome emails, today's meeting invite and the admin notification
+ * for freshly activated subscriptions of a single order
+ * @param subscriptions Activated subscriptions with their users and auto-renewal
+ * @param invoice Order invoice to attach to the welcome emails, if generated
+ */
+async function sendActivationNotifications(
+  subscriptions: ActivatedSubscription[],
+  invoice: Invoice | null
+): Promise<void> {
+  // For family plans registering for today, handle meeting creation intelligently
+  let sharedTodayMeeting: any = null;
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  today.setHours(0, 0, 0, 0);
+
+  // Process family plan users together for today's meetings
+  if (subscriptions.length > 1) {
+    const todaySubscriptions = subscriptions.filter(sub => {
+      const subscriptionStartDate = new Date(sub.startDate);
+      subscriptionStartDate.setHours(0, 0, 0, 0);
+      return subscriptionStartDate.getTime() === today.getTime();
+    });
+
+    if (todaySubscriptions.length > 0) {
+      console.log(`Family plan with ${todaySubscriptions.length} users starting today, creating/finding shared meeting`);
+
+      try {
+        const allUserIds = todaySubscriptions.map(sub => sub.userId);
+        sharedTodayMeeting = await manageMeeting({
+          date: today.toISOString().split('T')[0],
+          // Seats of one order are booked into the same slot
+          slot: todaySubscriptions[0].slot as SessionSlot,
+          userIds: allUserIds,
+          operation: 'getOrCreate',
+          syncFromCalendar: true
+        });
+        console.log(`Created/found shared meeting ${sharedTodayMeeting.id} for ${allUserIds.length} family members`);
+      } catch (meetingError) {
+        if (meetingError instanceof NoSessionDayError) {
+          console.log(`No session today (${meetingError.reason}), not creating a shared meeting for family plan`);
+        } else {
+          console.error(`Error creating shared meeting for family plan:`, meetingError);
+        }
+      }
+    }
+  }
+
+  // Members of a group purchase are told who paid for their seat; the
+  // invoice goes to the purchaser only
+  const groupOrder = await prisma.groupOrder.findUnique({
+    where: { orderId: subscriptions[0].orderId },
+    include: { purchaser: true }
+  });
+  const purchaserName = groupOrder ? `${groupOrder.purchaser.firstName} ${groupOrder.purchaser.lastName}` : undefined;
+
+  await Promise.all(subscriptions.map(subscription => {
+    const isSeatMember = !!groupOrder && subscription.userId !== groupOrder.purchaserId;
+    return sendSubscriptionWelcome(subscription, {
+      invoice: isSeatMember ? null : invoice,
+      todayMeeting: sharedTodayMeeting,
+      paidBy: isSeatMember ? purchaserName : undefined,
+      renewalManageUrl: subscription.autoRenewal ? getRenewalManageUrl(subscription.autoRenewal.manageToken) : undefined
+    });
+  }));
+
+  if (subscriptions.length > 1) {
+    // Family plan: send both users and subscription IDs
+    await sendFamilyAdminNotificationEmail({
+      users: subscriptions.map(sub => ({
+        id: sub.user.id,
+        firstName: sub.user.firstName,
+        lastName: sub.user.lastName,
+        email: sub.user.email,
+        phone: sub.user.phone,
+        source: sub.user.source,
+        referenceName: sub.user.referenceName || undefined,
+        subscriptionId: sub.id
+      })),
+      planType: subscriptions[0].planType,
+      startDate: subscriptions[0].startDate,
+      endDate: subscriptions[0].endDate,
+      amount: subscriptions.reduce((sum, sub) => sum + parseFloat(sub.price.toString()), 0),
+      paymentId: subscriptions[0].paymentRef || undefined
+    });
+  } else {
+    const subscription = subscriptions[0];
+    await sendAdminNotificationEmail({
+      user: {
+        id: subscription.user.id,
+        firstName: subscription.user.firstName,
+        lastName: subscription.user.lastName,
+        email: subscription.user.email,
+        phone: subscription.user.phone,
+        source: subscription.user.source,
+        referenceName: subscription.user.referenceName || undefined
+      },
+      planType: subscription.planType,
+      startDate: subscription.startDate,
+      endDate: subscription.endDate,
+      amount: parseFloat(subscription.price.toString()),
+      paymentId: subscription.paymentRef || undefined
+    });
+  }
+}
+
+/**
+ * Send the welcome email to a subscriber and, if the subscription covers
+ * today, today's meeting invite
+ * @param subscription Activated subscription with its user
+ * @param invoice Order invoice to attach to the welcome email, if generated
+ * @param todayMeeting Meeting already created for the order's members, if any
+ * @param paidBy Purchaser's name when the subscription is a seat of a group purchase
+ * @param renewalManageUrl Link to manage automatic renewal, if the plan renews
+ */
+export async function sendSubscriptionWelcome(
+  subscription: SubscriptionWithUser,
+  {
+    invoice = null,
+    todayMeeting = null,
+    paidBy,
+    renewalManageUrl
+  }: {
+    invoice?: Invoice | null;
+    todayMeeting?: any;
+    paidBy?: string;
+    renewalManageUrl?: string;
+  } = {}
+): Promise<void> {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  today.setHours(0, 0, 0, 0);
+
+  await sendWelcomeEmail({
+    recipient: {
+      name: `${subscription.user.firstName} ${subscription.user.lastName}`,
+      email: subscription.user.email
+    },
+    planType: subscription.planType,
+    startDate: subscription.startDate,
+    endDate: subscription.endDate,
+    amount: parseFloat(subscription.price.toString()),
+    paymentId: subscription.paymentRef || undefined,
+    paidBy,
+    renewalManageUrl,
+    invoice: invoice ? {
+      invoiceNumber: invoice.invoiceNumber,
+      fileName: getInvoiceFileName(invoice.invoiceNumber),
+      pdf: Buffer.from(invoice.pdf)
+    } : undefined
+  });
+
+  // Send meeting invite if the subscription covers today
+  const subscriptionStartDate = new Date(subscription.startDate);
+  subscriptionStartDate.setHours(0, 0, 0, 0);
+
+  if (subscriptionStartDate.getTime() <= today.getTime() && subscription.endDate > today) {
+    try {
+      console.log(`Subscription covers today for ${subscription.user.email}, sending immediate invite`);
+
+      // Use shared meeting for family plans, or create individual meeting for single plans
+      let meeting = todayMeeting;
+      if (!meeting) {
+        meeting = await manageMeeting({
+          date: today.toISOString().split('T')[0],
+          slot: subscription.slot as SessionSlot,
+          userIds: [subscription.userId],
+          operation: 'getOrCreate',
+          syncFromCalendar: true
+        });
+      }
+
+      // A member left out of a full meeting is on its waitlist instead
+      const seated = meeting?.users ? meeting.users.some((user: { id: string }) => user.id === subscription.userId) : true;
+      if (meeting?.cancelledAt) {
+        console.log(`🚫 Today's ${meeting.slot} session was cancelled, skipping immediate invite for ${subscription.user.email}`);
+      } else if (meeting && meeting.meetingLink && seated) {
+        const inviteSent = await sendImmediateInviteViaMessaging({
+          recipient: {
+            name: `${subscription.user.firstName} ${subscription.user.lastName}`,
+            email: subscription.user.email
+          },
+          meetingTitle: meeting.meetingTitle || "GOALETE Club Session - Today",
+          meetingDescription: meeting.meetingDesc || "Join us for today's GOALETE Club session to learn how to achieve any goal in life.",
+          meetingLink: meeting.meetingLink,
+          startTime: meeting.startTime,
+          endTime: meeting.endTime,
+          platform: getMeetingPlatformLabel(meeting.platform),
+          hostLink: meeting.zoomStartUrl || undefined,
+          meetingId: meeting.id,
+          userId: subscription.userId
+        });
+
+        if (inviteSent) {
+          console.log(`Successfully sent immediate invite to ${subscription.user.email}`);
+        } else {
+          console.error(`Failed to send immediate invite to ${subscription.user.email}`);
+        }
+      } else {
+        console.log(`No meeting available for today, skipping immediate invite for ${subscription.user.email}`);
+      }
+    } catch (inviteError) {
+      if (inviteError instanceof NoSessionDayError) {
+        console.log(`No session today (${inviteError.reason}), skipping immediate invite for ${subscription.user.email}`);
+      } else {
+        console.error(`Error sending immediate invite to ${subscription.user.email}:`, inviteError);
+      }
+      // Don't fail the activation for invite errors
+    }
+  }
+}
+
+/**
+ * Mark the still-pending subscriptions of an order as failed.
+ * Already activated subscriptions are left untouched, since Razorpay can
+ * report a failed attempt before a later successful retry on the same order.
+ * @param orderId Razorpay order ID
+ * @param paymentId Razorpay payment ID of the failed attempt
+ * @returns Number of subscriptions updated
+ */
+export async function markOrderPaymentFailed(orderId: string, paymentId?: string): Promise<number> {
+  // The subscriptions stay pending, since the order can still be paid
+  const result = await prisma.subscription.updateMany({
+    where: { orderId, status: SubscriptionStatus.pending, paymentStatus: PaymentStatus.pending },
+    data: {
+      paymentStatus: PaymentStatus.failed,
+      ...(paymentId ? { paymentRef: paymentId } : {}),
+    },
+  });
+  await markGroupOrderFailed(orderId);
+  if (result.count > 0) {
+    await recordRenewalPaymentFailure(orderId);
+  }
+  return result.count;
+}
+
+/**
+ * Record a refund against the subscriptions paid by a payment.
+ * Refunds issued from the admin dashboard are already recorded on the
+ * subscription, so a matching refund ID is skipped.
+ * @param paymentId Razorpay payment ID that was refunded
+ * @param fullRefund Whether the whole payment has been refunded
+ * @param refundId Razorpay refund ID (optional)
+ * @param amount Refunded amount in paise; a partial refund is shared between
+ * the payment's subscriptions by price and added to earlier refunds
+ * @returns Number of subscriptions updated
+ */
+export async function markPaymentRefunded(
+  paymentId: string,
+  fullRefund: boolean,
+  refundId?: string,
+  amount: number = 0
+): Promise<number> {
+  if (refundId) {
+    const alreadyRecorded = await prisma.subscription.count({ where: { refundRef: refundId } });
+    if (alreadyRecorded > 0) return 0;
+  }
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: { paymentRef: paymentId, paymentStatus: { not: PaymentStatus.refunded } },
+  });
+
+  const refundedInr = Math.round(amount / 100);
+  const totalPrice = subscriptions.reduce((sum, sub) => sum + sub.price, 0);
+
+  for (const sub of subscriptions) {
+    if (fullRefund) {
+      await transitionSubscriptions(
+        { id: sub.id },
+        SubscriptionStatus.refunded,
+        {
+          data: { paymentStatus: PaymentStatus.refunded, refundAmount: sub.price, refundRef: refundId, refundedAt: new Date() },
+          actor: EVENT_ACTORS.WEBHOOK
+        }
+      );
+    } else {
+      const refundedAt = new Date();
+      const share = totalPrice > 0
+        ? Math.round((refundedInr * sub.price) / totalPrice)
+        : Math.floor(refundedInr / subscriptions.length);
+      const updated = await prisma.subscription.update({
+        where: { id: sub.id },
+        data: {
+          paymentStatus: PaymentStatus.partially_refunded,
+          refundAmount: { increment: share },
+          refundRef: refundId,
+          refundedAt
+        },
+      });
+      await recordSubscriptionEvent({
+        userId: sub.userId,
+        subscriptionId: sub.id,
+        type: SUBSCRIPTION_EVENT_TYPES.REFUNDED,
+        actor: EVENT_ACTORS.WEBHOOK,
+        before: { paymentStatus: sub.paymentStatus, refundAmount: sub.refundAmount, refundRef: sub.refundRef },
+        after: { paymentStatus: PaymentStatus.partially_refunded, refundAmount: updated.refundAmount, refundRef: refundId, refundedAt }
+      });
+    }
+  }
+  return subscriptions.length;
+}
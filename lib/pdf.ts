@@ -0,0 +1,108 @@
+/**
+ * Minimal PDF writer
+ * Produces simple text-and-line documents (invoices) with the standard
+ * Helvetica fonts, so no font files or native dependencies are needed on the server
+ */
+
+// A4 page size in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+type TextOptions = {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+};
+
+/**
+ * Escape a string for use inside a PDF literal string.
+ * Characters outside Latin-1 (e.g. ₹) cannot be shown by the standard fonts.
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Approximate Helvetica text width, used to right-align amounts
+ */
+function estimateTextWidth(text: string, size: number, bold: boolean): number {
+  const averageCharWidth = bold ? 0.56 : 0.52;
+  return text.length * size * averageCharWidth;
+}
+
+/**
+ * Builder for a simple multi-page PDF.
+ * Coordinates are measured from the top-left corner of the page.
+ */
+export class SimplePdfDocument {
+  private pages: string[][] = [[]];
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, { size = 10, bold = false, align = 'left' }: TextOptions = {}): void {
+    const startX = align === 'right' ? x - estimateTextWidth(text, size, bold) : x;
+    this.currentPage.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${startX.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapePdfText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.currentPage.push(
+      `${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  }
+
+  /**
+   * Serialise the document
+   * @returns PDF file contents
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const addObject = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject('');
+    const pagesId = addObject('');
+    const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const pageIds = this.pages.map(operations => {
+      const stream = operations.join('\n');
+      const contentId = addObject(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Plan catalogue
+ * Plans and their versioned prices are stored in the database so prices can
+ * change without a deploy while subscriptions keep the price they were sold at
+ */
+import prisma from './prisma';
+import type { Plan, PlanPrice } from '@/generated/prisma';
+import { PLAN_PRICING, formatPrice, type PricedPlan } from './pricing';
+
+type PlanWithPrices = Plan & { prices: PlanPrice[] };
+
+/**
+ * Plan as offered in the catalogue, with its current price
+ */
+export interface CatalogPlan extends PricedPlan {
+  id: string;
+  name: string;
+  description: string;
+  display: string;
+  isActive: boolean;
+  displayOrder: number;
+  availableFrom: Date | null;
+  availableUntil: Date | null;
+  // Price change scheduled for later, if any
+  nextPrice: { amount: number; effectiveFrom: Date } | null;
+}
+
+/**
+ * Check whether a plan is on sale at a given time
+ * @param plan Plan to check
+ * @param now Time to check at (defaults to now)
+ * @returns true if the plan is active and within its validity window
+ */
+export function isPlanAvailable(
+  plan: Pick<Plan, 'isActive' | 'availableFrom' | 'availableUntil'>,
+  now: Date = new Date()
+): boolean {
+  if (!plan.isActive) return false;
+  if (plan.availableFrom && plan.availableFrom > now) return false;
+  if (plan.availableUntil && plan.availableUntil < now) return false;
+  return true;
+}
+
+/**
+ * Convert a plan with its price history to a catalogue entry
+ * @returns Catalogue plan, or null if no price has taken effect yet
+ */
+function toCatalogPlan(plan: PlanWithPrices, now: Date): CatalogPlan | null {
+  const sorted = [...plan.prices].sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  const current = sorted.find(price => price.effectiveFrom <= now);
+  if (!current) return null;
+
+  const upcoming = sorted.filter(price => price.effectiveFrom > now);
+  const next = upcoming[upcoming.length - 1];
+
+  return {
+    id: plan.id,
+    key: plan.key,
+    name: plan.name,
+    description: plan.description,
+    amount: current.amount,
+    display: formatPrice(current.amount),
+    duration: plan.duration,
+    seats: plan.seats,
+    priceId: current.id,
+    isActive: plan.isActive,
+    displayOrder: plan.displayOrder,
+    availableFrom: plan.availableFrom,
+    availableUntil: plan.availableUntil,
+    nextPrice: next ? { amount: next.amount, effectiveFrom: next.effectiveFrom } : null,
+  };
+}
+
+/**
+ * Get the plan catalogue in display order
+ * @param includeUnavailable Include inactive plans and plans outside their validity window
+ * @returns Plans that have a price in effect
+ */
+export async function getPlanCatalog({
+  includeUnavailable = false
+}: {
+  includeUnavailable?: boolean;
+} = {}): Promise<CatalogPlan[]> {
+  const now = new Date();
+  const plans = await prisma.plan.findMany({
+    include: { prices: true },
+    orderBy: [{ displayOrder: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  return plans
+    .filter(plan => includeUnavailable || isPlanAvailable(plan, now))
+    .map(plan => toCatalogPlan(plan, now))
+    .filter((plan): plan is CatalogPlan => plan !== null);
+}
+
+/**
+ * Get a plan that can be purchased right now
+ * @param planType Plan key
+ * @returns Catalogue plan, or null if the plan is unknown, not on sale or has no price
+ */
+export async function getPurchasablePlan(planType: string): Promise<CatalogPlan | null> {
+  const plan = await prisma.plan.findUnique({
+    where: { key: planType },
+    include: { prices: true }
+  });
+  if (!plan) return null;
+
+  const now = new Date();
+  if (!isPlanAvailable(plan, now)) return null;
+  return toCatalogPlan(plan, now);
+}
+
+/**
+ * Get display names for every plan key, including plans no longer on sale
+ * @returns Map of plan key to name
+ */
+export async function getPlanNames(): Promise<Record<string, string>> {
+  const plans = await prisma.plan.findMany({ select: { key: true, name: true } });
+  const names: Record<string, string> = Object.fromEntries(
+    Object.entries(PLAN_PRICING).map(([key, pricing]) => [key, pricing.name])
+  );
+  for (const plan of plans) {
+    names[plan.key] = plan.name;
+  }
+  return names;
+}
@@ -1,6 +1,8 @@
 /**
- * Centralized pricing configuration for Goalete subscription plans
- * All pricing information should be managed here and imported where needed
+ * Pricing helpers for Goalete subscription plans
+ * The plan catalogue lives in the database (see lib/plans.ts); PLAN_PRICING
+ * holds the built-in plans it was seeded with and is used as a fallback for
+ * display when a plan is not in the catalogue
  */
 
 export const PLAN_PRICING = {  
@@ -44,6 +46,46 @@ export const PLAN_TYPES = {
 // Plan type keys for dynamic operations
 export const PLAN_KEYS = Object.keys(PLAN_PRICING) as (keyof typeof PLAN_PRICING)[];
 
+// Number of members covered by a single purchase of each plan
+export const PLAN_SEATS: Record<keyof typeof PLAN_PRICING, number> = {
+  daily: 1,
+  monthly: 1,
+  comboPlan: 2,
+};
+
+// Largest group a single purchase can cover, including the purchaser
+export const MAX_PLAN_SEATS = 20;
+
+// Shortest plan that can be bought with automatic renewal
+export const MIN_RENEWAL_DAYS = 7;
+
+/**
+ * Catalogue plan details needed to price an order
+ */
+export interface PricedPlan {
+  key: string;
+  amount: number;          // Current price in INR
+  duration: number;        // Duration in days
+  seats: number;           // Members covered by one purchase
+  priceId: string | null;  // PlanPrice version the amount comes from
+}
+
+/**
+ * Server-computed price for an order
+ * All amounts are in INR except amountInPaise
+ */
+export interface PriceBreakdown {
+  planType: string;
+  planPriceId: string | null; // Catalogue price version charged
+  listPrice: number;       // Catalogue price before discounts
+  discountAmount: number;  // Total discount applied
+  creditAmount: number;    // Upgrade credit applied after the discount
+  finalPrice: number;      // Amount actually charged
+  amountInPaise: number;   // finalPrice in paise, as sent to Razorpay
+  duration: number;        // Duration in days
+  seats: number;           // Subscriptions created for the order
+}
+
 /**
  * Helper functions for pricing operations
  */
@@ -87,3 +129,45 @@ export function getPlanPricing(planType: PlanType): PlanPricing | null {
   }
   return PLAN_PRICING[planType];
 }
+
+/**
+ * Check whether a plan type is one of the built-in plans
+ * @param planType Plan type to check
+ * @returns true if the plan has built-in pricing
+ */
+export function isPurchasablePlan(planType: string): planType is keyof typeof PLAN_PRICING {
+  return (PLAN_KEYS as string[]).includes(planType);
+}
+
+/**
+ * Check whether a plan can be bought with automatic renewal
+ * @param plan Plan duration in days and members covered
+ * @returns true if the plan can renew automatically
+ */
+export function isRenewablePlan(plan: { duration: number; seats: number }): boolean {
+  return plan.seats === 1 && plan.duration >= MIN_RENEWAL_DAYS;
+}
+
+/**
+ * Compute the price of an order for a catalogue plan
+ * @param plan The plan being purchased, with its current price
+ * @param discountAmount Discount in INR to subtract from the list price
+ * @param creditAmount Credit in INR from subscriptions replaced by an upgrade
+ * @returns Price breakdown
+ */
+export function computeOrderPrice(plan: PricedPlan, discountAmount: number = 0, creditAmount: number = 0): PriceBreakdown {
+  const discount = Math.min(Math.max(Math.round(discountAmount), 0), plan.amount);
+  const credit = Math.min(Math.max(Math.round(creditAmount), 0), plan.amount - discount);
+  const finalPrice = plan.amount - discount - credit;
+  return {
+    planType: plan.key,
+    planPriceId: plan.priceId,
+    listPrice: plan.amount,
+    discountAmount: discount,
+    creditAmount: credit,
+    finalPrice,
+    amountInPaise: toPaise(finalPrice),
+    duration: plan.duration,
+    seats: plan.seats,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Razorpay client and signature helpers
+ * Shared by order creation, payment confirmation and the Razorpay webhook
+ */
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+
+let razorpayClient: Razorpay | null = null;
+
+/**
+ * Get a lazily initialised Razorpay client
+ * @returns Razorpay client or null if keys are missing
+ */
+export function getRazorpayClient(): Razorpay | null {
+  if (razorpayClient) return razorpayClient;
+
+  const key_id = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
+  const key_secret = process.env.RAZORPAY_KEY_SECRET;
+
+  if (!key_id || !key_secret) {
+    console.error("Razorpay keys are missing! Please check your environment variables.");
+    return null;
+  }
+
+  try {
+    razorpayClient = new Razorpay({ key_id, key_secret });
+  } catch (error) {
+    console.error("Failed to initialize Razorpay client:", error);
+    return null;
+  }
+
+  return razorpayClient;
+}
+
+/**
+ * Compute a hex encoded HMAC-SHA256 signature
+ * @param payload Raw payload that was signed
+ * @param secret Shared secret
+ * @returns Hex digest
+ */
+export function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+function signaturesMatch(expected: string, received: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const receivedBuffer = Buffer.from(received, 'utf8');
+  if (expectedBuffer.length !== receivedBuffer.length) return false;
+  return crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Verify the X-Razorpay-Signature header of a webhook delivery
+ * @param rawBody Raw request body exactly as received
+ * @param signature Value of the X-Razorpay-Signature header
+ * @param secret Webhook secret (defaults to RAZORPAY_WEBHOOK_SECRET)
+ * @returns true if the signature is valid
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string | undefined = process.env.RAZORPAY_WEBHOOK_SECRET
+): boolean {
+  if (!signature || !secret) return false;
+  return signaturesMatch(signPayload(rawBody, secret), signature);
+}
+
+/**
+ * Verify the razorpay_signature returned to the checkout handler
+ * @param orderId Razorpay order ID
+ * @param paymentId Razorpay payment ID
+ * @param signature razorpay_signature from the checkout response
+ * @returns true if the signature is valid
+ */
+export function verifyPaymentSignature(
+  orderId: string,
+  paymentId: string,
+  signature: string | null | undefined
+): boolean {
+  const secret = process.env.RAZORPAY_KEY_SECRET;
+  if (!signature || !secret) return false;
+  return signaturesMatch(signPayload(`${orderId}|${paymentId}`, secret), signature);
+}
+
+/**
+ * Refund details returned by createRefund
+ */
+export interface RefundResult {
+  id: string;
+  paymentId: string;
+  amount: number; // In paise
+  status: string;
+  stubbed: boolean;
+}
+
+/**
+ * Whether refunds should be simulated instead of calling Razorpay.
+ * Enabled with RAZORPAY_REFUND_MODE=stub, and never in production.
+ */
+function isRefundStubEnabled(): boolean {
+  return process.env.RAZORPAY_REFUND_MODE === 'stub' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Issue a full or partial refund for a captured payment
+ * @param paymentId Razorpay payment ID to refund
+ * @param amountInPaise Amount to refund in paise
+ * @param notes Notes stored on the Razorpay refund
+ * @returns Refund details
+ */
+export async function createRefund(
+  paymentId: string,
+  amountInPaise: number,
+  notes: Record<string, string> = {}
+): Promise<RefundResult> {
+  if (isRefundStubEnabled()) {
+    console.log(`[refund stub] Refunding ${amountInPaise} paise for payment ${paymentId}`);
+    return {
+      id: `rfnd_stub_${Date.now()}`,
+      paymentId,
+      amount: amountInPaise,
+      status: 'processed',
+      stubbed: true,
+    };
+  }
+
+  const razorpay = getRazorpayClient();
+  if (!razorpay) {
+    throw new Error("Payment service is not properly configured");
+  }
+
+  const refund = await razorpay.payments.refund(paymentId, {
+    amount: amountInPaise,
+    speed: 'normal',
+    notes,
+  });
+
+  return {
+    id: refund.id,
+    paymentId,
+    amount: Number(refund.amount ?? amountInPaise),
+    status: refund.status,
+    stubbed: false,
+  };
+}
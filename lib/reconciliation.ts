@@ -0,0 +1,270 @@
+/**
+ * Payment reconciliation
+ * Finds checkouts left pending by an abandoned or interrupted browser flow,
+ * asks Razorpay what actually happened and either activates or expires them
+ */
+import prisma from './prisma';
+import { Prisma } from '@/generated/prisma';
+import type { ReconciliationRun } from '@/generated/prisma';
+import { getRazorpayClient } from './razorpay';
+import { activateOrderSubscriptions } from './payments';
+import { releaseCouponRedemption } from './coupons';
+import { markGroupOrderFailed } from './groupOrders';
+import { recordRenewalPaymentFailure } from './renewals';
+import {
+  PaymentStatus,
+  SubscriptionStatus,
+  UNPAID_PAYMENT_STATUSES,
+  transitionSubscriptions
+} from './subscriptionStatus';
+import { EVENT_ACTORS } from './subscriptionEvents';
+
+// Orders younger than this may still be in checkout
+const DEFAULT_STALE_AFTER_MINUTES = 30;
+
+// Mandate charges are debited by the bank asynchronously, and UPI autopay
+// only debits a day after notifying the member, so renewal orders wait longer
+const DEFAULT_RENEWAL_STALE_AFTER_HOURS = 72;
+
+// Razorpay payment states that can still end in a captured payment
+const IN_PROGRESS_PAYMENT_STATUSES = ['created', 'pending'];
+
+// Keep each run within serverless function time limits
+const MAX_ORDERS_PER_RUN = 50;
+
+export type ReconciliationAction = 'activated' | 'expired' | 'skipped' | 'error';
+
+/**
+ * Outcome for a single order in a reconciliation run
+ */
+export interface OrderReconciliationResult {
+  orderId: string;
+  action: ReconciliationAction;
+  razorpayStatus: string | null;
+  paymentId: string | null;
+  subscriptions: number;
+  userEmails: string[];
+  message: string;
+}
+
+/**
+ * Get the configured age after which a pending order is considered abandoned
+ */
+export function getStaleAfterMinutes(): number {
+  const configured = parseInt(process.env.STALE_ORDER_MINUTES || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_STALE_AFTER_MINUTES;
+}
+
+/**
+ * Get the configured age after which a pending renewal (mandate) order is
+ * considered failed; never shorter than the checkout window
+ * @param staleAfterMinutes Age after which a checkout order is abandoned
+ */
+export function getRenewalStaleAfterMinutes(staleAfterMinutes = getStaleAfterMinutes()): number {
+  const configured = parseInt(process.env.RENEWAL_STALE_ORDER_HOURS || '', 10);
+  const hours = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RENEWAL_STALE_AFTER_HOURS;
+  return Math.max(hours * 60, staleAfterMinutes);
+}
+
+/**
+ * Filter for unpaid subscriptions whose order is old enough to reconcile
+ * @param now Reference time
+ * @param staleAfterMinutes Age after which a checkout order is abandoned
+ */
+export function staleSubscriptionsWhere(now: Date, staleAfterMinutes: number): Prisma.SubscriptionWhereInput {
+  const cutoff = new Date(now.getTime() - staleAfterMinutes * 60 * 1000);
+  const renewalCutoff = new Date(now.getTime() - getRenewalStaleAfterMinutes(staleAfterMinutes) * 60 * 1000);
+  return {
+    paymentStatus: { in: UNPAID_PAYMENT_STATUSES },
+    status: SubscriptionStatus.pending,
+    OR: [
+      { autoRenewalId: null, createdAt: { lt: cutoff } },
+      { autoRenewalId: { not: null }, createdAt: { lt: renewalCutoff } }
+    ]
+  };
+}
+
+/**
+ * Decide what to do with a stale order from its Razorpay payments
+ * @param payments Payments made against the order
+ * @returns The decision and the payment it is based on, if any
+ */
+export function decideOrderOutcome<P extends { id: string; status: string }>(
+  payments: P[]
+): { decision: 'activate' | 'wait' | 'expire'; payment: P | null; message: string } {
+  const captured = payments.find(payment => payment.status === 'captured');
+  if (captured) {
+    return { decision: 'activate', payment: captured, message: 'Payment captured' };
+  }
+
+  // Authorized payments are normally captured automatically; check again next run
+  const authorized = payments.find(payment => payment.status === 'authorized');
+  if (authorized) {
+    return { decision: 'wait', payment: authorized, message: 'Payment authorized but not captured yet' };
+  }
+
+  // A payment still being processed may succeed; expiring now could lead to
+  // a second charge or a dunning email for a payment that goes through
+  const inProgress = payments.find(payment => IN_PROGRESS_PAYMENT_STATUSES.includes(payment.status));
+  if (inProgress) {
+    return { decision: 'wait', payment: inProgress, message: `Payment still in progress (${inProgress.status})` };
+  }
+
+  return {
+    decision: 'expire',
+    payment: payments[0] || null,
+    message: payments.length === 0 ? 'No payment attempted' : `No successful payment (${payments.length} attempt(s))`
+  };
+}
+
+/**
+ * Reconcile a single stale order against Razorpay
+ * @param orderId Razorpay order ID
+ * @param userEmails Emails of the order's users, for the report
+ * @param subscriptionCount Number of unpaid subscriptions on the order
+ * @returns Outcome for the report
+ */
+async function reconcileOrder(
+  orderId: string,
+  userEmails: string[],
+  subscriptionCount: number
+): Promise<OrderReconciliationResult> {
+  const result = (action: ReconciliationAction, message: string, razorpayStatus: string | null = null, paymentId: string | null = null): OrderReconciliationResult => ({
+    orderId,
+    action,
+    razorpayStatus,
+    paymentId,
+    subscriptions: subscriptionCount,
+    userEmails,
+    message
+  });
+
+  const razorpay = getRazorpayClient();
+  if (!razorpay) {
+    return result('error', 'Razorpay client is not configured');
+  }
+
+  let payments;
+  try {
+    payments = (await razorpay.orders.fetchPayments(orderId)).items || [];
+  } catch (error) {
+    return result('error', `Failed to fetch payments from Razorpay: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { decision, payment, message } = decideOrderOutcome(payments);
+  const razorpayStatus = payment ? payment.status : null;
+  const paymentId = payment ? payment.id : null;
+
+  if (decision === 'activate') {
+    const activation = await activateOrderSubscriptions({ orderId, paymentId: payment!.id, actor: EVENT_ACTORS.SYSTEM });
+    if (!activation.found) {
+      return result('skipped', 'Order no longer has subscriptions', razorpayStatus, paymentId);
+    }
+    return activation.alreadyProcessed
+      ? result('skipped', 'Payment captured and order was already activated', razorpayStatus, paymentId)
+      : result('activated', `Activated ${activation.subscriptions.length} subscription(s)`, razorpayStatus, paymentId);
+  }
+
+  if (decision === 'wait') {
+    return result('skipped', message, razorpayStatus, paymentId);
+  }
+
+  const expiredCount = await transitionSubscriptions(
+    { orderId, paymentStatus: { in: UNPAID_PAYMENT_STATUSES }, status: SubscriptionStatus.pending },
+    SubscriptionStatus.expired,
+    { data: { paymentStatus: PaymentStatus.failed }, note: 'No successful payment for the order' }
+  );
+  await releaseCouponRedemption(orderId);
+  await markGroupOrderFailed(orderId);
+  await recordRenewalPaymentFailure(orderId, 'No successful payment');
+
+  return result('expired', `${message}; expired ${expiredCount} subscription(s)`, razorpayStatus, paymentId);
+}
+
+/**
+ * Reconcile every stale pending order and record the run
+ * @param trigger What started the run (cron or manual)
+ * @param staleAfterMinutes Minimum order age to reconcile; renewal orders
+ * wait for getRenewalStaleAfterMinutes instead
+ * @returns Completed reconciliation run
+ */
+export async function reconcileStaleOrders({
+  trigger = 'cron',
+  staleAfterMinutes = getStaleAfterMinutes()
+}: {
+  trigger?: 'cron' | 'manual';
+  staleAfterMinutes?: number;
+} = {}): Promise<ReconciliationRun> {
+  const run = await prisma.reconciliationRun.create({
+    data: { trigger, staleAfterMinutes }
+  });
+
+  try {
+    const staleSubscriptions = await prisma.subscription.findMany({
+      where: staleSubscriptionsWhere(new Date(), staleAfterMinutes),
+      include: { user: { select: { email: true } } },
+      // Orders never checked come first, then the ones checked longest ago, so
+      // orders left waiting on Razorpay do not starve newer ones
+      orderBy: [{ reconciledAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }]
+    });
+
+    // Group subscriptions by order; combo plans share one order
+    const orders = new Map<string, { userEmails: string[]; count: number }>();
+    for (const sub of staleSubscriptions) {
+      const entry = orders.get(sub.orderId) || { userEmails: [], count: 0 };
+      entry.userEmails.push(sub.user.email);
+      entry.count++;
+      orders.set(sub.orderId, entry);
+    }
+
+    const results: OrderReconciliationResult[] = [];
+    for (const [orderId, { userEmails, count }] of Array.from(orders.entries()).slice(0, MAX_ORDERS_PER_RUN)) {
+      try {
+        results.push(await reconcileOrder(orderId, userEmails, count));
+      } catch (error) {
+        console.error(`Error reconciling order ${orderId}:`, error);
+        results.push({
+          orderId,
+          action: 'error',
+          razorpayStatus: null,
+          paymentId: null,
+          subscriptions: count,
+          userEmails,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+      // The next run starts with the orders this one did not get to
+      await prisma.subscription.updateMany({
+        where: { orderId },
+        data: { reconciledAt: new Date() }
+      });
+    }
+
+    const countOf = (action: ReconciliationAction) => results.filter(r => r.action === action).length;
+    console.log(`Reconciled ${results.length} stale order(s): ${countOf('activated')} activated, ${countOf('expired')} expired`);
+
+    return await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'completed',
+        ordersChecked: results.length,
+        ordersActivated: countOf('activated'),
+        ordersExpired: countOf('expired'),
+        ordersSkipped: countOf('skipped'),
+        ordersFailed: countOf('error'),
+        details: results as unknown as Prisma.JsonArray,
+        finishedAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error('Reconciliation run failed:', error);
+    return prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date()
+      }
+    });
+  }
+}
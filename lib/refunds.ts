@@ -0,0 +1,398 @@
+/**
+ * Subscription cancellation and refund helpers
+ * Issues Razorpay refunds, records them on the subscription and removes the
+ * user from upcoming sessions
+ */
+import prisma from './prisma';
+import { createRefund } from './razorpay';
+import { removeUsersFromMeeting } from './meetingLink';
+import { releaseSubscriptionSeats } from './waitlist';
+import { sendRefundConfirmationEmail } from './email';
+import { EVENT_ACTORS } from './subscriptionEvents';
+import {
+  InvalidStatusTransitionError,
+  LIVE_SUBSCRIPTION_STATUSES,
+  PaymentStatus,
+  SubscriptionStatus,
+  canTransition,
+  statusesLeadingTo,
+  transitionSubscription
+} from './subscriptionStatus';
+import type { Subscription } from '@/generated/prisma';
+
+export const REFUND_MODES = {
+  FULL: "full" as const,
+  PRORATED: "prorated" as const,
+} as const;
+
+export type RefundMode = typeof REFUND_MODES[keyof typeof REFUND_MODES];
+
+// Payment statuses of subscriptions that were paid through Razorpay
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.success];
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refund amount preview for a subscription
+ */
+export interface RefundQuote {
+  amountPaid: number;
+  refundAmount: number;
+  totalDays: number;
+  unusedDays: number;
+}
+
+/**
+ * Result of a completed refund
+ */
+export interface RefundOutcome {
+  subscription: Subscription;
+  refundAmount: number;
+  refundId: string | null;
+  meetingsUpdated: number;
+  emailSent: boolean;
+  // Member seats cancelled along with a group purchaser's subscription
+  seatsCancelled: number;
+}
+
+/**
+ * Raised when another refund of the same subscription is already under way
+ */
+export class RefundInProgressError extends Error {
+  constructor(subscriptionId: string) {
+    super(`A refund of subscription ${subscriptionId} is already in progress`);
+    this.name = 'RefundInProgressError';
+  }
+}
+
+/**
+ * Get today's date at midnight in IST
+ */
+function getTodayIST(): Date {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Check whether a subscription can be refunded
+ * @param subscription Subscription to check
+ * @returns Reason the refund is not allowed, or null if it is
+ */
+export function getRefundIneligibilityReason(
+  subscription: Pick<Subscription, 'paymentStatus' | 'paymentRef' | 'price' | 'refundStartedAt'>
+): string | null {
+  if (subscription.paymentStatus === PaymentStatus.refunded || subscription.paymentStatus === PaymentStatus.partially_refunded) {
+    return "Subscription has already been refunded";
+  }
+  if (subscription.refundStartedAt) {
+    return "A refund of this subscription is already in progress";
+  }
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(subscription.paymentStatus)) {
+    return `Subscriptions with payment status "${subscription.paymentStatus}" cannot be refunded`;
+  }
+  if (!subscription.paymentRef) {
+    return "Subscription has no Razorpay payment to refund";
+  }
+  if (!subscription.price || subscription.price <= 0) {
+    return "Subscription has no paid amount to refund";
+  }
+  return null;
+}
+
+/**
+ * Calculate the refund for the unused part of a subscription.
+ * Today's session counts as used; a subscription that has not started yet
+ * is refunded in full.
+ * @param subscription Subscription to refund
+ * @param asOf Date to calculate from (defaults to today in IST)
+ * @returns Refund quote in INR, rounded down to whole rupees
+ */
+export function calculateProRatedRefund(
+  subscription: Pick<Subscription, 'price' | 'startDate' | 'endDate' | 'duration'>,
+  asOf: Date = getTodayIST()
+): RefundQuote {
+  const amountPaid = subscription.price || 0;
+  const startDate = new Date(subscription.startDate);
+  startDate.setHours(0, 0, 0, 0);
+  const endDate = new Date(subscription.endDate);
+  endDate.setHours(0, 0, 0, 0);
+
+  const totalDays = subscription.duration
+    || Math.max(1, Math.round((endDate.getTime() - startDate.getTime()) / DAY_IN_MS));
+
+  let unusedDays: number;
+  if (asOf < startDate) {
+    unusedDays = totalDays;
+  } else {
+    const usedDays = Math.floor((asOf.getTime() - startDate.getTime()) / DAY_IN_MS) + 1;
+    unusedDays = Math.min(Math.max(totalDays - usedDays, 0), totalDays);
+  }
+
+  return {
+    amountPaid,
+    refundAmount: Math.floor((amountPaid * unusedDays) / totalDays),
+    totalDays,
+    unusedDays
+  };
+}
+
+/**
+ * Calculate the refund amount for a subscription in the given mode
+ * @param subscription Subscription to refund
+ * @param mode Full or pro-rated refund
+ * @returns Refund quote in INR
+ */
+export function getRefundQuote(
+  subscription: Pick<Subscription, 'price' | 'startDate' | 'endDate' | 'duration'>,
+  mode: RefundMode
+): RefundQuote {
+  const quote = calculateProRatedRefund(subscription);
+  if (mode === REFUND_MODES.FULL) {
+    return { ...quote, refundAmount: quote.amountPaid };
+  }
+  return quote;
+}
+
+/**
+ * Remove a user from upcoming meetings that are no longer covered by any of
+ * their other active subscriptions, both in the database and on the meeting
+ * platform
+ * @param subscription Subscription being cancelled
+ * @returns Number of meetings the user was removed from
+ */
+async function removeUserFromUpcomingMeetings(subscription: Subscription): Promise<number> {
+  const today = getTodayIST();
+
+  const [meetings, otherSubscriptions] = await Promise.all([
+    prisma.meeting.findMany({
+      where: {
+        meetingDate: { gte: today },
+        users: { some: { id: subscription.userId } }
+      }
+    }),
+    prisma.subscription.findMany({
+      where: {
+        userId: subscription.userId,
+        id: { not: subscription.id },
+        status: { in: LIVE_SUBSCRIPTION_STATUSES },
+        endDate: { gte: today }
+      }
+    })
+  ]);
+
+  let removed = 0;
+  for (const meeting of meetings) {
+    const coveredElsewhere = otherSubscriptions.some(sub =>
+      sub.startDate <= meeting.meetingDate && sub.endDate >= meeting.meetingDate
+    );
+    if (coveredElsewhere) continue;
+
+    const result = await removeUsersFromMeeting({
+      meetingId: meeting.id,
+      userIds: [subscription.userId],
+      actor: EVENT_ACTORS.ADMIN,
+      subscriptionId: subscription.id,
+      note: 'Cancelled'
+    });
+    removed += result.removed;
+  }
+
+  return removed;
+}
+
+/**
+ * Cancel every member seat of a group purchase whose purchaser has been
+ * refunded, since the refunded payment covered those seats too
+ * @param purchaserSubscription Refunded subscription of the purchaser
+ * @param reason Cancellation reason
+ * @returns Number of member subscriptions cancelled
+ */
+async function cancelGroupSeats(purchaserSubscription: Subscription, reason?: string): Promise<number> {
+  if (!purchaserSubscription.groupOrderId) return 0;
+
+  const groupOrder = await prisma.groupOrder.findUnique({
+    where: { id: purchaserSubscription.groupOrderId }
+  });
+  if (!groupOrder || groupOrder.purchaserId !== purchaserSubscription.userId) return 0;
+
+  const memberSubscriptions = await prisma.subscription.findMany({
+    where: {
+      groupOrderId: groupOrder.id,
+      id: { not: purchaserSubscription.id },
+      status: { in: statusesLeadingTo(SubscriptionStatus.cancelled) }
+    }
+  });
+
+  for (const member of memberSubscriptions) {
+    const cancelled = await transitionSubscription(member.id, SubscriptionStatus.cancelled, {
+      data: {
+        paymentStatus: purchaserSubscription.paymentStatus,
+        refundedAt: new Date(),
+        cancellationReason: reason || 'Group purchase refunded'
+      },
+      actor: EVENT_ACTORS.ADMIN,
+      note: 'Group purchase refunded'
+    });
+    try {
+      await removeUserFromUpcomingMeetings(cancelled);
+      await releaseSubscriptionSeats(cancelled);
+    } catch (meetingError) {
+      console.error(`Error removing user ${member.userId} from upcoming meetings:`, meetingError);
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.groupSeat.updateMany({
+      where: { groupOrderId: groupOrder.id, status: 'invited' },
+      data: { status: 'cancelled' }
+    }),
+    prisma.groupOrder.update({
+      where: { id: groupOrder.id },
+      data: { status: 'cancelled' }
+    })
+  ]);
+
+  return memberSubscriptions.length;
+}
+
+/**
+ * Cancel a paid subscription and refund it through Razorpay. The subscription
+ * is claimed before Razorpay is asked for the refund, so concurrent requests
+ * cannot refund it twice; the claim is released if Razorpay rejects the refund.
+ * @param subscriptionId Subscription to cancel
+ * @param mode Full or pro-rated refund
+ * @param reason Cancellation reason shown to the user
+ * @returns Refund outcome with the updated subscription
+ * @throws RefundInProgressError if another refund has claimed the subscription
+ */
+export async function refundSubscription({
+  subscriptionId,
+  mode,
+  reason
+}: {
+  subscriptionId: string;
+  mode: RefundMode;
+  reason?: string;
+}): Promise<RefundOutcome> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: subscriptionId },
+    include: { user: true }
+  });
+
+  if (!subscription) {
+    throw new Error(`Subscription ${subscriptionId} not found`);
+  }
+
+  const ineligibilityReason = getRefundIneligibilityReason(subscription);
+  if (ineligibilityReason) {
+    throw new Error(ineligibilityReason);
+  }
+
+  const { refundAmount } = getRefundQuote(subscription, mode);
+  // A subscription with money returned is refunded; one with nothing left to return is only cancelled
+  const newStatus = refundAmount > 0 ? SubscriptionStatus.refunded : SubscriptionStatus.cancelled;
+  if (!canTransition(subscription.status, newStatus)) {
+    throw new InvalidStatusTransitionError(subscription.status, newStatus, subscription.id);
+  }
+
+  // Claim the subscription in the state that was checked
+  const claim = await prisma.subscription.updateMany({
+    where: {
+      id: subscription.id,
+      status: subscription.status,
+      paymentStatus: subscription.paymentStatus,
+      refundStartedAt: null
+    },
+    data: { refundStartedAt: new Date() }
+  });
+  if (claim.count === 0) {
+    throw new RefundInProgressError(subscription.id);
+  }
+
+  // Nothing left to refund on a pro-rated refund still cancels the subscription
+  let refundId: string | null = null;
+  if (refundAmount > 0) {
+    try {
+      const refund = await createRefund(subscription.paymentRef!, refundAmount * 100, {
+        subscription_id: subscription.id,
+        order_id: subscription.orderId,
+        refund_mode: mode,
+        ...(reason ? { reason } : {})
+      });
+      refundId = refund.id;
+    } catch (refundError) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { refundStartedAt: null }
+      });
+      throw refundError;
+    }
+  }
+
+  const fullRefund = refundAmount >= subscription.price;
+  const refundData = {
+    paymentStatus: fullRefund ? PaymentStatus.refunded : PaymentStatus.partially_refunded,
+    refundAmount,
+    refundRef: refundId,
+    refundedAt: new Date()
+  };
+
+  let updatedSubscription: Subscription;
+  try {
+    updatedSubscription = await transitionSubscription(subscription.id, newStatus, {
+      data: { ...refundData, cancellationReason: reason || null },
+      actor: EVENT_ACTORS.ADMIN,
+      note: reason
+    });
+  } catch (transitionError) {
+    // The money has been returned, so record it even if the status cannot change
+    console.error(`Error cancelling refunded subscription ${subscription.id}:`, transitionError);
+    await prisma.subscription.update({ where: { id: subscription.id }, data: refundData });
+    throw transitionError;
+  }
+
+  let meetingsUpdated = 0;
+  try {
+    meetingsUpdated = await removeUserFromUpcomingMeetings(updatedSubscription);
+  } catch (meetingError) {
+    console.error(`Error removing user ${subscription.userId} from upcoming meetings:`, meetingError);
+  }
+
+  // The freed seats go to the next people on the waitlist
+  try {
+    await releaseSubscriptionSeats(updatedSubscription);
+  } catch (waitlistError) {
+    console.error(`Error promoting waitlist after cancelling subscription ${subscription.id}:`, waitlistError);
+  }
+
+  let seatsCancelled = 0;
+  try {
+    seatsCancelled = await cancelGroupSeats(updatedSubscription, reason);
+  } catch (groupError) {
+    console.error(`Error cancelling group seats for subscription ${subscription.id}:`, groupError);
+  }
+
+  const emailSent = await sendRefundConfirmationEmail({
+    recipient: {
+      name: `${subscription.user.firstName} ${subscription.user.lastName}`,
+      email: subscription.user.email
+    },
+    planType: subscription.planType,
+    startDate: subscription.startDate,
+    endDate: subscription.endDate,
+    amountPaid: subscription.price,
+    refundAmount,
+    refundId: refundId || undefined,
+    reason
+  });
+
+  return {
+    subscription: updatedSubscription,
+    refundAmount,
+    refundId,
+    meetingsUpdated,
+    emailSent,
+    seatsCancelled
+  };
+}
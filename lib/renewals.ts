@@ -0,0 +1,537 @@
+/**
+ * Automatic renewals
+ * Members can opt in at checkout to renew a plan automatically. The first
+ * payment authorises a Razorpay recurring payment token (card or UPI
+ * mandate); shortly before each period ends the renewal job creates the next
+ * subscription, starting where the previous one ends, and charges the token.
+ * Failed charges are retried on a schedule with a dunning email each time,
+ * and renewal lapses after the last attempt
+ */
+import crypto from 'crypto';
+import prisma from './prisma';
+import { getRazorpayClient } from './razorpay';
+import { getPurchasablePlan, getPlanNames } from './plans';
+import { toPaise } from './pricing';
+import { canUserSubscribeForDates } from './subscription';
+import { sendRenewalPaymentFailedEmail, sendAutoRenewalStoppedEmail } from './email';
+import { LIVE_SUBSCRIPTION_STATUSES, PaymentStatus, SubscriptionStatus } from './subscriptionStatus';
+import { EVENT_ACTORS, SUBSCRIPTION_EVENT_TYPES, recordSubscriptionEvent, subscriptionSnapshot } from './subscriptionEvents';
+import type { AutoRenewal, Prisma, Subscription, User } from '@/generated/prisma';
+
+export const AUTO_RENEWAL_STATUSES = {
+  PENDING: "pending" as const,   // Checkout not paid yet
+  ACTIVE: "active" as const,
+  PAST_DUE: "past_due" as const, // Last charge failed, a retry is scheduled
+  STOPPED: "stopped" as const,   // Stopped by the member, an admin or the system
+  LAPSED: "lapsed" as const,     // Every attempt to charge the period failed
+} as const;
+
+export type AutoRenewalStoppedBy = 'member' | 'admin' | 'system';
+
+// Charge this many days before the current period ends
+const RENEWAL_LEAD_DAYS = 1;
+
+// Days to wait before each retry of a failed charge; renewal lapses after the last
+const RETRY_AFTER_DAYS = [1, 2, 3];
+export const MAX_RENEWAL_ATTEMPTS = RETRY_AFTER_DAYS.length + 1;
+
+// The mandate allows charges up to this multiple of the price at sign-up so
+// that a later price change does not need a new mandate
+const MANDATE_PRICE_HEADROOM = 2;
+const MANDATE_VALIDITY_YEARS = 5;
+
+// Keep each run within serverless function time limits
+const MAX_RENEWALS_PER_RUN = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AutoRenewalWithUser = AutoRenewal & { user: User };
+
+/**
+ * Outcome for a single renewal in a renewal run
+ */
+export interface RenewalChargeResult {
+  renewalId: string;
+  email: string;
+  action: 'charged' | 'stopped' | 'skipped' | 'error';
+  orderId: string | null;
+  message: string;
+}
+
+/**
+ * Generate an unguessable token for a renewal management link
+ */
+export function createRenewalManageToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Build the link a member follows to manage automatic renewal
+ * @param token Renewal management token
+ * @returns Absolute management URL
+ */
+export function getRenewalManageUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://form.goalete.com';
+  return `${baseUrl.replace(/\/$/, '')}/renewal?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * When the period ending at a date should be renewed
+ * @param periodEnd End of the current period
+ * @returns Due date of the next charge
+ */
+export function getRenewalDueDate(periodEnd: Date): Date {
+  return new Date(periodEnd.getTime() - RENEWAL_LEAD_DAYS * DAY_MS);
+}
+
+/**
+ * Move the next charge of an auto-renewal to match the new end of the
+ * period it renews, after the subscription's end date has moved
+ * @param tx Transaction to run in
+ * @param subscription Subscription whose end date moved
+ * @param newEndDate New end date of the subscription
+ */
+export async function rescheduleRenewal(
+  tx: Prisma.TransactionClient,
+  subscription: Pick<Subscription, 'autoRenewalId'>,
+  newEndDate: Date
+): Promise<void> {
+  if (!subscription.autoRenewalId) return;
+  await tx.autoRenewal.updateMany({
+    where: { id: subscription.autoRenewalId, status: AUTO_RENEWAL_STATUSES.ACTIVE },
+    data: { nextRenewalAt: getRenewalDueDate(newEndDate) }
+  });
+}
+
+/**
+ * Prepare the recurring mandate for a checkout: find or create the member's
+ * Razorpay customer and build the fields that turn the checkout order into
+ * an authorisation order
+ * @param user Member buying the plan
+ * @param amount Catalogue price of the plan in INR
+ * @returns Customer ID, mandate limits and the order fields
+ */
+export async function prepareRenewalMandate(user: User, amount: number) {
+  const razorpay = getRazorpayClient();
+  if (!razorpay) {
+    throw new Error("Razorpay client is not initialized. Please check your environment variables.");
+  }
+
+  // fail_existing: 0 returns the existing customer for the same email and phone
+  const customer = await razorpay.customers.create({
+    name: `${user.firstName} ${user.lastName}`,
+    email: user.email,
+    contact: user.phone,
+    fail_existing: 0,
+  });
+
+  const maxAmount = amount * MANDATE_PRICE_HEADROOM;
+  const mandateExpiresAt = new Date();
+  mandateExpiresAt.setFullYear(mandateExpiresAt.getFullYear() + MANDATE_VALIDITY_YEARS);
+
+  return {
+    customerId: customer.id,
+    maxAmount,
+    mandateExpiresAt,
+    orderFields: {
+      customer_id: customer.id,
+      token: {
+        max_amount: toPaise(maxAmount),
+        expire_at: Math.floor(mandateExpiresAt.getTime() / 1000),
+        frequency: 'as_presented',
+      },
+    },
+  };
+}
+
+/**
+ * Record the auto-renewal chosen at checkout; it becomes active once the
+ * checkout is paid
+ * @param userId Member buying the plan
+ * @param planType Plan to renew
+ * @param mandate Mandate prepared for the checkout order
+ * @returns Pending auto-renewal
+ */
+export async function createAutoRenewal({
+  userId,
+  planType,
+  mandate
+}: {
+  userId: string;
+  planType: string;
+  mandate: { customerId: string; maxAmount: number; mandateExpiresAt: Date };
+}): Promise<AutoRenewal> {
+  return prisma.autoRenewal.create({
+    data: {
+      userId,
+      planType,
+      razorpayCustomerId: mandate.customerId,
+      maxAmount: mandate.maxAmount,
+      mandateExpiresAt: mandate.mandateExpiresAt,
+      manageToken: createRenewalManageToken(),
+    }
+  });
+}
+
+/**
+ * Latest paid subscription of an auto-renewal, i.e. the period to renew next
+ */
+async function getCurrentPeriod(autoRenewalId: string) {
+  return prisma.subscription.findFirst({
+    where: { autoRenewalId, paymentStatus: PaymentStatus.success },
+    orderBy: { endDate: 'desc' }
+  });
+}
+
+/**
+ * Update an auto-renewal after one of its orders is paid: the first payment
+ * authorises the mandate, and every payment schedules the next charge.
+ * Orders without auto-renewal are ignored.
+ * @param orderId Razorpay order ID
+ * @param paymentId Razorpay payment ID
+ * @returns Updated auto-renewal, or null if the order does not renew
+ */
+export async function recordRenewalPayment(orderId: string, paymentId: string): Promise<AutoRenewal | null> {
+  const subscription = await prisma.subscription.findFirst({
+    where: { orderId, autoRenewalId: { not: null }, paymentStatus: PaymentStatus.success },
+    include: { autoRenewal: true, user: true }
+  });
+  const renewal = subscription?.autoRenewal;
+  if (!subscription || !renewal) return null;
+
+  // Renewal stopped while a charge was in flight; the paid period still stands
+  if (renewal.status === AUTO_RENEWAL_STATUSES.STOPPED || renewal.status === AUTO_RENEWAL_STATUSES.LAPSED) {
+    return renewal;
+  }
+
+  let tokenId = renewal.razorpayTokenId;
+  if (!tokenId) {
+    const razorpay = getRazorpayClient();
+    const payment = razorpay ? await razorpay.payments.fetch(paymentId) : null;
+    tokenId = payment?.token_id ?? null;
+  }
+  if (!tokenId) {
+    return stopAutoRenewal(renewal.id, {
+      stoppedBy: 'system',
+      reason: "the payment method used does not support automatic payments."
+    });
+  }
+
+  const currentPeriod = await getCurrentPeriod(renewal.id);
+  return prisma.autoRenewal.update({
+    where: { id: renewal.id },
+    data: {
+      status: AUTO_RENEWAL_STATUSES.ACTIVE,
+      razorpayTokenId: tokenId,
+      nextRenewalAt: getRenewalDueDate((currentPeriod ?? subscription).endDate),
+      failedAttempts: 0,
+      lastFailedOrderId: null,
+      lastFailureReason: null,
+    }
+  });
+}
+
+/**
+ * Count a failed renewal charge: schedule a retry and send a dunning email,
+ * or let renewal lapse after the last attempt. Each order is only counted
+ * once, and failures of the checkout that set up renewal are ignored since
+ * the member can retry the checkout.
+ * @param orderId Razorpay order ID of the failed charge
+ * @param reason Failure reason for the dunning email
+ * @returns Updated auto-renewal, or null if the order is not a renewal charge
+ */
+export async function recordRenewalPaymentFailure(orderId: string, reason?: string): Promise<AutoRenewal | null> {
+  const subscription = await prisma.subscription.findFirst({
+    where: { orderId, autoRenewalId: { not: null } },
+    include: { autoRenewal: true, user: true }
+  });
+  const renewal = subscription?.autoRenewal;
+  if (!subscription || !renewal) return null;
+  if (renewal.status !== AUTO_RENEWAL_STATUSES.ACTIVE && renewal.status !== AUTO_RENEWAL_STATUSES.PAST_DUE) {
+    return null;
+  }
+  if (renewal.lastFailedOrderId === orderId) return renewal;
+
+  // Claim the order so a later report of the same failure (e.g. from
+  // reconciliation) is not counted again once another attempt has failed
+  const claimed = await prisma.subscription.updateMany({
+    where: { orderId, autoRenewalId: renewal.id, renewalFailureCountedAt: null },
+    data: { renewalFailureCountedAt: new Date() }
+  });
+  if (claimed.count === 0) return renewal;
+
+  const failedAttempts = renewal.failedAttempts + 1;
+  const lapsed = failedAttempts >= MAX_RENEWAL_ATTEMPTS;
+  const nextAttemptAt = lapsed ? null : new Date(Date.now() + RETRY_AFTER_DAYS[failedAttempts - 1] * DAY_MS);
+
+  const updated = await prisma.autoRenewal.update({
+    where: { id: renewal.id },
+    data: {
+      status: lapsed ? AUTO_RENEWAL_STATUSES.LAPSED : AUTO_RENEWAL_STATUSES.PAST_DUE,
+      failedAttempts,
+      lastFailedOrderId: orderId,
+      lastFailureReason: reason || "Payment failed",
+      nextRenewalAt: nextAttemptAt,
+      ...(lapsed ? { stoppedAt: new Date(), stoppedBy: 'system' } : {}),
+    }
+  });
+
+  const planNames = await getPlanNames();
+  const emailSent = await sendRenewalPaymentFailedEmail({
+    recipient: {
+      name: `${subscription.user.firstName} ${subscription.user.lastName}`,
+      email: subscription.user.email
+    },
+    planName: planNames[renewal.planType] || renewal.planType,
+    amount: subscription.price,
+    attempt: failedAttempts,
+    maxAttempts: MAX_RENEWAL_ATTEMPTS,
+    nextAttemptAt,
+    reason,
+    manageUrl: getRenewalManageUrl(renewal.manageToken)
+  });
+  if (!emailSent) {
+    console.error(`Failed to send renewal dunning email to ${subscription.user.email}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Stop automatic renewal and revoke the mandate. The current period is
+ * not affected.
+ * @param renewalId Auto-renewal to stop
+ * @param stoppedBy Who stopped it
+ * @param reason Why it was stopped; emailed to the member unless they stopped it themselves
+ * @returns Stopped auto-renewal
+ */
+export async function stopAutoRenewal(
+  renewalId: string,
+  { stoppedBy, reason }: { stoppedBy: AutoRenewalStoppedBy; reason?: string }
+): Promise<AutoRenewal> {
+  const renewal = await prisma.autoRenewal.update({
+    where: { id: renewalId },
+    data: {
+      status: AUTO_RENEWAL_STATUSES.STOPPED,
+      stoppedAt: new Date(),
+      stoppedBy,
+      nextRenewalAt: null,
+      ...(reason ? { lastFailureReason: reason } : {}),
+    },
+    include: { user: true }
+  });
+
+  // Revoke the token so no further charges can be made
+  if (renewal.razorpayTokenId) {
+    try {
+      const razorpay = getRazorpayClient();
+      await razorpay?.customers.deleteToken(renewal.razorpayCustomerId, renewal.razorpayTokenId);
+    } catch (error) {
+      console.error(`Failed to revoke mandate token for auto-renewal ${renewalId}:`, error);
+    }
+  }
+
+  if (stoppedBy !== 'member') {
+    const [planNames, currentPeriod] = await Promise.all([getPlanNames(), getCurrentPeriod(renewalId)]);
+    await sendAutoRenewalStoppedEmail({
+      recipient: {
+        name: `${renewal.user.firstName} ${renewal.user.lastName}`,
+        email: renewal.user.email
+      },
+      planName: planNames[renewal.planType] || renewal.planType,
+      endDate: currentPeriod?.endDate,
+      reason: reason || "it was stopped by our team."
+    });
+  }
+
+  const { user, ...stopped } = renewal;
+  return stopped;
+}
+
+/**
+ * Create the next subscription of a due auto-renewal and charge the mandate.
+ * The charge completes asynchronously; the webhook activates the
+ * subscription or reports the failure.
+ * @param renewal Due auto-renewal with its member
+ * @returns Outcome for the run report
+ */
+async function chargeRenewal(renewal: AutoRenewalWithUser): Promise<RenewalChargeResult> {
+  const result = (action: RenewalChargeResult['action'], message: string, orderId: string | null = null): RenewalChargeResult => ({
+    renewalId: renewal.id,
+    email: renewal.user.email,
+    action,
+    orderId,
+    message
+  });
+  const stop = async (reason: string) => {
+    await stopAutoRenewal(renewal.id, { stoppedBy: 'system', reason });
+    return result('stopped', reason);
+  };
+
+  const previous = await getCurrentPeriod(renewal.id);
+  if (!previous) {
+    return stop("there is no paid subscription to renew.");
+  }
+  // Retries run after the period being renewed has ended, so the daily
+  // status sync has expired it by then; it is still the one to renew
+  const retrying = renewal.status === AUTO_RENEWAL_STATUSES.PAST_DUE && previous.status === SubscriptionStatus.expired;
+  if (!LIVE_SUBSCRIPTION_STATUSES.includes(previous.status) && !retrying) {
+    return stop("your current subscription is no longer active.");
+  }
+
+  // A charge for the next period may still be processing
+  const inFlight = await prisma.subscription.count({
+    where: { autoRenewalId: renewal.id, startDate: previous.endDate, paymentStatus: PaymentStatus.pending }
+  });
+  if (inFlight > 0) {
+    return result('skipped', 'A charge for the next period is still processing');
+  }
+
+  if (!renewal.razorpayTokenId || renewal.mandateExpiresAt <= previous.endDate) {
+    return stop("your autopay mandate has expired.");
+  }
+
+  const plan = await getPurchasablePlan(renewal.planType);
+  if (!plan) {
+    return stop("the plan is no longer offered.");
+  }
+  if (plan.amount > renewal.maxAmount) {
+    return stop(`the plan price of ₹${plan.amount} is above the limit of your autopay mandate.`);
+  }
+
+  const startDate = new Date(previous.endDate);
+  const endDate = new Date(startDate);
+  endDate.setDate(startDate.getDate() + plan.duration);
+
+  const subscriptionCheck = await canUserSubscribeForDates(renewal.user.email, startDate, endDate, renewal.planType);
+  if (!subscriptionCheck.canSubscribe) {
+    return stop("you already have a subscription for the next period.");
+  }
+
+  const razorpay = getRazorpayClient();
+  if (!razorpay) {
+    throw new Error("Razorpay client is not initialized. Please check your environment variables.");
+  }
+
+  const amountInPaise = toPaise(plan.amount);
+  const order = await razorpay.orders.create({
+    amount: amountInPaise,
+    currency: 'INR',
+    receipt: `renewal#${Date.now()}`,
+    notes: {
+      description: "Automatic renewal",
+      plan_type: renewal.planType,
+      auto_renewal_id: renewal.id,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      user_id: renewal.userId,
+    }
+  });
+
+  const subscription = await prisma.subscription.create({
+    data: {
+      userId: renewal.userId,
+      planType: renewal.planType,
+      startDate,
+      endDate,
+      orderId: order.id,
+      paymentRef: "",
+      paymentStatus: PaymentStatus.pending,
+      status: SubscriptionStatus.pending,
+      duration: plan.duration,
+      price: plan.amount,
+      listPrice: plan.amount,
+      billingState: previous.billingState,
+      planPriceId: plan.priceId,
+      autoRenewalId: renewal.id,
+      slot: previous.slot,
+    }
+  });
+  await recordSubscriptionEvent({
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    type: SUBSCRIPTION_EVENT_TYPES.CREATED,
+    actor: EVENT_ACTORS.SYSTEM,
+    after: subscriptionSnapshot(subscription),
+    note: 'Automatic renewal'
+  });
+  await prisma.autoRenewal.update({
+    where: { id: renewal.id },
+    data: { lastAttemptAt: new Date() }
+  });
+
+  try {
+    await razorpay.payments.createRecurringPayment({
+      email: renewal.user.email,
+      contact: renewal.user.phone,
+      amount: amountInPaise,
+      currency: 'INR',
+      order_id: order.id,
+      customer_id: renewal.razorpayCustomerId,
+      token: renewal.razorpayTokenId,
+      recurring: '1',
+      description: `${plan.name} renewal`,
+      notes: { auto_renewal_id: renewal.id },
+    });
+  } catch (error) {
+    // Razorpay rejected the charge outright; count it like a failed payment
+    const reason = error instanceof Error ? error.message : String(error);
+    await prisma.subscription.updateMany({
+      where: { orderId: order.id, paymentStatus: PaymentStatus.pending },
+      data: { paymentStatus: PaymentStatus.failed }
+    });
+    await recordRenewalPaymentFailure(order.id, reason);
+    return result('error', `Charge failed: ${reason}`, order.id);
+  }
+
+  return result('charged', `Charged ₹${plan.amount} for ${plan.name}`, order.id);
+}
+
+/**
+ * Charge every auto-renewal that is due, including scheduled retries
+ * @param now Reference time (defaults to the current time)
+ * @returns Outcome for each renewal processed
+ */
+export async function processDueRenewals({ now = new Date() }: { now?: Date } = {}): Promise<RenewalChargeResult[]> {
+  const due = await prisma.autoRenewal.findMany({
+    where: {
+      status: { in: [AUTO_RENEWAL_STATUSES.ACTIVE, AUTO_RENEWAL_STATUSES.PAST_DUE] },
+      nextRenewalAt: { lte: now }
+    },
+    include: { user: true },
+    orderBy: { nextRenewalAt: 'asc' },
+    take: MAX_RENEWALS_PER_RUN
+  });
+
+  const results: RenewalChargeResult[] = [];
+  for (const renewal of due) {
+    try {
+      results.push(await chargeRenewal(renewal));
+    } catch (error) {
+      console.error(`Error renewing auto-renewal ${renewal.id}:`, error);
+      results.push({
+        renewalId: renewal.id,
+        email: renewal.user.email,
+        action: 'error',
+        orderId: null,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const countOf = (action: RenewalChargeResult['action']) => results.filter(r => r.action === action).length;
+  console.log(`Processed ${results.length} due renewal(s): ${countOf('charged')} charged, ${countOf('stopped')} stopped, ${countOf('error')} failed`);
+  return results;
+}
+
+/**
+ * Look up an auto-renewal by its management token
+ * @param token Renewal management token
+ * @returns Auto-renewal with its member, or null if the token is unknown
+ */
+export async function getAutoRenewalByToken(token: string): Promise<AutoRenewalWithUser | null> {
+  return prisma.autoRenewal.findUnique({
+    where: { manageToken: token },
+    include: { user: true }
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Session slots
+ * GOALETE runs up to one session per slot each day (a morning and an evening
+ * batch). Members pick a preferred slot at registration; it is stored on the
+ * subscription and decides which of the day's meetings they are invited to.
+ * Kept free of database access so the registration form can use it.
+ */
+
+export const SESSION_SLOTS = {
+  MORNING: "morning" as const,
+  EVENING: "evening" as const,
+} as const;
+
+export type SessionSlot = typeof SESSION_SLOTS[keyof typeof SESSION_SLOTS];
+
+export const SESSION_SLOT_VALUES = Object.values(SESSION_SLOTS) as [SessionSlot, ...SessionSlot[]];
+
+// Slot of members who have not picked one, and of meetings created before slots existed
+export const DEFAULT_SESSION_SLOT: SessionSlot = SESSION_SLOTS.EVENING;
+
+export const SESSION_SLOT_LABELS: Record<SessionSlot, string> = {
+  [SESSION_SLOTS.MORNING]: "Morning",
+  [SESSION_SLOTS.EVENING]: "Evening",
+};
+
+/**
+ * Check whether a value is a known slot
+ * @param value Value to check
+ * @returns true if the value is a session slot
+ */
+export function isSessionSlot(value: unknown): value is SessionSlot {
+  return SESSION_SLOT_VALUES.includes(value as SessionSlot);
+}
+
+/**
+ * Get the start time of a slot's session. MORNING_MEETING_TIME and
+ * DEFAULT_MEETING_TIME override the defaults on the server.
+ * @param slot Session slot
+ * @returns Start time as HH:MM (24-hour, IST)
+ */
+export function getSlotStartTime(slot: SessionSlot): string {
+  if (slot === SESSION_SLOTS.MORNING) {
+    return process.env.MORNING_MEETING_TIME || '07:00';
+  }
+  return process.env.DEFAULT_MEETING_TIME || '21:00';
+}
+
+/**
+ * Get the default number of attendees of a slot's session, for meetings
+ * without their own capacity. Set with MORNING_SESSION_CAPACITY /
+ * EVENING_SESSION_CAPACITY, or SESSION_CAPACITY for every slot.
+ * @param slot Session slot
+ * @returns Maximum attendees, or null if the session is not limited
+ */
+export function getSlotCapacity(slot: SessionSlot): number | null {
+  const value = process.env[`${slot.toUpperCase()}_SESSION_CAPACITY`] || process.env.SESSION_CAPACITY;
+  const capacity = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(capacity) && capacity > 0 ? capacity : null;
+}
+
+/**
+ * Get the slot whose default start time is nearest to a time, for meetings
+ * found in the calendar
+ * @param startTime Start time as HH:MM (24-hour, IST)
+ * @returns Nearest session slot
+ */
+export function getSlotForStartTime(startTime: string): SessionSlot {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  };
+  const target = toMinutes(startTime);
+
+  let nearest = DEFAULT_SESSION_SLOT;
+  let nearestDistance = Infinity;
+  for (const slot of SESSION_SLOT_VALUES) {
+    const distance = Math.abs(toMinutes(getSlotStartTime(slot)) - target);
+    if (distance < nearestDistance) {
+      nearest = slot;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
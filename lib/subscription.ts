@@ -3,6 +3,11 @@ import { manageMeeting } from './meetingLink';
 import type { Meeting } from '@/generated/prisma';
 import { MeetingWithUsers } from '../types/meeting';
 import { PLAN_PRICING, PLAN_TYPES } from './pricing';
+import { notPausedOn } from './pauses';
+import { getHoliday, toHolidayDate } from './holidays';
+import { LIVE_SUBSCRIPTION_STATUSES, SubscriptionStatus } from './subscriptionStatus';
+import { DEFAULT_SESSION_SLOT, SESSION_SLOT_VALUES, getSlotStartTime, type SessionSlot } from './sessionSlots';
+import { getDefaultMeetingPlatform } from './meetingPlatforms';
 import type { PlanType } from './pricing';
 
 // Format date helper function for DD:MM:YY format in IST timezone
@@ -26,6 +31,7 @@ interface SubscriptionValidationResult {
   canSubscribe: boolean;
   reason: string | null;
   subscriptionDetails: any | null;
+  upgradeAvailable?: boolean; // The conflict can be resolved by upgrading the existing booking
   conflictingDates?: {
     start: string;
     end: string;
@@ -48,7 +54,7 @@ export async function checkActiveSubscription(email: string) {
       include: {
         subscriptions: {
           where: {
-            status: "active",
+            status: { in: LIVE_SUBSCRIPTION_STATUSES },
             endDate: {
               gte: today // End date is in the future
             }
@@ -106,13 +112,15 @@ export async function checkActiveSubscription(email: string) {
  * @param startDate Proposed subscription start date
  * @param endDate Proposed subscription end date
  * @param planType The type of plan being purchased (PLAN_TYPES.DAILY or PLAN_TYPES.MONTHLY)
+ * @param excludeSubscriptionIds Subscriptions to ignore, e.g. those being replaced by an upgrade
  * @returns Object indicating if user can subscribe and reason if not
  */
 export async function canUserSubscribeForDates(
   email: string, 
   startDate: Date, 
   endDate: Date, 
-  planType?: string
+  planType?: string,
+  excludeSubscriptionIds: string[] = []
 ): Promise<SubscriptionValidationResult> {
   try {
     // Validate dates first
@@ -125,13 +133,14 @@ export async function canUserSubscribeForDates(
       };
     }
 
-    // Get all active subscriptions for this user
+    // Get all active and paused subscriptions for this user, since both hold their dates
     const allSubsUser = await prisma.user.findUnique({
       where: { email },
       include: { 
         subscriptions: {
           where: {
-            status: "active",
+            status: { in: LIVE_SUBSCRIPTION_STATUSES },
+            id: { notIn: excludeSubscriptionIds },
           }
         } 
       }
@@ -199,8 +208,9 @@ export async function canUserSubscribeForDates(
       
       return {
         canSubscribe: false,
-        reason: `Cannot purchase a ${PLAN_PRICING[PLAN_TYPES.MONTHLY].name} that overlaps with your existing ${PLAN_PRICING[PLAN_TYPES.DAILY].name} from ${formattedSubStart}${formattedSubStart !== formattedSubEnd ? ` to ${formattedSubEnd}` : ''}. Please select non-overlapping dates.`,
-        subscriptionDetails: null
+        reason: `Cannot purchase a ${PLAN_PRICING[PLAN_TYPES.MONTHLY].name} that overlaps with your existing ${PLAN_PRICING[PLAN_TYPES.DAILY].name} from ${formattedSubStart}${formattedSubStart !== formattedSubEnd ? ` to ${formattedSubEnd}` : ''}. You can upgrade your booking to the ${PLAN_PRICING[PLAN_TYPES.MONTHLY].name} with credit for it, or select non-overlapping dates.`,
+        subscriptionDetails: dailySub,
+        upgradeAvailable: true
       };
     }
     
@@ -431,9 +441,10 @@ export async function getTodayActiveSubscriptions() {
     
     const activeSubscriptions = await prisma.subscription.findMany({
       where: {
-        status: "active",
+        status: SubscriptionStatus.active,
         startDate: { lte: today },
-        endDate: { gte: today }
+        endDate: { gte: today },
+        ...notPausedOn(today)
       },
       include: {
         user: true
@@ -454,9 +465,13 @@ export async function getTodayActiveSubscriptions() {
  /**
  * Gets or creates a meeting link for today
  * Enhanced version that prioritizes admin-added meetings
- * @returns The meeting object for today
+ * @param slot Session of the day; slots other than the default only get a
+ * meeting once a member has booked them
+ * @returns The meeting object for today, or null on a day without a session.
+ * A cancelled meeting is returned as it is, so callers must check cancelledAt
+ * before sending its link to anyone
  */
-export async function getOrCreateDailyMeetingLink(): Promise<MeetingWithUsers | null> {
+export async function getOrCreateDailyMeetingLink(slot: SessionSlot = DEFAULT_SESSION_SLOT): Promise<MeetingWithUsers | null> {
   try {
     // Get today's date in IST
     const istDate = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
@@ -468,32 +483,46 @@ export async function getOrCreateDailyMeetingLink(): Promise<MeetingWithUsers |
         meetingDate: {
           gte: new Date(istDate.getFullYear(), istDate.getMonth(), istDate.getDate(), 0, 0, 0),
           lt: new Date(istDate.getFullYear(), istDate.getMonth(), istDate.getDate() + 1, 0, 0, 0)
-        }
+        },
+        slot
       },
       include: { users: true }
     });
     
     if (existingMeeting) {
-      console.log(`Found existing meeting for today: ${existingMeeting.id} (${existingMeeting.createdBy})`);
+      console.log(`Found existing ${slot} meeting for today: ${existingMeeting.id} (${existingMeeting.createdBy})`);
       return existingMeeting;
     }
 
-    console.log(`No existing meeting found for today, creating default meeting`);
+    // No default meeting on a day without a session
+    const holiday = await getHoliday(toHolidayDate(istDate));
+    if (holiday) {
+      console.log(`No session today (${holiday.reason}), not creating a default meeting`);
+      return null;
+    }
 
-    // Get all users with active subscriptions for today
+    // Get all users of the slot with active subscriptions for today
     const activeSubscriptions = await prisma.subscription.findMany({
       where: {
-        status: 'active',
+        status: SubscriptionStatus.active,
+        slot,
         startDate: { lte: istDate },
-        endDate: { gte: istDate }
+        endDate: { gte: istDate },
+        ...notPausedOn(istDate)
       },
       select: { userId: true }
     });
     const userIds = activeSubscriptions.map(sub => sub.userId);
 
+    if (slot !== DEFAULT_SESSION_SLOT && userIds.length === 0) {
+      return null;
+    }
+
+    console.log(`No existing ${slot} meeting found for today, creating default meeting`);
+
     // Get default meeting settings from environment variables
-    const defaultPlatform = process.env.DEFAULT_MEETING_PLATFORM || 'google-meet';
-    const defaultTime = process.env.DEFAULT_MEETING_TIME || '21:00';
+    const defaultPlatform = getDefaultMeetingPlatform();
+    const defaultTime = getSlotStartTime(slot);
     const defaultDuration = parseInt(process.env.DEFAULT_MEETING_DURATION || '60');
     const todayStr = istDate.toISOString().split('T')[0];
 
@@ -502,7 +531,8 @@ export async function getOrCreateDailyMeetingLink(): Promise<MeetingWithUsers |
     // Create the meeting with all users for today using unified function
     const meeting = await manageMeeting({
       date: todayStr,
-      platform: defaultPlatform as 'google-meet' | 'zoom',
+      slot,
+      platform: defaultPlatform,
       startTime: defaultTime,
       duration: defaultDuration,
       meetingTitle: 'GOALETE Club Daily Session',
@@ -527,3 +557,16 @@ export async function getOrCreateDailyMeetingLink(): Promise<MeetingWithUsers |
     throw error;
   }
 }
+
+/**
+ * Gets or creates today's meeting for every slot that runs today
+ * @returns Today's meetings in slot order; empty on a day without a session
+ */
+export async function getOrCreateDailyMeetingLinks(): Promise<MeetingWithUsers[]> {
+  const meetings: MeetingWithUsers[] = [];
+  for (const slot of SESSION_SLOT_VALUES) {
+    const meeting = await getOrCreateDailyMeetingLink(slot);
+    if (meeting) meetings.push(meeting);
+  }
+  return meetings;
+}
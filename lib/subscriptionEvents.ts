@@ -0,0 +1,129 @@
+/**
+ * Subscription history
+ * Every change to a member's subscriptions, their unlimited access and their
+ * meeting invites is appended to SubscriptionEvent with who made it and the
+ * values before and after, so disputed dates can be traced. Events are never
+ * updated (a database trigger rejects updates); deleting a member only
+ * detaches their events, so the history outlives them.
+ */
+import prisma from './prisma';
+import type { Prisma, Subscription, SubscriptionEvent } from '@/generated/prisma';
+
+export const SUBSCRIPTION_EVENT_TYPES = {
+  CREATED: "created" as const,
+  STATUS_CHANGED: "status_changed" as const,
+  PAUSED: "paused" as const,
+  RESUMED: "resumed" as const,
+  EXTENDED: "extended" as const,       // End date pushed out for a day without a session
+  REFUNDED: "refunded" as const,       // Partial refunds that leave the status unchanged
+  UNLIMITED_GRANTED: "unlimited_granted" as const,
+  UNLIMITED_REVOKED: "unlimited_revoked" as const,
+  MEETING_ADDED: "meeting_added" as const,
+  MEETING_REMOVED: "meeting_removed" as const,
+  USER_UPDATED: "user_updated" as const,
+  DELETED: "deleted" as const,         // Subscription deleted along with its member
+} as const;
+
+export type SubscriptionEventType = typeof SUBSCRIPTION_EVENT_TYPES[keyof typeof SUBSCRIPTION_EVENT_TYPES];
+
+export const EVENT_ACTORS = {
+  ADMIN: "admin" as const,
+  SYSTEM: "system" as const,   // Cron jobs and reconciliation
+  WEBHOOK: "webhook" as const, // Razorpay webhook
+  MEMBER: "member" as const,   // Checkout, seat claims and renewal management
+} as const;
+
+export type EventActor = typeof EVENT_ACTORS[keyof typeof EVENT_ACTORS];
+
+/**
+ * Event to record; before and after hold only the fields that changed
+ */
+export interface SubscriptionEventInput {
+  userId: string;
+  subscriptionId?: string | null;
+  meetingId?: string | null;
+  type: SubscriptionEventType;
+  actor: EventActor;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  note?: string | null;
+}
+
+/**
+ * Turn recorded values into JSON: dates become ISO strings and undefined
+ * fields are dropped
+ */
+function toAuditValues(values?: Record<string, unknown>): Prisma.InputJsonObject | undefined {
+  if (!values) return undefined;
+  return JSON.parse(JSON.stringify(values));
+}
+
+/**
+ * Fields of a subscription worth keeping in its history when it is created
+ * @param subscription Subscription to describe
+ * @returns Plain values for the event
+ */
+export function subscriptionSnapshot(subscription: Subscription): Record<string, unknown> {
+  return {
+    planType: subscription.planType,
+    startDate: subscription.startDate,
+    endDate: subscription.endDate,
+    status: subscription.status,
+    paymentStatus: subscription.paymentStatus,
+    price: subscription.price,
+    orderId: subscription.orderId,
+  };
+}
+
+/**
+ * Append events to the subscription history
+ * @param events Events to record
+ * @param client Prisma client or transaction to run in
+ * @returns Number of events recorded
+ */
+export async function recordSubscriptionEvents(
+  events: SubscriptionEventInput[],
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const result = await client.subscriptionEvent.createMany({
+    data: events.map(event => ({
+      userId: event.userId,
+      subscriptionId: event.subscriptionId ?? null,
+      meetingId: event.meetingId ?? null,
+      type: event.type,
+      actor: event.actor,
+      before: toAuditValues(event.before),
+      after: toAuditValues(event.after),
+      note: event.note ?? null,
+    }))
+  });
+  return result.count;
+}
+
+/**
+ * Append one event to the subscription history
+ * @param event Event to record
+ * @param client Prisma client or transaction to run in
+ */
+export async function recordSubscriptionEvent(
+  event: SubscriptionEventInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await recordSubscriptionEvents([event], client);
+}
+
+/**
+ * Get a member's history, newest first
+ * @param userId Member to look up
+ * @param limit Maximum number of events
+ * @returns Events of the member
+ */
+export async function getUserTimeline(userId: string, limit = 200): Promise<SubscriptionEvent[]> {
+  return prisma.subscriptionEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * Subscription lifecycle
+ * Subscription.status and paymentStatus are Prisma enums, and every status
+ * change goes through this module so a subscription can only move along the
+ * lifecycle below; anything else is rejected:
+ *
+ *   pending → active ⇄ paused
+ *   pending → expired (checkout never paid) | cancelled
+ *   active / paused → expired | cancelled | refunded
+ *   active → upgraded (replaced by an upgrade)
+ *   expired / cancelled → refunded
+ *   expired → active (a late payment for an expired checkout)
+ *
+ * The same table is enforced by a database trigger (see the
+ * subscription_status_enums migration), so keep the two in step.
+ */
+import prisma from './prisma';
+import { PaymentStatus, SubscriptionStatus } from '@/generated/prisma';
+import {
+  EVENT_ACTORS,
+  SUBSCRIPTION_EVENT_TYPES,
+  recordSubscriptionEvent,
+  recordSubscriptionEvents,
+  type EventActor,
+  type SubscriptionEventInput
+} from './subscriptionEvents';
+import type { Prisma, Subscription } from '@/generated/prisma';
+
+export { PaymentStatus, SubscriptionStatus };
+
+// Statuses each status may move to
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, readonly SubscriptionStatus[]> = {
+  [SubscriptionStatus.pending]: [SubscriptionStatus.active, SubscriptionStatus.expired, SubscriptionStatus.cancelled],
+  [SubscriptionStatus.active]: [
+    SubscriptionStatus.paused,
+    SubscriptionStatus.expired,
+    SubscriptionStatus.cancelled,
+    SubscriptionStatus.refunded,
+    SubscriptionStatus.upgraded
+  ],
+  [SubscriptionStatus.paused]: [
+    SubscriptionStatus.active,
+    SubscriptionStatus.expired,
+    SubscriptionStatus.cancelled,
+    SubscriptionStatus.refunded
+  ],
+  [SubscriptionStatus.expired]: [SubscriptionStatus.active, SubscriptionStatus.refunded],
+  [SubscriptionStatus.cancelled]: [SubscriptionStatus.refunded],
+  [SubscriptionStatus.refunded]: [],
+  [SubscriptionStatus.upgraded]: [],
+};
+
+// Statuses of a subscription that holds its dates, whether or not it is paused today
+export const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.active, SubscriptionStatus.paused];
+
+// Payment statuses that entitle a member to sessions
+export const ENTITLED_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.success, PaymentStatus.admin_added];
+
+// Payment statuses of a checkout that has not been paid yet
+export const UNPAID_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.pending, PaymentStatus.failed];
+
+/**
+ * Raised when a status change is not allowed by the lifecycle
+ */
+export class InvalidStatusTransitionError extends Error {
+  from: SubscriptionStatus;
+  to: SubscriptionStatus;
+
+  constructor(from: SubscriptionStatus, to: SubscriptionStatus, subscriptionId?: string) {
+    super(`Subscription${subscriptionId ? ` ${subscriptionId}` : ''} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Check whether a subscription may move from one status to another
+ * @param from Current status
+ * @param to New status
+ * @returns true if the lifecycle allows the transition
+ */
+export function canTransition(from: SubscriptionStatus, to: SubscriptionStatus): boolean {
+  return SUBSCRIPTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Get every status a subscription may be in to move to a status
+ * @param to New status
+ * @returns Statuses the transition is allowed from
+ */
+export function statusesLeadingTo(to: SubscriptionStatus): SubscriptionStatus[] {
+  return (Object.keys(SUBSCRIPTION_TRANSITIONS) as SubscriptionStatus[]).filter(from => canTransition(from, to));
+}
+
+/**
+ * Options for a status change
+ */
+export interface TransitionOptions {
+  // Other fields to update along with the status
+  data?: Omit<Prisma.SubscriptionUpdateManyMutationInput, 'status'>;
+  // Who made the change, for the subscription history
+  actor?: EventActor;
+  note?: string;
+  // Prisma client or transaction to run in
+  client?: Prisma.TransactionClient;
+}
+
+/**
+ * Values of the updated fields before and after a status change
+ */
+function describeTransition(
+  subscription: Subscription,
+  to: SubscriptionStatus,
+  data: TransitionOptions['data'] = {}
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const before: Record<string, unknown> = { status: subscription.status };
+  for (const field of Object.keys(data)) {
+    before[field] = subscription[field as keyof Subscription];
+  }
+  return { before, after: { ...data, status: to } };
+}
+
+/**
+ * Move one subscription to a new status. The update only applies while the
+ * subscription is still in the status that was checked, so a concurrent
+ * change cannot be overwritten.
+ * @param subscriptionId Subscription to update
+ * @param to New status
+ * @param options Other fields to update, actor and client
+ * @returns The updated subscription
+ * @throws InvalidStatusTransitionError if the lifecycle does not allow the change
+ */
+export async function transitionSubscription(
+  subscriptionId: string,
+  to: SubscriptionStatus,
+  { data = {}, actor = EVENT_ACTORS.SYSTEM, note, client = prisma }: TransitionOptions = {}
+): Promise<Subscription> {
+  const current = await client.subscription.findUnique({ where: { id: subscriptionId } });
+  if (!current) {
+    throw new Error(`Subscription ${subscriptionId} not found`);
+  }
+  if (!canTransition(current.status, to)) {
+    throw new InvalidStatusTransitionError(current.status, to, subscriptionId);
+  }
+
+  const result = await client.subscription.updateMany({
+    where: { id: subscriptionId, status: current.status },
+    data: { ...data, status: to }
+  });
+  if (result.count === 0) {
+    const latest = await client.subscription.findUniqueOrThrow({ where: { id: subscriptionId }, select: { status: true } });
+    throw new InvalidStatusTransitionError(latest.status, to, subscriptionId);
+  }
+
+  await recordSubscriptionEvent({
+    userId: current.userId,
+    subscriptionId,
+    type: SUBSCRIPTION_EVENT_TYPES.STATUS_CHANGED,
+    actor,
+    note,
+    ...describeTransition(current, to, data)
+  }, client);
+
+  return client.subscription.findUniqueOrThrow({ where: { id: subscriptionId } });
+}
+
+/**
+ * Move every matching subscription that is allowed to make the transition
+ * to a new status; subscriptions in any other status are left untouched
+ * @param where Subscriptions to update
+ * @param to New status
+ * @param options Other fields to update, actor and client
+ * @returns Number of subscriptions updated
+ */
+export async function transitionSubscriptions(
+  where: Prisma.SubscriptionWhereInput,
+  to: SubscriptionStatus,
+  { data = {}, actor = EVENT_ACTORS.SYSTEM, note, client = prisma }: TransitionOptions = {}
+): Promise<number> {
+  const candidates = await client.subscription.findMany({
+    where: { AND: [where, { status: { in: statusesLeadingTo(to) } }] }
+  });
+
+  // Each row is claimed in the status it was read in, so the history only
+  // records changes that were actually made
+  const events: SubscriptionEventInput[] = [];
+  for (const subscription of candidates) {
+    const result = await client.subscription.updateMany({
+      where: { id: subscription.id, status: subscription.status },
+      data: { ...data, status: to }
+    });
+    if (result.count === 0) continue;
+
+    events.push({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      type: SUBSCRIPTION_EVENT_TYPES.STATUS_CHANGED,
+      actor,
+      note,
+      ...describeTransition(subscription, to, data)
+    });
+  }
+
+  await recordSubscriptionEvents(events, client);
+  return events.length;
+}
+
+/**
+ * Bring date-driven statuses up to date: subscriptions that have ended are
+ * expired, and subscriptions move between active and paused as their
+ * pauses start and end
+ * @param today Day to sync for (midnight)
+ * @returns Number of subscriptions moved to each status
+ */
+export async function syncSubscriptionStatuses(today: Date): Promise<{ expired: number; paused: number; resumed: number }> {
+  const pausedToday: Prisma.SubscriptionPauseWhereInput = {
+    status: 'active',
+    startDate: { lte: today },
+    endDate: { gt: today }
+  };
+
+  const expired = await transitionSubscriptions(
+    { status: { in: LIVE_SUBSCRIPTION_STATUSES }, endDate: { lt: today } },
+    SubscriptionStatus.expired,
+    { note: 'Subscription ended' }
+  );
+  const paused = await transitionSubscriptions(
+    { status: SubscriptionStatus.active, pauses: { some: pausedToday } },
+    SubscriptionStatus.paused,
+    { note: 'Pause started' }
+  );
+  const resumed = await transitionSubscriptions(
+    { status: SubscriptionStatus.paused, pauses: { none: pausedToday } },
+    SubscriptionStatus.active,
+    { note: 'Pause ended' }
+  );
+
+  return { expired, paused, resumed };
+}
@@ -0,0 +1,307 @@
+/**
+ * Microsoft Teams meetings
+ * A Teams session is an Outlook calendar event with a Teams online meeting on
+ * the organizer's calendar, managed through Microsoft Graph with an app
+ * registration (client credentials). Members are the event's attendees, and
+ * participant records come from the online meeting's attendance reports.
+ *
+ * Needs MS_TENANT_ID, MS_CLIENT_ID, MS_CLIENT_SECRET and MS_ORGANIZER_ID (the
+ * organizer's user ID or user principal name). The app needs the
+ * Calendars.ReadWrite, OnlineMeetings.Read.All and
+ * OnlineMeetingArtifact.Read.All application permissions, and an application
+ * access policy that covers the organizer.
+ */
+import axios from 'axios';
+import { format } from 'date-fns';
+import type { ParticipantRecord } from './attendance';
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Get the organizer whose calendar holds the Teams sessions
+ */
+function getOrganizerId(): string {
+  const organizerId = process.env.MS_ORGANIZER_ID;
+  if (!organizerId) {
+    throw new Error('Microsoft Teams organizer is not set (MS_ORGANIZER_ID)');
+  }
+  return encodeURIComponent(organizerId);
+}
+
+/**
+ * Graph takes event times without an offset plus a time zone; UTC keeps them exact
+ */
+function toGraphDateTime(date: Date): { dateTime: string; timeZone: string } {
+  return { dateTime: date.toISOString().replace('Z', ''), timeZone: 'UTC' };
+}
+
+export async function get_teams_token(): Promise<string> {
+  const tenantId = process.env.MS_TENANT_ID;
+  const clientId = process.env.MS_CLIENT_ID;
+  const clientSecret = process.env.MS_CLIENT_SECRET;
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error('Microsoft Graph credentials are not set (MS_TENANT_ID, MS_CLIENT_ID, MS_CLIENT_SECRET)');
+  }
+
+  try {
+    const response = await axios.post(
+      `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`,
+      new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope: 'https://graph.microsoft.com/.default'
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+
+    return response.data.access_token;
+  } catch (error: any) {
+    console.error('Error getting Microsoft Graph token:', error.response?.data || error.message);
+    throw new Error('Failed to get Microsoft Graph access token');
+  }
+}
+
+/**
+ * Create a Teams meeting as an event on the organizer's calendar
+ * @param date ISO date string (YYYY-MM-DD)
+ * @param startTime string (HH:MM, 24-hour format, IST)
+ * @param duration number (minutes)
+ * @param meetingTitle optional title for the meeting
+ * @param meetingDesc optional description for the meeting
+ * @returns Join URL and the calendar event ID
+ */
+export async function teams_create_meet({
+  date,
+  startTime,
+  duration,
+  meetingTitle,
+  meetingDesc
+}: {
+  date: string;
+  startTime: string;
+  duration: number;
+  meetingTitle?: string;
+  meetingDesc?: string;
+}): Promise<{ join_url: string; id: string }> {
+  const accessToken = await get_teams_token();
+
+  const start = new Date(`${date}T${startTime}:00.000+05:30`);
+  const end = new Date(start.getTime() + duration * MINUTE_MS);
+
+  const dateString = format(new Date(date), 'dd-MM-yy');
+  const finalMeetingTitle = meetingTitle
+    ? `${meetingTitle} ${dateString}`
+    : process.env.DEFAULT_MEETING_TITLE
+      ? `${process.env.DEFAULT_MEETING_TITLE} ${dateString}`
+      : `GOALETE Club Session ${dateString}`;
+  const finalMeetingDesc = meetingDesc || process.env.DEFAULT_MEETING_DESCRIPTION || 'Join us for a GOALETE Club session to learn how to achieve any goal in life.';
+
+  try {
+    const response = await axios.post(
+      `${GRAPH_URL}/users/${getOrganizerId()}/events`,
+      {
+        subject: finalMeetingTitle,
+        body: { contentType: 'text', content: finalMeetingDesc },
+        start: toGraphDateTime(start),
+        end: toGraphDateTime(end),
+        isOnlineMeeting: true,
+        onlineMeetingProvider: 'teamsForBusiness',
+        allowNewTimeProposals: false,
+        attendees: []
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    const joinUrl = response.data.onlineMeeting?.joinUrl;
+    if (!joinUrl) {
+      throw new Error('Event was created without a Teams meeting');
+    }
+    return { join_url: joinUrl, id: response.data.id };
+  } catch (error: any) {
+    console.error('Microsoft Graph create event error:', error.response?.data || error.message);
+    throw new Error('Failed to create Teams meeting');
+  }
+}
+
+/**
+ * Move a Teams meeting to a new time; the join link stays the same
+ * @param eventId Calendar event ID
+ * @param startTime New start
+ * @param endTime New end
+ */
+export async function teams_update_meet(eventId: string, startTime: Date, endTime: Date): Promise<void> {
+  const accessToken = await get_teams_token();
+  try {
+    await axios.patch(
+      `${GRAPH_URL}/users/${getOrganizerId()}/events/${eventId}`,
+      { start: toGraphDateTime(startTime), end: toGraphDateTime(endTime) },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  } catch (error: any) {
+    console.error('Microsoft Graph update event error:', error.response?.data || error.message);
+    throw new Error('Failed to update Teams meeting');
+  }
+}
+
+/**
+ * Delete a Teams meeting's calendar event; an event that is already gone
+ * counts as deleted
+ * @param eventId Calendar event ID
+ */
+export async function teams_cancel_meet(eventId: string): Promise<void> {
+  const accessToken = await get_teams_token();
+  try {
+    await axios.delete(
+      `${GRAPH_URL}/users/${getOrganizerId()}/events/${eventId}`,
+      { headers: { 'Authorization': `Bearer ${accessToken}` } }
+    );
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      console.log(`Teams event ${eventId} was already deleted`);
+      return;
+    }
+    console.error('Microsoft Graph delete event error:', error.response?.data || error.message);
+    throw new Error('Failed to delete Teams meeting');
+  }
+}
+
+type GraphAttendee = { emailAddress: { address: string; name?: string }; type: string };
+
+/**
+ * Replace the attendees of a Teams meeting's calendar event
+ */
+async function updateTeamsAttendees(
+  eventId: string,
+  update: (attendees: GraphAttendee[]) => GraphAttendee[]
+): Promise<void> {
+  const accessToken = await get_teams_token();
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json'
+  };
+  const eventUrl = `${GRAPH_URL}/users/${getOrganizerId()}/events/${eventId}`;
+
+  const event = await axios.get(eventUrl, { headers, params: { $select: 'attendees' } });
+  const attendees: GraphAttendee[] = event.data.attendees || [];
+  const updatedAttendees = update(attendees);
+  if (updatedAttendees === attendees) return;
+
+  await axios.patch(eventUrl, { attendees: updatedAttendees }, { headers });
+}
+
+/**
+ * Add users as attendees of a Teams meeting; Outlook sends them the invite
+ * @param eventId Calendar event ID
+ * @param users Users to add
+ */
+export async function teams_add_users_to_meeting(eventId: string, users: { email: string, name?: string }[]): Promise<void> {
+  if (users.length === 0) return;
+
+  try {
+    await updateTeamsAttendees(eventId, attendees => {
+      const existingEmails = new Set(attendees.map(attendee => attendee.emailAddress.address.toLowerCase()));
+      const newUsers = users.filter(user => !existingEmails.has(user.email.toLowerCase()));
+      if (newUsers.length === 0) return attendees;
+      return [
+        ...attendees,
+        ...newUsers.map(user => ({
+          emailAddress: { address: user.email, name: user.name || user.email.split('@')[0] },
+          type: 'required'
+        }))
+      ];
+    });
+    console.log(`✅ Added ${users.length} users to Teams event ${eventId}`);
+  } catch (error: any) {
+    console.error('Microsoft Graph add attendees error:', error.response?.data || error.message);
+    throw new Error('Failed to add users to Teams meeting');
+  }
+}
+
+/**
+ * Remove attendees from a Teams meeting
+ * @param eventId Calendar event ID
+ * @param emails Emails of the attendees to remove
+ */
+export async function teams_remove_users_from_meeting(eventId: string, emails: string[]): Promise<void> {
+  if (emails.length === 0) return;
+
+  try {
+    const removedEmails = new Set(emails.map(email => email.toLowerCase()));
+    await updateTeamsAttendees(eventId, attendees => {
+      const remaining = attendees.filter(attendee => !removedEmails.has(attendee.emailAddress.address.toLowerCase()));
+      return remaining.length === attendees.length ? attendees : remaining;
+    });
+    console.log(`✅ Removed ${emails.length} users from Teams event ${eventId}`);
+  } catch (error: any) {
+    console.error('Microsoft Graph remove attendees error:', error.response?.data || error.message);
+    throw new Error('Failed to remove users from Teams meeting');
+  }
+}
+
+/**
+ * Participant records of a Teams session, from the attendance reports of its
+ * online meeting
+ * @param joinUrl Join URL of the meeting
+ * @param startTime Scheduled start; reports of other occurrences are skipped
+ * @param endTime Scheduled end
+ * @returns One record per stretch a participant was in the meeting
+ */
+export async function teams_fetch_participants(joinUrl: string, startTime: Date, endTime: Date): Promise<ParticipantRecord[]> {
+  const accessToken = await get_teams_token();
+  const headers = { 'Authorization': `Bearer ${accessToken}` };
+  const organizerUrl = `${GRAPH_URL}/users/${getOrganizerId()}`;
+
+  try {
+    const meetings = await axios.get(`${organizerUrl}/onlineMeetings`, {
+      headers,
+      params: { $filter: `JoinWebUrl eq '${joinUrl}'` }
+    });
+    const onlineMeetingId = meetings.data.value?.[0]?.id;
+    if (!onlineMeetingId) {
+      throw new Error(`No Teams meeting found for ${joinUrl}`);
+    }
+
+    // The same meeting can be joined on other days, so only reports around the session count
+    const from = startTime.getTime() - 60 * MINUTE_MS;
+    const to = endTime.getTime() + 60 * MINUTE_MS;
+    const reports = await axios.get(`${organizerUrl}/onlineMeetings/${onlineMeetingId}/attendanceReports`, { headers });
+
+    const participants: ParticipantRecord[] = [];
+    for (const report of reports.data.value || []) {
+      const reportStart = new Date(report.meetingStartDateTime).getTime();
+      if (reportStart < from || reportStart > to) continue;
+
+      const records = await axios.get(
+        `${organizerUrl}/onlineMeetings/${onlineMeetingId}/attendanceReports/${report.id}/attendanceRecords`,
+        { headers }
+      );
+      for (const record of records.data.value || []) {
+        for (const interval of record.attendanceIntervals || []) {
+          participants.push({
+            email: record.emailAddress,
+            name: record.identity?.displayName,
+            joinedAt: new Date(interval.joinDateTime),
+            leftAt: interval.leaveDateTime ? new Date(interval.leaveDateTime) : null
+          });
+        }
+      }
+    }
+    return participants;
+  } catch (error: any) {
+    console.error('Microsoft Graph attendance report error:', error.response?.data || error.message);
+    throw new Error('Failed to fetch Teams participants');
+  }
+}
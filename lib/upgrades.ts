@@ -0,0 +1,209 @@
+/**
+ * Plan upgrades
+ * A subscriber with a daily booking can buy a monthly plan over the same
+ * dates instead of being turned away: the unused part of the booking is
+ * credited against the new plan's price and the booking is replaced when the
+ * new order is paid. Every replacement is recorded as a PlanConversion so
+ * analytics can report how many daily customers go on to a monthly plan
+ */
+import prisma from './prisma';
+import { PLAN_TYPES } from './pricing';
+import { getPlanNames } from './plans';
+import { PaymentStatus, SubscriptionStatus, transitionSubscriptions } from './subscriptionStatus';
+import { EVENT_ACTORS } from './subscriptionEvents';
+import type { Prisma, Subscription } from '@/generated/prisma';
+
+// Plans each plan can be upgraded to
+export const UPGRADE_PATHS: Record<string, string[]> = {
+  [PLAN_TYPES.DAILY]: [PLAN_TYPES.MONTHLY],
+};
+
+export const CONVERSION_STATUSES = {
+  PENDING: "pending" as const,
+  COMPLETED: "completed" as const,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Subscription to be replaced by an upgrade with the credit it earns
+ */
+export interface UpgradeCredit {
+  subscription: Subscription;
+  creditAmount: number; // Credit in INR
+}
+
+/**
+ * Result of an upgrade quote
+ */
+export interface UpgradeQuote {
+  eligible: boolean;
+  reason: string | null;
+  credits: UpgradeCredit[];
+  creditAmount: number; // Total credit in INR
+}
+
+/**
+ * Check whether one plan can be upgraded to another
+ * @param fromPlanType Plan of the existing subscription
+ * @param toPlanType Plan being bought
+ * @returns true if the upgrade path exists
+ */
+export function isUpgradePath(fromPlanType: string, toPlanType: string): boolean {
+  return (UPGRADE_PATHS[fromPlanType] || []).includes(toPlanType);
+}
+
+// Midnight (server time) of a date, matching the overlap checks in lib/subscription.ts
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Work out the credit for the unused part of a subscription replaced by a
+ * new plan: every day of it from today onwards that the new plan also
+ * covers is credited at the price actually paid per day
+ * @param subscription Subscription being replaced
+ * @param startDate Start of the new plan
+ * @param endDate End of the new plan (exclusive)
+ * @returns Credit in INR
+ */
+export function calculateUpgradeCredit(subscription: Subscription, startDate: Date, endDate: Date): number {
+  const today = startOfDay(new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' })));
+  const subStart = startOfDay(subscription.startDate);
+  const subEnd = startOfDay(subscription.endDate);
+
+  const totalDays = Math.max(Math.round((subEnd.getTime() - subStart.getTime()) / DAY_MS), 1);
+  const unusedFrom = Math.max(subStart.getTime(), today.getTime(), startOfDay(startDate).getTime());
+  const unusedUntil = Math.min(subEnd.getTime(), startOfDay(endDate).getTime());
+  const unusedDays = Math.max(Math.round((unusedUntil - unusedFrom) / DAY_MS), 0);
+
+  return Math.floor(subscription.price * Math.min(unusedDays, totalDays) / totalDays);
+}
+
+/**
+ * Quote an upgrade: find the user's active subscriptions that overlap the
+ * new plan and the credit they earn. Every overlapping subscription must be
+ * a paid, individually bought plan that can be upgraded to the new plan.
+ * @param userId User buying the new plan
+ * @param planType Plan being bought
+ * @param startDate Start of the new plan
+ * @param endDate End of the new plan (exclusive)
+ * @returns Upgrade quote
+ */
+export async function getUpgradeQuote({
+  userId,
+  planType,
+  startDate,
+  endDate
+}: {
+  userId: string;
+  planType: string;
+  startDate: Date;
+  endDate: Date;
+}): Promise<UpgradeQuote> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId, status: SubscriptionStatus.active },
+    orderBy: { startDate: 'asc' }
+  });
+
+  const newStart = startOfDay(startDate);
+  const newEnd = startOfDay(endDate);
+  // endDate is exclusive, so adjacent subscriptions do not overlap
+  const overlapping = subscriptions.filter(sub =>
+    newStart < startOfDay(sub.endDate) && newEnd > startOfDay(sub.startDate)
+  );
+
+  if (overlapping.length === 0) {
+    return { eligible: false, reason: "No existing booking to upgrade for these dates", credits: [], creditAmount: 0 };
+  }
+
+  const blocking = overlapping.find(sub =>
+    !isUpgradePath(sub.planType, planType) || sub.paymentStatus !== PaymentStatus.success || sub.groupOrderId
+  );
+  if (blocking) {
+    const planNames = await getPlanNames();
+    return {
+      eligible: false,
+      reason: `Your existing ${planNames[blocking.planType] || blocking.planType} cannot be upgraded to ${planNames[planType] || planType}`,
+      credits: [],
+      creditAmount: 0
+    };
+  }
+
+  const credits = overlapping.map(subscription => ({
+    subscription,
+    creditAmount: calculateUpgradeCredit(subscription, startDate, endDate)
+  }));
+  return {
+    eligible: true,
+    reason: null,
+    credits,
+    creditAmount: credits.reduce((sum, credit) => sum + credit.creditAmount, 0)
+  };
+}
+
+/**
+ * Record the conversions an upgrade order will complete once it is paid
+ * @param orderId Razorpay order ID of the new plan
+ * @param toSubscription Pending subscription bought with the credit
+ * @param credits Subscriptions to be replaced, from the upgrade quote
+ * @returns Number of conversions recorded
+ */
+export async function createPlanConversions({
+  orderId,
+  toSubscription,
+  credits
+}: {
+  orderId: string;
+  toSubscription: Subscription;
+  credits: UpgradeCredit[];
+}): Promise<number> {
+  const result = await prisma.planConversion.createMany({
+    data: credits.map(({ subscription, creditAmount }) => ({
+      userId: toSubscription.userId,
+      orderId,
+      fromSubscriptionId: subscription.id,
+      toSubscriptionId: toSubscription.id,
+      fromPlanType: subscription.planType,
+      toPlanType: toSubscription.planType,
+      creditAmount
+    }))
+  });
+  return result.count;
+}
+
+/**
+ * Replace the subscriptions an upgrade was bought against and mark its
+ * conversions completed. Runs in the transaction that activates the new
+ * subscription so the user is never left with both or neither.
+ * @param tx Transaction client
+ * @param toSubscriptionId Subscription bought with the credit
+ * @returns Number of subscriptions replaced
+ */
+export async function completePlanConversions(
+  tx: Prisma.TransactionClient,
+  toSubscriptionId: string
+): Promise<number> {
+  const conversions = await tx.planConversion.findMany({
+    where: { toSubscriptionId, status: CONVERSION_STATUSES.PENDING }
+  });
+  if (conversions.length === 0) return 0;
+
+  const fromSubscriptionIds = conversions.map(conversion => conversion.fromSubscriptionId);
+  const replaced = await transitionSubscriptions(
+    { id: { in: fromSubscriptionIds } },
+    SubscriptionStatus.upgraded,
+    { actor: EVENT_ACTORS.MEMBER, note: `Upgraded to subscription ${toSubscriptionId}`, client: tx }
+  );
+  if (replaced !== fromSubscriptionIds.length) {
+    console.warn(`Upgrade to ${toSubscriptionId} replaced ${replaced} of ${fromSubscriptionIds.length} subscription(s); the rest were no longer active`);
+  }
+
+  await tx.planConversion.updateMany({
+    where: { id: { in: conversions.map(conversion => conversion.id) } },
+    data: { status: CONVERSION_STATUSES.COMPLETED, completedAt: new Date() }
+  });
+  return replaced;
+}
@@ -0,0 +1,476 @@
+/**
+ * Session capacity and waitlist
+ * A session (one slot on one day) seats at most its meeting's capacity, or the
+ * slot's default capacity (see getSlotCapacity). Members who cannot get a seat
+ * wait in a first come, first served queue:
+ *
+ *   - members with a booking who did not fit in the meeting are added to it
+ *     when a seat frees up
+ *   - people who could not book a single-day plan are held a seat for
+ *     WAITLIST_HOLD_HOURS and asked to book it
+ *
+ * Seats are released when a subscription is cancelled; held seats that are
+ * not booked in time go to the next person by the daily invite job.
+ */
+import prisma from './prisma';
+import { manageMeeting } from './meetingLink';
+import { notPausedOn } from './pauses';
+import { sendWaitlistPromotedEmail, sendWaitlistedEmail } from './email';
+import { getJoinUrl } from './joinLinks';
+import { ENTITLED_PAYMENT_STATUSES, PaymentStatus, SubscriptionStatus } from './subscriptionStatus';
+import { SESSION_SLOT_LABELS, getSlotCapacity, type SessionSlot } from './sessionSlots';
+import type { Meeting, Prisma, Subscription, WaitlistEntry } from '@/generated/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WAITLIST_STATUSES = {
+  WAITING: "waiting" as const,
+  PROMOTED: "promoted" as const, // Added to the meeting, or holding a seat to book
+  BOOKED: "booked" as const,     // Held seat turned into a booking
+  EXPIRED: "expired" as const,   // Hold not booked in time, or the session has passed
+} as const;
+
+// How long a seat is held for a promoted member without a booking
+export const WAITLIST_HOLD_HOURS = 24;
+
+/**
+ * Seats of a session
+ */
+export interface SessionAvailability {
+  date: string;
+  slot: SessionSlot;
+  // null when the session is not limited
+  capacity: number | null;
+  booked: number;
+  remaining: number | null;
+  waiting: number;
+}
+
+/**
+ * Result of joining a waitlist
+ */
+export interface WaitlistResult {
+  success: boolean;
+  message: string;
+  entry: WaitlistEntry | null;
+  position?: number;
+}
+
+/**
+ * Link to the registration form, sent with a held seat
+ */
+function getBookingUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://form.goalete.com';
+  return `${baseUrl.replace(/\/$/, '')}/form`;
+}
+
+/**
+ * Get the session day a meeting belongs to
+ * @param meeting Meeting to look at
+ * @returns The day as yyyy-MM-dd
+ */
+export function getMeetingDay(meeting: Pick<Meeting, 'meetingDate'>): string {
+  return meeting.meetingDate.toISOString().split('T')[0];
+}
+
+/**
+ * Check whether a subscription's dates cover a session day. Days are compared
+ * as yyyy-MM-dd, since subscription dates carry the time they were bought at;
+ * plans end at midnight of their end date, so that day is not covered.
+ * @param subscription Subscription to look at
+ * @param day Session day as yyyy-MM-dd
+ * @returns true if the subscription runs on the day
+ */
+export function subscriptionCoversDay(subscription: Pick<Subscription, 'startDate' | 'endDate'>, day: string): boolean {
+  const toDay = (date: Date) => date.toISOString().split('T')[0];
+  return toDay(subscription.startDate) <= day && toDay(subscription.endDate) > day;
+}
+
+/**
+ * Subscriptions whose dates cover a session day; the query form of
+ * subscriptionCoversDay
+ * @param day Session day as yyyy-MM-dd
+ */
+export function coversDayWhere(day: string): Prisma.SubscriptionWhereInput {
+  const nextDay = new Date(new Date(`${day}T00:00:00.000Z`).getTime() + DAY_MS);
+  return {
+    startDate: { lt: nextDay },
+    endDate: { gte: nextDay }
+  };
+}
+
+/**
+ * Get the number of attendees a meeting seats
+ * @param meeting Meeting to look at
+ * @returns Maximum attendees, or null if the meeting is not limited
+ */
+export function getMeetingCapacity(meeting: Pick<Meeting, 'capacity' | 'slot'>): number | null {
+  return meeting.capacity ?? getSlotCapacity(meeting.slot as SessionSlot);
+}
+
+/**
+ * Find the meeting of a session, if it has been created
+ */
+async function findSessionMeeting(date: string, slot: SessionSlot) {
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  return prisma.meeting.findFirst({
+    where: {
+      meetingDate: { gte: dayStart, lt: new Date(dayStart.getTime() + DAY_MS) },
+      slot
+    },
+    include: { users: true }
+  });
+}
+
+/**
+ * Subscriptions holding a seat in a session: paid members attending that day,
+ * and checkouts still waiting for payment so the seat is not sold twice
+ * @param date Session day as yyyy-MM-dd
+ * @param slot Session slot
+ */
+function seatHoldingSubscriptions(date: string, slot: SessionSlot): Prisma.SubscriptionWhereInput {
+  const day = new Date(date);
+  return {
+    slot,
+    ...coversDayWhere(date),
+    OR: [
+      { status: SubscriptionStatus.active, paymentStatus: { in: ENTITLED_PAYMENT_STATUSES }, ...notPausedOn(day) },
+      { status: SubscriptionStatus.pending, paymentStatus: PaymentStatus.pending }
+    ]
+  };
+}
+
+/**
+ * Held seats of a session that have not been booked or lapsed yet
+ */
+function liveHolds(date: string, slot: SessionSlot): Prisma.WaitlistEntryWhereInput {
+  return {
+    date,
+    slot,
+    meetingId: null,
+    status: WAITLIST_STATUSES.PROMOTED,
+    holdExpiresAt: { gt: new Date() }
+  };
+}
+
+/**
+ * Get the seats of a session
+ * @param date Session day as yyyy-MM-dd
+ * @param slot Session slot
+ * @returns Capacity, seats taken and left, and the length of the waitlist
+ */
+export async function getSessionAvailability(date: string, slot: SessionSlot): Promise<SessionAvailability> {
+  const [meeting, members, holds, waiting] = await Promise.all([
+    findSessionMeeting(date, slot),
+    prisma.subscription.findMany({
+      where: seatHoldingSubscriptions(date, slot),
+      distinct: ['userId'],
+      select: { userId: true }
+    }),
+    prisma.waitlistEntry.count({ where: liveHolds(date, slot) }),
+    prisma.waitlistEntry.count({ where: { date, slot, status: WAITLIST_STATUSES.WAITING } })
+  ]);
+
+  const capacity = meeting ? getMeetingCapacity(meeting) : getSlotCapacity(slot);
+  const booked = members.length + holds;
+  return {
+    date,
+    slot,
+    capacity,
+    booked,
+    remaining: capacity === null ? null : Math.max(capacity - booked, 0),
+    waiting
+  };
+}
+
+/**
+ * Check whether seats can be booked in a session. A member promoted from the
+ * waitlist may always book the seat held for them.
+ * @param userId Member booking
+ * @param date Session day as yyyy-MM-dd
+ * @param slot Session slot
+ * @param seats Seats needed (group plans book one per member)
+ * @returns Whether the booking fits, the session's seats and the member's held seat, if any
+ */
+export async function checkSessionSeats({
+  userId,
+  date,
+  slot,
+  seats = 1
+}: {
+  userId: string;
+  date: string;
+  slot: SessionSlot;
+  seats?: number;
+}): Promise<{ allowed: boolean; availability: SessionAvailability; hold: WaitlistEntry | null }> {
+  const [availability, hold] = await Promise.all([
+    getSessionAvailability(date, slot),
+    prisma.waitlistEntry.findFirst({ where: { ...liveHolds(date, slot), userId } })
+  ]);
+
+  // The held seat is already counted as taken
+  const free = (availability.remaining ?? Infinity) + (hold ? 1 : 0);
+  return { allowed: free >= seats, availability, hold };
+}
+
+/**
+ * Turn a held seat into a booking once the member has checked out
+ * @param entryId Waitlist entry holding the seat
+ */
+export async function markHoldBooked(entryId: string): Promise<void> {
+  await prisma.waitlistEntry.update({
+    where: { id: entryId },
+    data: { status: WAITLIST_STATUSES.BOOKED, holdExpiresAt: null }
+  });
+}
+
+/**
+ * Position of a waiting entry in its session's queue
+ */
+async function getWaitlistPosition(entry: WaitlistEntry): Promise<number> {
+  return prisma.waitlistEntry.count({
+    where: {
+      date: entry.date,
+      slot: entry.slot,
+      status: WAITLIST_STATUSES.WAITING,
+      createdAt: { lte: entry.createdAt }
+    }
+  });
+}
+
+/**
+ * Put someone who could not book a full session on its waitlist
+ * @param userId Member to add
+ * @param date Session day as yyyy-MM-dd
+ * @param slot Session slot
+ * @returns Waitlist result with the entry and its position
+ */
+export async function joinWaitlist({
+  userId,
+  date,
+  slot
+}: {
+  userId: string;
+  date: string;
+  slot: SessionSlot;
+}): Promise<WaitlistResult> {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+  if (date < today.toISOString().split('T')[0]) {
+    return { success: false, message: `${date} is in the past`, entry: null };
+  }
+
+  const { allowed } = await checkSessionSeats({ userId, date, slot });
+  if (allowed) {
+    return { success: false, message: "Seats are available for this session; please book directly", entry: null };
+  }
+
+  const existing = await prisma.waitlistEntry.findUnique({
+    where: { userId_date_slot: { userId, date, slot } }
+  });
+  if (existing?.status === WAITLIST_STATUSES.WAITING) {
+    return {
+      success: true,
+      message: "You are already on the waitlist for this session",
+      entry: existing,
+      position: await getWaitlistPosition(existing)
+    };
+  }
+
+  // Joining again after a lapsed hold goes to the back of the queue
+  const entry = await prisma.waitlistEntry.upsert({
+    where: { userId_date_slot: { userId, date, slot } },
+    create: { userId, date, slot },
+    update: {
+      status: WAITLIST_STATUSES.WAITING,
+      meetingId: null,
+      promotedAt: null,
+      holdExpiresAt: null,
+      createdAt: new Date()
+    }
+  });
+
+  return {
+    success: true,
+    message: "Added to the waitlist; we will email you when a seat opens up",
+    entry,
+    position: await getWaitlistPosition(entry)
+  };
+}
+
+/**
+ * Queue members with a booking who did not fit in a full meeting, and tell
+ * them they are waitlisted
+ * @param meeting Full meeting
+ * @param userIds Members left out
+ * @returns Number of members queued
+ */
+export async function waitlistForMeeting(
+  meeting: Pick<Meeting, 'id' | 'meetingDate' | 'slot'>,
+  userIds: string[]
+): Promise<number> {
+  const date = getMeetingDay(meeting);
+  const slot = meeting.slot as SessionSlot;
+  const users = await prisma.user.findMany({ where: { id: { in: userIds } } });
+
+  for (const user of users) {
+    const existing = await prisma.waitlistEntry.findUnique({
+      where: { userId_date_slot: { userId: user.id, date, slot } }
+    });
+    if (existing?.status === WAITLIST_STATUSES.WAITING) continue;
+
+    const entry = await prisma.waitlistEntry.upsert({
+      where: { userId_date_slot: { userId: user.id, date, slot } },
+      create: { userId: user.id, date, slot, meetingId: meeting.id },
+      update: {
+        status: WAITLIST_STATUSES.WAITING,
+        meetingId: meeting.id,
+        promotedAt: null,
+        holdExpiresAt: null,
+        createdAt: new Date()
+      }
+    });
+
+    await sendWaitlistedEmail({
+      recipient: { name: `${user.firstName} ${user.lastName}`.trim(), email: user.email },
+      sessionDate: date,
+      slotLabel: SESSION_SLOT_LABELS[slot] || slot,
+      position: await getWaitlistPosition(entry)
+    });
+  }
+
+  return users.length;
+}
+
+/**
+ * Give the free seats of a session to the people at the front of its
+ * waitlist and email them
+ * @param date Session day as yyyy-MM-dd
+ * @param slot Session slot
+ * @returns Number of people promoted
+ */
+export async function promoteWaitlist(date: string, slot: SessionSlot): Promise<number> {
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: { date, slot, status: WAITLIST_STATUSES.WAITING },
+    include: { user: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  if (waiting.length === 0) return 0;
+
+  const slotLabel = SESSION_SLOT_LABELS[slot] || slot;
+  let promoted = 0;
+
+  // Members with a booking take free seats in the meeting, unless the
+  // session was cancelled
+  const meeting = await findSessionMeeting(date, slot);
+  const booked = waiting.filter(entry => entry.meetingId);
+  if (meeting && !meeting.cancelledAt && booked.length > 0) {
+    const capacity = getMeetingCapacity(meeting);
+    const free = capacity === null ? booked.length : Math.max(capacity - (meeting.users?.length || 0), 0);
+    const admitted = booked.slice(0, free);
+    if (admitted.length > 0) {
+      const updated = await manageMeeting({
+        date,
+        slot,
+        userIds: admitted.map(entry => entry.userId),
+        operation: 'get',
+        syncFromCalendar: false
+      });
+      const inMeeting = new Set(updated.users?.map(user => user.id) || []);
+
+      for (const entry of admitted) {
+        if (!inMeeting.has(entry.userId)) continue;
+        await prisma.waitlistEntry.update({
+          where: { id: entry.id },
+          data: { status: WAITLIST_STATUSES.PROMOTED, promotedAt: new Date() }
+        });
+        await sendWaitlistPromotedEmail({
+          recipient: { name: `${entry.user.firstName} ${entry.user.lastName}`.trim(), email: entry.user.email },
+          sessionDate: date,
+          slotLabel,
+          meetingLink: getJoinUrl(updated.id, entry.userId, updated.endTime) || updated.meetingLink
+        });
+        promoted++;
+      }
+    }
+  }
+
+  // People without a booking are held one of the seats left
+  const unbooked = waiting.filter(entry => !entry.meetingId);
+  if (unbooked.length > 0) {
+    const { remaining } = await getSessionAvailability(date, slot);
+    const holdExpiresAt = new Date(Date.now() + WAITLIST_HOLD_HOURS * 60 * 60 * 1000);
+    for (const entry of unbooked.slice(0, remaining ?? unbooked.length)) {
+      await prisma.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WAITLIST_STATUSES.PROMOTED, promotedAt: new Date(), holdExpiresAt }
+      });
+      await sendWaitlistPromotedEmail({
+        recipient: { name: `${entry.user.firstName} ${entry.user.lastName}`.trim(), email: entry.user.email },
+        sessionDate: date,
+        slotLabel,
+        bookingUrl: getBookingUrl(),
+        holdExpiresAt
+      });
+      promoted++;
+    }
+  }
+
+  return promoted;
+}
+
+/**
+ * Hand the seats of a cancelled subscription to the waitlists of its
+ * remaining session days
+ * @param subscription Cancelled subscription
+ * @returns Number of people promoted
+ */
+export async function releaseSubscriptionSeats(
+  subscription: Pick<Subscription, 'slot' | 'startDate' | 'endDate'>
+): Promise<number> {
+  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' })).toISOString().split('T')[0];
+  const from = subscription.startDate.toISOString().split('T')[0];
+  const sessions = await prisma.waitlistEntry.findMany({
+    where: {
+      slot: subscription.slot,
+      status: WAITLIST_STATUSES.WAITING,
+      date: { gte: from > today ? from : today, lt: subscription.endDate.toISOString().split('T')[0] }
+    },
+    distinct: ['date'],
+    select: { date: true }
+  });
+
+  let promoted = 0;
+  for (const { date } of sessions) {
+    promoted += await promoteWaitlist(date, subscription.slot as SessionSlot);
+  }
+  return promoted;
+}
+
+/**
+ * Lapse held seats that were not booked in time and waitlist entries of past
+ * sessions, then give the freed seats to the next people in line
+ * @param today Today as yyyy-MM-dd (IST)
+ * @returns Number of entries expired and people promoted
+ */
+export async function processWaitlists(today: string): Promise<{ expired: number; promoted: number }> {
+  const lapsedHolds = await prisma.waitlistEntry.updateMany({
+    where: { status: WAITLIST_STATUSES.PROMOTED, meetingId: null, holdExpiresAt: { lte: new Date() } },
+    data: { status: WAITLIST_STATUSES.EXPIRED }
+  });
+  const pastSessions = await prisma.waitlistEntry.updateMany({
+    where: { status: WAITLIST_STATUSES.WAITING, date: { lt: today } },
+    data: { status: WAITLIST_STATUSES.EXPIRED }
+  });
+
+  const sessions = await prisma.waitlistEntry.findMany({
+    where: { status: WAITLIST_STATUSES.WAITING },
+    distinct: ['date', 'slot'],
+    select: { date: true, slot: true }
+  });
+
+  let promoted = 0;
+  for (const { date, slot } of sessions) {
+    promoted += await promoteWaitlist(date, slot as SessionSlot);
+  }
+  return { expired: lapsedHolds.count + pastSessions.count, promoted };
+}
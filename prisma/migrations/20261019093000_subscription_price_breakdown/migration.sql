@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "discountAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "listPrice" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing subscriptions were sold at list price
+UPDATE "Subscription" SET "listPrice" = "price";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "refundAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundRef" TEXT,
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
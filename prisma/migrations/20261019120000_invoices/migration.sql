@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "billingState" TEXT;
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "paymentRef" TEXT,
+    "userId" TEXT NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "customerEmail" TEXT NOT NULL,
+    "customerPhone" TEXT,
+    "placeOfSupply" TEXT NOT NULL,
+    "sellerGstin" TEXT,
+    "sacCode" TEXT NOT NULL,
+    "lineItems" JSONB NOT NULL,
+    "couponCode" TEXT,
+    "discountAmount" INTEGER NOT NULL DEFAULT 0,
+    "taxableValue" INTEGER NOT NULL,
+    "cgst" INTEGER NOT NULL DEFAULT 0,
+    "sgst" INTEGER NOT NULL DEFAULT 0,
+    "igst" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL,
+    "pdf" BYTEA NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceCounter" (
+    "financialYear" TEXT NOT NULL,
+    "lastSequence" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceCounter_pkey" PRIMARY KEY ("financialYear")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_invoiceNumber_key" ON "Invoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orderId_key" ON "Invoice"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_userId_idx" ON "Invoice"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_financialYear_sequence_key" ON "Invoice"("financialYear", "sequence");
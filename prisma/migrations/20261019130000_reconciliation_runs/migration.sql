@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL DEFAULT 'cron',
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "staleAfterMinutes" INTEGER NOT NULL,
+    "ordersChecked" INTEGER NOT NULL DEFAULT 0,
+    "ordersActivated" INTEGER NOT NULL DEFAULT 0,
+    "ordersExpired" INTEGER NOT NULL DEFAULT 0,
+    "ordersSkipped" INTEGER NOT NULL DEFAULT 0,
+    "ordersFailed" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "planPriceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Plan" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "seats" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "displayOrder" INTEGER NOT NULL DEFAULT 0,
+    "availableFrom" TIMESTAMP(3),
+    "availableUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Plan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlanPrice" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlanPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_key_key" ON "Plan"("key");
+
+-- CreateIndex
+CREATE INDEX "PlanPrice_planId_effectiveFrom_idx" ON "PlanPrice"("planId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_planPriceId_fkey" FOREIGN KEY ("planPriceId") REFERENCES "PlanPrice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanPrice" ADD CONSTRAINT "PlanPrice_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the catalogue with the plans previously hard-coded in lib/pricing.ts
+INSERT INTO "Plan" ("id", "key", "name", "description", "duration", "seats", "displayOrder", "updatedAt") VALUES
+    ('plan_daily', 'daily', 'Daily Session', 'Experience a transformative daily session that will introduce you to powerful goal-setting techniques. Choose any date that works for you and begin your journey to achieving what matters most in your life.', 1, 1, 1, CURRENT_TIMESTAMP),
+    ('plan_monthly', 'monthly', 'Monthly Plan', 'Maintain momentum with daily access for a full month. This consistent approach delivers superior results, keeping you motivated and accountable every step of your journey. Enjoy significant savings compared to daily sessions.', 30, 1, 2, CURRENT_TIMESTAMP),
+    ('plan_comboPlan', 'comboPlan', 'Combo Plan', 'Share the journey with someone important in your life! This plan offers full access for two people, with savings over two individual memberships. Perfect for couples, friends, or colleagues who want to achieve goals together.', 30, 2, 3, CURRENT_TIMESTAMP);
+
+INSERT INTO "PlanPrice" ("id", "planId", "amount", "effectiveFrom") VALUES
+    ('price_daily_initial', 'plan_daily', 299, '2025-01-01 00:00:00'),
+    ('price_monthly_initial', 'plan_monthly', 2499, '2025-01-01 00:00:00'),
+    ('price_comboPlan_initial', 'plan_comboPlan', 3999, '2025-01-01 00:00:00');
@@ -0,0 +1,87 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "groupOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GroupOrder" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "purchaserId" TEXT NOT NULL,
+    "planType" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GroupSeat" (
+    "id" TEXT NOT NULL,
+    "groupOrderId" TEXT NOT NULL,
+    "seatNumber" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "claimToken" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'invited',
+    "subscriptionId" TEXT,
+    "invitedAt" TIMESTAMP(3),
+    "claimedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupSeat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupOrder_orderId_key" ON "GroupOrder"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_claimToken_key" ON "GroupSeat"("claimToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_subscriptionId_key" ON "GroupSeat"("subscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_groupOrderId_seatNumber_key" ON "GroupSeat"("groupOrderId", "seatNumber");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_groupOrderId_fkey" FOREIGN KEY ("groupOrderId") REFERENCES "GroupOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupOrder" ADD CONSTRAINT "GroupOrder_purchaserId_fkey" FOREIGN KEY ("purchaserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupSeat" ADD CONSTRAINT "GroupSeat_groupOrderId_fkey" FOREIGN KEY ("groupOrderId") REFERENCES "GroupOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupSeat" ADD CONSTRAINT "GroupSeat_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Group existing combo orders: the first subscription of the order is the purchaser
+WITH "members" AS (
+    SELECT s.*, ROW_NUMBER() OVER (PARTITION BY s."orderId" ORDER BY s."createdAt", s."id") AS "seatNumber",
+           COUNT(*) OVER (PARTITION BY s."orderId") AS "seatCount"
+    FROM "Subscription" s
+    WHERE s."orderId" <> ''
+)
+INSERT INTO "GroupOrder" ("id", "orderId", "purchaserId", "planType", "seats", "startDate", "endDate", "status", "createdAt", "updatedAt")
+SELECT 'group_' || m."orderId", m."orderId", m."userId", m."planType", m."seatCount", m."startDate", m."endDate",
+       CASE WHEN m."paymentStatus" IN ('success', 'completed', 'paid', 'refunded', 'partially-refunded') THEN 'paid'
+            WHEN m."paymentStatus" = 'pending' THEN 'pending'
+            ELSE 'failed' END,
+       m."createdAt", CURRENT_TIMESTAMP
+FROM "members" m
+WHERE m."seatNumber" = 1 AND m."seatCount" > 1;
+
+UPDATE "Subscription" s SET "groupOrderId" = g."id"
+FROM "GroupOrder" g
+WHERE s."orderId" = g."orderId";
+
+INSERT INTO "GroupSeat" ("id", "groupOrderId", "seatNumber", "email", "claimToken", "status", "subscriptionId", "claimedAt", "createdAt", "updatedAt")
+SELECT 'seat_' || s."id", s."groupOrderId",
+       ROW_NUMBER() OVER (PARTITION BY s."groupOrderId" ORDER BY s."createdAt", s."id"),
+       u."email", md5(random()::text || s."id"), 'claimed', s."id", s."createdAt", s."createdAt", CURRENT_TIMESTAMP
+FROM "Subscription" s
+JOIN "User" u ON u."id" = s."userId"
+WHERE s."groupOrderId" IS NOT NULL;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "creditAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PlanConversion" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromSubscriptionId" TEXT NOT NULL,
+    "toSubscriptionId" TEXT NOT NULL,
+    "fromPlanType" TEXT NOT NULL,
+    "toPlanType" TEXT NOT NULL,
+    "creditAmount" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PlanConversion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlanConversion_orderId_idx" ON "PlanConversion"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PlanConversion_fromSubscriptionId_idx" ON "PlanConversion"("fromSubscriptionId");
+
+-- CreateIndex
+CREATE INDEX "PlanConversion_toSubscriptionId_idx" ON "PlanConversion"("toSubscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "PlanConversion" ADD CONSTRAINT "PlanConversion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanConversion" ADD CONSTRAINT "PlanConversion_fromSubscriptionId_fkey" FOREIGN KEY ("fromSubscriptionId") REFERENCES "Subscription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanConversion" ADD CONSTRAINT "PlanConversion_toSubscriptionId_fkey" FOREIGN KEY ("toSubscriptionId") REFERENCES "Subscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
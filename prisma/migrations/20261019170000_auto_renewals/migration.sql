@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "autoRenewalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AutoRenewal" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "planType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "razorpayCustomerId" TEXT NOT NULL,
+    "razorpayTokenId" TEXT,
+    "maxAmount" INTEGER NOT NULL,
+    "mandateExpiresAt" TIMESTAMP(3) NOT NULL,
+    "manageToken" TEXT NOT NULL,
+    "nextRenewalAt" TIMESTAMP(3),
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lastAttemptAt" TIMESTAMP(3),
+    "lastFailedOrderId" TEXT,
+    "lastFailureReason" TEXT,
+    "stoppedAt" TIMESTAMP(3),
+    "stoppedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutoRenewal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AutoRenewal_manageToken_key" ON "AutoRenewal"("manageToken");
+
+-- CreateIndex
+CREATE INDEX "AutoRenewal_status_nextRenewalAt_idx" ON "AutoRenewal"("status", "nextRenewalAt");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_autoRenewalId_fkey" FOREIGN KEY ("autoRenewalId") REFERENCES "AutoRenewal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutoRenewal" ADD CONSTRAINT "AutoRenewal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN     "maxPauseDays" INTEGER NOT NULL DEFAULT 0;
+
+-- Monthly members may pause for up to a week
+UPDATE "Plan" SET "maxPauseDays" = 7 WHERE "key" = 'monthly';
+
+-- CreateTable
+CREATE TABLE "SubscriptionPause" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "days" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "SubscriptionPause_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPause_subscriptionId_idx" ON "SubscriptionPause"("subscriptionId");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPause_startDate_endDate_idx" ON "SubscriptionPause"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionPause" ADD CONSTRAINT "SubscriptionPause_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
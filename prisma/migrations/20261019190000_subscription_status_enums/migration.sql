@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('pending', 'active', 'paused', 'expired', 'cancelled', 'refunded', 'upgraded');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('pending', 'success', 'failed', 'refunded', 'partially_refunded', 'admin_added');
+
+-- Normalise payment statuses
+UPDATE "Subscription" SET "paymentStatus" = 'success' WHERE "paymentStatus" IN ('completed', 'paid');
+UPDATE "Subscription" SET "paymentStatus" = 'admin_added' WHERE "paymentStatus" IN ('admin-added', 'admin-created', '');
+UPDATE "Subscription" SET "paymentStatus" = 'partially_refunded' WHERE "paymentStatus" = 'partially-refunded';
+UPDATE "Subscription" SET "paymentStatus" = 'failed'
+WHERE "paymentStatus" NOT IN ('pending', 'success', 'failed', 'refunded', 'partially_refunded', 'admin_added');
+
+-- Normalise subscription statuses
+UPDATE "Subscription" SET "status" = 'cancelled' WHERE "status" = 'canceled';
+UPDATE "Subscription" SET "status" = 'pending' WHERE "status" = 'inactive';
+-- Refunds used to leave the subscription cancelled
+UPDATE "Subscription" SET "status" = 'refunded' WHERE "status" = 'cancelled' AND "refundAmount" > 0;
+-- Anything else is placed by its payment and dates
+UPDATE "Subscription" SET "status" = CASE
+    WHEN "paymentStatus" IN ('pending', 'failed') THEN 'pending'
+    WHEN "endDate" < CURRENT_DATE THEN 'expired'
+    ELSE 'active'
+  END
+WHERE "status" NOT IN ('pending', 'active', 'paused', 'expired', 'cancelled', 'refunded', 'upgraded');
+-- Live subscriptions that have already ended
+UPDATE "Subscription" SET "status" = 'expired' WHERE "status" = 'active' AND "endDate" < CURRENT_DATE;
+
+-- Unlimited subscriptions granted by admins were stored with an upper-case plan type
+UPDATE "Subscription" SET "planType" = 'unlimited' WHERE "planType" = 'UNLIMITED';
+
+-- AlterTable
+ALTER TABLE "Subscription" ALTER COLUMN "status" TYPE "SubscriptionStatus" USING ("status"::"SubscriptionStatus"),
+ALTER COLUMN "status" SET DEFAULT 'pending',
+ALTER COLUMN "paymentStatus" TYPE "PaymentStatus" USING ("paymentStatus"::"PaymentStatus"),
+ALTER COLUMN "paymentStatus" SET DEFAULT 'pending';
+
+-- Reject status changes the lifecycle does not allow, whoever makes them
+CREATE FUNCTION "subscription_status_transition_check"() RETURNS trigger AS $$
+BEGIN
+  IF NEW."status" <> OLD."status" AND NOT (
+    (OLD."status" = 'pending' AND NEW."status" IN ('active', 'expired', 'cancelled')) OR
+    (OLD."status" = 'active' AND NEW."status" IN ('paused', 'expired', 'cancelled', 'refunded', 'upgraded')) OR
+    (OLD."status" = 'paused' AND NEW."status" IN ('active', 'expired', 'cancelled', 'refunded')) OR
+    (OLD."status" = 'expired' AND NEW."status" IN ('active', 'refunded')) OR
+    (OLD."status" = 'cancelled' AND NEW."status" = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Subscription % cannot move from % to %', OLD."id", OLD."status", NEW."status";
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Subscription_status_transition"
+BEFORE UPDATE OF "status" ON "Subscription"
+FOR EACH ROW EXECUTE FUNCTION "subscription_status_transition_check"();
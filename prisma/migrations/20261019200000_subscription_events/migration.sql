@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "SubscriptionEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "subscriptionId" TEXT,
+    "meetingId" TEXT,
+    "type" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubscriptionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SubscriptionEvent_userId_createdAt_idx" ON "SubscriptionEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionEvent_subscriptionId_idx" ON "SubscriptionEvent"("subscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionEvent" ADD CONSTRAINT "SubscriptionEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- History is append-only; rows only go away with the member they belong to
+CREATE FUNCTION "subscription_event_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'SubscriptionEvent rows cannot be updated';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "SubscriptionEvent_append_only"
+BEFORE UPDATE ON "SubscriptionEvent"
+FOR EACH ROW EXECUTE FUNCTION "subscription_event_append_only"();
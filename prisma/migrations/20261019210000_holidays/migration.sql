@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "extendSubscriptions" BOOLEAN NOT NULL DEFAULT true,
+    "extendedAt" TIMESTAMP(3),
+    "subscriptionsExtended" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Holiday_date_key" ON "Holiday"("date");
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "Meeting_meetingDate_key";
+
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "slot" TEXT NOT NULL DEFAULT 'evening';
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "slot" TEXT NOT NULL DEFAULT 'evening';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Meeting_meetingDate_slot_key" ON "Meeting"("meetingDate", "slot");
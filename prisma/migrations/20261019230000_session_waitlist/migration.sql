@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "capacity" INTEGER;
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "slot" TEXT NOT NULL DEFAULT 'evening',
+    "meetingId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "promotedAt" TIMESTAMP(3),
+    "holdExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_date_slot_status_idx" ON "WaitlistEntry"("date", "slot", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_userId_date_slot_key" ON "WaitlistEntry"("userId", "date", "slot");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "JoinLinkClick" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "allowed" BOOLEAN NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JoinLinkClick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JoinLinkClick_meetingId_userId_idx" ON "JoinLinkClick"("meetingId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "JoinLinkClick" ADD CONSTRAINT "JoinLinkClick_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JoinLinkClick" ADD CONSTRAINT "JoinLinkClick_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
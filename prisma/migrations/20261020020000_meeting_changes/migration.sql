@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
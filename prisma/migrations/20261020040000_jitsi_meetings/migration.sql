@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "jitsiHostUrl" TEXT,
+ADD COLUMN     "jitsiRoomName" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "CalendarSyncState" (
+    "calendarId" TEXT NOT NULL,
+    "syncToken" TEXT,
+    "lastSyncedAt" TIMESTAMP(3),
+    "syncStartedAt" TIMESTAMP(3),
+    "resyncRequested" BOOLEAN NOT NULL DEFAULT false,
+    "channelId" TEXT,
+    "channelResourceId" TEXT,
+    "channelToken" TEXT,
+    "channelExpiresAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarSyncState_pkey" PRIMARY KEY ("calendarId")
+);
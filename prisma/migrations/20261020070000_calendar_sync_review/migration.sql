@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CalendarSyncState" ADD COLUMN     "heldChanges" INTEGER NOT NULL DEFAULT 0;
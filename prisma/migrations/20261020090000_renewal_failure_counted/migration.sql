@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "renewalFailureCountedAt" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- DropForeignKey
+ALTER TABLE "SubscriptionEvent" DROP CONSTRAINT "SubscriptionEvent_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "SubscriptionEvent" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionEvent" ADD CONSTRAINT "SubscriptionEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- History is append-only; deleting a member only detaches their events
+CREATE OR REPLACE FUNCTION "subscription_event_append_only"() RETURNS trigger AS $$
+BEGIN
+  IF NEW."userId" IS NULL AND (to_jsonb(NEW) - 'userId') = (to_jsonb(OLD) - 'userId') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'SubscriptionEvent rows cannot be updated';
+END;
+$$ LANGUAGE plpgsql;
@@ -9,6 +9,7 @@ const requiredEnvVars = [
   { name: 'DATABASE_URL', description: 'PostgreSQL database connection URL' },
   { name: 'NEXT_PUBLIC_RAZORPAY_KEY_ID', description: 'Razorpay Key ID for payment processing' },
   { name: 'RAZORPAY_KEY_SECRET', description: 'Razorpay Secret Key for payment processing' },
+  { name: 'RAZORPAY_WEBHOOK_SECRET', description: 'Razorpay webhook secret for verifying payment events' },
   { name: 'ADMIN_PASSCODE', description: 'Admin panel access code' },
   { name: 'ADMIN_EMAIL', description: 'Admin email for authentication and notifications' },
   { name: 'EMAIL_PASSWORD', description: 'SMTP email password' },
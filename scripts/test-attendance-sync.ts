@@ -0,0 +1,175 @@
+/**
+ * Check the Attendance rows written by the daily attendance sync
+ * Usage: tsx scripts/test-attendance-sync.ts
+ * Creates test members and a past meeting in DATABASE_URL, seeds participant
+ * records in the fake attendance fetcher and syncs the day twice.
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../lib/prisma';
+import {
+  ATTENDANCE_SOURCES,
+  createFakeAttendanceFetcher,
+  syncAttendanceForDate,
+  type ParticipantRecord
+} from '../lib/attendance';
+import { SESSION_SLOTS } from '../lib/sessionSlots';
+
+dotenv.config();
+
+// Attendance is only taken once a session has started; far enough back not
+// to clash with a real meeting of the same day and slot
+const TEST_DAY = '2000-01-01';
+const START = new Date(`${TEST_DAY}T21:00:00.000+05:30`);
+const END = new Date(`${TEST_DAY}T22:00:00.000+05:30`);
+const at = (minutes: number) => new Date(START.getTime() + minutes * 60 * 1000);
+
+const results: { test: string; passed: boolean; details?: any }[] = [];
+
+function addResult(test: string, passed: boolean, details?: any) {
+  results.push({ test, passed, details });
+  console.log(`${passed ? '✅ PASS' : '❌ FAIL'}: ${test}`);
+  if (details) console.log('   Details:', JSON.stringify(details));
+}
+
+async function createFixtures() {
+  const stamp = Date.now();
+  const createMember = (firstName: string) => prisma.user.create({
+    data: {
+      firstName,
+      lastName: 'Attendance',
+      email: `attendance-test-${firstName.toLowerCase()}-${stamp}@example.com`,
+      phone: '0000000000',
+      source: 'test'
+    }
+  });
+  const rejoiner = await createMember('Rejoiner');
+  const namedOnly = await createMember('Named');
+  const checkedIn = await createMember('Checked');
+  const absent = await createMember('Absent');
+  const users = [rejoiner, namedOnly, checkedIn, absent];
+
+  const meeting = await prisma.meeting.create({
+    data: {
+      meetingDate: new Date(TEST_DAY),
+      slot: SESSION_SLOTS.EVENING,
+      platform: 'google-meet',
+      meetingLink: 'https://meet.invalid/attendance-sync-test',
+      startTime: START,
+      endTime: END,
+      createdBy: 'test',
+      users: { connect: users.map(user => ({ id: user.id })) }
+    }
+  });
+
+  // Checked in by an admin before the sync runs
+  await prisma.attendance.create({
+    data: { meetingId: meeting.id, userId: checkedIn.id, source: ATTENDANCE_SOURCES.MANUAL }
+  });
+
+  return { meeting, users, rejoiner, namedOnly, checkedIn, absent };
+}
+
+type Fixtures = Awaited<ReturnType<typeof createFixtures>>;
+
+function seedParticipants(fixtures: Fixtures): ParticipantRecord[] {
+  return [
+    // Dropped out and came back: two stretches, 30 and 20 minutes
+    { email: fixtures.rejoiner.email.toUpperCase(), joinedAt: at(0), leftAt: at(30) },
+    { email: fixtures.rejoiner.email, joinedAt: at(35), leftAt: at(55) },
+    // Signed in without an email, matched by name
+    { name: 'named  attendance', joinedAt: at(5), leftAt: at(60) },
+    // Present on the platform, but checked in by hand already
+    { email: fixtures.checkedIn.email, joinedAt: at(0), leftAt: at(60) },
+    { name: 'Guest Visitor', joinedAt: at(10), leftAt: at(20) }
+  ];
+}
+
+async function attendanceRows(meetingId: string) {
+  return prisma.attendance.findMany({ where: { meetingId }, orderBy: { userId: 'asc' } });
+}
+
+async function testFirstSync(fixtures: Fixtures) {
+  const fetcher = createFakeAttendanceFetcher({ [fixtures.meeting.id]: seedParticipants(fixtures) });
+  const summary = await syncAttendanceForDate(TEST_DAY, fetcher);
+  addResult('Sync takes attendance for the day\'s meeting', summary.meetings === 1 && summary.recorded === 2, summary);
+
+  const rows = await attendanceRows(fixtures.meeting.id);
+  const rowOf = (userId: string) => rows.find(row => row.userId === userId);
+  addResult('One Attendance row per attending member', rows.length === 3, rows.map(row => ({ userId: row.userId, source: row.source })));
+
+  const rejoiner = rowOf(fixtures.rejoiner.id);
+  addResult(
+    'Rejoins are merged into one row with the summed duration',
+    rejoiner?.source === ATTENDANCE_SOURCES.GOOGLE_MEET
+      && rejoiner.durationMinutes === 50
+      && rejoiner.joinedAt?.getTime() === at(0).getTime()
+      && rejoiner.leftAt?.getTime() === at(55).getTime(),
+    rejoiner
+  );
+
+  const namedOnly = rowOf(fixtures.namedOnly.id);
+  addResult('Participants without an email are matched by name', namedOnly?.durationMinutes === 55, namedOnly);
+
+  const checkedIn = rowOf(fixtures.checkedIn.id);
+  addResult('Manual check-ins are kept as they are', checkedIn?.source === ATTENDANCE_SOURCES.MANUAL && checkedIn.durationMinutes === null, checkedIn);
+
+  addResult('Absent members get no row', !rowOf(fixtures.absent.id));
+
+  const meeting = await prisma.meeting.findUnique({ where: { id: fixtures.meeting.id } });
+  addResult('Meeting is marked as having attendance taken', !!meeting?.attendanceTakenAt, { attendanceTakenAt: meeting?.attendanceTakenAt });
+
+  return rows;
+}
+
+async function testRepeatSync(fixtures: Fixtures, firstRows: Awaited<ReturnType<typeof attendanceRows>>) {
+  const fetcher = createFakeAttendanceFetcher({ [fixtures.meeting.id]: seedParticipants(fixtures) });
+  const snapshot = (rows: typeof firstRows) => rows.map(row => `${row.userId}:${row.source}:${row.durationMinutes}`).join(',');
+
+  // The daily job runs again the same day
+  const repeat = await syncAttendanceForDate(TEST_DAY, fetcher);
+  const afterRepeat = await attendanceRows(fixtures.meeting.id);
+  addResult('Repeat sync skips a meeting with attendance taken', repeat.meetings === 0 && repeat.recorded === 0, repeat);
+  addResult('Repeat sync leaves the rows unchanged', snapshot(afterRepeat) === snapshot(firstRows), afterRepeat.map(row => row.id));
+
+  // Retaking attendance updates the rows in place
+  await prisma.meeting.update({ where: { id: fixtures.meeting.id }, data: { attendanceTakenAt: null } });
+  const retake = await syncAttendanceForDate(TEST_DAY, fetcher);
+  const afterRetake = await attendanceRows(fixtures.meeting.id);
+  addResult(
+    'Retaking attendance does not duplicate rows',
+    retake.meetings === 1 && retake.recorded === 2 && snapshot(afterRetake) === snapshot(firstRows),
+    { retake, rows: afterRetake.length }
+  );
+}
+
+async function runTests() {
+  console.log('🚀 Testing the daily attendance sync\n');
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL must be set');
+    process.exit(1);
+  }
+
+  let fixtures: Fixtures | null = null;
+  try {
+    fixtures = await createFixtures();
+    const rows = await testFirstSync(fixtures);
+    await testRepeatSync(fixtures, rows);
+  } catch (error) {
+    console.error('❌ Error testing attendance sync:', error);
+    addResult('Test run completed', false, { error: String(error) });
+  } finally {
+    // Attendance goes with the meeting and its members
+    if (fixtures) {
+      await prisma.meeting.delete({ where: { id: fixtures.meeting.id } });
+      await prisma.user.deleteMany({ where: { id: { in: fixtures.users.map(user => user.id) } } });
+    }
+  }
+
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 ${results.length - failed}/${results.length} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,135 @@
+/**
+ * Check that tracked join links stop working once their session is cancelled
+ * Usage: tsx scripts/test-join-links.ts
+ * Needs DATABASE_URL. Creates a test member with a subscription and two
+ * meetings far in the future (one of them cancelled), follows a join link to
+ * each, and removes everything it created afterwards.
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../lib/prisma';
+import { JOIN_LINK_OUTCOMES, createJoinToken, resolveJoinLink } from '../lib/joinLinks';
+import { SESSION_SLOTS } from '../lib/sessionSlots';
+import { PaymentStatus, SubscriptionStatus } from '../lib/subscriptionStatus';
+
+dotenv.config();
+// Links are only signed with a secret, read when a link is made; any value works for the test
+process.env.JOIN_LINK_SECRET = process.env.JOIN_LINK_SECRET || 'test-join-link-secret';
+
+// Far enough ahead not to clash with a real meeting of the same day and slot
+const TEST_DAY = '2099-12-31';
+
+const results: { test: string; passed: boolean; details?: any }[] = [];
+
+function addResult(test: string, passed: boolean, details?: any) {
+  results.push({ test, passed, details });
+  console.log(`${passed ? '✅ PASS' : '❌ FAIL'}: ${test}`);
+  if (details) console.log('   Details:', JSON.stringify(details));
+}
+
+async function createFixtures() {
+  const user = await prisma.user.create({
+    data: {
+      firstName: 'Join',
+      lastName: 'Test',
+      email: `join-link-test-${Date.now()}@example.com`,
+      phone: '0000000000',
+      source: 'test'
+    }
+  });
+  await prisma.subscription.create({
+    data: {
+      userId: user.id,
+      planType: 'monthly',
+      startDate: new Date(),
+      endDate: new Date('2100-01-31'),
+      orderId: `order_JoinLinkTest${Date.now()}`,
+      status: SubscriptionStatus.active,
+      paymentStatus: PaymentStatus.success
+    }
+  });
+
+  const meetingData = (slot: string) => ({
+    meetingDate: new Date(TEST_DAY),
+    slot,
+    platform: 'google-meet',
+    meetingLink: `https://meet.invalid/join-link-test-${slot}`,
+    startTime: new Date(`${TEST_DAY}T21:00:00.000+05:30`),
+    endTime: new Date(`${TEST_DAY}T22:00:00.000+05:30`),
+    createdBy: 'test',
+    users: { connect: { id: user.id } }
+  });
+  const liveMeeting = await prisma.meeting.create({ data: meetingData(SESSION_SLOTS.EVENING) });
+  const cancelledMeeting = await prisma.meeting.create({
+    data: {
+      ...meetingData(SESSION_SLOTS.MORNING),
+      cancelledAt: new Date(),
+      cancellationReason: 'Coach unwell'
+    }
+  });
+
+  return { user, liveMeeting, cancelledMeeting };
+}
+
+async function testCancelledMeeting(userId: string, meetingId: string, endTime: Date) {
+  const result = await resolveJoinLink(createJoinToken(meetingId, userId, endTime)!);
+  addResult(
+    'Join link of a cancelled session is refused',
+    result.outcome === JOIN_LINK_OUTCOMES.CANCELLED && !result.meetingLink,
+    result
+  );
+
+  const attendance = await prisma.attendance.count({ where: { meetingId, userId } });
+  addResult('No attendance is recorded for a cancelled session', attendance === 0, { attendance });
+
+  const clicks = await prisma.joinLinkClick.findMany({ where: { meetingId, userId } });
+  addResult(
+    'The click is logged as not allowed',
+    clicks.length === 1 && !clicks[0].allowed,
+    clicks.map(click => ({ allowed: click.allowed }))
+  );
+}
+
+async function testLiveMeeting(userId: string, meetingId: string, endTime: Date) {
+  const result = await resolveJoinLink(createJoinToken(meetingId, userId, endTime)!);
+  addResult(
+    'Join link of a scheduled session redirects to the meeting',
+    result.outcome === JOIN_LINK_OUTCOMES.ALLOWED && !!result.meetingLink,
+    result
+  );
+
+  const attendance = await prisma.attendance.count({ where: { meetingId, userId } });
+  addResult('Joining a scheduled session records attendance', attendance === 1, { attendance });
+}
+
+async function runTests() {
+  console.log('🚀 Testing join links of cancelled sessions\n');
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL must be set');
+    process.exit(1);
+  }
+
+  let fixtures: Awaited<ReturnType<typeof createFixtures>> | null = null;
+  try {
+    fixtures = await createFixtures();
+    await testCancelledMeeting(fixtures.user.id, fixtures.cancelledMeeting.id, fixtures.cancelledMeeting.endTime);
+    await testLiveMeeting(fixtures.user.id, fixtures.liveMeeting.id, fixtures.liveMeeting.endTime);
+  } catch (error) {
+    console.error('❌ Error testing join links:', error);
+    addResult('Test run completed', false, { error: String(error) });
+  } finally {
+    // Attendance and clicks go with their meetings, subscription events with the user
+    if (fixtures) {
+      await prisma.meeting.deleteMany({ where: { id: { in: [fixtures.liveMeeting.id, fixtures.cancelledMeeting.id] } } });
+      await prisma.subscription.deleteMany({ where: { userId: fixtures.user.id } });
+      await prisma.user.delete({ where: { id: fixtures.user.id } });
+    }
+  }
+
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 ${results.length - failed}/${results.length} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
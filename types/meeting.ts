@@ -5,6 +5,8 @@ import type { User } from '@/generated/prisma';
 export interface MeetingWithUsers {
   id: string;
   meetingDate: Date;
+  slot: string;
+  capacity: number | null;
   platform: string;
   meetingLink: string;
   startTime: Date;
@@ -19,6 +21,12 @@ export interface MeetingWithUsers {
   googleEventId: string | null;
   zoomMeetingId: string | null;
   zoomStartUrl: string | null;
+  teamsEventId: string | null;
+  jitsiRoomName: string | null;
+  jitsiHostUrl: string | null;
+  sequence: number;
+  cancelledAt: Date | null;
+  cancellationReason: string | null;
 }
 
 // Response type for the meeting API